@@ -3,10 +3,22 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import OpenAI from 'openai';
 import { createProxyMiddleware } from 'http-proxy-middleware';
-import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { v4 as uuidv4 } from 'uuid';
+import { configureWebPush, isWebPushConfigured } from './server/push.js';
+import { configureSms } from './server/sms.js';
+import { createRequireUser } from './server/auth.js';
+import { analyzeDocumentPages, createExtractionProvider } from './server/documentAnalysis.js';
+import { isExtractedType } from './server/documentClassification.js';
+import { applyUnsubscribe, configureEmail, verifyUnsubscribeToken } from './server/email.js';
+import { renderUnsubscribeConfirmPage, renderUnsubscribePage } from './server/emailTemplates.js';
+import { startMonthlyDigest } from './server/monthlyDigest.js';
+import { startReminderScheduler } from './server/reminderScheduler.js';
+import { startRecallMonitor } from './server/recallMonitor.js';
+import { checkQuota, getMonthlyUsage, getQuota, recordUsage } from './server/usage.js';
+import { getOdometerUnit } from './server/units.js';
+import { toCurrencyCode } from './server/currency.js';
 
 // Load environment variables
 dotenv.config();
@@ -15,30 +27,28 @@ dotenv.config();
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Read the .env file directly to access VITE_ prefixed variables
-const envFile = fs.readFileSync(path.join(__dirname, '.env'), 'utf8');
-const envVars = envFile.split('\n').reduce((acc, line) => {
-  const match = line.match(/^VITE_OPENAI_API_KEY=(.*)$/);
-  if (match) {
-    acc.OPENAI_API_KEY = match[1];
-  }
-  return acc;
-}, {});
-
 const app = express();
 const PORT = process.env.API_PORT || 3005;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Document analysis requests carry page images, so allow bodies well above the 100kb default
+app.use(express.json({ limit: '25mb' }));
 
-// OpenAI client
-const openai = new OpenAI({
-  apiKey: envVars.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY,
-});
+// OpenAI client. The key is server-only; VITE_OPENAI_API_KEY is still read so
+// older .env files keep working, but anything prefixed VITE_ can end up in the bundle.
+if (!process.env.OPENAI_API_KEY && process.env.VITE_OPENAI_API_KEY) {
+  console.warn('VITE_OPENAI_API_KEY is deprecated; rename it to OPENAI_API_KEY so it is never exposed to the browser');
+}
+const openaiApiKey = process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY;
+const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
 
 // Log API key status (not the actual key)
-console.log(`OpenAI API key ${envVars.OPENAI_API_KEY ? 'found' : 'not found'} in .env file`);
+console.log(`OpenAI API key ${openaiApiKey ? 'found' : 'not found'}`);
+
+// Document extraction backend, chosen with EXTRACTION_PROVIDER (openai, tesseract or fixture)
+const extractionProvider = createExtractionProvider(openai);
+console.log(`Document extraction provider: ${extractionProvider.name}`);
 
 // Add required modules for downloading images and working with files
 import { createClient } from '@supabase/supabase-js';
@@ -63,6 +73,20 @@ const supabase = createClient(supabaseUrl, supabaseKey, {
   }
 });
 
+// Service-role client for background jobs that work across all users
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+const supabaseAdmin = supabaseServiceKey
+  ? createClient(supabaseUrl, supabaseServiceKey, { auth: { persistSession: false } })
+  : null;
+console.log('Supabase Service Key:', supabaseServiceKey ? 'Found' : 'Missing');
+
+configureWebPush();
+configureEmail();
+configureSms();
+
+// Verifies the Supabase access token sent by the frontend
+const requireUser = createRequireUser(supabaseUrl, supabaseKey);
+
 // Helper function to download image and upload to Supabase
 async function downloadAndStoreImage(url, vehicleId) {
   try {
@@ -181,7 +205,16 @@ app.get('/api/proxy-image', async (req, res) => {
   }
 });
 
-app.post('/api/generate-image', async (req, res) => {
+// Generated images count against the caller's monthly quota like document analysis
+const recordImageUsage = (req, model) => recordUsage(supabaseAdmin, {
+  userId: req.user.id,
+  feature: 'image_generation',
+  provider: 'openai',
+  model,
+  imageCount: 1,
+});
+
+app.post('/api/generate-image', requireUser, async (req, res) => {
   try {
     const { prompt, vehicleId } = req.body;
     
@@ -192,6 +225,31 @@ app.post('/api/generate-image', async (req, res) => {
     if (!vehicleId) {
       return res.status(400).json({ error: 'Vehicle ID is required' });
     }
+
+    // The image is stored on the vehicle, so only its owner may generate one
+    const { data: vehicle, error: vehicleError } = await req.supabase
+      .from('vehicles')
+      .select('id, user_id')
+      .eq('id', vehicleId)
+      .single();
+
+    if (vehicleError || !vehicle || vehicle.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'You do not have access to this vehicle' });
+    }
+
+    if (!openai) {
+      return res.status(503).json({ error: 'Image generation requires OPENAI_API_KEY' });
+    }
+
+    // Unrecorded requests wouldn't count against the quota
+    if (!supabaseAdmin) {
+      return res.status(503).json({ error: 'Image generation requires SUPABASE_SERVICE_ROLE_KEY to record usage' });
+    }
+
+    const quota = await checkQuota(req.supabase, req.user.id);
+    if (!quota.allowed) {
+      return res.status(429).json({ error: quota.reason });
+    }
     
     console.log('Generating image with prompt:', prompt);
     console.log('For vehicle ID:', vehicleId);
@@ -207,6 +265,7 @@ app.post('/api/generate-image', async (req, res) => {
 
       const tempImageUrl = response.data[0].url;
       console.log('Image generated successfully with DALL-E 3');
+      await recordImageUsage(req, 'dall-e-3');
       
       // Download the image and store it directly in Supabase
       try {
@@ -235,6 +294,7 @@ app.post('/api/generate-image', async (req, res) => {
 
         const tempImageUrl = response.data[0].url;
         console.log('Image generated successfully with DALL-E 2');
+        await recordImageUsage(req, 'dall-e-2');
         
         // Download the image and store it directly in Supabase
         try {
@@ -260,6 +320,318 @@ app.post('/api/generate-image', async (req, res) => {
   }
 });
 
+// Classify an uploaded document and extract its service or fuel data. The browser
+// sends every page as { image } or, for PDF pages with a text layer, as { text }
+// (PDFs are read client-side); the caller must own the document's vehicle.
+// Long PDFs are sent in batches: firstPage > 1 merges the batch into the result
+// stored for the earlier pages, and the document counts as analyzed after the last page.
+// documents.status follows along: analyzing, then needs_review or failed, or saved
+// straight away for document types that are only filed.
+// Each request counts against the caller's monthly quota and is recorded in the usage ledger.
+const isValidPage = page => page && (
+  (typeof page.image === 'string' && page.image.startsWith('data:image/')) ||
+  (typeof page.text === 'string' && page.text.trim().length > 0)
+);
+
+app.post('/api/documents/:id/analyze', requireUser, async (req, res) => {
+  // Set by the provider once the model has been called, so failed requests are still recorded
+  let modelUsage = null;
+  const recordAnalysisUsage = () => recordUsage(supabaseAdmin, {
+    userId: req.user.id,
+    feature: 'document_analysis',
+    provider: extractionProvider.name,
+    model: modelUsage?.model || extractionProvider.name,
+    promptTokens: modelUsage?.promptTokens,
+    completionTokens: modelUsage?.completionTokens,
+    imageCount: modelUsage?.imageCount ?? (req.body?.pages || []).filter(page => page?.image).length,
+    documentId: req.params.id,
+  });
+
+  try {
+    const { pages, pageCount, firstPage = 1, today } = req.body || {};
+
+    if (!Array.isArray(pages) || pages.length === 0 || !pages.every(isValidPage)) {
+      return res.status(400).json({ error: 'At least one page image or page text is required' });
+    }
+
+    if (!Number.isInteger(firstPage) || firstPage < 1) {
+      return res.status(400).json({ error: 'firstPage must be a positive integer' });
+    }
+
+    if (today !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(today)) {
+      return res.status(400).json({ error: 'today must be a yyyy-MM-dd date' });
+    }
+
+    const { data: document, error: documentError } = await req.supabase
+      .from('documents')
+      .select('id, vehicle_id, file_type, analysis_result, analysis_attempts')
+      .eq('id', req.params.id)
+      .single();
+
+    if (documentError || !document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const { data: vehicle, error: vehicleError } = await req.supabase
+      .from('vehicles')
+      .select('id, user_id, odometer_unit')
+      .eq('id', document.vehicle_id)
+      .single();
+
+    if (vehicleError || !vehicle || vehicle.user_id !== req.user.id) {
+      return res.status(403).json({ error: 'You do not have access to this document' });
+    }
+
+    // Unrecorded requests wouldn't count against the quota; the local providers cost nothing
+    if (!supabaseAdmin && extractionProvider.name === 'openai') {
+      return res.status(503).json({ error: 'Document analysis requires SUPABASE_SERVICE_ROLE_KEY to record usage' });
+    }
+
+    const quota = await checkQuota(req.supabase, req.user.id);
+    if (!quota.allowed) {
+      await req.supabase
+        .from('documents')
+        .update({ status: 'failed', analysis_error: quota.reason })
+        .eq('id', document.id);
+      return res.status(429).json({ error: quota.reason });
+    }
+
+    // The vehicle's odometer history lets validation reject impossible mileage
+    const { data: readings, error: readingsError } = await req.supabase
+      .from('odometer_readings')
+      .select('reading_date, mileage, is_rollback')
+      .eq('vehicle_id', vehicle.id);
+
+    if (readingsError) {
+      console.error('Error fetching odometer readings:', readingsError);
+    }
+
+    // Mileage on a document that doesn't print a unit is read in the odometer's unit,
+    // and amounts without a currency in the preferred one
+    const { data: profile } = await req.supabase
+      .from('profiles')
+      .select('preferred_units, preferred_currency')
+      .eq('id', req.user.id)
+      .single();
+
+    if (firstPage === 1) {
+      await req.supabase
+        .from('documents')
+        .update({ status: 'analyzing', analysis_error: null, analysis_attempts: (document.analysis_attempts || 0) + 1 })
+        .eq('id', document.id);
+    }
+
+    const totalPages = Math.max(Number(pageCount) || 0, firstPage + pages.length - 1);
+    const lastPage = firstPage + pages.length - 1;
+    const textPages = pages.filter(page => page.text).length;
+    console.log(`Analyzing document ${document.id} (pages ${firstPage}-${lastPage} of ${totalPages}, ${textPages} from the text layer)`);
+    const result = await analyzeDocumentPages(extractionProvider, pages, {
+      isPdf: document.file_type === 'application/pdf',
+      pageCount: totalPages,
+      firstPage,
+      today,
+      readings: readings || [],
+      odometerUnit: getOdometerUnit(vehicle.odometer_unit, profile?.preferred_units),
+      currency: toCurrencyCode(profile?.preferred_currency),
+      previousExtraction: firstPage > 1 ? document.analysis_result?.rawExtraction || null : null,
+      // The classifier and the extraction are separate calls; both count
+      onUsage: usage => {
+        modelUsage = modelUsage
+          ? {
+            model: usage.model,
+            promptTokens: modelUsage.promptTokens + usage.promptTokens,
+            completionTokens: modelUsage.completionTokens + usage.completionTokens,
+            imageCount: modelUsage.imageCount + usage.imageCount,
+          }
+          : usage;
+      },
+    });
+    await recordAnalysisUsage();
+
+    // Documents without an extraction schema (insurance, registration, ...) have nothing to review
+    const doneStatus = isExtractedType(result.documentType) ? 'needs_review' : 'saved';
+    const { error: updateError } = await req.supabase
+      .from('documents')
+      .update({
+        analyzed: lastPage >= totalPages,
+        analysis_result: result,
+        document_type: result.documentType,
+        ...(lastPage >= totalPages ? { status: doneStatus } : {}),
+      })
+      .eq('id', document.id);
+
+    if (updateError) {
+      console.error('Error saving analysis result:', updateError);
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error analyzing document:', error);
+    if (modelUsage) {
+      await recordAnalysisUsage();
+    }
+    const message = `Document analysis failed: ${error.message || 'Unknown error'}`;
+    // RLS on the user's client keeps this to documents the caller owns
+    await req.supabase
+      .from('documents')
+      .update({ status: 'failed', analysis_error: message })
+      .eq('id', req.params.id);
+    res.status(500).json({ error: message });
+  }
+});
+
+// The caller's usage this month, their quota and the month's ledger rows, for the Profile page
+app.get('/api/usage', requireUser, async (req, res) => {
+  try {
+    const [usage, quota] = await Promise.all([
+      getMonthlyUsage(req.supabase, req.user.id),
+      getQuota(req.supabase, req.user.id),
+    ]);
+    res.json({ ...usage, quota });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+});
+
+// Web Push: the frontend needs the VAPID public key to subscribe
+app.get('/api/push/public-key', (req, res) => {
+  if (!isWebPushConfigured()) {
+    return res.status(503).json({ error: 'Push notifications are not configured' });
+  }
+  res.json({ publicKey: process.env.VAPID_PUBLIC_KEY });
+});
+
+// Store (or replace) the push subscription for the caller's current device.
+// An endpoint belongs to one browser, so whoever subscribes from it last owns the row,
+// even if another account used that browser before. That row isn't visible to the
+// caller's session, so it is written with the service role.
+app.post('/api/push/subscribe', requireUser, async (req, res) => {
+  try {
+    const { deviceId, subscription, userAgent } = req.body || {};
+
+    if (!supabaseAdmin) {
+      return res.status(503).json({ error: 'Push subscriptions require SUPABASE_SERVICE_ROLE_KEY' });
+    }
+
+    if (!deviceId) {
+      return res.status(400).json({ error: 'Device ID is required' });
+    }
+
+    if (!subscription?.endpoint || !subscription?.keys?.p256dh || !subscription?.keys?.auth) {
+      return res.status(400).json({ error: 'A valid push subscription is required' });
+    }
+
+    // A browser that re-subscribes gets a new endpoint; drop the caller's old row for this device
+    const { error: staleError } = await supabaseAdmin
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', req.user.id)
+      .eq('device_id', deviceId)
+      .neq('endpoint', subscription.endpoint);
+
+    if (staleError) {
+      console.error('Error removing old push subscription:', staleError);
+      return res.status(500).json({ error: 'Failed to save push subscription' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .upsert({
+        user_id: req.user.id,
+        device_id: deviceId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: userAgent || req.headers['user-agent'] || null,
+      }, { onConflict: 'endpoint' })
+      .select('id, device_id, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error saving push subscription:', error);
+      return res.status(500).json({ error: 'Failed to save push subscription' });
+    }
+
+    console.log(`Push subscription saved for user ${req.user.id}, device ${deviceId}`);
+    res.status(201).json(data);
+  } catch (error) {
+    console.error('Error in push subscribe endpoint:', error);
+    res.status(500).json({ error: 'Failed to save push subscription' });
+  }
+});
+
+// Remove the push subscription for the caller's current device
+app.delete('/api/push/subscribe', requireUser, async (req, res) => {
+  try {
+    const { deviceId, endpoint } = req.body || {};
+
+    if (!deviceId && !endpoint) {
+      return res.status(400).json({ error: 'Device ID or endpoint is required' });
+    }
+
+    let query = req.supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', req.user.id);
+    query = deviceId ? query.eq('device_id', deviceId) : query.eq('endpoint', endpoint);
+
+    const { error } = await query;
+    if (error) {
+      console.error('Error removing push subscription:', error);
+      return res.status(500).json({ error: 'Failed to remove push subscription' });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error in push unsubscribe endpoint:', error);
+    res.status(500).json({ error: 'Failed to remove push subscription' });
+  }
+});
+
+// Unsubscribe links in emails. GET only asks for confirmation, because link scanners
+// and mail previews open links on their own; the change is applied on POST, which is
+// both the confirmation form and the List-Unsubscribe one-click request mail clients send.
+const UNSUBSCRIBE_CONFIRMATIONS = {
+  recalls: 'Stop receiving recall alerts by email?',
+  maintenance: 'Stop receiving maintenance reminders by email?',
+  digest: 'Stop receiving the monthly digest?',
+  all: 'Stop receiving all email notifications?',
+};
+
+app.get('/api/email/unsubscribe', (req, res) => {
+  const unsubscribe = verifyUnsubscribeToken(req.query.token);
+  if (!unsubscribe) {
+    return res.status(400).send(renderUnsubscribePage('This unsubscribe link is invalid.'));
+  }
+
+  res.send(renderUnsubscribeConfirmPage(UNSUBSCRIBE_CONFIRMATIONS[unsubscribe.topic], req.originalUrl));
+});
+
+app.post('/api/email/unsubscribe', async (req, res) => {
+  const unsubscribe = verifyUnsubscribeToken(req.query.token);
+  if (!unsubscribe) {
+    return res.status(400).send(renderUnsubscribePage('This unsubscribe link is invalid.'));
+  }
+
+  if (!supabaseAdmin) {
+    return res.status(503).send(renderUnsubscribePage('Unsubscribing is unavailable right now. Please change your notification preferences in your profile.'));
+  }
+
+  const updated = await applyUnsubscribe(supabaseAdmin, unsubscribe.userId, unsubscribe.topic);
+  if (!updated) {
+    return res.status(500).send(renderUnsubscribePage('We could not update your preferences. Please try again later.'));
+  }
+
+  const messages = {
+    recalls: 'You will no longer receive recall alerts.',
+    maintenance: 'You will no longer receive maintenance reminders.',
+    digest: 'You will no longer receive the monthly digest.',
+    all: 'You will no longer receive email notifications.',
+  };
+  res.send(renderUnsubscribePage(messages[unsubscribe.topic]));
+});
+
 // Proxy all other requests to Vite dev server
 app.use('/', createProxyMiddleware({
   target: 'http://localhost:5173',
@@ -269,4 +641,28 @@ app.use('/', createProxyMiddleware({
 
 app.listen(PORT, () => {
   console.log(`API server running on port ${PORT}`);
+
+  if (process.env.RECALL_MONITOR_ENABLED === 'false') {
+    console.log('Recall monitor disabled');
+  } else if (!supabaseAdmin) {
+    console.warn('Recall monitor not started: a Supabase service role key is required');
+  } else {
+    startRecallMonitor(supabaseAdmin);
+  }
+
+  if (process.env.REMINDER_SCHEDULER_ENABLED === 'false') {
+    console.log('Reminder scheduler disabled');
+  } else if (!supabaseAdmin) {
+    console.warn('Reminder scheduler not started: a Supabase service role key is required');
+  } else {
+    startReminderScheduler(supabaseAdmin);
+  }
+
+  if (process.env.MONTHLY_DIGEST_ENABLED === 'false') {
+    console.log('Monthly digest disabled');
+  } else if (!supabaseAdmin) {
+    console.warn('Monthly digest not started: a Supabase service role key is required');
+  } else {
+    startMonthlyDigest(supabaseAdmin);
+  }
 });
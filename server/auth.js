@@ -0,0 +1,37 @@
+// Express middleware that verifies the caller's Supabase access token.
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Build a middleware that rejects requests without a valid "Authorization: Bearer <token>".
+ * On success req.user is the Supabase user and req.supabase a client acting as that
+ * user, so row level security applies to everything the route does.
+ */
+export function createRequireUser(supabaseUrl, supabaseAnonKey) {
+  return async function requireUser(req, res, next) {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+    if (!token) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { persistSession: false },
+        global: { headers: { Authorization: `Bearer ${token}` } },
+      });
+
+      const { data, error } = await supabase.auth.getUser(token);
+      if (error || !data?.user) {
+        return res.status(401).json({ error: 'Invalid or expired session' });
+      }
+
+      req.user = data.user;
+      req.supabase = supabase;
+      next();
+    } catch (error) {
+      console.error('Error verifying session:', error);
+      res.status(401).json({ error: 'Invalid or expired session' });
+    }
+  };
+}
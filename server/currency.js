@@ -0,0 +1,14 @@
+// Money amounts on the server. The codes and the conversion are shared with the app
+// in shared/currency.js.
+
+import { toCurrencyCode } from '../shared/currency.js';
+
+export { buildExchangeRateTable, canConvert, convertAmount, toCurrencyCode } from '../shared/currency.js';
+
+/**
+ * Formats an amount in its currency, e.g. $1,234.50 or €12.00
+ */
+export const formatMoney = (amount, currency) => new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: toCurrencyCode(currency),
+}).format(Number(amount || 0));
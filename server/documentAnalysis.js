@@ -0,0 +1,286 @@
+// Document extraction. The actual reading of a document is done by an
+// ExtractionProvider chosen per deployment with EXTRACTION_PROVIDER:
+//   openai    - OpenAI vision model (default)
+//   tesseract - local OCR plus a rule-based parser, works offline
+//   fixture   - canned result, for tests and demos
+//
+// An ExtractionProvider is { name, classify?(pages, options), extract(pages, { isPdf, pageCount, firstPage, documentType, onUsage }) }
+// pages (numbered from firstPage) are { image } with a data URL for photos and
+// scanned pages, or { text } for PDF pages with a text layer.
+//
+// Analysis starts with a classifier step that picks the document type (see
+// documentClassification.js). Providers with a classify method are asked for
+// { documentType, confidence } first; the others classify inside extract and
+// report it as document_type. The type decides the schema: extract resolves to the
+// raw structured result ({ service_record, service_items, vehicle_info } for service
+// invoices, { fuel_entry, vehicle_info } for fuel receipts, as described in the
+// OpenAI prompts, optionally with matching "confidence" and "sources" objects).
+// Types without a schema are not extracted at all. Providers that call a paid model
+// report what each call used with onUsage({ model, promptTokens, completionTokens, imageCount }).
+// transformToDocumentAnalysisResult below is the only place that turns that into
+// a DocumentAnalysisResult, whichever provider produced it.
+//
+// Long PDFs arrive in batches of pages. Each batch's raw result is merged into
+// the previous ones (mergeExtractions) so the last batch returns the whole document.
+import { createOpenAIProvider } from './extractionProviders/openai.js';
+import { createTesseractProvider } from './extractionProviders/tesseract.js';
+import { createFixtureProvider } from './extractionProviders/fixture.js';
+import { validateExtraction, validateFuelExtraction } from './extractionSchema.js';
+import { isExtractedType, normalizeDocumentType } from './documentClassification.js';
+
+export const EXTRACTION_PROVIDERS = ['openai', 'tesseract', 'fixture'];
+
+/**
+ * Build the provider named by EXTRACTION_PROVIDER
+ * @param openai OpenAI client (null without an API key), used by the openai provider
+ * @returns An ExtractionProvider
+ */
+export function createExtractionProvider(openai, name = process.env.EXTRACTION_PROVIDER || 'openai') {
+  switch (name) {
+    case 'tesseract':
+      return createTesseractProvider({
+        language: process.env.TESSERACT_LANG || 'eng',
+        langPath: process.env.TESSERACT_LANG_PATH,
+      });
+    case 'fixture':
+      return createFixtureProvider();
+    case 'openai':
+      if (!openai) {
+        throw new Error('EXTRACTION_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return createOpenAIProvider(openai, process.env.EXTRACTION_OPENAI_MODEL || undefined);
+    default:
+      throw new Error(`Unknown EXTRACTION_PROVIDER "${name}"; use one of ${EXTRACTION_PROVIDERS.join(', ')}`);
+  }
+}
+
+/**
+ * Analyze the pages of a document
+ * @param provider The ExtractionProvider to use
+ * @param pages One { image } (data:image/...;base64,...) or { text } per page
+ * @param options { isPdf, pageCount, firstPage, today, readings, odometerUnit, currency, previousExtraction, onUsage } - pageCount is the
+ *   document's total page count, firstPage the page number of pages[0], today the user's local date
+ *   (yyyy-MM-dd) that extracted dates may not be after, readings the vehicle's
+ *   odometer readings used to reject impossible mileage, odometerUnit the unit its odometer
+ *   reads in and currency the user's preferred currency (for documents that don't say), previousExtraction the merged raw
+ *   result of the earlier batches of the same document and onUsage is passed to the provider
+ * @returns The extraction as a DocumentAnalysisResult
+ */
+export async function analyzeDocumentPages(provider, pages, options = {}) {
+  const { today, readings = [], odometerUnit = 'mi', currency = 'USD', previousExtraction = null, ...extractOptions } = options;
+  // Later batches keep the type the first batch was classified as
+  let documentType = normalizeDocumentType(previousExtraction?.document_type);
+  if (!documentType && provider.classify) {
+    const classification = await provider.classify(pages, extractOptions);
+    documentType = classification.documentType;
+    console.log(`Classified document as ${documentType} (confidence ${classification.confidence ?? 'unknown'})`);
+  }
+
+  const rawResult = documentType && !isExtractedType(documentType)
+    ? { document_type: documentType }
+    : await provider.extract(pages, { ...extractOptions, ...(documentType ? { documentType } : {}) });
+  const extraction = previousExtraction ? mergeExtractions(previousExtraction, rawResult || {}) : (rawResult || {});
+  const result = transformToDocumentAnalysisResult(extraction, { today, readings, odometerUnit, currency });
+  result.pagesAnalyzed = (extractOptions.firstPage || 1) + pages.length - 1;
+  // Kept with the stored result so the next batch can be merged into it
+  result.rawExtraction = extraction;
+  return result;
+}
+
+const isBlank = value => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const normalizeText = value => String(value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const ANNOTATION_KEYS = ['confidence', 'sources'];
+
+// The same line often repeats across pages (carried-over headers, page subtotals)
+const itemKey = item => [normalizeText(item.service_type), normalizeText(item.description), Number(item.cost) || 0].join('|');
+
+/**
+ * Merge the raw results of two batches of pages of the same document.
+ * Record and vehicle fields keep the first value found, except the total, which is
+ * usually printed at the end. Service items are concatenated without duplicates;
+ * the confidence and sources objects follow the same rules.
+ * @param previous Raw result of the earlier pages
+ * @param next Raw result of the following pages
+ * @returns The combined raw result
+ */
+export function mergeExtractions(previous, next) {
+  const documentType = previous.document_type || next.document_type;
+  if (documentType === 'fuel') {
+    return mergeFuelExtractions(previous, next);
+  }
+
+  const record = { ...(next.service_record || {}) };
+  const vehicle = { ...(next.vehicle_info || {}) };
+  // confidence and sources mirror the result, so they are merged field by field with it
+  const annotations = ANNOTATION_KEYS.filter(key => previous[key] || next[key]);
+  const merged = Object.fromEntries(annotations.map(key => [key, {
+    service_record: { ...(next[key]?.service_record || {}) },
+    service_items: [...(previous[key]?.service_items || [])],
+    vehicle_info: { ...(next[key]?.vehicle_info || {}) },
+  }]));
+  const keepPrevious = (section, field) => annotations.forEach(key => {
+    merged[key][section][field] = previous[key]?.[section]?.[field];
+  });
+
+  Object.entries(previous.service_record || {}).forEach(([key, value]) => {
+    if (isBlank(value) || (key === 'total_cost' && !isBlank(record.total_cost))) return;
+    if (key === 'notes' && !isBlank(record.notes) && record.notes !== value) {
+      record.notes = `${value}\n${record.notes}`;
+      return;
+    }
+    record[key] = value;
+    keepPrevious('service_record', key);
+  });
+
+  Object.entries(previous.vehicle_info || {}).forEach(([key, value]) => {
+    if (isBlank(value)) return;
+    vehicle[key] = value;
+    keepPrevious('vehicle_info', key);
+  });
+
+  const items = [...(previous.service_items || [])];
+  const seen = new Set(items.map(itemKey));
+  (next.service_items || []).forEach((item, index) => {
+    if (!item || seen.has(itemKey(item))) return;
+    seen.add(itemKey(item));
+    items.push(item);
+    annotations.forEach(key => {
+      merged[key].service_items[items.length - 1] = next[key]?.service_items?.[index] || {};
+    });
+  });
+
+  return {
+    ...(documentType ? { document_type: documentType } : {}),
+    service_record: record,
+    service_items: items,
+    vehicle_info: vehicle,
+    ...merged,
+  };
+}
+
+/**
+ * Merge two batches of a fuel receipt: every field keeps the first value found,
+ * except the total, which is usually printed at the end. confidence and sources
+ * follow the value that was kept.
+ */
+function mergeFuelExtractions(previous, next) {
+  const sections = ['fuel_entry', 'vehicle_info'];
+  const annotations = ANNOTATION_KEYS.filter(key => previous[key] || next[key]);
+  const merged = {
+    document_type: 'fuel',
+    ...Object.fromEntries(sections.map(section => [section, { ...(next[section] || {}) }])),
+    ...Object.fromEntries(annotations.map(key => [key, Object.fromEntries(
+      sections.map(section => [section, { ...(next[key]?.[section] || {}) }])
+    )])),
+  };
+
+  sections.forEach(section => {
+    Object.entries(previous[section] || {}).forEach(([field, value]) => {
+      if (isBlank(value) || (field === 'total_cost' && !isBlank(merged[section].total_cost))) return;
+      merged[section][field] = value;
+      annotations.forEach(key => {
+        merged[key][section][field] = previous[key]?.[section]?.[field];
+      });
+    });
+  });
+
+  return merged;
+}
+
+/**
+ * Transforms the structured result of any provider into our DocumentAnalysisResult format,
+ * with documentType saying which schema it follows.
+ * The result is validated first (see extractionSchema.js); review holds a confidence and
+ * needs-review flag for every field.
+ * @param rawResult The provider's raw structured result
+ * @param context { today, readings, odometerUnit, currency } passed to validateExtraction
+ */
+export function transformToDocumentAnalysisResult(rawResult, context = {}) {
+  const documentType = normalizeDocumentType(rawResult?.document_type) || 'service_invoice';
+  if (documentType === 'fuel') {
+    return transformFuelResult(rawResult, context);
+  }
+  if (!isExtractedType(documentType)) {
+    return { documentType };
+  }
+
+  const { data, review } = validateExtraction(rawResult, context);
+  const serviceRecord = data.service_record;
+  const serviceItems = data.service_items;
+  const vehicleInfo = data.vehicle_info;
+
+  // Create the main service info from the service record
+  const serviceInfo = {
+    serviceDate: serviceRecord.service_date,
+    mileage: serviceRecord.mileage,
+    // 'mi' or 'km' as printed on the document, null if it didn't say
+    mileageUnit: serviceRecord.mileage_unit,
+    serviceProvider: serviceRecord.service_provider,
+    totalCost: serviceRecord.total_cost,
+    // ISO 4217 code as printed on the document, null if it didn't say
+    currency: serviceRecord.currency,
+    notes: serviceRecord.notes,
+    items: serviceItems.map(item => ({
+      serviceType: item.service_type,
+      description: item.description,
+      cost: item.cost,
+      partsReplaced: item.parts_replaced,
+      quantity: item.quantity,
+      nextServiceDate: item.next_service_date,
+      nextServiceMileage: item.next_service_mileage,
+    }))
+  };
+
+  const result = {
+    documentType,
+    vehicleInfo: {
+      make: vehicleInfo.make,
+      model: vehicleInfo.model,
+      year: vehicleInfo.year,
+      vin: vehicleInfo.vin,
+      licensePlate: vehicleInfo.license_plate,
+    },
+    serviceInfo,
+    review,
+    // Store the validated structured result for easy database insertion
+    rawStructuredData: data,
+  };
+
+  console.log('Transformed DocumentAnalysisResult:', result);
+  return result;
+}
+
+/**
+ * transformToDocumentAnalysisResult for fuel receipts: fuelInfo instead of serviceInfo
+ */
+function transformFuelResult(rawResult, context) {
+  const { data, review } = validateFuelExtraction(rawResult, context);
+  const entry = data.fuel_entry;
+  const vehicleInfo = data.vehicle_info;
+
+  return {
+    documentType: 'fuel',
+    vehicleInfo: {
+      make: vehicleInfo.make,
+      model: vehicleInfo.model,
+      year: vehicleInfo.year,
+      vin: vehicleInfo.vin,
+      licensePlate: vehicleInfo.license_plate,
+    },
+    fuelInfo: {
+      fillDate: entry.fill_date,
+      station: entry.station,
+      volume: entry.volume,
+      volumeUnit: entry.volume_unit,
+      pricePerUnit: entry.price_per_unit,
+      totalCost: entry.total_cost,
+      currency: entry.currency,
+      odometer: entry.odometer,
+      odometerUnit: entry.odometer_unit,
+    },
+    review,
+    rawStructuredData: data,
+  };
+}
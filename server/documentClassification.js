@@ -0,0 +1,61 @@
+// Document types an uploaded receipt can be. The classifier step of document
+// analysis picks one before extraction, and the type decides which schema is extracted:
+//   service_invoice, other - the service record schema
+//   fuel                   - the fuel entry schema
+//   anything else          - nothing; the document is only filed with the vehicle
+
+export const DOCUMENT_TYPES = ['service_invoice', 'fuel', 'parking_toll', 'insurance', 'registration', 'other'];
+
+// Types that extraction has no schema for
+export const FILED_ONLY_DOCUMENT_TYPES = ['parking_toll', 'insurance', 'registration'];
+
+// What each type looks like, for the model and for readers of this file
+export const DOCUMENT_TYPE_DESCRIPTIONS = {
+  service_invoice: 'repair shop or dealer invoice for maintenance, repairs, parts or inspections',
+  fuel: 'gas station receipt or a photo of a fuel pump display (gallons or liters, price per unit, total)',
+  parking_toll: 'parking garage, parking meter or toll road receipt',
+  insurance: 'insurance card, policy, declaration page or premium bill',
+  registration: 'vehicle registration, title, license plate renewal or inspection sticker certificate',
+  other: 'anything else, including car washes and documents you cannot identify',
+};
+
+// Keyword rules for OCR text, first match wins. Service invoices mention fuel
+// (fuel filter, fuel system service), so a fuel receipt needs both fuel wording
+// and a volume.
+const FUEL_WORDS = /\b(pump\s*#?\s*\d+|unleaded|diesel|gasoline|petrol|octane|fuel grade|regular|premium)\b/i;
+const FUEL_VOLUME = /\b\d+[.,]\d+\s*(gal|gallons?|l|ltrs?|litres?|liters?)\b|\b(gallons|litres|liters|price\s*\/\s*(gal|l))\b/i;
+
+const TYPE_RULES = [
+  ['fuel', text => FUEL_WORDS.test(text) && FUEL_VOLUME.test(text)],
+  ['parking_toll', text => /\b(parking|toll|turnpike|e-?zpass|fastrak)\b/i.test(text)],
+  ['insurance', text => /\b(insurance|policy (number|no)|premium due|insured|declarations? page)\b/i.test(text)],
+  ['registration', text => /\b(registration|certificate of title|dmv|department of motor vehicles|plate renewal)\b/i.test(text)],
+  ['service_invoice', text => /\b(labor|parts|repair order|service advisor|technician|invoice|oil change|brake|tires?|inspection)\b/i.test(text)],
+];
+
+/**
+ * The document type named by a provider, or null if it isn't one we know
+ */
+export function normalizeDocumentType(value) {
+  const type = String(value || '').trim().toLowerCase().replace(/[\s/-]+/g, '_');
+  if (type === 'parking' || type === 'toll') return 'parking_toll';
+  if (type === 'service' || type === 'invoice') return 'service_invoice';
+  return DOCUMENT_TYPES.includes(type) ? type : null;
+}
+
+/**
+ * Classify a document from its text with keyword rules
+ * @param text OCR or text-layer text of the document
+ * @returns { documentType, confidence }
+ */
+export function classifyText(text) {
+  const match = TYPE_RULES.find(([, test]) => test(text || ''));
+  return match
+    ? { documentType: match[0], confidence: 0.7 }
+    : { documentType: 'other', confidence: 0.3 };
+}
+
+/**
+ * Whether documents of this type have an extraction schema
+ */
+export const isExtractedType = documentType => !FILED_ONLY_DOCUMENT_TYPES.includes(documentType);
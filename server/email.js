@@ -0,0 +1,203 @@
+// Outgoing email with a pluggable transport.
+// EMAIL_TRANSPORT selects how messages leave the server:
+//   smtp - deliver through SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS (default when SMTP_HOST is set)
+//   file - write each message to EMAIL_OUTBOX_DIR (default ./.tmp/outbox) for local testing
+//   none - send no email; the jobs skip the email channel and nothing is marked as sent
+// With neither EMAIL_TRANSPORT nor SMTP_HOST set the server runs as with none. An unknown
+// transport, or smtp without SMTP_HOST, stops the server at startup, so reminders are
+// never recorded as sent without having been delivered.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+let transport = null;
+
+// Preference keys each unsubscribe topic switches off. Both the Profile page keys
+// and the NotificationPreferences keys are flipped so either reader sees the change.
+export const UNSUBSCRIBE_TOPICS = {
+  recalls: ['recall_alerts', 'recallNotices'],
+  maintenance: ['maintenance_reminders', 'maintenanceDue', 'maintenanceOverdue', 'serviceReminders'],
+  digest: ['monthly_digest'],
+  all: ['email'],
+};
+
+function createSmtpTransport() {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    send: message => transporter.sendMail(message),
+  };
+}
+
+function createFileTransport(directory) {
+  return {
+    name: 'file',
+    send: async message => {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40);
+      const basename = path.join(directory, `${Date.now()}-${slug}`);
+      await fs.promises.writeFile(`${basename}.json`, JSON.stringify({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        headers: message.headers,
+      }, null, 2));
+      await fs.promises.writeFile(`${basename}.txt`, message.text);
+      await fs.promises.writeFile(`${basename}.html`, message.html);
+      console.log(`Email written to ${basename}.html`);
+    },
+  };
+}
+
+/**
+ * Pick the transport from the environment. Call once at startup.
+ * @returns The name of the transport in use
+ * @throws If the transport is unknown, or smtp is selected without SMTP_HOST
+ */
+export function configureEmail() {
+  const selected = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : null);
+
+  if (!selected) {
+    transport = null;
+    console.warn('No email transport configured (set SMTP_HOST or EMAIL_TRANSPORT); no email will be sent');
+    return 'none';
+  }
+
+  if (selected === 'smtp' && !process.env.SMTP_HOST) {
+    throw new Error('EMAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+  } else if (selected === 'smtp') {
+    transport = createSmtpTransport();
+  } else if (selected === 'file') {
+    transport = createFileTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.tmp', 'outbox'));
+  } else if (selected === 'none') {
+    transport = null;
+    console.warn('EMAIL_TRANSPORT is none; no email will be sent');
+    return 'none';
+  } else {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${selected}": use smtp, file or none`);
+  }
+
+  console.log(`Email transport: ${transport.name}`);
+  return transport.name;
+}
+
+/**
+ * Replace the transport, e.g. with a provider SDK. A transport is { name, send(message) }
+ * where message has from, to, subject, text, html and headers.
+ */
+export function setEmailTransport(customTransport) {
+  transport = customTransport;
+}
+
+export function isEmailConfigured() {
+  return transport !== null;
+}
+
+const getUnsubscribeSecret = () =>
+  process.env.EMAIL_UNSUBSCRIBE_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_SERVICE_ROLE_KEY || '';
+
+const sign = value => crypto.createHmac('sha256', getUnsubscribeSecret()).update(value).digest('base64url');
+
+/**
+ * Signed token for a one-click unsubscribe link; it never expires
+ */
+export function createUnsubscribeToken(userId, topic) {
+  const value = `${userId}:${topic}`;
+  return `${Buffer.from(value).toString('base64url')}.${sign(value)}`;
+}
+
+/**
+ * @returns { userId, topic } or null if the token is malformed or was tampered with
+ */
+export function verifyUnsubscribeToken(token) {
+  const [encoded, signature] = (token || '').split('.');
+  if (!encoded || !signature) return null;
+
+  const value = Buffer.from(encoded, 'base64url').toString('utf8');
+  const expected = sign(value);
+  if (signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  const [userId, topic] = value.split(':');
+  if (!userId || !UNSUBSCRIBE_TOPICS[topic]) return null;
+  return { userId, topic };
+}
+
+export function getUnsubscribeUrl(userId, topic) {
+  const baseUrl = process.env.API_PUBLIC_URL || `http://localhost:${process.env.API_PORT || 3005}`;
+  return `${baseUrl}/api/email/unsubscribe?token=${createUnsubscribeToken(userId, topic)}`;
+}
+
+/**
+ * Switch off the preference keys behind an unsubscribe topic
+ * @param supabase Service-role client (the link is opened without a session)
+ * @returns true if successful, false otherwise
+ */
+export async function applyUnsubscribe(supabase, userId, topic) {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('notification_preferences')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching notification preferences:', error);
+    return false;
+  }
+
+  const preferences = profile.notification_preferences && typeof profile.notification_preferences === 'object'
+    ? { ...profile.notification_preferences }
+    : {};
+  UNSUBSCRIBE_TOPICS[topic].forEach(key => {
+    preferences[key] = false;
+  });
+
+  const { error: updateError } = await supabase
+    .from('profiles')
+    .update({ notification_preferences: preferences })
+    .eq('id', userId);
+
+  if (updateError) {
+    console.error('Error updating notification preferences:', updateError);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Send a rendered template
+ * @param to Recipient address
+ * @param email { subject, text, html } from one of the templates
+ * @param unsubscribeUrl Added as a List-Unsubscribe header so mail clients can offer one-click unsubscribe
+ * @returns true if the transport accepted the message
+ */
+export async function sendEmail(to, email, unsubscribeUrl) {
+  if (!transport || !to) return false;
+
+  try {
+    await transport.send({
+      from: process.env.EMAIL_FROM || 'Everything About My Car <no-reply@everythingaboutmycar.com>',
+      to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      headers: unsubscribeUrl
+        ? { 'List-Unsubscribe': `<${unsubscribeUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+        : {},
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error sending email "${email.subject}":`, error);
+    return false;
+  }
+}
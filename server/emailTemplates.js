@@ -0,0 +1,230 @@
+// HTML and plain text versions of every email the server sends.
+// Each render function returns { subject, text, html }.
+
+import { formatMoney } from './currency.js';
+import { formatMileage } from './units.js';
+
+const escapeHtml = value => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+export const getAppUrl = () => process.env.APP_URL || process.env.VITE_APP_URL || 'http://localhost:5173';
+
+const greeting = firstName => (firstName ? `Hi ${firstName},` : 'Hi,');
+
+function layout({ heading, bodyHtml, actionLabel, actionUrl, unsubscribeUrl, unsubscribeLabel }) {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 16px;font-size:20px;color:#1f2937;">${escapeHtml(heading)}</h1>
+          ${bodyHtml}
+          ${actionUrl ? `<p style="margin:24px 0;"><a href="${escapeHtml(actionUrl)}" style="display:inline-block;padding:10px 18px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(actionLabel)}</a></p>` : ''}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+          You are receiving this because email notifications are on in your Everything About My Car profile.
+          <a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280;">${escapeHtml(unsubscribeLabel)}</a>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+const textFooter = (unsubscribeLabel, unsubscribeUrl) =>
+  `\n--\n${unsubscribeLabel}: ${unsubscribeUrl}\n`;
+
+/**
+ * New recall campaigns for one vehicle
+ * @param data { firstName, vehicleName, vehicleId, recalls: [{ recall_number, description, remedy }], unsubscribeUrl }
+ */
+export function renderRecallAlertEmail({ firstName, vehicleName, vehicleId, recalls, unsubscribeUrl }) {
+  const subject = recalls.length === 1
+    ? `Safety recall for your ${vehicleName}`
+    : `${recalls.length} safety recalls for your ${vehicleName}`;
+  const actionUrl = `${getAppUrl()}/recalls?vehicleId=${vehicleId}`;
+  const unsubscribeLabel = 'Stop recall alerts';
+
+  const text = [
+    greeting(firstName),
+    '',
+    `NHTSA has published ${recalls.length === 1 ? 'a recall' : `${recalls.length} recalls`} affecting your ${vehicleName}:`,
+    '',
+    ...recalls.map(recall => [
+      `* Campaign ${recall.recall_number}`,
+      `  ${recall.description.split('\n')[0]}`,
+      recall.remedy ? `  Remedy: ${recall.remedy}` : null,
+    ].filter(Boolean).join('\n')),
+    '',
+    `View the recall details: ${actionUrl}`,
+  ].join('\n') + textFooter(unsubscribeLabel, unsubscribeUrl);
+
+  const bodyHtml = `
+    <p>${escapeHtml(greeting(firstName))}</p>
+    <p>NHTSA has published ${recalls.length === 1 ? 'a recall' : `${recalls.length} recalls`} affecting your ${escapeHtml(vehicleName)}:</p>
+    ${recalls.map(recall => `
+    <div style="margin:12px 0;padding:12px;border-left:4px solid #dc2626;background:#fef2f2;">
+      <p style="margin:0 0 4px;font-weight:bold;">Campaign ${escapeHtml(recall.recall_number)}</p>
+      <p style="margin:0 0 4px;">${escapeHtml(recall.description.split('\n')[0])}</p>
+      ${recall.remedy ? `<p style="margin:0;color:#4b5563;">Remedy: ${escapeHtml(recall.remedy)}</p>` : ''}
+    </div>`).join('')}`;
+
+  return {
+    subject,
+    text,
+    html: layout({ heading: subject, bodyHtml, actionLabel: 'View recalls', actionUrl, unsubscribeUrl, unsubscribeLabel }),
+  };
+}
+
+const describeDue = reminder => {
+  const parts = [];
+  if (reminder.nextServiceDate) parts.push(`on ${reminder.nextServiceDate}`);
+  if (reminder.nextServiceMileage) parts.push(`at ${formatMileage(reminder.nextServiceMileage, reminder.distanceUnit)}`);
+  return `${reminder.reminderType === 'overdue' ? 'was due' : 'is due'} ${parts.join(' or ')}`;
+};
+
+/**
+ * Due and overdue maintenance, possibly across several vehicles
+ * @param data { firstName, reminders: [{ vehicleName, serviceType, reminderType, nextServiceDate, nextServiceMileage, distanceUnit }], unsubscribeUrl }
+ * with mileages in miles, shown in each reminder's distanceUnit
+ */
+export function renderMaintenanceDueEmail({ firstName, reminders, unsubscribeUrl }) {
+  const overdueCount = reminders.filter(reminder => reminder.reminderType === 'overdue').length;
+  const subject = overdueCount > 0
+    ? `${overdueCount} maintenance item${overdueCount === 1 ? ' is' : 's are'} overdue`
+    : `Maintenance due soon (${reminders.length} item${reminders.length === 1 ? '' : 's'})`;
+  const actionUrl = `${getAppUrl()}/maintenance`;
+  const unsubscribeLabel = 'Stop maintenance reminders';
+
+  const text = [
+    greeting(firstName),
+    '',
+    'The following maintenance needs your attention:',
+    '',
+    ...reminders.map(reminder =>
+      `* ${reminder.vehicleName}: ${reminder.serviceType} ${describeDue(reminder)}${reminder.reminderType === 'overdue' ? ' (overdue)' : ''}`
+    ),
+    '',
+    `Open your maintenance schedule: ${actionUrl}`,
+  ].join('\n') + textFooter(unsubscribeLabel, unsubscribeUrl);
+
+  const bodyHtml = `
+    <p>${escapeHtml(greeting(firstName))}</p>
+    <p>The following maintenance needs your attention:</p>
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="8" style="border-collapse:collapse;font-size:14px;">
+      ${reminders.map(reminder => `
+      <tr style="border-bottom:1px solid #e5e7eb;">
+        <td>${escapeHtml(reminder.vehicleName)}</td>
+        <td><strong>${escapeHtml(reminder.serviceType)}</strong></td>
+        <td style="color:${reminder.reminderType === 'overdue' ? '#dc2626' : '#d97706'};">${escapeHtml(describeDue(reminder))}</td>
+      </tr>`).join('')}
+    </table>`;
+
+  return {
+    subject,
+    text,
+    html: layout({ heading: subject, bodyHtml, actionLabel: 'View maintenance', actionUrl, unsubscribeUrl, unsubscribeLabel }),
+  };
+}
+
+/**
+ * Spend in the preferred currency followed by any amounts that couldn't be converted,
+ * e.g. "$120.00 + €40.00"
+ */
+const formatSpend = (spend, unconvertedSpend = {}, currency) => {
+  const unconverted = Object.entries(unconvertedSpend).map(([code, amount]) => formatMoney(amount, code));
+  return [spend !== 0 || unconverted.length === 0 ? formatMoney(spend, currency) : null, ...unconverted]
+    .filter(Boolean)
+    .join(' + ');
+};
+
+/**
+ * Monthly summary of every vehicle
+ * @param data { firstName, monthLabel, currency, vehicles: [{ vehicleName, serviceCount, spend, unconvertedSpend, overdueCount, upcomingCount, openRecallCount, mileage, distanceUnit }], unsubscribeUrl }
+ * with each vehicle's spend on services, fuel and other expenses already in currency, unconvertedSpend
+ * the amounts by currency that had no exchange rate, and its mileage in miles, shown in distanceUnit
+ */
+export function renderMonthlyDigestEmail({ firstName, monthLabel, currency, vehicles, unsubscribeUrl }) {
+  const subject = `Your vehicles in ${monthLabel}`;
+  const actionUrl = getAppUrl();
+  const unsubscribeLabel = 'Stop the monthly digest';
+  const totalSpend = vehicles.reduce((sum, vehicle) => sum + vehicle.spend, 0);
+  const totalUnconvertedSpend = {};
+  vehicles.forEach(vehicle => Object.entries(vehicle.unconvertedSpend || {}).forEach(([code, amount]) => {
+    totalUnconvertedSpend[code] = (totalUnconvertedSpend[code] || 0) + amount;
+  }));
+
+  const vehicleLines = vehicle => [
+    `${vehicle.serviceCount} service${vehicle.serviceCount === 1 ? '' : 's'}`,
+    `${formatSpend(vehicle.spend, vehicle.unconvertedSpend, currency)} spent`,
+    vehicle.mileage ? `odometer ${formatMileage(vehicle.mileage, vehicle.distanceUnit)}` : null,
+    vehicle.overdueCount > 0 ? `${vehicle.overdueCount} overdue` : null,
+    vehicle.upcomingCount > 0 ? `${vehicle.upcomingCount} due soon` : null,
+    vehicle.openRecallCount > 0 ? `${vehicle.openRecallCount} open recall${vehicle.openRecallCount === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+
+  const text = [
+    greeting(firstName),
+    '',
+    `Here is what happened with your vehicles in ${monthLabel}. Total spent: ${formatSpend(totalSpend, totalUnconvertedSpend, currency)}.`,
+    '',
+    ...vehicles.map(vehicle => `* ${vehicle.vehicleName}: ${vehicleLines(vehicle).join(', ')}`),
+    '',
+    `Open Everything About My Car: ${actionUrl}`,
+  ].join('\n') + textFooter(unsubscribeLabel, unsubscribeUrl);
+
+  const bodyHtml = `
+    <p>${escapeHtml(greeting(firstName))}</p>
+    <p>Here is what happened with your vehicles in ${escapeHtml(monthLabel)}. Total spent: <strong>${escapeHtml(formatSpend(totalSpend, totalUnconvertedSpend, currency))}</strong>.</p>
+    ${vehicles.map(vehicle => `
+    <div style="margin:12px 0;padding:12px;border:1px solid #e5e7eb;border-radius:6px;">
+      <p style="margin:0 0 4px;font-weight:bold;">${escapeHtml(vehicle.vehicleName)}</p>
+      <p style="margin:0;color:#4b5563;">${escapeHtml(vehicleLines(vehicle).join(' · '))}</p>
+    </div>`).join('')}`;
+
+  return {
+    subject,
+    text,
+    html: layout({ heading: subject, bodyHtml, actionLabel: 'Open dashboard', actionUrl, unsubscribeUrl, unsubscribeLabel }),
+  };
+}
+
+/**
+ * Page shown after clicking an unsubscribe link
+ */
+export function renderUnsubscribePage(message) {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Email preferences</title></head>
+  <body style="margin:0;padding:48px 24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;text-align:center;">
+    <p style="font-size:16px;">${escapeHtml(message)}</p>
+    <p><a href="${escapeHtml(getAppUrl())}" style="color:#4f46e5;">Back to Everything About My Car</a></p>
+  </body>
+</html>`;
+}
+
+/**
+ * Page an unsubscribe link opens; nothing changes until the button is pressed
+ * @param question What unsubscribing stops, e.g. "Stop receiving recall alerts by email?"
+ * @param actionUrl The unsubscribe URL with its token, posted to by the button
+ */
+export function renderUnsubscribeConfirmPage(question, actionUrl) {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Email preferences</title></head>
+  <body style="margin:0;padding:48px 24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;text-align:center;">
+    <p style="font-size:16px;">${escapeHtml(question)}</p>
+    <form method="post" action="${escapeHtml(actionUrl)}">
+      <button type="submit" style="padding:10px 18px;background:#4f46e5;color:#ffffff;border:0;border-radius:6px;font-size:14px;cursor:pointer;">Unsubscribe</button>
+    </form>
+    <p><a href="${escapeHtml(getAppUrl())}" style="color:#4f46e5;">Back to Everything About My Car</a></p>
+  </body>
+</html>`;
+}
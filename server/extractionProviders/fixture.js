@@ -0,0 +1,79 @@
+// Deterministic extraction for tests and demos: every document yields the same
+// result without calling any service. EXTRACTION_FIXTURE_PATH can point to a
+// JSON file in the raw structured format to return instead of the default; one with
+// "document_type": "fuel" and a fuel_entry exercises the fuel receipt flow.
+import fs from 'fs';
+
+export const DEFAULT_EXTRACTION_FIXTURE = {
+  document_type: 'service_invoice',
+  service_record: {
+    service_date: '2026-03-14',
+    service_provider: 'Main Street Auto Care',
+    mileage: 42150,
+    mileage_unit: 'mi',
+    total_cost: 189.45,
+    currency: 'USD',
+    notes: 'Front brake pads at 40%. Recommend replacement at next visit.',
+  },
+  service_items: [
+    {
+      service_type: 'Oil Change',
+      description: '5W-30 full synthetic oil, 5 qt',
+      cost: 64.99,
+      parts_replaced: ['5W-30 full synthetic oil'],
+      quantity: 5,
+      next_service_date: '2026-09-14',
+      next_service_mileage: 47150,
+    },
+    {
+      service_type: 'Filter Replacement',
+      description: 'Engine oil filter',
+      cost: 14.5,
+      parts_replaced: ['Oil filter'],
+      quantity: 1,
+      next_service_date: null,
+      next_service_mileage: 47150,
+    },
+    {
+      service_type: 'Tire Service',
+      description: 'Tire rotation and pressure check',
+      cost: 29.96,
+      parts_replaced: null,
+      quantity: null,
+      next_service_date: null,
+      next_service_mileage: 49650,
+    },
+    {
+      service_type: 'Inspection',
+      description: 'Multi-point inspection',
+      cost: 80,
+      parts_replaced: null,
+      quantity: null,
+      next_service_date: null,
+      next_service_mileage: null,
+    },
+  ],
+  vehicle_info: {
+    make: 'Toyota',
+    model: 'Camry',
+    year: 2018,
+    vin: '4T1B11HK5JU000000',
+    license_plate: null,
+  },
+};
+
+/**
+ * @param fixturePath Optional JSON file to return instead of DEFAULT_EXTRACTION_FIXTURE
+ * @returns An ExtractionProvider
+ */
+export function createFixtureProvider(fixturePath = process.env.EXTRACTION_FIXTURE_PATH) {
+  const fixture = fixturePath
+    ? JSON.parse(fs.readFileSync(fixturePath, 'utf8'))
+    : DEFAULT_EXTRACTION_FIXTURE;
+
+  return {
+    name: 'fixture',
+    // A fresh copy each time so callers can't change the fixture
+    extract: async () => JSON.parse(JSON.stringify(fixture)),
+  };
+}
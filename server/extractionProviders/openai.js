@@ -0,0 +1,259 @@
+// OpenAI vision extraction: sends the page images (and the text of PDF pages
+// that have a text layer) with the extraction prompt and returns the model's JSON as-is.
+// classify makes a short first call that picks the document type, so extract can
+// use the prompt for that type.
+import { STANDARD_SERVICE_TYPES } from '../serviceTypes.js';
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_DESCRIPTIONS, normalizeDocumentType } from '../documentClassification.js';
+
+const DEFAULT_MODEL = 'gpt-4o';
+
+/**
+ * Comprehensive prompt for extracting vehicle service data in our exact database format
+ */
+const SERVICE_EXTRACTION_PROMPT = `
+You are an expert automotive service document analyzer. Extract ALL service information from this document and return it in the EXACT JSON format specified below.
+
+CRITICAL REQUIREMENTS:
+1. Return data that maps DIRECTLY to our database tables
+2. Extract EVERY service item as a separate entry
+3. Use consistent, standardized service types
+4. Convert all dates to YYYY-MM-DD format
+5. Convert all monetary values to numbers (no currency symbols)
+6. Use null for missing values, never empty strings
+7. Be very specific about service types and descriptions
+
+REQUIRED JSON STRUCTURE:
+
+{
+  "service_record": {
+    "service_date": "YYYY-MM-DD",
+    "service_provider": "Exact business name from document",
+    "mileage": number_or_null,
+    "mileage_unit": "mi" or "km" or null,
+    "total_cost": number_or_null,
+    "currency": "ISO 4217 code of the amounts, e.g. USD, EUR, GBP" or null,
+    "notes": "Any additional notes, warranty info, recommendations"
+  },
+  "service_items": [
+    {
+      "service_type": "STANDARDIZED_TYPE",
+      "description": "Detailed description of what was done",
+      "cost": number_or_null,
+      "parts_replaced": ["part1", "part2"] or null,
+      "quantity": number_or_null,
+      "next_service_date": "YYYY-MM-DD" or null,
+      "next_service_mileage": number_or_null
+    }
+  ],
+  "vehicle_info": {
+    "make": "string_or_null",
+    "model": "string_or_null", 
+    "year": number_or_null,
+    "vin": "string_or_null",
+    "license_plate": "string_or_null"
+  },
+  "confidence": {
+    "service_record": { "service_date": 0.0-1.0, "service_provider": 0.0-1.0, "mileage": 0.0-1.0, "total_cost": 0.0-1.0 },
+    "service_items": [
+      { "service_type": 0.0-1.0, "description": 0.0-1.0, "cost": 0.0-1.0, "next_service_date": 0.0-1.0, "next_service_mileage": 0.0-1.0 }
+    ],
+    "vehicle_info": { "make": 0.0-1.0, "model": 0.0-1.0, "year": 0.0-1.0, "vin": 0.0-1.0, "license_plate": 0.0-1.0 }
+  },
+  "sources": {
+    "service_record": { "service_date": { "page": number, "text": "verbatim text" }, ... },
+    "service_items": [
+      { "service_type": { "page": number, "text": "verbatim text" }, "description": ..., "cost": ... }
+    ]
+  }
+}
+
+"confidence" mirrors the fields above: how sure you are that each value was read correctly
+from the document (1.0 = clearly printed, 0.5 = partly legible or inferred). Keep
+"confidence.service_items" in the same order as "service_items".
+
+"sources" tells the user where each value was read: the page number (as labelled
+before each page) and the exact text as printed on the document, e.g. the whole
+invoice line of a service item. Use null for values that were inferred rather than read.
+
+STANDARDIZED SERVICE TYPES (use these exact values):
+${STANDARD_SERVICE_TYPES.map(type => `- "${type}"`).join('\n')}
+
+EXTRACTION RULES:
+1. Create separate service_items for each distinct service performed
+2. If oil change includes filter, create TWO items: "Oil Change" and "Filter Replacement"
+3. Group related parts in parts_replaced array
+4. Extract specific part numbers, brands, specifications when available
+5. Include labor and parts costs separately if itemized
+6. Extract next service recommendations with specific dates/mileage
+   (mileage_unit is the unit the document prints distances in: "mi" for miles, "km" for kilometers, null if it doesn't say)
+   (currency is the currency the document prints amounts in, from its symbol, code or country; null if you can't tell)
+7. Be very detailed in descriptions - include oil type, filter type, part numbers, etc.
+
+EXAMPLES:
+- Oil change with filter → Two items: "Oil Change" (5W-30 Full Synthetic) + "Filter Replacement" (AC Delco PF123)
+- Brake pad replacement → "Brake Service" with parts_replaced: ["Front brake pads", "Brake hardware kit"]
+- Multi-point inspection → "Inspection" with detailed findings in description
+- Tire rotation → "Tire Service" with description of rotation pattern
+
+Extract EVERYTHING - don't miss any service items, parts, or recommendations!
+`;
+
+/**
+ * Picks the kind of document before extraction
+ */
+const CLASSIFICATION_PROMPT = `
+Classify this vehicle-related document. Return JSON: { "document_type": "TYPE", "confidence": 0.0-1.0 }
+
+Use one of these types:
+${DOCUMENT_TYPES.map(type => `- "${type}": ${DOCUMENT_TYPE_DESCRIPTIONS[type]}`).join('\n')}
+`;
+
+/**
+ * Prompt for gas station receipts and photos of fuel pump displays
+ */
+const FUEL_EXTRACTION_PROMPT = `
+You are an expert at reading fuel purchases. Extract the fill-up from this gas station receipt or fuel pump photo and return it in the EXACT JSON format specified below.
+
+CRITICAL REQUIREMENTS:
+1. Convert all dates to YYYY-MM-DD format
+2. Convert all monetary values and volumes to numbers (no currency symbols or units)
+3. Use null for missing values, never empty strings
+4. Only report fuel; ignore shop items such as snacks or car washes in the total if they are itemized separately
+
+REQUIRED JSON STRUCTURE:
+
+{
+  "fuel_entry": {
+    "fill_date": "YYYY-MM-DD" or null,
+    "station": "Station brand and location as printed" or null,
+    "volume": number_or_null,
+    "volume_unit": "gal" or "l",
+    "price_per_unit": number_or_null,
+    "total_cost": number_or_null,
+    "currency": "ISO 4217 code of the amounts, e.g. USD, EUR, GBP" or null,
+    "odometer": number_or_null,
+    "odometer_unit": "mi" or "km" or null
+  },
+  "vehicle_info": {
+    "make": "string_or_null",
+    "model": "string_or_null",
+    "year": number_or_null,
+    "vin": "string_or_null",
+    "license_plate": "string_or_null"
+  },
+  "confidence": {
+    "fuel_entry": { "fill_date": 0.0-1.0, "station": 0.0-1.0, "volume": 0.0-1.0, "volume_unit": 0.0-1.0, "price_per_unit": 0.0-1.0, "total_cost": 0.0-1.0, "odometer": 0.0-1.0 },
+    "vehicle_info": { "make": 0.0-1.0, "model": 0.0-1.0, "year": 0.0-1.0, "vin": 0.0-1.0, "license_plate": 0.0-1.0 }
+  },
+  "sources": {
+    "fuel_entry": { "volume": { "page": number, "text": "verbatim text" }, ... }
+  }
+}
+
+"volume_unit" is "gal" for gallons and "l" for liters; pumps outside the US usually show liters.
+"price_per_unit" is the price per gallon or liter, usually with three decimals (3.459).
+"currency" is the currency the amounts are printed in, from the symbol, code or station's country; null if you can't tell.
+"odometer" is only set when the receipt shows a mileage entered at the pump, e.g. for fleet cards; "odometer_unit" is "km" when it is in kilometers.
+Pump photos have no date or station; leave those null.
+"confidence" and "sources" work as for service invoices: how sure you are of each value, and
+the page and exact printed text each value was read from.
+`;
+
+// Text-layer lines keep the table layout, one invoice row per line
+const pageContent = (pages, firstPage, detail) => pages.flatMap((page, index) => (page.text
+  ? [{ type: 'text', text: `Page ${firstPage + index} (text layer, one line per row):\n${page.text}` }]
+  : [
+    { type: 'text', text: `Page ${firstPage + index}:` },
+    { type: 'image_url', image_url: detail ? { url: page.image, detail } : { url: page.image } },
+  ]));
+
+/**
+ * @param openai OpenAI client
+ * @param model Vision-capable chat model (EXTRACTION_OPENAI_MODEL, default gpt-4o)
+ * @returns An ExtractionProvider; extract reports the tokens spent through options.onUsage
+ */
+export function createOpenAIProvider(openai, model = DEFAULT_MODEL) {
+  return {
+    name: 'openai',
+    async classify(pages, { firstPage = 1, onUsage } = {}) {
+      const response = await openai.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'user',
+            // The first page is enough to tell the kind of document, and low detail keeps the call cheap
+            content: [
+              { type: 'text', text: CLASSIFICATION_PROMPT },
+              ...pageContent(pages.slice(0, 1), firstPage, 'low'),
+            ],
+          },
+        ],
+        max_tokens: 100,
+        response_format: { type: 'json_object' },
+      });
+
+      onUsage?.({
+        model: response.model || model,
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        imageCount: pages[0]?.image ? 1 : 0,
+      });
+
+      const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+      return {
+        documentType: normalizeDocumentType(result.document_type) || 'other',
+        confidence: typeof result.confidence === 'number' ? result.confidence : null,
+      };
+    },
+    async extract(pages, { isPdf = false, pageCount = pages.length, firstPage = 1, documentType = 'service_invoice', onUsage } = {}) {
+      const isFuel = documentType === 'fuel';
+      const prompt = isFuel ? FUEL_EXTRACTION_PROMPT : SERVICE_EXTRACTION_PROMPT;
+      const lastPage = firstPage + pages.length - 1;
+      const pageRange = pages.length < pageCount
+        ? `pages ${firstPage}-${lastPage} of this ${pageCount}-page automotive ${isFuel ? 'fuel receipt' : 'service document'}`
+        : `this ${pageCount}-page automotive ${isFuel ? 'fuel receipt' : 'service document'}`;
+      const content = [
+        {
+          type: 'text',
+          text: isPdf
+            ? `Please analyze ${pageRange} and extract ${isFuel ? 'the fuel purchase' : 'service information'} according to these requirements:\n\n${prompt}`
+            : prompt,
+        },
+        ...pageContent(pages, firstPage),
+      ];
+
+      const response = await openai.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: isFuel
+              ? 'You are an expert at reading fuel receipts and fuel pump displays. Your job is to extract the fill-up and return it in a structured format that maps directly to a vehicle fuel log.'
+              : isPdf
+              ? 'You are an expert automotive service document analyzer. Your job is to extract comprehensive service information from PDF documents, given as page text or as page images, and return it in a structured format that maps directly to a vehicle service database.'
+              : 'You are an expert automotive service document analyzer. Your job is to extract comprehensive service information and return it in a structured format that maps directly to a vehicle service database.',
+          },
+          {
+            role: 'user',
+            content,
+          },
+        ],
+        max_tokens: 4096,
+        response_format: { type: 'json_object' },
+      });
+
+      // Reported before parsing: the tokens are spent even if the reply is unusable
+      onUsage?.({
+        model: response.model || model,
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        imageCount: pages.filter(page => page.image).length,
+      });
+
+      const rawResult = JSON.parse(response.choices[0]?.message?.content || '{}');
+      rawResult.document_type = documentType;
+      console.log('Raw OpenAI extraction result:', rawResult);
+      return rawResult;
+    },
+  };
+}
@@ -0,0 +1,318 @@
+// Rule-based parser that turns the OCR text of a service invoice into the raw
+// structured result ({ service_record, service_items, vehicle_info }), or of a
+// fuel receipt into { fuel_entry, vehicle_info }. It only knows common layouts;
+// anything it can't find is left null for review.
+// sources holds the line each value was read from.
+import { STANDARD_SERVICE_TYPES } from '../serviceTypes.js';
+
+// First match wins, so the more specific patterns come first
+const SERVICE_TYPE_PATTERNS = [
+  ['Oil Change', /\boil change\b|\blube\b|\b[05]w-?\d0\b|synthetic (blend )?oil|motor oil/i],
+  ['Filter Replacement', /filter/i],
+  ['Brake Service', /brake|rotor|caliper/i],
+  ['Tire Service', /\btires?\b|rotat(e|ion)|balanc(e|ing)|alignment/i],
+  ['Battery Service', /battery/i],
+  ['Transmission Service', /transmission|\batf\b|clutch/i],
+  ['Cooling System', /coolant|radiator|antifreeze|thermostat|water pump/i],
+  ['Air Conditioning', /\ba\/c\b|air condition|refrigerant|\bhvac\b/i],
+  ['Emission Service', /emission|smog/i],
+  ['Inspection', /inspect|multi-?point/i],
+  ['Diagnostic', /diagnos|check engine|scan tool/i],
+  ['Belt/Hose Service', /\bbelt\b|\bhose\b/i],
+  ['Tune-Up', /tune-?up|spark plug|ignition coil/i],
+  ['Exhaust System', /exhaust|muffler|catalytic/i],
+  ['Fuel System', /fuel (system|injector|pump)|throttle body/i],
+  ['Suspension', /suspension|strut|shock absorber|control arm|tie rod/i],
+  ['Electrical System', /alternator|starter|fuse|bulb|wiring|headlight/i],
+  ['Fluid Service', /fluid|flush/i],
+  ['Engine Service', /engine|gasket|timing/i],
+];
+
+const SUMMARY_LINE = /\b(sub-?total|total|tax|balance|amount due|payment|paid|change due|discount)\b/i;
+
+const MAKES = [
+  'Acura', 'Audi', 'BMW', 'Buick', 'Cadillac', 'Chevrolet', 'Chevy', 'Chrysler', 'Dodge', 'Fiat', 'Ford',
+  'GMC', 'Honda', 'Hyundai', 'Infiniti', 'Jaguar', 'Jeep', 'Kia', 'Land Rover', 'Lexus', 'Lincoln', 'Mazda',
+  'Mercedes-Benz', 'Mercedes', 'Mini', 'Mitsubishi', 'Nissan', 'Porsche', 'Ram', 'Subaru', 'Tesla', 'Toyota',
+  'Volkswagen', 'VW', 'Volvo',
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = value => String(value).padStart(2, '0');
+
+const toNumber = value => {
+  const number = Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Find the first date in a string and return it as YYYY-MM-DD
+ */
+export function parseDate(text) {
+  let match = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (match) return `${match[1]}-${pad(match[2])}-${pad(match[3])}`;
+
+  match = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    // US invoices put the month first
+    return `${year}-${pad(match[1])}-${pad(match[2])}`;
+  }
+
+  match = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/i);
+  if (match) {
+    return `${match[3]}-${pad(MONTHS.indexOf(match[1].toLowerCase()) + 1)}-${pad(match[2])}`;
+  }
+
+  return null;
+}
+
+const findMoney = line => Array.from(line.matchAll(/\$?\s?(\d{1,3}(?:,\d{3})*\.\d{2})\b/g)).map(match => toNumber(match[1]));
+
+// Each finder returns { value, line } with the line the value was read from
+const NOT_FOUND = { value: null, line: null };
+
+function findServiceDate(lines) {
+  const labelled = lines.find(line => /\b(date|invoice date|service date|date in)\b/i.test(line) && parseDate(line));
+  if (labelled) return { value: parseDate(labelled), line: labelled };
+  for (const line of lines) {
+    if (/\bnext\b/i.test(line)) continue;
+    const date = parseDate(line);
+    if (date) return { value: date, line };
+  }
+  return NOT_FOUND;
+}
+
+// "km", "kms", "kilometers", "kilometres" -> km; "mi", "miles" -> mi; null if the line doesn't say
+const toDistanceUnit = text => {
+  if (/\b(kms?|kilomet(er|re)s?)\b/i.test(text)) return 'km';
+  if (/\b(mi|miles)\b/i.test(text)) return 'mi';
+  return null;
+};
+
+function findMileage(lines) {
+  for (const line of lines) {
+    if (/\bnext\b/i.test(line)) continue;
+    const match = line.match(/\b(mileage|odometer|odo|miles in|mileage in|km in)\b\D{0,15}(\d{1,3}(?:,\d{3})+|\d{3,7})/i);
+    if (match) return { value: toNumber(match[2]), unit: toDistanceUnit(line), line };
+  }
+  return { ...NOT_FOUND, unit: null };
+}
+
+// Codes and symbols that name one currency; "$" and "¥" are shared, so they're left to the app
+const CURRENCY_MARKS = [
+  ['EUR', /\bEUR\b|€/],
+  ['GBP', /\bGBP\b|£/],
+  ['INR', /\bINR\b|₹/],
+  ['CAD', /\bCAD\b|\bC\$/],
+  ['AUD', /\bAUD\b|\bA\$/],
+  ['JPY', /\bJPY\b/],
+  ['CNY', /\bCNY\b|\bRMB\b/],
+  ['USD', /\bUSD\b|\bUS\$/],
+];
+
+// The currency printed on the total line, or anywhere else on the document
+function findCurrency(lines, totalLine) {
+  for (const line of totalLine ? [totalLine, ...lines] : lines) {
+    const mark = CURRENCY_MARKS.find(([, pattern]) => pattern.test(line));
+    if (mark) return { value: mark[0], line };
+  }
+  return NOT_FOUND;
+}
+
+function findTotal(lines) {
+  const preferred = [/\b(grand total|total due|amount due|balance due|invoice total)\b/i, /\btotal\b/i];
+  for (const pattern of preferred) {
+    const candidates = lines.filter(line => pattern.test(line) && !/sub-?total/i.test(line));
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const amounts = findMoney(candidates[i]);
+      if (amounts.length > 0) return { value: amounts[amounts.length - 1], line: candidates[i] };
+    }
+  }
+  return NOT_FOUND;
+}
+
+function findProvider(lines) {
+  const provider = lines.slice(0, 5).find(line =>
+    /[a-z]{3}/i.test(line) &&
+    !/\b(invoice|receipt|date|customer|phone|tel|www\.|@)\b/i.test(line) &&
+    !parseDate(line)
+  );
+  return provider ? { value: provider.replace(/\s{2,}/g, ' '), line: provider } : NOT_FOUND;
+}
+
+function findVehicle(text) {
+  const vin = text.match(/\b[A-HJ-NPR-Z0-9]{17}\b/);
+  const plate = text.match(/\b(?:license|plate|lic\.?|tag)\s*(?:#|no\.?|number)?\s*:?\s*([A-Z0-9-]{2,8})\b/i);
+  const makePattern = MAKES.map(make => make.replace('-', '\\-')).join('|');
+  const vehicle = text.match(new RegExp(`\\b((?:19|20)\\d{2})\\s+(${makePattern})\\s+([A-Z0-9][\\w-]*)`, 'i'));
+
+  return {
+    make: vehicle ? vehicle[2] : null,
+    model: vehicle ? vehicle[3] : null,
+    year: vehicle ? Number(vehicle[1]) : null,
+    vin: vin ? vin[0] : null,
+    license_plate: plate ? plate[1].toUpperCase() : null,
+  };
+}
+
+function findNextService(lines) {
+  const nextLines = lines.filter(line => /\bnext\b/i.test(line));
+  let date = null;
+  let mileage = null;
+  for (const line of nextLines) {
+    date = date || parseDate(line);
+    const miles = line.match(/(\d{1,3}(?:,\d{3})+|\d{4,7})\s*(mi|miles|km)\b/i);
+    mileage = mileage || (miles ? toNumber(miles[1]) : null);
+  }
+  return { date, mileage };
+}
+
+const getServiceType = line => {
+  const match = SERVICE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(line));
+  return match && STANDARD_SERVICE_TYPES.includes(match[0]) ? match[0] : null;
+};
+
+function findServiceItems(lines, nextService) {
+  const items = [];
+  const seen = new Set();
+
+  for (const line of lines) {
+    if (SUMMARY_LINE.test(line) || /\bnext\b/i.test(line)) continue;
+    const serviceType = getServiceType(line);
+    if (!serviceType) continue;
+
+    const amounts = findMoney(line);
+    const description = line.replace(/\$?\s?\d{1,3}(?:,\d{3})*\.\d{2}\b/g, '').replace(/\s{2,}/g, ' ').trim();
+    const key = `${serviceType}|${description.toLowerCase()}`;
+    if (!description || seen.has(key)) continue;
+    seen.add(key);
+
+    const quantity = description.match(/\b(?:qty|x)\s*(\d+(?:\.\d+)?)\b/i);
+    const isOilChange = serviceType === 'Oil Change';
+
+    items.push({
+      line,
+      service_type: serviceType,
+      description,
+      cost: amounts.length > 0 ? amounts[amounts.length - 1] : null,
+      parts_replaced: null,
+      quantity: quantity ? toNumber(quantity[1]) : null,
+      // "Next service" reminders on invoices almost always refer to the oil change
+      next_service_date: isOilChange ? nextService.date : null,
+      next_service_mileage: isOilChange ? nextService.mileage : null,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Parse the OCR text of a service invoice
+ * @param text Text of all pages, in reading order
+ * @returns The raw structured result; sources holds lines of the text, not { page, text }
+ */
+export function parseServiceText(text) {
+  const lines = (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+  const nextService = findNextService(lines);
+  const serviceDate = findServiceDate(lines);
+  const provider = findProvider(lines);
+  const mileage = findMileage(lines);
+  const total = findTotal(lines);
+  const currency = findCurrency(lines, total.line);
+  const items = findServiceItems(lines, nextService);
+
+  return {
+    service_record: {
+      service_date: serviceDate.value,
+      service_provider: provider.value,
+      mileage: mileage.value,
+      mileage_unit: mileage.unit,
+      total_cost: total.value,
+      currency: currency.value,
+      notes: null,
+    },
+    service_items: items.map(({ line, ...item }) => item),
+    vehicle_info: findVehicle(text || ''),
+    sources: {
+      service_record: {
+        service_date: serviceDate.line,
+        service_provider: provider.line,
+        mileage: mileage.line,
+        total_cost: total.line,
+        currency: currency.line,
+      },
+      service_items: items.map(({ line }) => ({ service_type: line, description: line, cost: line })),
+    },
+  };
+}
+
+const findLine = (lines, pattern) => lines.find(line => pattern.test(line)) || null;
+
+const toVolumeUnit = text => (/\b(l|ltrs?|litres?|liters?)\b/i.test(text) ? 'l' : 'gal');
+
+function findFuelVolume(lines) {
+  for (const line of lines) {
+    const match = line.match(/(\d+[.,]\d{2,3})\s*(gal|gallons?|l|ltrs?|litres?|liters?)\b/i);
+    if (match) return { value: toNumber(match[1].replace(',', '.')), unit: toVolumeUnit(match[2]), line };
+  }
+  // Pump displays put the unit in the label: "Gallons 12.345"
+  const labelled = lines.find(line =>
+    /\b(gallons?|litres?|liters?|volume)\b/i.test(line) && !/price|\/\s*(gal|l)\b/i.test(line) && /\d+[.,]\d{2,3}/.test(line)
+  );
+  if (labelled) {
+    return { value: toNumber(labelled.match(/\d+[.,]\d{2,3}/)[0].replace(',', '.')), unit: toVolumeUnit(labelled), line: labelled };
+  }
+  return { ...NOT_FOUND, unit: null };
+}
+
+function findPricePerUnit(lines) {
+  const line = findLine(lines, /(price|ppg|\/\s*(gal|l)\b|per (gallon|litre|liter))/i);
+  if (!line) return NOT_FOUND;
+  const match = line.match(/(\d+[.,]\d{3}|\d+[.,]\d{2})/);
+  return match ? { value: toNumber(match[1].replace(',', '.')), line } : NOT_FOUND;
+}
+
+/**
+ * Parse the OCR text of a gas station receipt or fuel pump display
+ * @param text Text of all pages, in reading order
+ * @returns The raw fuel result; sources holds lines of the text, not { page, text }
+ */
+export function parseFuelText(text) {
+  const lines = (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+  const fillDate = findServiceDate(lines);
+  const station = findProvider(lines);
+  const volume = findFuelVolume(lines);
+  const price = findPricePerUnit(lines);
+  const total = findTotal(lines);
+  const currency = findCurrency(lines, total.line);
+  const odometer = findMileage(lines);
+
+  return {
+    document_type: 'fuel',
+    fuel_entry: {
+      fill_date: fillDate.value,
+      station: station.value,
+      volume: volume.value,
+      volume_unit: volume.unit,
+      price_per_unit: price.value,
+      total_cost: total.value,
+      currency: currency.value,
+      odometer: odometer.value,
+      odometer_unit: odometer.unit,
+    },
+    vehicle_info: findVehicle(text || ''),
+    sources: {
+      fuel_entry: {
+        fill_date: fillDate.line,
+        station: station.line,
+        volume: volume.line,
+        price_per_unit: price.line,
+        total_cost: total.line,
+        currency: currency.line,
+        odometer: odometer.line,
+      },
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// Local OCR with Tesseract, followed by keyword classification and the rule-based
+// invoice or fuel receipt parser. Pages that arrive as text (PDF text layer) skip the OCR step.
+// Runs without any external API. Tesseract downloads its language data on
+// first use unless TESSERACT_LANG_PATH points to a local copy (for offline hosts).
+import { createWorker } from 'tesseract.js';
+import { parseFuelText, parseServiceText } from './ruleParser.js';
+import { classifyText, isExtractedType } from '../documentClassification.js';
+
+// How much the rule parser is trusted relative to the OCR itself
+const PARSER_CONFIDENCE_FACTOR = 0.8;
+
+// Text-layer pages carry the exact characters, scored like a perfect OCR page
+const TEXT_LAYER_CONFIDENCE = 100;
+
+const dataUrlToBuffer = dataUrl => Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+
+// Same confidence for every field of the raw result
+const uniformConfidence = (rawResult, score) => {
+  const scoreFields = object => Object.fromEntries(Object.keys(object || {}).map(key => [key, score]));
+  if (rawResult.fuel_entry) {
+    return { fuel_entry: scoreFields(rawResult.fuel_entry), vehicle_info: scoreFields(rawResult.vehicle_info) };
+  }
+  return {
+    service_record: scoreFields(rawResult.service_record),
+    service_items: (rawResult.service_items || []).map(scoreFields),
+    vehicle_info: scoreFields(rawResult.vehicle_info),
+  };
+};
+
+// The parser reports source lines; turn them into { page, text } by finding the page each line is on
+const pageSources = (lineSources, texts, firstPage) => {
+  const toSource = line => {
+    if (!line) return null;
+    const index = texts.findIndex(text => text.includes(line));
+    return { page: firstPage + Math.max(index, 0), text: line };
+  };
+  const mapFields = object => Object.fromEntries(Object.entries(object || {}).map(([key, line]) => [key, toSource(line)]));
+  if (lineSources.fuel_entry) {
+    return { fuel_entry: mapFields(lineSources.fuel_entry) };
+  }
+  return {
+    service_record: mapFields(lineSources.service_record),
+    service_items: (lineSources.service_items || []).map(mapFields),
+  };
+};
+
+/**
+ * @param options { language, langPath }
+ * @returns An ExtractionProvider
+ */
+export function createTesseractProvider({ language = 'eng', langPath } = {}) {
+  return {
+    name: 'tesseract',
+    // Classified from the OCR text inside extract, so the pages are only recognized once
+    async extract(pages, { firstPage = 1, documentType } = {}) {
+      // Only start a worker when there is something to recognize
+      const worker = pages.some(page => !page.text)
+        ? await createWorker(language, 1, langPath ? { langPath } : {})
+        : null;
+      try {
+        const texts = [];
+        const scores = [];
+        for (const page of pages) {
+          if (page.text) {
+            texts.push(page.text);
+            scores.push(TEXT_LAYER_CONFIDENCE);
+            continue;
+          }
+          const { data } = await worker.recognize(dataUrlToBuffer(page.image));
+          texts.push(data.text);
+          scores.push(data.confidence);
+        }
+        const text = texts.join('\n');
+        const type = documentType || classifyText(text).documentType;
+        if (!isExtractedType(type)) {
+          return { document_type: type };
+        }
+        const rawResult = type === 'fuel' ? parseFuelText(text) : { ...parseServiceText(text), document_type: type };
+        // Tesseract only scores the text recognition; the rule parser can still misread
+        // the layout, so every field gets the average page confidence scaled down
+        const ocrConfidence = scores.reduce((sum, score) => sum + score, 0) / Math.max(scores.length, 1) / 100;
+        rawResult.confidence = uniformConfidence(rawResult, ocrConfidence * PARSER_CONFIDENCE_FACTOR);
+        rawResult.sources = pageSources(rawResult.sources, texts, firstPage);
+        console.log('Raw Tesseract extraction result:', rawResult);
+        return rawResult;
+      } finally {
+        await worker?.terminate();
+      }
+    },
+  };
+}
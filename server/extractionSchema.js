@@ -0,0 +1,544 @@
+// Strict runtime schema for the raw structured extraction result. Every provider's
+// output goes through validateExtraction (validateFuelExtraction for fuel receipts)
+// before it is normalized, so the app never sees unchecked model output. Values are
+// coerced where the intent is clear ("$1,234.50" -> 1234.5, "03/14/2026" -> "2026-03-14")
+// and set to null when they are impossible. Each field gets a review entry: { confidence, needsReview, reason }.
+import { STANDARD_SERVICE_TYPES } from './serviceTypes.js';
+import { formatDistance, formatMileage, toMiles } from './units.js';
+import { formatMoney } from './currency.js';
+
+// Below this a field is highlighted for review even if it passed validation
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Used when the provider doesn't report a confidence for a field
+const DEFAULT_CONFIDENCE = 0.8;
+
+// Lowered confidence for values that had to be reformatted
+const COERCED_CONFIDENCE_FACTOR = 0.85;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const pad = value => String(value).padStart(2, '0');
+
+// Without the user's local date, use the latest date anywhere (UTC+14), so a document
+// dated today in a time zone ahead of the server's never counts as future-dated
+const latestToday = () => new Date(Date.now() + 14 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const isBlank = value => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const isRealDate = (year, month, day) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Coerce a date to YYYY-MM-DD
+ * @returns { value, coerced } or null if it isn't a recognizable calendar date
+ */
+export function coerceDate(input) {
+  if (isBlank(input)) return null;
+  const text = String(input).trim();
+  let year;
+  let month;
+  let day;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/))) {
+    // US invoices put the month first
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3].length === 2 ? `20${match[3]}` : match[3])];
+  } else if ((match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/i))) {
+    [month, day, year] = [MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  if (!month || !isRealDate(year, month, day)) return null;
+  const value = `${year}-${pad(month)}-${pad(day)}`;
+  return { value, coerced: value !== text };
+}
+
+/**
+ * Coerce a number that may be a string with currency symbols, separators or units.
+ * Both 1,234.50 and 1.234,50 are read: the last , or . followed by one or two digits
+ * is the decimal separator, as is a lone . (3.459 per gallon); others group thousands.
+ * @returns { value, coerced } or null if there is no number
+ */
+export function coerceNumber(input) {
+  if (isBlank(input)) return null;
+  if (typeof input === 'number') return Number.isFinite(input) ? { value: input, coerced: false } : null;
+
+  const text = String(input).trim();
+  // Accounting style negatives: (12.50)
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text);
+  const numeric = text.replace(/[^\d.,]/g, '');
+  const decimal = numeric.match(/[.,](\d{1,2})$/) || (/^[\d,]*\.\d*$/.test(numeric) ? numeric.match(/\.(\d*)$/) : null);
+  const digits = decimal
+    ? `${numeric.slice(0, decimal.index).replace(/[.,]/g, '')}.${decimal[1]}`
+    : numeric.replace(/[.,]/g, '');
+  if (!digits || !/^\d*\.?\d*$/.test(digits) || digits === '.') return null;
+  const value = Number(digits) * (negative ? -1 : 1);
+  return Number.isFinite(value) ? { value, coerced: true } : null;
+}
+
+const roundCurrency = value => Math.round(value * 100) / 100;
+
+/**
+ * Reading that contradicts an extracted mileage: an earlier (or same-day) reading
+ * with a higher mileage, or a later reading with a lower one.
+ * Mirrors findRollbackConflict in src/utils/odometer.ts.
+ */
+function findMileageConflict(readings, serviceDate, mileage) {
+  const valid = readings.filter(reading => !reading.is_rollback);
+  const date = serviceDate || '9999-12-31';
+
+  const earlierHigher = valid
+    .filter(reading => reading.reading_date <= date && reading.mileage > mileage)
+    .sort((a, b) => b.mileage - a.mileage)[0];
+  if (earlierHigher) return earlierHigher;
+
+  return valid
+    .filter(reading => reading.reading_date > date && reading.mileage < mileage)
+    .sort((a, b) => a.mileage - b.mileage)[0] || null;
+}
+
+/**
+ * Builds one field's review entry
+ * @param providerConfidence Confidence reported by the provider, if any
+ * @param options { coerced, missing, required, reason }
+ */
+function review(providerConfidence, { coerced = false, missing = false, required = false, reason = null } = {}) {
+  if (reason) {
+    return { confidence: 0, needsReview: true, reason };
+  }
+  if (missing) {
+    return { confidence: 0, needsReview: required, reason: required ? 'Not found in the document' : null };
+  }
+
+  let confidence = typeof providerConfidence === 'number' && providerConfidence >= 0 && providerConfidence <= 1
+    ? providerConfidence
+    : DEFAULT_CONFIDENCE;
+  if (coerced) confidence *= COERCED_CONFIDENCE_FACTOR;
+  confidence = Math.round(confidence * 100) / 100;
+
+  return {
+    confidence,
+    needsReview: confidence < REVIEW_CONFIDENCE_THRESHOLD,
+    reason: confidence < REVIEW_CONFIDENCE_THRESHOLD ? 'Low confidence' : null,
+  };
+}
+
+function validateDateField(input, confidence, { today, required = false, allowFuture = false, label = 'Date' }) {
+  if (isBlank(input)) return { value: null, review: review(confidence, { missing: true, required }) };
+
+  const date = coerceDate(input);
+  if (!date) {
+    return { value: null, review: review(confidence, { reason: `"${input}" is not a valid date` }) };
+  }
+  if (!allowFuture && date.value > today) {
+    return { value: null, review: review(confidence, { reason: `${label} ${date.value} is in the future` }) };
+  }
+  if (date.value < '1900-01-01') {
+    return { value: null, review: review(confidence, { reason: `${label} ${date.value} is too far in the past` }) };
+  }
+  return { value: date.value, review: review(confidence, { coerced: date.coerced }) };
+}
+
+function validateMoneyField(input, confidence, { required = false, label = 'Cost' }) {
+  if (isBlank(input)) return { value: null, review: review(confidence, { missing: true, required }) };
+
+  const number = coerceNumber(input);
+  if (!number) {
+    return { value: null, review: review(confidence, { reason: `"${input}" is not an amount` }) };
+  }
+  if (number.value < 0) {
+    return { value: null, review: review(confidence, { reason: `${label} cannot be negative (${number.value})` }) };
+  }
+  return { value: roundCurrency(number.value), review: review(confidence, { coerced: number.coerced }) };
+}
+
+function validateMileageField(input, confidence, { required = false, label = 'Mileage' }) {
+  if (isBlank(input)) return { value: null, review: review(confidence, { missing: true, required }) };
+
+  const number = coerceNumber(input);
+  if (!number) {
+    return { value: null, review: review(confidence, { reason: `"${input}" is not a mileage` }) };
+  }
+  if (number.value < 0) {
+    return { value: null, review: review(confidence, { reason: `${label} cannot be negative` }) };
+  }
+  const rounded = Math.round(number.value);
+  return { value: rounded, review: review(confidence, { coerced: number.coerced || rounded !== number.value }) };
+}
+
+// "mi", "miles" -> mi; "km", "kilometers", "kilometres" -> km; null when the document doesn't say
+function validateDistanceUnit(input) {
+  const text = String(input || '').trim().toLowerCase();
+  if (/^(mi|miles?)$/.test(text)) return 'mi';
+  if (/^(kms?|kilomet(er|re)s?)$/.test(text)) return 'km';
+  return null;
+}
+
+// Symbols that name a single currency; "$" and "¥" are used by several, so they don't decide it
+const CURRENCY_SYMBOLS = { '€': 'EUR', '£': 'GBP', '₹': 'INR' };
+
+// The ISO 4217 code of the document's amounts, from the currency field or a symbol
+// printed with the total; null when the document doesn't say
+function validateCurrency(input, totalInput) {
+  const text = isBlank(input) || typeof input === 'object' ? '' : String(input).trim();
+  if (/^[a-z]{3}$/i.test(text)) return text.toUpperCase();
+  const symbol = `${text} ${typeof totalInput === 'string' ? totalInput : ''}`.match(/[€£₹]/);
+  return symbol ? CURRENCY_SYMBOLS[symbol[0]] : null;
+}
+
+// Pump prices are quoted to a tenth of a cent
+function validateUnitPriceField(input, confidence) {
+  if (isBlank(input)) return { value: null, review: review(confidence, { missing: true }) };
+
+  const number = coerceNumber(input);
+  if (!number || number.value <= 0) {
+    return { value: null, review: review(confidence, { reason: `"${input}" is not a price` }) };
+  }
+  return { value: Math.round(number.value * 1000) / 1000, review: review(confidence, { coerced: number.coerced }) };
+}
+
+function validateVolumeField(input, confidence) {
+  if (isBlank(input)) return { value: null, review: review(confidence, { missing: true, required: true }) };
+
+  const number = coerceNumber(input);
+  if (!number || number.value <= 0) {
+    return { value: null, review: review(confidence, { reason: `"${input}" is not a fuel volume` }) };
+  }
+  return { value: Math.round(number.value * 1000) / 1000, review: review(confidence, { coerced: number.coerced }) };
+}
+
+// "gal", "gallons" -> gal; "L", "liters", "litres" -> l
+function validateVolumeUnit(input, confidence) {
+  const text = String(input || '').trim().toLowerCase();
+  if (/^(gal|gals|gallons?|g)$/.test(text)) return { value: 'gal', review: review(confidence, { coerced: text !== 'gal' }) };
+  if (/^(l|ltrs?|lit(re|er)s?)$/.test(text)) return { value: 'l', review: review(confidence, { coerced: text !== 'l' }) };
+  return {
+    value: null,
+    review: isBlank(input) ? review(confidence, { missing: true, required: true }) : review(null, { reason: `"${input}" is not a volume unit` }),
+  };
+}
+
+function validateTextField(input, confidence, { required = false } = {}) {
+  if (isBlank(input) || typeof input === 'object') {
+    return { value: null, review: review(confidence, { missing: true, required }) };
+  }
+  return { value: String(input).trim(), review: review(confidence) };
+}
+
+function validateServiceType(input, confidence) {
+  if (isBlank(input)) {
+    return { value: 'Other Service', review: review(confidence, { reason: 'Service type not found' }) };
+  }
+  const text = String(input).trim();
+  const standard = STANDARD_SERVICE_TYPES.find(type => type.toLowerCase() === text.toLowerCase());
+  if (standard) {
+    return { value: standard, review: review(confidence, { coerced: standard !== text }) };
+  }
+  return { value: 'Other Service', review: review(confidence, { reason: `"${text}" is not a standard service type` }) };
+}
+
+function validatePartsReplaced(input) {
+  if (isBlank(input)) return null;
+  const parts = Array.isArray(input) ? input : String(input).split(/[,;\n]/);
+  const cleaned = parts.filter(part => typeof part === 'string' || typeof part === 'number')
+    .map(part => String(part).trim())
+    .filter(Boolean);
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+function validateQuantity(input) {
+  const number = coerceNumber(input);
+  return number && number.value > 0 ? number.value : null;
+}
+
+// Raw result keys for each review key, to look up where a field was read
+const SOURCE_KEYS = {
+  serviceDate: 'service_date',
+  serviceProvider: 'service_provider',
+  mileage: 'mileage',
+  totalCost: 'total_cost',
+  notes: 'notes',
+  serviceType: 'service_type',
+  description: 'description',
+  cost: 'cost',
+  nextServiceDate: 'next_service_date',
+  nextServiceMileage: 'next_service_mileage',
+  make: 'make',
+  model: 'model',
+  year: 'year',
+  vin: 'vin',
+  licensePlate: 'license_plate',
+  fillDate: 'fill_date',
+  station: 'station',
+  volume: 'volume',
+  volumeUnit: 'volume_unit',
+  pricePerUnit: 'price_per_unit',
+  odometer: 'odometer',
+};
+
+const toSource = value => {
+  if (!value || typeof value !== 'object' || isBlank(value.text) || typeof value.text === 'object') return null;
+  const page = Number.isInteger(value.page) && value.page > 0 ? value.page : 1;
+  return { page, text: String(value.text).trim() };
+};
+
+// Adds { page, text } of the snippet each field was read from, when the provider reported it
+const withSources = (fieldReviews, sources) => Object.fromEntries(Object.entries(fieldReviews).map(([key, fieldReview]) => {
+  const source = toSource(sources?.[SOURCE_KEYS[key]]);
+  return [key, source ? { ...fieldReview, source } : fieldReview];
+}));
+
+/**
+ * Validate the vehicle details printed on a document
+ * @returns { data, review } for vehicle_info
+ */
+function validateVehicleInfo(vehicle, vehicleConfidence, today) {
+  const yearNumber = coerceNumber(vehicle.year);
+  const maxYear = Number(today.slice(0, 4)) + 1;
+  const year = yearNumber && Number.isInteger(yearNumber.value) && yearNumber.value >= 1900 && yearNumber.value <= maxYear
+    ? { value: yearNumber.value, review: review(vehicleConfidence.year) }
+    : { value: null, review: isBlank(vehicle.year) ? review(null, { missing: true }) : review(null, { reason: `"${vehicle.year}" is not a valid model year` }) };
+
+  const vinText = isBlank(vehicle.vin) ? null : String(vehicle.vin).replace(/\s/g, '').toUpperCase();
+  const vin = !vinText
+    ? { value: null, review: review(null, { missing: true }) }
+    : VIN_PATTERN.test(vinText)
+      ? { value: vinText, review: review(vehicleConfidence.vin, { coerced: vinText !== vehicle.vin }) }
+      : { value: null, review: review(null, { reason: `"${vehicle.vin}" is not a valid VIN` }) };
+
+  const make = validateTextField(vehicle.make, vehicleConfidence.make);
+  const model = validateTextField(vehicle.model, vehicleConfidence.model);
+  const licensePlate = validateTextField(vehicle.license_plate, vehicleConfidence.license_plate);
+
+  return {
+    data: {
+      make: make.value,
+      model: model.value,
+      year: year.value,
+      vin: vin.value,
+      license_plate: licensePlate.value,
+    },
+    review: {
+      make: make.review,
+      model: model.review,
+      year: year.review,
+      vin: vin.review,
+      licensePlate: licensePlate.review,
+    },
+  };
+}
+
+/**
+ * Validate and coerce a raw extraction result
+ * @param rawResult { service_record, service_items, vehicle_info, confidence?, sources? } from a provider.
+ *   confidence optionally mirrors that shape with numbers between 0 and 1, sources with { page, text }.
+ * @param context { today: 'YYYY-MM-DD', readings: the vehicle's odometer readings (in miles),
+ *   odometerUnit: the unit the vehicle's odometer reads in, assumed when the document doesn't say,
+ *   currency: the user's preferred currency, assumed for amounts when the document doesn't say }
+ * @returns { data, review } - data has the same shape as rawResult with only valid values,
+ *   review has a { confidence, needsReview, reason, source? } entry per field
+ */
+export function validateExtraction(rawResult, { today = latestToday(), readings = [], odometerUnit = 'mi', currency = 'USD' } = {}) {
+  const raw = rawResult && typeof rawResult === 'object' ? rawResult : {};
+  const record = raw.service_record && typeof raw.service_record === 'object' ? raw.service_record : {};
+  const items = Array.isArray(raw.service_items) ? raw.service_items.filter(item => item && typeof item === 'object') : [];
+  const vehicle = raw.vehicle_info && typeof raw.vehicle_info === 'object' ? raw.vehicle_info : {};
+  const confidence = raw.confidence && typeof raw.confidence === 'object' ? raw.confidence : {};
+  const recordConfidence = confidence.service_record || {};
+  const itemConfidence = Array.isArray(confidence.service_items) ? confidence.service_items : [];
+  const vehicleConfidence = confidence.vehicle_info || {};
+  const sources = raw.sources && typeof raw.sources === 'object' ? raw.sources : {};
+  const itemSources = Array.isArray(sources.service_items) ? sources.service_items : [];
+
+  const serviceDate = validateDateField(record.service_date, recordConfidence.service_date, { today, required: true, label: 'Service date' });
+  const serviceProvider = validateTextField(record.service_provider, recordConfidence.service_provider, { required: true });
+  const mileage = validateMileageField(record.mileage, recordConfidence.mileage, {});
+  // Mileages stay in the document's unit; the app converts them when the record is saved
+  const mileageUnit = validateDistanceUnit(record.mileage_unit);
+  const totalCost = validateMoneyField(record.total_cost, recordConfidence.total_cost, { required: true, label: 'Total cost' });
+  // Amounts stay in the document's currency; null when it doesn't say
+  const documentCurrency = validateCurrency(record.currency, record.total_cost);
+  const notes = validateTextField(record.notes, recordConfidence.notes);
+
+  // A document without a unit reads like the vehicle's odometer
+  const readingUnit = mileageUnit || odometerUnit;
+
+  if (mileage.value !== null) {
+    const conflict = findMileageConflict(readings, serviceDate.value, toMiles(mileage.value, readingUnit));
+    if (conflict) {
+      mileage.review = review(null, {
+        reason: `${formatDistance(mileage.value, readingUnit)} conflicts with the ${formatMileage(conflict.mileage, readingUnit)} recorded on ${conflict.reading_date}`,
+      });
+      mileage.value = null;
+    }
+  }
+
+  const validatedItems = items.map((item, index) => {
+    const itemScores = itemConfidence[index] || {};
+    const nextServiceMileage = validateMileageField(item.next_service_mileage, itemScores.next_service_mileage, { label: 'Next service mileage' });
+    if (nextServiceMileage.value !== null && mileage.value !== null && nextServiceMileage.value <= mileage.value) {
+      nextServiceMileage.review = review(null, {
+        reason: `Next service at ${formatDistance(nextServiceMileage.value, readingUnit)} is not after the service mileage`,
+      });
+      nextServiceMileage.value = null;
+    }
+
+    const serviceType = validateServiceType(item.service_type, itemScores.service_type);
+    const description = validateTextField(item.description, itemScores.description);
+    // Keep a non-standard type's wording rather than losing it to "Other Service"
+    if (description.value === null && !isBlank(item.service_type) && serviceType.value !== String(item.service_type).trim()) {
+      description.value = String(item.service_type).trim();
+    }
+
+    return {
+      serviceType,
+      description,
+      cost: validateMoneyField(item.cost, itemScores.cost, {}),
+      nextServiceDate: validateDateField(item.next_service_date, itemScores.next_service_date, { today, allowFuture: true, label: 'Next service date' }),
+      nextServiceMileage,
+      partsReplaced: validatePartsReplaced(item.parts_replaced),
+      quantity: validateQuantity(item.quantity),
+    };
+  });
+
+  // Items that add up to more than the total usually mean a misread amount
+  const itemsTotal = roundCurrency(validatedItems.reduce((sum, item) => sum + (item.cost.value || 0), 0));
+  if (totalCost.value !== null && itemsTotal > totalCost.value + 0.01) {
+    totalCost.review = {
+      ...totalCost.review,
+      needsReview: true,
+      reason: `Service items add up to ${formatMoney(itemsTotal, documentCurrency || currency)}, more than the total`,
+    };
+  }
+
+  const vehicleInfo = validateVehicleInfo(vehicle, vehicleConfidence, today);
+
+  return {
+    data: {
+      service_record: {
+        service_date: serviceDate.value,
+        service_provider: serviceProvider.value,
+        mileage: mileage.value,
+        mileage_unit: mileageUnit,
+        total_cost: totalCost.value,
+        currency: documentCurrency,
+        notes: notes.value,
+      },
+      service_items: validatedItems.map(item => ({
+        service_type: item.serviceType.value,
+        description: item.description.value,
+        cost: item.cost.value,
+        parts_replaced: item.partsReplaced,
+        quantity: item.quantity,
+        next_service_date: item.nextServiceDate.value,
+        next_service_mileage: item.nextServiceMileage.value,
+      })),
+      vehicle_info: vehicleInfo.data,
+    },
+    review: {
+      serviceInfo: withSources({
+        serviceDate: serviceDate.review,
+        serviceProvider: serviceProvider.review,
+        mileage: mileage.review,
+        totalCost: totalCost.review,
+        notes: notes.review,
+      }, sources.service_record),
+      items: validatedItems.map((item, index) => withSources({
+        serviceType: item.serviceType.review,
+        description: item.description.review,
+        cost: item.cost.review,
+        nextServiceDate: item.nextServiceDate.review,
+        nextServiceMileage: item.nextServiceMileage.review,
+      }, itemSources[index])),
+      vehicleInfo: withSources(vehicleInfo.review, sources.vehicle_info),
+    },
+  };
+}
+
+/**
+ * Validate and coerce the raw extraction of a fuel receipt or pump photo
+ * @param rawResult { fuel_entry, vehicle_info, confidence?, sources? } from a provider
+ * @param context { today, readings, odometerUnit, currency } as for validateExtraction
+ * @returns { data, review } - data holds fuel_entry and vehicle_info, review has
+ *   fuelInfo and vehicleInfo entries like validateExtraction
+ */
+export function validateFuelExtraction(rawResult, { today = latestToday(), readings = [], odometerUnit = 'mi', currency = 'USD' } = {}) {
+  const raw = rawResult && typeof rawResult === 'object' ? rawResult : {};
+  const entry = raw.fuel_entry && typeof raw.fuel_entry === 'object' ? raw.fuel_entry : {};
+  const vehicle = raw.vehicle_info && typeof raw.vehicle_info === 'object' ? raw.vehicle_info : {};
+  const confidence = raw.confidence && typeof raw.confidence === 'object' ? raw.confidence : {};
+  const entryConfidence = confidence.fuel_entry || {};
+  const sources = raw.sources && typeof raw.sources === 'object' ? raw.sources : {};
+
+  const fillDate = validateDateField(entry.fill_date, entryConfidence.fill_date, { today, required: true, label: 'Fill date' });
+  const station = validateTextField(entry.station, entryConfidence.station);
+  const volume = validateVolumeField(entry.volume, entryConfidence.volume);
+  const volumeUnit = validateVolumeUnit(entry.volume_unit, entryConfidence.volume_unit);
+  const pricePerUnit = validateUnitPriceField(entry.price_per_unit, entryConfidence.price_per_unit);
+  const totalCost = validateMoneyField(entry.total_cost, entryConfidence.total_cost, { required: true, label: 'Total cost' });
+  const documentCurrency = validateCurrency(entry.currency, entry.total_cost);
+  // Required because every fill-up records an odometer reading
+  const odometer = validateMileageField(entry.odometer, entryConfidence.odometer, { required: true, label: 'Odometer' });
+  const documentOdometerUnit = validateDistanceUnit(entry.odometer_unit);
+  const readingUnit = documentOdometerUnit || odometerUnit;
+
+  if (odometer.value !== null) {
+    const conflict = findMileageConflict(readings, fillDate.value, toMiles(odometer.value, readingUnit));
+    if (conflict) {
+      odometer.review = review(null, {
+        reason: `${formatDistance(odometer.value, readingUnit)} conflicts with the ${formatMileage(conflict.mileage, readingUnit)} recorded on ${conflict.reading_date}`,
+      });
+      odometer.value = null;
+    }
+  }
+
+  // Volume times price should come to the total; a gap usually means a misread digit
+  if (volume.value !== null && pricePerUnit.value !== null && totalCost.value !== null) {
+    const expected = roundCurrency(volume.value * pricePerUnit.value);
+    if (Math.abs(expected - totalCost.value) > Math.max(0.05, totalCost.value * 0.005)) {
+      totalCost.review = {
+        ...totalCost.review,
+        needsReview: true,
+        reason: `Volume times price comes to ${formatMoney(expected, documentCurrency || currency)}, not the total`,
+      };
+    }
+  }
+
+  const vehicleInfo = validateVehicleInfo(vehicle, confidence.vehicle_info || {}, today);
+
+  return {
+    data: {
+      fuel_entry: {
+        fill_date: fillDate.value,
+        station: station.value,
+        volume: volume.value,
+        volume_unit: volumeUnit.value,
+        price_per_unit: pricePerUnit.value,
+        total_cost: totalCost.value,
+        currency: documentCurrency,
+        odometer: odometer.value,
+        odometer_unit: documentOdometerUnit,
+      },
+      vehicle_info: vehicleInfo.data,
+    },
+    review: {
+      fuelInfo: withSources({
+        fillDate: fillDate.review,
+        station: station.review,
+        volume: volume.review,
+        volumeUnit: volumeUnit.review,
+        pricePerUnit: pricePerUnit.review,
+        totalCost: totalCost.review,
+        odometer: odometer.review,
+      }, sources.fuel_entry),
+      vehicleInfo: withSources(vehicleInfo.review, sources.vehicle_info),
+    },
+  };
+}
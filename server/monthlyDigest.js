@@ -0,0 +1,258 @@
+// Background job that emails users who opted in a summary of the previous month:
+// services, spend on services, fuel and other expenses per vehicle, maintenance due,
+// and open recalls. email_digests records who already got which month.
+import { wantsNotification } from './push.js';
+import { getUnsubscribeUrl, isEmailConfigured, sendEmail } from './email.js';
+import { renderMonthlyDigestEmail } from './emailTemplates.js';
+import { collectDueReminders } from './reminderScheduler.js';
+import { buildExchangeRateTable, canConvert, convertAmount, toCurrencyCode } from './currency.js';
+import { getOdometerUnit } from './units.js';
+
+const CHECK_INTERVAL_HOURS = 6;
+const STARTUP_DELAY_MS = 3 * 60 * 1000;
+// The digest shipped in October 2026; earlier months are never sent
+const FIRST_DIGEST_PERIOD = '2026-10';
+
+const pad = value => String(value).padStart(2, '0');
+
+/**
+ * The month before the reference date
+ * @returns { period: 'yyyy-MM', start, end, label } with start/end as yyyy-MM-dd (end exclusive)
+ */
+export function getDigestPeriod(today) {
+  const year = today.getMonth() === 0 ? today.getFullYear() - 1 : today.getFullYear();
+  const month = today.getMonth() === 0 ? 12 : today.getMonth();
+  return {
+    period: `${year}-${pad(month)}`,
+    start: `${year}-${pad(month)}-01`,
+    end: `${today.getFullYear()}-${pad(today.getMonth() + 1)}-01`,
+    label: new Date(year, month - 1, 1).toLocaleString('en-US', { month: 'long', year: 'numeric' }),
+  };
+}
+
+/**
+ * Adds up amounts in the preferred currency. Amounts in a currency the user has no
+ * exchange rate for are totalled in their own currency instead.
+ * @param costs [{ amount, currency }]
+ * @returns { spend, unconvertedSpend: { [currency]: amount } }
+ */
+function sumSpend(costs, currency, rates) {
+  const unconvertedSpend = {};
+  let spend = 0;
+  costs.forEach(cost => {
+    const amount = Number(cost.amount || 0);
+    const from = toCurrencyCode(cost.currency, currency);
+    if (canConvert(from, currency, rates)) {
+      spend += convertAmount(amount, from, currency, rates);
+    } else {
+      unconvertedSpend[from] = (unconvertedSpend[from] || 0) + amount;
+    }
+  });
+  return { spend, unconvertedSpend };
+}
+
+// Spend is converted to the user's preferred currency with their exchange rates, and
+// mileage is shown in the unit each vehicle's odometer reads in
+async function buildVehicleSummaries(supabase, vehicles, period, remindersByVehicle, currency, rates, preferredUnits) {
+  const vehicleIds = vehicles.map(vehicle => vehicle.id);
+
+  const [recordsResult, fuelResult, expensesResult, recallsResult] = await Promise.all([
+    supabase
+      .from('service_records')
+      .select('vehicle_id, total_cost, currency')
+      .in('vehicle_id', vehicleIds)
+      .gte('service_date', period.start)
+      .lt('service_date', period.end),
+    supabase
+      .from('fuel_entries')
+      .select('vehicle_id, total_cost, currency')
+      .in('vehicle_id', vehicleIds)
+      .gte('fill_date', period.start)
+      .lt('fill_date', period.end),
+    supabase
+      .from('vehicle_expenses')
+      .select('vehicle_id, amount, currency')
+      .in('vehicle_id', vehicleIds)
+      .gte('expense_date', period.start)
+      .lt('expense_date', period.end),
+    supabase
+      .from('recall_notices')
+      .select('vehicle_id, status')
+      .in('vehicle_id', vehicleIds),
+  ]);
+
+  if (recordsResult.error) throw recordsResult.error;
+  if (fuelResult.error) throw fuelResult.error;
+  if (expensesResult.error) throw expensesResult.error;
+  if (recallsResult.error) throw recallsResult.error;
+
+  return vehicles.map(vehicle => {
+    const ofVehicle = row => row.vehicle_id === vehicle.id;
+    const records = (recordsResult.data || []).filter(ofVehicle);
+    const costs = [
+      ...records.map(record => ({ amount: record.total_cost, currency: record.currency })),
+      ...(fuelResult.data || []).filter(ofVehicle).map(entry => ({ amount: entry.total_cost, currency: entry.currency })),
+      ...(expensesResult.data || []).filter(ofVehicle),
+    ];
+    const reminders = remindersByVehicle.get(vehicle.id) || [];
+    return {
+      vehicleName: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+      mileage: vehicle.mileage,
+      distanceUnit: getOdometerUnit(vehicle.odometer_unit, preferredUnits),
+      serviceCount: records.length,
+      ...sumSpend(costs, currency, rates),
+      overdueCount: reminders.filter(reminder => reminder.reminderType === 'overdue').length,
+      upcomingCount: reminders.filter(reminder => reminder.reminderType === 'due').length,
+      openRecallCount: (recallsResult.data || [])
+        .filter(recall => recall.vehicle_id === vehicle.id && recall.status?.toLowerCase() !== 'completed')
+        .length,
+    };
+  });
+}
+
+/**
+ * Send the digest for the previous month to everyone who opted in and hasn't received it yet
+ * @param supabase Service-role client (reads all users' records)
+ * @returns Totals for logging
+ */
+export async function runMonthlyDigest(supabase, today = new Date()) {
+  if (!isEmailConfigured()) return { digestsSent: 0 };
+
+  const period = getDigestPeriod(today);
+  let digestsSent = 0;
+  if (period.period < FIRST_DIGEST_PERIOD) return { digestsSent };
+
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, user_id, make, model, year, mileage, odometer_unit');
+
+  if (error) {
+    console.error('Monthly digest: error fetching vehicles:', error);
+    return { digestsSent };
+  }
+
+  const { data: alreadySent, error: sentError } = await supabase
+    .from('email_digests')
+    .select('user_id')
+    .eq('period', period.period);
+
+  if (sentError) {
+    console.error('Monthly digest: error fetching sent digests:', sentError);
+    return { digestsSent };
+  }
+
+  const sentUsers = new Set((alreadySent || []).map(row => row.user_id));
+  const vehiclesByUser = new Map();
+  (vehicles || []).forEach(vehicle => {
+    if (sentUsers.has(vehicle.user_id)) return;
+    vehiclesByUser.set(vehicle.user_id, [...(vehiclesByUser.get(vehicle.user_id) || []), vehicle]);
+  });
+
+  if (vehiclesByUser.size === 0) return { digestsSent };
+
+  const remindersByVehicle = new Map();
+  try {
+    const byUser = await collectDueReminders(supabase, today, { dueDays: 30, dueMiles: 1000 });
+    byUser.forEach(reminders => reminders.forEach(reminder => {
+      remindersByVehicle.set(reminder.vehicleId, [...(remindersByVehicle.get(reminder.vehicleId) || []), reminder]);
+    }));
+  } catch (reminderError) {
+    console.error('Monthly digest: error collecting maintenance reminders:', reminderError);
+  }
+
+  for (const [userId, userVehicles] of vehiclesByUser) {
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('email, first_name, notification_preferences, preferred_currency, preferred_units')
+        .eq('id', userId)
+        .single();
+
+      if (profileError) {
+        console.error(`Error fetching profile for user ${userId}:`, profileError);
+        continue;
+      }
+
+      // Unlike the alerts, the digest is only sent to users who switched it on
+      if (!profile.email || profile.notification_preferences?.monthly_digest !== true ||
+          !wantsNotification(profile.notification_preferences, 'email', [])) {
+        continue;
+      }
+
+      // Claim the period first so two overlapping runs can't both send
+      const { data: claimed, error: claimError } = await supabase
+        .from('email_digests')
+        .upsert({ user_id: userId, period: period.period }, { onConflict: 'user_id,period', ignoreDuplicates: true })
+        .select();
+
+      if (claimError) {
+        console.error(`Error recording digest for user ${userId}:`, claimError);
+        continue;
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      const { data: exchangeRates, error: ratesError } = await supabase
+        .from('exchange_rates')
+        .select('currency, units_per_usd')
+        .eq('user_id', userId);
+
+      if (ratesError) {
+        console.error(`Error fetching exchange rates for user ${userId}:`, ratesError);
+      }
+
+      const currency = toCurrencyCode(profile.preferred_currency);
+      const summaries = await buildVehicleSummaries(
+        supabase, userVehicles, period, remindersByVehicle, currency, buildExchangeRateTable(exchangeRates || []),
+        profile.preferred_units
+      );
+      const unsubscribeUrl = getUnsubscribeUrl(userId, 'digest');
+      const sent = await sendEmail(profile.email, renderMonthlyDigestEmail({
+        firstName: profile.first_name,
+        monthLabel: period.label,
+        currency,
+        vehicles: summaries,
+        unsubscribeUrl,
+      }), unsubscribeUrl);
+
+      if (sent) {
+        digestsSent++;
+      } else {
+        // Release the claim so the next run retries
+        await supabase.from('email_digests').delete().eq('user_id', userId).eq('period', period.period);
+      }
+    } catch (userError) {
+      console.error(`Monthly digest: error sending digest to user ${userId}:`, userError);
+    }
+  }
+
+  console.log(`Monthly digest: sent ${digestsSent} digests for ${period.period}`);
+  return { digestsSent };
+}
+
+/**
+ * Check a few times a day whether the previous month's digest still has to go out
+ * @returns A function that stops the job
+ */
+export function startMonthlyDigest(supabase) {
+  let running = false;
+
+  const run = async () => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (running) return;
+    running = true;
+    try {
+      await runMonthlyDigest(supabase);
+    } finally {
+      running = false;
+    }
+  };
+
+  const startupTimer = setTimeout(run, STARTUP_DELAY_MS);
+  const interval = setInterval(run, CHECK_INTERVAL_HOURS * 60 * 60 * 1000);
+  console.log('Monthly digest scheduled');
+
+  return () => {
+    clearTimeout(startupTimer);
+    clearInterval(interval);
+  };
+}
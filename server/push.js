@@ -0,0 +1,92 @@
+// Web Push delivery using VAPID keys from the environment.
+// Generate a key pair once with: npx web-push generate-vapid-keys
+import webpush from 'web-push';
+
+let isConfigured = false;
+
+export function configureWebPush() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT || 'mailto:support@everythingaboutmycar.com';
+
+  if (!publicKey || !privateKey) {
+    console.warn('VAPID keys not set; push notifications are disabled');
+    isConfigured = false;
+    return false;
+  }
+
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+  isConfigured = true;
+  console.log('Web Push configured');
+  return true;
+}
+
+export function isWebPushConfigured() {
+  return isConfigured;
+}
+
+/**
+ * Check a user's notification preferences for a channel and topic.
+ * Profiles store snake_case keys (recall_alerts) while older rows use camelCase (recallNotices),
+ * so every alias of the topic is checked. Missing keys count as opted in.
+ */
+export function wantsNotification(preferences, channel, topicKeys) {
+  const prefs = preferences && typeof preferences === 'object' ? preferences : {};
+  if (prefs[channel] === false) return false;
+  return topicKeys.every(key => prefs[key] !== false);
+}
+
+/**
+ * Send a notification to every device the user has subscribed
+ * @param supabase Client allowed to read push_subscriptions for any user
+ * @param userId The user to notify
+ * @param payload { title, body, url, tag } shown by the service worker
+ * @returns The number of devices the message was delivered to
+ */
+export async function sendPushToUser(supabase, userId, payload) {
+  if (!isConfigured) return 0;
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching push subscriptions:', error);
+    return 0;
+  }
+
+  let delivered = 0;
+  for (const subscription of subscriptions || []) {
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify(payload)
+      );
+      delivered++;
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_success_at: new Date().toISOString() })
+        .eq('id', subscription.id);
+    } catch (sendError) {
+      // 404/410 mean the browser dropped the subscription; it will never work again
+      if (sendError.statusCode === 404 || sendError.statusCode === 410) {
+        console.log(`Removing expired push subscription ${subscription.id}`);
+        const { error: deleteError } = await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('id', subscription.id);
+        if (deleteError) {
+          console.error('Error removing expired push subscription:', deleteError);
+        }
+      } else {
+        console.error(`Error sending push to subscription ${subscription.id}:`, sendError.statusCode || sendError.message);
+      }
+    }
+  }
+
+  return delivered;
+}
@@ -0,0 +1,173 @@
+// Background job that checks every vehicle against the NHTSA recalls API and
+// sends an email and a push notification for each newly found campaign. The first
+// check of a vehicle only records the campaigns already out, without notifying.
+import { fetchNhtsaRecalls, mapNhtsaRecallToNotice, resolveRecallVehicle, uniqueNhtsaCampaigns } from '../shared/nhtsaRecalls.js';
+import { sendPushToUser, wantsNotification } from './push.js';
+import { getUnsubscribeUrl, sendEmail } from './email.js';
+import { renderRecallAlertEmail } from './emailTemplates.js';
+
+const DEFAULT_INTERVAL_HOURS = 24;
+const STARTUP_DELAY_MS = 60 * 1000;
+
+/**
+ * Insert campaigns the vehicle doesn't have yet. Existing notices are left
+ * untouched so user edits and completed statuses survive.
+ * @returns The newly inserted recall notices
+ */
+async function storeNewRecalls(supabase, vehicle, campaigns) {
+  const { data: stored, error: storedError } = await supabase
+    .from('recall_notices')
+    .select('recall_number')
+    .eq('vehicle_id', vehicle.id);
+
+  if (storedError) throw storedError;
+
+  const known = new Set((stored || []).map(notice => notice.recall_number));
+  const rows = uniqueNhtsaCampaigns(campaigns)
+    .filter(campaign => !known.has(campaign.NHTSACampaignNumber))
+    .map(campaign => mapNhtsaRecallToNotice(campaign, vehicle.id));
+
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('recall_notices')
+    .upsert(rows, { onConflict: 'vehicle_id,recall_number', ignoreDuplicates: true })
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function notifyNewRecalls(supabase, vehicle, notices) {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('email, first_name, notification_preferences')
+    .eq('id', vehicle.user_id)
+    .single();
+
+  if (error) {
+    console.error(`Error fetching notification preferences for user ${vehicle.user_id}:`, error);
+    return;
+  }
+
+  const vehicleName = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+  const topicKeys = ['recall_alerts', 'recallNotices'];
+
+  if (profile.email && wantsNotification(profile.notification_preferences, 'email', topicKeys)) {
+    const unsubscribeUrl = getUnsubscribeUrl(vehicle.user_id, 'recalls');
+    await sendEmail(profile.email, renderRecallAlertEmail({
+      firstName: profile.first_name,
+      vehicleName,
+      vehicleId: vehicle.id,
+      recalls: notices,
+      unsubscribeUrl,
+    }), unsubscribeUrl);
+  }
+
+  if (!wantsNotification(profile.notification_preferences, 'push', topicKeys)) {
+    return;
+  }
+
+  for (const notice of notices) {
+    const summary = notice.description.split('\n')[0];
+    await sendPushToUser(supabase, vehicle.user_id, {
+      title: `New recall for your ${vehicleName}`,
+      body: summary.length > 140 ? `${summary.slice(0, 137)}...` : summary,
+      url: `/recalls?vehicleId=${vehicle.id}&recallId=${notice.id}`,
+      tag: `recall-${notice.id}`,
+    });
+  }
+}
+
+/**
+ * Check every vehicle once
+ * @param supabase Service-role client (reads all users' vehicles)
+ * @returns Totals for logging
+ */
+export async function runRecallCheck(supabase) {
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, user_id, make, model, year, vin, recalls_checked_at');
+
+  if (error) {
+    console.error('Recall monitor: error fetching vehicles:', error);
+    return { vehiclesChecked: 0, newRecalls: 0, seededRecalls: 0 };
+  }
+
+  // Many users drive the same model; ask NHTSA once per make/model/year
+  const lookups = new Map();
+  let vehiclesChecked = 0;
+  let newRecalls = 0;
+  let seededRecalls = 0;
+
+  for (const vehicle of vehicles || []) {
+    try {
+      // Vehicles added by VIN alone are looked up by what the VIN decodes to
+      const resolved = await resolveRecallVehicle(vehicle);
+      if (!resolved) {
+        console.warn(`Recall monitor: no make, model and year for vehicle ${vehicle.id}`);
+        continue;
+      }
+
+      const key = `${resolved.make}|${resolved.model}|${resolved.year}`.toUpperCase();
+      if (!lookups.has(key)) {
+        lookups.set(key, await fetchNhtsaRecalls(resolved.make, resolved.model, resolved.year));
+      }
+      const campaigns = lookups.get(key);
+      if (!campaigns) {
+        throw new Error(`NHTSA recalls API unavailable for ${resolved.year} ${resolved.make} ${resolved.model}`);
+      }
+
+      const notices = await storeNewRecalls(supabase, vehicle, campaigns);
+
+      const { error: checkedError } = await supabase
+        .from('vehicles')
+        .update({ recalls_checked_at: new Date().toISOString() })
+        .eq('id', vehicle.id);
+      if (checkedError) throw checkedError;
+
+      vehiclesChecked++;
+      if (!vehicle.recalls_checked_at) {
+        // Campaigns from before the vehicle was first checked aren't news
+        seededRecalls += notices.length;
+      } else if (notices.length > 0) {
+        newRecalls += notices.length;
+        await notifyNewRecalls(supabase, { ...vehicle, ...resolved }, notices);
+      }
+    } catch (vehicleError) {
+      console.error(`Recall monitor: error checking vehicle ${vehicle.id}:`, vehicleError);
+    }
+  }
+
+  console.log(`Recall monitor: checked ${vehiclesChecked} vehicles, found ${newRecalls} new recalls, recorded ${seededRecalls} existing recalls`);
+  return { vehiclesChecked, newRecalls, seededRecalls };
+}
+
+/**
+ * Run the recall check on a fixed interval (RECALL_CHECK_INTERVAL_HOURS, default 24)
+ * @returns A function that stops the monitor
+ */
+export function startRecallMonitor(supabase) {
+  const intervalHours = Number(process.env.RECALL_CHECK_INTERVAL_HOURS) || DEFAULT_INTERVAL_HOURS;
+  let running = false;
+
+  const run = async () => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (running) return;
+    running = true;
+    try {
+      await runRecallCheck(supabase);
+    } finally {
+      running = false;
+    }
+  };
+
+  const startupTimer = setTimeout(run, STARTUP_DELAY_MS);
+  const interval = setInterval(run, intervalHours * 60 * 60 * 1000);
+  console.log(`Recall monitor scheduled every ${intervalHours} hours`);
+
+  return () => {
+    clearTimeout(startupTimer);
+    clearInterval(interval);
+  };
+}
@@ -0,0 +1,391 @@
+// Background job that looks at next_service_date / next_service_mileage on
+// service_items and maintenance_records and reminds owners of due and overdue
+// maintenance on the channels they enabled. Every delivery is logged in
+// sent_reminders so an item is announced once per channel.
+import { sendPushToUser, wantsNotification } from './push.js';
+import { getUnsubscribeUrl, isEmailConfigured, sendEmail } from './email.js';
+import { isSmsConfigured, sendSms, wantsSms } from './sms.js';
+import { renderMaintenanceDueEmail } from './emailTemplates.js';
+import { formatMileage, getOdometerUnit } from './units.js';
+
+const DEFAULT_INTERVAL_HOURS = 12;
+const DEFAULT_DUE_DAYS = 14;
+const DEFAULT_DUE_MILES = 500;
+const STARTUP_DELAY_MS = 2 * 60 * 1000;
+
+export const REMINDER_CHANNELS = ['email', 'push', 'sms'];
+
+const toDateString = date => date.toISOString().split('T')[0];
+
+const addDays = (date, days) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Decide whether an item needs a reminder
+ * @param item Anything with next_service_date / next_service_mileage
+ * @param currentMileage The vehicle's latest odometer reading, if known
+ * @param today Reference date
+ * @param thresholds { dueDays, dueMiles } - how early "due soon" starts
+ * @returns 'overdue', 'due' or null when nothing is due yet
+ */
+export function getReminderType(item, currentMileage, today, { dueDays, dueMiles }) {
+  const todayString = toDateString(today);
+  const dueSoonDate = toDateString(addDays(today, dueDays));
+  const hasMileage = !!item.next_service_mileage && currentMileage !== null && currentMileage !== undefined;
+
+  if ((item.next_service_date && item.next_service_date < todayString) ||
+      (hasMileage && currentMileage >= item.next_service_mileage)) {
+    return 'overdue';
+  }
+
+  if ((item.next_service_date && item.next_service_date <= dueSoonDate) ||
+      (hasMileage && currentMileage >= item.next_service_mileage - dueMiles)) {
+    return 'due';
+  }
+
+  return null;
+}
+
+/**
+ * Preference keys that must not be switched off for a reminder.
+ * maintenance_reminders is the Profile page toggle; the camelCase keys come from NotificationPreferences.
+ */
+export function getReminderTopicKeys(reminder) {
+  const keys = ['maintenance_reminders', reminder.reminderType === 'overdue' ? 'maintenanceOverdue' : 'maintenanceDue'];
+  if (reminder.sourceTable === 'service_items') {
+    keys.push('serviceReminders');
+  }
+  return keys;
+}
+
+// Identifies what the reminder was about; rescheduling an item produces a new key
+const getDueKey = item => `${item.next_service_date || ''}|${item.next_service_mileage || ''}`;
+
+const getSentKey = (reminder, channel) =>
+  [reminder.sourceTable, reminder.sourceId, reminder.reminderType, channel, reminder.dueKey].join(':');
+
+/**
+ * Short title/body for a reminder, shared by all channels. Mileages are shown in
+ * reminder.distanceUnit, the unit the vehicle's odometer reads in.
+ */
+export function describeReminder(reminder) {
+  const dueParts = [];
+  if (reminder.nextServiceDate) dueParts.push(`on ${reminder.nextServiceDate}`);
+  if (reminder.nextServiceMileage) dueParts.push(`at ${formatMileage(reminder.nextServiceMileage, reminder.distanceUnit)}`);
+  const due = dueParts.join(' or ');
+
+  if (reminder.reminderType === 'overdue') {
+    return {
+      title: `${reminder.serviceType} is overdue`,
+      body: `${reminder.serviceType} for your ${reminder.vehicleName} was due ${due}.`,
+    };
+  }
+
+  return {
+    title: `${reminder.serviceType} due soon`,
+    body: `${reminder.serviceType} for your ${reminder.vehicleName} is due ${due}.`,
+  };
+}
+
+// Only the most recent entry per vehicle and service type is still relevant
+function keepLatestPerServiceType(entries) {
+  const latest = new Map();
+  for (const entry of entries) {
+    const key = `${entry.vehicleId}|${entry.serviceType.trim().toLowerCase()}`;
+    const current = latest.get(key);
+    if (!current || entry.serviceDate > current.serviceDate) {
+      latest.set(key, entry);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+// PostgREST caps the rows in one response, so the schedules are read a page at a time
+const PAGE_SIZE = 1000;
+
+const VEHICLE_COLUMNS = 'id, user_id, make, model, year, mileage, odometer_unit';
+
+async function fetchAllPages(buildQuery) {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Each entry carries its vehicle through a join, so no list of ids goes into the URL
+async function fetchScheduledEntries(supabase) {
+  const maintenanceRecords = await fetchAllPages(() => supabase
+    .from('maintenance_records')
+    .select(`id, service_type, service_date, next_service_date, next_service_mileage, vehicle:vehicles!inner(${VEHICLE_COLUMNS})`));
+
+  const serviceItems = await fetchAllPages(() => supabase
+    .from('service_items')
+    .select(`id, service_type, next_service_date, next_service_mileage, service_record:service_records!inner(service_date, vehicle:vehicles!inner(${VEHICLE_COLUMNS}))`));
+
+  const entries = [
+    ...serviceItems.map(item => ({
+      ...item,
+      sourceTable: 'service_items',
+      vehicle: item.service_record?.vehicle,
+      serviceType: item.service_type,
+      serviceDate: item.service_record?.service_date || '',
+    })),
+    ...maintenanceRecords.map(record => ({
+      ...record,
+      sourceTable: 'maintenance_records',
+      serviceType: record.service_type,
+      serviceDate: record.service_date,
+    })),
+  ]
+    .filter(entry => entry.vehicle && entry.serviceType)
+    .map(entry => ({ ...entry, vehicleId: entry.vehicle.id }));
+
+  // A newer service of the same type replaces the old schedule, even if it has no next service
+  return keepLatestPerServiceType(entries)
+    .filter(entry => entry.next_service_date || entry.next_service_mileage);
+}
+
+/**
+ * Find every reminder that is currently due, across all vehicles
+ * @returns Reminders grouped by user id
+ */
+export async function collectDueReminders(supabase, today, thresholds) {
+  const entries = await fetchScheduledEntries(supabase);
+
+  const byUser = new Map();
+  for (const entry of entries) {
+    const { vehicle } = entry;
+    const reminderType = getReminderType(entry, vehicle.mileage, today, thresholds);
+    if (!reminderType) continue;
+
+    const reminders = byUser.get(vehicle.user_id) || [];
+    reminders.push({
+      userId: vehicle.user_id,
+      vehicleId: vehicle.id,
+      vehicleName: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+      sourceTable: entry.sourceTable,
+      sourceId: entry.id,
+      serviceType: entry.serviceType,
+      reminderType,
+      nextServiceDate: entry.next_service_date,
+      nextServiceMileage: entry.next_service_mileage,
+      currentMileage: vehicle.mileage,
+      odometerUnit: vehicle.odometer_unit,
+      dueKey: getDueKey(entry),
+    });
+    byUser.set(vehicle.user_id, reminders);
+  }
+
+  return byUser;
+}
+
+async function fetchSentKeys(supabase, userId) {
+  const { data, error } = await supabase
+    .from('sent_reminders')
+    .select('source_table, source_id, reminder_type, channel, due_key')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return new Set((data || []).map(row =>
+    [row.source_table, row.source_id, row.reminder_type, row.channel, row.due_key].join(':')
+  ));
+}
+
+async function recordSentReminders(supabase, reminders, channel) {
+  if (reminders.length === 0) return;
+
+  const { error } = await supabase
+    .from('sent_reminders')
+    .upsert(reminders.map(reminder => ({
+      user_id: reminder.userId,
+      vehicle_id: reminder.vehicleId,
+      source_table: reminder.sourceTable,
+      source_id: reminder.sourceId,
+      reminder_type: reminder.reminderType,
+      channel,
+      due_key: reminder.dueKey,
+    })), { onConflict: 'source_table,source_id,reminder_type,channel,due_key', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Error recording sent ${channel} reminders:`, error);
+  }
+}
+
+/**
+ * Push sender: one notification per reminder
+ * @returns The reminders that reached at least one device
+ */
+async function sendPushReminders(supabase, userId, reminders) {
+  const delivered = [];
+  for (const reminder of reminders) {
+    const { title, body } = describeReminder(reminder);
+    const devices = await sendPushToUser(supabase, userId, {
+      title,
+      body,
+      url: `/maintenance?vehicleId=${reminder.vehicleId}`,
+      tag: `reminder-${reminder.sourceId}-${reminder.reminderType}`,
+    });
+    if (devices > 0) delivered.push(reminder);
+  }
+  return delivered;
+}
+
+/**
+ * Email sender: one message listing every pending reminder
+ * @returns The reminders included in the delivered email
+ */
+async function sendEmailReminders(supabase, userId, reminders) {
+  if (!isEmailConfigured()) return [];
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('email, first_name')
+    .eq('id', userId)
+    .single();
+
+  if (error || !profile?.email) {
+    console.error(`Error fetching email address for user ${userId}:`, error);
+    return [];
+  }
+
+  const unsubscribeUrl = getUnsubscribeUrl(userId, 'maintenance');
+  const email = renderMaintenanceDueEmail({ firstName: profile.first_name, reminders, unsubscribeUrl });
+  return (await sendEmail(profile.email, email, unsubscribeUrl)) ? reminders : [];
+}
+
+/**
+ * SMS sender: one text listing every pending reminder, sent to the profile's phone number
+ * @returns The reminders included in the delivered message
+ */
+async function sendSmsReminders(supabase, userId, reminders) {
+  if (!isSmsConfigured()) return [];
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('phone_number, notification_preferences')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error(`Error fetching phone number for user ${userId}:`, error);
+    return [];
+  }
+  if (!profile?.phone_number || !wantsSms(profile.notification_preferences)) return [];
+
+  const body = reminders.map(reminder => describeReminder(reminder).body).join('\n');
+  return (await sendSms(profile.phone_number, body)) ? reminders : [];
+}
+
+/**
+ * Senders by channel. Each receives (supabase, userId, reminders) and resolves to
+ * the reminders it delivered. Every channel in REMINDER_CHANNELS has one.
+ */
+export const defaultReminderSenders = {
+  email: sendEmailReminders,
+  push: sendPushReminders,
+  sms: sendSmsReminders,
+};
+
+/**
+ * Check all vehicles once and send the reminders that haven't been sent yet
+ * @param supabase Service-role client (reads all users' records)
+ * @param options { senders, today, dueDays, dueMiles }
+ * @returns Totals for logging
+ */
+export async function runReminderCheck(supabase, options = {}) {
+  const senders = options.senders || defaultReminderSenders;
+  const today = options.today || new Date();
+  const thresholds = {
+    dueDays: options.dueDays ?? (Number(process.env.REMINDER_DUE_DAYS) || DEFAULT_DUE_DAYS),
+    dueMiles: options.dueMiles ?? (Number(process.env.REMINDER_DUE_MILES) || DEFAULT_DUE_MILES),
+  };
+
+  let remindersDue = 0;
+  let remindersSent = 0;
+
+  let byUser;
+  try {
+    byUser = await collectDueReminders(supabase, today, thresholds);
+  } catch (error) {
+    console.error('Reminder scheduler: error collecting reminders:', error);
+    return { remindersDue, remindersSent };
+  }
+
+  for (const [userId, reminders] of byUser) {
+    remindersDue += reminders.length;
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('notification_preferences, preferred_units')
+        .eq('id', userId)
+        .single();
+
+      if (error) {
+        console.error(`Error fetching notification preferences for user ${userId}:`, error);
+        continue;
+      }
+
+      const userReminders = reminders.map(reminder => ({
+        ...reminder,
+        distanceUnit: getOdometerUnit(reminder.odometerUnit, profile.preferred_units),
+      }));
+
+      const sentKeys = await fetchSentKeys(supabase, userId);
+
+      for (const channel of REMINDER_CHANNELS) {
+        const send = senders[channel];
+        if (!send) continue;
+
+        const pending = userReminders.filter(reminder =>
+          !sentKeys.has(getSentKey(reminder, channel)) &&
+          wantsNotification(profile.notification_preferences, channel, getReminderTopicKeys(reminder))
+        );
+        if (pending.length === 0) continue;
+
+        const delivered = await send(supabase, userId, pending);
+        await recordSentReminders(supabase, delivered, channel);
+        remindersSent += delivered.length;
+      }
+    } catch (userError) {
+      console.error(`Reminder scheduler: error notifying user ${userId}:`, userError);
+    }
+  }
+
+  console.log(`Reminder scheduler: ${remindersDue} reminders due, ${remindersSent} sent`);
+  return { remindersDue, remindersSent };
+}
+
+/**
+ * Run the reminder check on a fixed interval (REMINDER_CHECK_INTERVAL_HOURS, default 12)
+ * @returns A function that stops the scheduler
+ */
+export function startReminderScheduler(supabase, options = {}) {
+  const intervalHours = Number(process.env.REMINDER_CHECK_INTERVAL_HOURS) || DEFAULT_INTERVAL_HOURS;
+  let running = false;
+
+  const run = async () => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (running) return;
+    running = true;
+    try {
+      await runReminderCheck(supabase, options);
+    } finally {
+      running = false;
+    }
+  };
+
+  const startupTimer = setTimeout(run, STARTUP_DELAY_MS);
+  const interval = setInterval(run, intervalHours * 60 * 60 * 1000);
+  console.log(`Reminder scheduler running every ${intervalHours} hours`);
+
+  return () => {
+    clearTimeout(startupTimer);
+    clearInterval(interval);
+  };
+}
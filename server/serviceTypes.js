@@ -0,0 +1,24 @@
+// Standardized service types for AI extraction on the server.
+// Mirrors STANDARD_SERVICE_TYPES in src/data/serviceTypes.ts; keep the two lists in sync.
+export const STANDARD_SERVICE_TYPES = [
+  'Oil Change',
+  'Filter Replacement',
+  'Brake Service',
+  'Tire Service',
+  'Engine Service',
+  'Transmission Service',
+  'Cooling System',
+  'Electrical System',
+  'Suspension',
+  'Exhaust System',
+  'Fuel System',
+  'Air Conditioning',
+  'Battery Service',
+  'Inspection',
+  'Diagnostic',
+  'Fluid Service',
+  'Belt/Hose Service',
+  'Tune-Up',
+  'Emission Service',
+  'Other Service',
+];
@@ -0,0 +1,70 @@
+// Text messages through Twilio's REST API, configured from the environment:
+//   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN - API credentials
+//   TWILIO_FROM_NUMBER                    - the sending number, e.g. +15555550100
+// Without them SMS is disabled and reminders go out on the other channels only.
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+const SEND_TIMEOUT_MS = 10 * 1000;
+
+let config = null;
+
+export function configureSms() {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+
+  if (!accountSid || !authToken || !from) {
+    console.warn('Twilio credentials not set; SMS reminders are disabled');
+    config = null;
+    return false;
+  }
+
+  config = { accountSid, authToken, from };
+  console.log('SMS configured');
+  return true;
+}
+
+export function isSmsConfigured() {
+  return config !== null;
+}
+
+/**
+ * Texting costs money and needs consent, so unlike the other channels a missing
+ * preference counts as opted out
+ */
+export const wantsSms = preferences => !!preferences && typeof preferences === 'object' && preferences.sms === true;
+
+/**
+ * Send one text message
+ * @param to Phone number in E.164 format
+ * @param body Message text
+ * @returns true if Twilio accepted the message
+ */
+export async function sendSms(to, body) {
+  if (!config || !to) return false;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${TWILIO_API_URL}/Accounts/${config.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: to, From: config.from, Body: body }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      console.error(`Error sending SMS: ${response.status} ${await response.text()}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Exception sending SMS:', error.name === 'AbortError' ? 'timed out' : error.message);
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,32 @@
+// Odometer values on the server. Mileages are stored in miles and shown in the unit
+// the vehicle's odometer reads in, like src/utils/units.ts does in the app.
+
+// Mirrors KM_PER_MILE in src/utils/fuelEconomy.ts
+export const KM_PER_MILE = 1.609344;
+
+const toDistanceUnit = value => (value === 'mi' || value === 'km' ? value : null);
+
+/**
+ * The unit a vehicle's odometer reads in
+ * @param odometerUnit vehicles.odometer_unit; wins when set
+ * @param preferredUnits profiles.preferred_units
+ */
+export const getOdometerUnit = (odometerUnit, preferredUnits) =>
+  toDistanceUnit(odometerUnit) || (preferredUnits === 'metric' ? 'km' : 'mi');
+
+/**
+ * A distance in the given unit as the miles it is stored as
+ */
+export const toMiles = (distance, unit) => (unit === 'km' ? distance / KM_PER_MILE : distance);
+
+/**
+ * Formats a distance that is already in the given unit, e.g. "42,150 miles" or "67,834 km"
+ */
+export const formatDistance = (distance, unit = 'mi') =>
+  `${Number(distance).toLocaleString('en-US')} ${unit === 'km' ? 'km' : 'miles'}`;
+
+/**
+ * Formats a stored mileage in the given unit
+ */
+export const formatMileage = (miles, unit = 'mi') =>
+  formatDistance(Math.round(unit === 'km' ? miles * KM_PER_MILE : miles), unit);
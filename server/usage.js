@@ -0,0 +1,170 @@
+// Usage ledger and monthly quotas for the paid model calls (document analysis
+// and image generation). Every call is recorded in usage_events with its model,
+// tokens, images and estimated cost; requests are refused once the caller has
+// used up the month's quota.
+//
+// Default quotas come from the environment and can be overridden per user in usage_quotas:
+//   USAGE_MONTHLY_COST_LIMIT_USD - estimated spend per user and month (unset: no limit)
+//   USAGE_MONTHLY_REQUEST_LIMIT  - analysis and image requests per user and month (unset: no limit)
+
+// USD per million tokens; prices change, so this is an estimate and not a bill
+const TOKEN_PRICES = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+};
+
+// USD per generated 1024x1024 image
+const IMAGE_PRICES = {
+  'dall-e-3': 0.04,
+  'dall-e-2': 0.02,
+};
+
+// Dated snapshots (gpt-4o-2024-08-06) cost the same as their alias
+const findPrice = (prices, model) => {
+  const key = Object.keys(prices)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model === name || model.startsWith(`${name}-`));
+  return key ? prices[key] : null;
+};
+
+/**
+ * Estimate what a model call cost
+ * @param usage { feature, model, promptTokens, completionTokens, imageCount }
+ * @returns Cost in USD; 0 for local providers and unknown models
+ */
+export function estimateCost({ feature, model, promptTokens = 0, completionTokens = 0, imageCount = 0 }) {
+  if (feature === 'image_generation') {
+    return (findPrice(IMAGE_PRICES, model) || 0) * imageCount;
+  }
+  const price = findPrice(TOKEN_PRICES, model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+const toLimit = value => {
+  const number = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+const monthStart = (now = new Date()) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+/**
+ * Add a row to the usage ledger. Never throws; a failed write is only logged so the
+ * request that spent the tokens still succeeds.
+ * @param supabase Service-role client; users can read their ledger but not write to it
+ * @param event { userId, feature, provider, model, promptTokens, completionTokens, imageCount, documentId }
+ * @returns true if the row was written
+ */
+export async function recordUsage(supabase, event) {
+  const costUsd = estimateCost(event);
+
+  if (!supabase) {
+    console.error(`Usage for ${event.userId} not recorded: the usage ledger needs SUPABASE_SERVICE_ROLE_KEY`);
+    return false;
+  }
+
+  try {
+    const { error } = await supabase.from('usage_events').insert({
+      user_id: event.userId,
+      feature: event.feature,
+      provider: event.provider,
+      model: event.model,
+      prompt_tokens: event.promptTokens || 0,
+      completion_tokens: event.completionTokens || 0,
+      image_count: event.imageCount || 0,
+      cost_usd: Number(costUsd.toFixed(6)),
+      document_id: event.documentId || null,
+    });
+
+    if (error) {
+      console.error('Error recording usage:', error);
+      return false;
+    }
+
+    console.log(`Usage: ${event.feature} for ${event.userId} with ${event.model}, $${costUsd.toFixed(4)}`);
+    return true;
+  } catch (error) {
+    console.error('Exception recording usage:', error);
+    return false;
+  }
+}
+
+/**
+ * The user's quota: their usage_quotas row where set, the server defaults otherwise
+ * @returns { costLimitUsd, requestLimit } - null means no limit
+ */
+export async function getQuota(supabase, userId) {
+  const { data, error } = await supabase
+    .from('usage_quotas')
+    .select('monthly_cost_limit_usd, monthly_request_limit')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching usage quota:', error);
+  }
+
+  return {
+    costLimitUsd: toLimit(data?.monthly_cost_limit_usd ?? process.env.USAGE_MONTHLY_COST_LIMIT_USD),
+    requestLimit: toLimit(data?.monthly_request_limit ?? process.env.USAGE_MONTHLY_REQUEST_LIMIT),
+  };
+}
+
+/**
+ * Sum the user's usage for the current calendar month (UTC)
+ * @returns { period, requests, promptTokens, completionTokens, imageCount, costUsd, byFeature, events }
+ */
+export async function getMonthlyUsage(supabase, userId, now = new Date()) {
+  const start = monthStart(now);
+  const { data, error } = await supabase
+    .from('usage_events')
+    .select('created_at, feature, provider, model, prompt_tokens, completion_tokens, image_count, cost_usd, document_id')
+    .eq('user_id', userId)
+    .gte('created_at', start.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Could not read usage: ${error.message}`);
+  }
+
+  const events = data || [];
+  const byFeature = {};
+  const totals = { requests: 0, promptTokens: 0, completionTokens: 0, imageCount: 0, costUsd: 0 };
+
+  events.forEach(event => {
+    const feature = byFeature[event.feature] || (byFeature[event.feature] = { requests: 0, costUsd: 0 });
+    feature.requests += 1;
+    feature.costUsd += Number(event.cost_usd) || 0;
+    totals.requests += 1;
+    totals.promptTokens += event.prompt_tokens || 0;
+    totals.completionTokens += event.completion_tokens || 0;
+    totals.imageCount += event.image_count || 0;
+    totals.costUsd += Number(event.cost_usd) || 0;
+  });
+
+  return {
+    period: start.toISOString().slice(0, 7),
+    ...totals,
+    byFeature,
+    events,
+  };
+}
+
+/**
+ * Check whether the user may make another paid request this month
+ * @returns { allowed, reason, usage, quota }
+ */
+export async function checkQuota(supabase, userId) {
+  const [quota, usage] = await Promise.all([getQuota(supabase, userId), getMonthlyUsage(supabase, userId)]);
+
+  let reason = null;
+  if (quota.requestLimit !== null && usage.requests >= quota.requestLimit) {
+    reason = `Monthly limit of ${quota.requestLimit} analysis and image requests reached`;
+  } else if (quota.costLimitUsd !== null && usage.costUsd >= quota.costLimitUsd) {
+    reason = `Monthly usage limit of $${quota.costLimitUsd.toFixed(2)} reached`;
+  }
+
+  return { allowed: !reason, reason, usage, quota };
+}
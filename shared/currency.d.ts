@@ -0,0 +1,18 @@
+// Units per US dollar by currency code
+export type ExchangeRateTable = Record<string, number>;
+
+export const SUPPORTED_CURRENCIES: { code: string; symbol: string }[];
+
+export function toCurrencyCode(value: string | null | undefined, fallback?: string): string;
+
+export function buildExchangeRateTable(rates?: { currency: string; units_per_usd: number | string }[]): ExchangeRateTable;
+
+export function canConvert(from: string, to: string, table: ExchangeRateTable): boolean;
+
+export function convertAmount(amount: number, from: string, to: string, table: ExchangeRateTable): number;
+
+export function findMissingRates(
+  currencies: (string | null | undefined)[],
+  to: string,
+  table: ExchangeRateTable
+): string[];
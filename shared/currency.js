@@ -0,0 +1,63 @@
+// Currency codes and conversion, shared by the app and the server's digest. Every
+// amount is stored with its own currency code and converted with the exchange rates
+// the user entered. There are no built-in rates: until the user enters one, amounts
+// in that currency can't be converted.
+
+// Currencies the profile offers, with the symbol shown next to the code
+export const SUPPORTED_CURRENCIES = [
+  { code: 'USD', symbol: '$' },
+  { code: 'EUR', symbol: '€' },
+  { code: 'GBP', symbol: '£' },
+  { code: 'CAD', symbol: '$' },
+  { code: 'AUD', symbol: '$' },
+  { code: 'JPY', symbol: '¥' },
+  { code: 'CNY', symbol: '¥' },
+  { code: 'INR', symbol: '₹' },
+];
+
+/**
+ * A stored currency code, or the fallback when none was recorded
+ */
+export const toCurrencyCode = (value, fallback = 'USD') =>
+  value && /^[A-Z]{3}$/.test(value) ? value : fallback;
+
+/**
+ * Units per US dollar by currency code from the user's exchange_rates rows. The
+ * dollar itself is always 1; other currencies only have the rates the user entered.
+ */
+export const buildExchangeRateTable = (rates = []) => ({
+  ...Object.fromEntries(rates
+    .map(rate => [rate.currency, Number(rate.units_per_usd)])
+    .filter(([, unitsPerUsd]) => Number.isFinite(unitsPerUsd) && unitsPerUsd > 0)),
+  USD: 1,
+});
+
+/**
+ * Whether amounts in one currency can be converted to another with the table
+ */
+export const canConvert = (from, to, table) => from === to || (!!table[from] && !!table[to]);
+
+/**
+ * Converts an amount between currencies through their rates against the US dollar
+ * @returns The amount unchanged when either currency has no rate; check canConvert first
+ */
+export function convertAmount(amount, from, to, table) {
+  if (from === to || !canConvert(from, to, table)) return amount;
+  return (amount / table[from]) * table[to];
+}
+
+/**
+ * The currencies the user still needs to enter a rate for before amounts in the given
+ * currencies can be converted to one currency
+ * @param currencies Currency codes of the amounts; missing codes count as the target
+ */
+export function findMissingRates(currencies, to, table) {
+  const missing = new Set();
+  currencies.forEach(currency => {
+    const from = toCurrencyCode(currency, to);
+    if (canConvert(from, to, table)) return;
+    if (!table[from]) missing.add(from);
+    if (!table[to]) missing.add(to);
+  });
+  return Array.from(missing).sort();
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface NhtsaRecall {
+  Manufacturer: string;
+  NHTSACampaignNumber: string;
+  parkIt?: boolean;
+  parkOutSide?: boolean;
+  overTheAirUpdate?: boolean;
+  ReportReceivedDate: string;
+  Component: string;
+  Summary: string;
+  Consequence?: string;
+  Remedy?: string;
+  Notes?: string;
+  ModelYear?: string;
+  Make?: string;
+  Model?: string;
+
+  [key: string]: unknown;
+}
+
+export interface RecallLookupVehicle {
+  make: string;
+  model: string;
+  year: number | string;
+  vin?: string | null;
+}
+
+// Anything that returns campaigns for a make/model/year; lets callers swap in a fixture
+export type RecallLookup = (make: string, model: string, year: string) => Promise<NhtsaRecall[] | null>;
+
+export type NhtsaSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// A recall_notices row built from a campaign
+export interface NhtsaRecallNotice {
+  vehicle_id: string;
+  recall_number: string;
+  recall_date: string;
+  description: string;
+  severity: NhtsaSeverity;
+  status: string;
+  manufacturer: string;
+  affected_components: string[];
+  remedy: string | null;
+  notes: string | null;
+}
+
+// A stored recall_notices row
+export type StoredRecallNotice = NhtsaRecallNotice & { id: string; [key: string]: unknown };
+
+export interface RecallSyncSummary<Notice = StoredRecallNotice> {
+  vehicleId: string;
+  // Campaigns that weren't in recall_notices yet
+  newRecalls: Notice[];
+  // Campaigns already stored and still open
+  existingRecalls: Notice[];
+  // Campaigns already stored and marked completed
+  closedRecalls: Notice[];
+  error: string | null;
+}
+
+export const NHTSA_RECALLS_URL: string;
+
+export function fetchNhtsaRecalls(make: string, model: string, year: string): Promise<NhtsaRecall[] | null>;
+
+export function resolveRecallVehicle(
+  vehicle: RecallLookupVehicle
+): Promise<{ make: string; model: string; year: string } | null>;
+
+export function lookupVehicleRecalls(vehicle: RecallLookupVehicle, lookup?: RecallLookup): Promise<NhtsaRecall[] | null>;
+
+export function parseNhtsaDate(value: string): string | null;
+
+export function parseNhtsaComponents(component: string): string[];
+
+export function getNhtsaSeverity(recall: NhtsaRecall): NhtsaSeverity;
+
+export function uniqueNhtsaCampaigns(campaigns: NhtsaRecall[]): NhtsaRecall[];
+
+export function mapNhtsaRecallToNotice(
+  recall: NhtsaRecall,
+  vehicleId: string,
+  existing?: Pick<NhtsaRecallNotice, 'recall_date' | 'status' | 'notes'>
+): NhtsaRecallNotice;
+
+export function syncRecallNotices<Notice = StoredRecallNotice>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, any, any>,
+  vehicle: RecallLookupVehicle & { id: string },
+  lookup?: RecallLookup
+): Promise<RecallSyncSummary<Notice>>;
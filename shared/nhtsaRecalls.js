@@ -0,0 +1,189 @@
+// Reading the NHTSA Recalls API, shared by the app's recall sync and the server's recall monitor
+// https://www.nhtsa.gov/nhtsa-datasets-and-apis#recalls
+
+import { decodeVin } from './vinDecode.js';
+
+export const NHTSA_RECALLS_URL = 'https://api.nhtsa.gov/recalls/recallsByVehicle';
+const LOOKUP_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Fetch the campaigns NHTSA lists for a make/model/year
+ * @returns The campaigns, [] when NHTSA doesn't know the vehicle, or null when the
+ * API couldn't be reached
+ */
+export async function fetchNhtsaRecalls(make, model, year) {
+  const params = new URLSearchParams({ make, model, modelYear: year });
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT_MS);
+  try {
+    const res = await fetch(`${NHTSA_RECALLS_URL}?${params.toString()}`, { signal: controller.signal });
+    // The API answers 400 for make/model/year combinations it doesn't know
+    if (res.status === 400) return [];
+    if (!res.ok) return null;
+    const data = await res.json();
+    return Array.isArray(data.results) ? data.results : [];
+  } catch (error) {
+    console.error('Error fetching NHTSA recalls:', error.name === 'AbortError' ? 'timed out' : error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * The make, model and year to look a vehicle up by. When any is missing the VIN
+ * is decoded, since the API does not search by VIN.
+ * @returns null when neither the vehicle nor its VIN give all three
+ */
+export async function resolveRecallVehicle(vehicle) {
+  let { make, model } = vehicle;
+  let year = vehicle.year ? vehicle.year.toString() : '';
+
+  if ((!make || !model || !year) && vehicle.vin) {
+    const decoded = await decodeVin(vehicle.vin);
+    if (!decoded) return null;
+    make = make || decoded.make;
+    model = model || decoded.model;
+    year = year || decoded.year;
+  }
+
+  return make && model && year ? { make, model, year } : null;
+}
+
+/**
+ * Look up recalls for a vehicle, decoding its VIN when needed
+ * @param lookup Where to fetch campaigns from; defaults to the NHTSA API
+ */
+export async function lookupVehicleRecalls(vehicle, lookup = fetchNhtsaRecalls) {
+  const resolved = await resolveRecallVehicle(vehicle);
+  return resolved ? lookup(resolved.make, resolved.model, resolved.year) : null;
+}
+
+// ReportReceivedDate comes back as DD/MM/YYYY, older responses use ISO timestamps
+export function parseNhtsaDate(value) {
+  if (!value) return null;
+  const dmy = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (dmy) return `${dmy[3]}-${dmy[2]}-${dmy[1]}`;
+  const iso = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  return iso ? iso[1] : null;
+}
+
+// "ELECTRICAL SYSTEM:WIRING" and "A|B" style strings become a list of components
+export function parseNhtsaComponents(component) {
+  return (component || '')
+    .split('|')
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+const SEVERE_CONSEQUENCE = /\b(crash|fire|injur|death|fatal|loss of (vehicle )?control)/i;
+
+export function getNhtsaSeverity(recall) {
+  if (recall.parkIt || recall.parkOutSide) return 'critical';
+  if (SEVERE_CONSEQUENCE.test(recall.Consequence || '')) return 'high';
+  if (recall.overTheAirUpdate) return 'low';
+  return 'medium';
+}
+
+/**
+ * The API can list a campaign more than once (e.g. per component); keeps the first listing
+ */
+export function uniqueNhtsaCampaigns(campaigns) {
+  const unique = new Map();
+  campaigns.forEach(campaign => {
+    if (campaign.NHTSACampaignNumber && !unique.has(campaign.NHTSACampaignNumber)) {
+      unique.set(campaign.NHTSACampaignNumber, campaign);
+    }
+  });
+  return Array.from(unique.values());
+}
+
+/**
+ * Map an NHTSA campaign onto a recall_notices row. Status and notes of an
+ * already stored notice are kept so a sync never reopens a completed recall.
+ */
+export const mapNhtsaRecallToNotice = (recall, vehicleId, existing) => ({
+  vehicle_id: vehicleId,
+  recall_number: recall.NHTSACampaignNumber,
+  recall_date: parseNhtsaDate(recall.ReportReceivedDate) || existing?.recall_date || new Date().toISOString().split('T')[0],
+  description: [recall.Summary, recall.Consequence].filter(Boolean).join('\n\n'),
+  severity: getNhtsaSeverity(recall),
+  status: existing?.status || 'open',
+  manufacturer: recall.Manufacturer || recall.Make || '',
+  affected_components: parseNhtsaComponents(recall.Component),
+  remedy: recall.Remedy || null,
+  notes: existing ? existing.notes : recall.Notes || null,
+});
+
+/**
+ * Check NHTSA for recalls affecting a vehicle and upsert them into recall_notices
+ * @param supabase Client allowed to read and write the vehicle's recall_notices
+ * @param lookup Where to fetch campaigns from; defaults to the NHTSA API
+ * @returns { vehicleId, newRecalls, existingRecalls, closedRecalls, error }: campaigns that
+ * weren't stored yet, stored ones still open and stored ones marked completed
+ */
+export async function syncRecallNotices(supabase, vehicle, lookup = fetchNhtsaRecalls) {
+  const summary = {
+    vehicleId: vehicle.id,
+    newRecalls: [],
+    existingRecalls: [],
+    closedRecalls: [],
+    error: null,
+  };
+
+  try {
+    const campaigns = await lookupVehicleRecalls(vehicle, lookup);
+    if (!campaigns) {
+      summary.error = `Could not reach the NHTSA recall service for the ${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+      return summary;
+    }
+
+    if (campaigns.length === 0) {
+      return summary;
+    }
+
+    const { data: stored, error: storedError } = await supabase
+      .from('recall_notices')
+      .select()
+      .eq('vehicle_id', vehicle.id);
+
+    if (storedError) {
+      console.error('Error fetching stored recall notices:', storedError);
+      summary.error = 'Failed to load existing recalls';
+      return summary;
+    }
+
+    const storedByNumber = new Map((stored || []).map(notice => [notice.recall_number, notice]));
+
+    const rows = uniqueNhtsaCampaigns(campaigns).map(campaign =>
+      mapNhtsaRecallToNotice(campaign, vehicle.id, storedByNumber.get(campaign.NHTSACampaignNumber))
+    );
+
+    const { data: saved, error: saveError } = await supabase
+      .from('recall_notices')
+      .upsert(rows, { onConflict: 'vehicle_id,recall_number' })
+      .select();
+
+    if (saveError) {
+      console.error('Error saving recall notices:', saveError);
+      summary.error = 'Failed to save recalls';
+      return summary;
+    }
+
+    (saved || []).forEach(notice => {
+      if (!storedByNumber.has(notice.recall_number)) {
+        summary.newRecalls.push(notice);
+      } else if (notice.status === 'completed') {
+        summary.closedRecalls.push(notice);
+      } else {
+        summary.existingRecalls.push(notice);
+      }
+    });
+
+    return summary;
+  } catch (error) {
+    console.error('Exception syncing recalls:', error);
+    summary.error = 'An error occurred while checking for recalls';
+    return summary;
+  }
+}
@@ -0,0 +1,10 @@
+export interface DecodedVin {
+  make: string;
+  model: string;
+  year: string;
+  body_class?: string;
+
+  [key: string]: unknown;
+}
+
+export function decodeVin(vin: string): Promise<DecodedVin | null>;
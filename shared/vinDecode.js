@@ -0,0 +1,31 @@
+// Decoding VINs with the NHTSA vPIC API, shared by the app and the server's recall monitor
+// https://vpic.nhtsa.dot.gov/api/
+
+const DECODE_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Decode a VIN into make, model, year and body class
+ * @returns The decoded vehicle, or null when the VIN couldn't be decoded
+ */
+export async function decodeVin(vin) {
+  const url = `https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVin/${encodeURIComponent(vin)}?format=json`;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DECODE_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    const data = await res.json();
+    if (!data.Results) return null;
+    const results = data.Results;
+    const get = label => results.find(r => r.Variable === label)?.Value || '';
+    return {
+      make: get('Make'),
+      model: get('Model'),
+      year: get('Model Year'),
+      body_class: get('Body Class'),
+    };
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate } from 'r
 import MobileLayout from './layouts/MobileLayout';
 import Vehicles from './pages/Vehicles';
 import ServiceRecords from './pages/ServiceRecords';
+import FuelLog from './pages/FuelLog';
 import Maintenance from './pages/Maintenance';
 import Recalls from './pages/Recalls';
 import Landing from './pages/Landing';
@@ -76,6 +77,11 @@ function AppRoutes() {
             <ServiceRecords />
           </ProtectedRoute>
         } />
+        <Route path="/fuel" element={
+          <ProtectedRoute>
+            <FuelLog />
+          </ProtectedRoute>
+        } />
         <Route path="/maintenance" element={
           <ProtectedRoute>
             <Maintenance />
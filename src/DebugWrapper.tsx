@@ -36,8 +36,7 @@ const DebugWrapper = () => {
   // Check if environment variables are set
   const envVars = {
     SUPABASE_URL: import.meta.env.VITE_SUPABASE_URL ? 'Set' : 'Not Set',
-    SUPABASE_ANON_KEY: import.meta.env.VITE_SUPABASE_ANON_KEY ? 'Set' : 'Not Set',
-    OPENAI_API_KEY: import.meta.env.VITE_OPENAI_API_KEY ? 'Set' : 'Not Set'
+    SUPABASE_ANON_KEY: import.meta.env.VITE_SUPABASE_ANON_KEY ? 'Set' : 'Not Set'
   };
 
   const missingEnvVars = Object.entries(envVars).filter(([_, value]) => value === 'Not Set');
@@ -13,16 +13,13 @@ const EnvDebug = () => {
     // Try to access specific environment variables
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
     const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-    const openaiKey = import.meta.env.VITE_OPENAI_API_KEY;
     
     console.log('VITE_SUPABASE_URL:', supabaseUrl);
     console.log('VITE_SUPABASE_ANON_KEY:', supabaseKey ? 'Set (hidden for security)' : 'Not Set');
-    console.log('VITE_OPENAI_API_KEY:', openaiKey ? 'Set (hidden for security)' : 'Not Set');
     
     // Add them to our state object (but don't show the actual values for security)
     viteEnvVars['VITE_SUPABASE_URL'] = supabaseUrl || 'Not Set';
     viteEnvVars['VITE_SUPABASE_ANON_KEY'] = supabaseKey ? 'Set (hidden for security)' : 'Not Set';
-    viteEnvVars['VITE_OPENAI_API_KEY'] = openaiKey ? 'Set (hidden for security)' : 'Not Set';
     
     setEnvVars(viteEnvVars);
   }, []);
@@ -1,5 +1,32 @@
-import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, DocumentAnalysisResult } from '../types';
+import { useState } from 'react';
+import { TrashIcon, ScissorsIcon, ArrowsPointingInIcon, PlusIcon } from '@heroicons/react/24/outline';
+import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, DocumentAnalysisResult, DistanceUnit, ExtractionFieldReview, ExtractionReview, ExtractionSource, FuelEntry, FuelEntryDraft, VolumeUnit } from '../types';
+import { STANDARD_SERVICE_TYPES } from '../data/serviceTypes';
+import CurrencySelect from './CurrencySelect';
 import DocumentUploader from './DocumentUploader';
+import DocumentPreview from './DocumentPreview';
+import VehicleMatchBanner from './VehicleMatchBanner';
+import type { ExtractedVehicleInfo, VehicleMatch } from '../utils/vehicleMatch';
+
+// Fields the extraction was unsure about, or rejected, get an amber highlight
+const reviewHighlight = (field?: ExtractionFieldReview) =>
+  field?.needsReview ? 'border-amber-400 bg-amber-50' : 'border-gray-300';
+
+const reviewTitle = (field?: ExtractionFieldReview) =>
+  field && field.confidence > 0 ? `${Math.round(field.confidence * 100)}% confidence` : undefined;
+
+const ReviewNote = ({ field }: { field?: ExtractionFieldReview }) =>
+  field?.needsReview ? (
+    <p className="mt-1 text-xs text-amber-700">{field.reason || 'Please check this value'}</p>
+  ) : null;
+
+const countFieldsNeedingReview = (review: ExtractionReview) =>
+  [review.serviceInfo, ...review.items, review.fuelInfo || {}].reduce(
+    (count, fields) => count + Object.values(fields).filter(field => field?.needsReview).length,
+    0
+  );
+
+const toNumberOrNull = (value: string) => (value === '' ? null : Number(value));
 
 interface AIReceiptTabProps {
   isProcessing: boolean;
@@ -7,8 +34,32 @@ interface AIReceiptTabProps {
   error: string | null;
   extractedRecord: ServiceRecordInsert | null;
   extractedItems: ServiceItemInsert[];
-  onAnalysisComplete: (result: DocumentAnalysisResult, documentId: string) => Promise<void>;
+  // Set instead of extractedRecord when the document is a fuel receipt or pump photo
+  extractedFuelEntry?: FuelEntryDraft | null;
+  // Shown when the document was only filed, as an insurance card or toll receipt is
+  notice?: string | null;
+  review?: ExtractionReview | null;
+  // Unit the extracted mileages are in: the one printed on the document, or the vehicle's
+  mileageUnit?: DistanceUnit;
+  sourceFile?: File | null;
+  // The vehicle new documents are filed under
+  vehicleId?: string;
+  vehicleMatch?: VehicleMatch | null;
+  vehicleInfo?: ExtractedVehicleInfo | null;
+  isAssigningVehicle?: boolean;
+  onAssignVehicle?: (vehicleId: string) => void;
+  onCreateVehicle?: () => void;
+  onAnalysisComplete: (result: DocumentAnalysisResult, documentId: string, file: File) => Promise<void>;
+  onRecordChange: (changes: Partial<ServiceRecordInsert>) => void;
+  onItemChange: (index: number, changes: Partial<ServiceItemInsert>) => void;
+  onSplitItem: (index: number) => void;
+  onMergeItems: (index: number) => void;
+  onRemoveItem: (index: number) => void;
+  onAddItem: () => void;
+  onFuelEntryChange?: (changes: Partial<FuelEntryDraft>) => void;
+  onMileageUnitChange?: (unit: DistanceUnit) => void;
   onSave: () => Promise<ServiceRecord | null>;
+  onSaveFuelEntry?: () => Promise<FuelEntry | null>;
   onReset: () => void;
   disabled?: boolean;
 }
@@ -19,11 +70,61 @@ export default function AIReceiptTab({
   error,
   extractedRecord,
   extractedItems,
+  extractedFuelEntry = null,
+  notice = null,
+  review = null,
+  mileageUnit = 'mi',
+  sourceFile = null,
+  vehicleId,
+  vehicleMatch = null,
+  vehicleInfo = null,
+  isAssigningVehicle = false,
+  onAssignVehicle,
+  onCreateVehicle,
   onAnalysisComplete,
+  onRecordChange,
+  onItemChange,
+  onSplitItem,
+  onMergeItems,
+  onRemoveItem,
+  onAddItem,
+  onFuelEntryChange,
+  onMileageUnitChange,
   onSave,
+  onSaveFuelEntry,
   onReset,
   disabled = false
 }: AIReceiptTabProps) {
+  // The field the user clicked; its source is highlighted on the document
+  const [activeSource, setActiveSource] = useState<ExtractionSource | null>(null);
+  const reviewCount = review ? countFieldsNeedingReview(review) : 0;
+  const recordReview = review?.serviceInfo || {};
+  const fuelReview = review?.fuelInfo || {};
+  const mileageUnitSelect = (
+    <select
+      value={mileageUnit}
+      onChange={(e) => onMileageUnitChange?.(e.target.value as DistanceUnit)}
+      className="p-2 border border-gray-300 rounded-md text-sm"
+      aria-label="Distance unit"
+    >
+      <option value="mi">mi</option>
+      <option value="km">km</option>
+    </select>
+  );
+  const canSave = extractedFuelEntry
+    ? Boolean(extractedFuelEntry.fill_date && extractedFuelEntry.odometer !== null && extractedFuelEntry.volume)
+    : Boolean(extractedRecord?.service_date);
+
+  const focusProps = (field?: ExtractionFieldReview) => ({
+    onFocus: () => setActiveSource(field?.source || null),
+    title: reviewTitle(field),
+  });
+
+  const handleReset = () => {
+    setActiveSource(null);
+    onReset();
+  };
+
   return (
     <div className="flex flex-col">
       {error && (
@@ -31,11 +132,16 @@ export default function AIReceiptTab({
           <p className="text-sm text-red-600">{error}</p>
         </div>
       )}
-      
-      {!extractedRecord ? (
+
+      {!extractedRecord && !extractedFuelEntry ? (
         // Document upload and analysis UI
         <div className="space-y-4">
-          <p className="text-sm text-gray-600">Upload a service receipt or invoice to automatically extract service details.</p>
+          <p className="text-sm text-gray-600">Upload a service invoice to extract service details, or a fuel receipt or pump photo to log a fill-up.</p>
+          {notice && (
+            <div className="p-2 bg-blue-50 border border-blue-200 rounded-md">
+              <p className="text-sm text-blue-800">{notice}</p>
+            </div>
+          )}
           {isProcessing && (
             <div className="flex items-center justify-center p-4">
               <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
@@ -44,97 +150,354 @@ export default function AIReceiptTab({
           )}
           {!isProcessing && (
             <DocumentUploader
+              vehicleId={vehicleId}
               onAnalysisComplete={onAnalysisComplete}
               disabled={disabled}
             />
           )}
         </div>
       ) : (
-        // Display extracted service record data for confirmation
+        // Review the extracted data next to the document; nothing is saved until it is accepted
         <div className="mb-4">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-base font-semibold">Extracted Service Record</h3>
+            <h3 className="text-base font-semibold">
+              {extractedFuelEntry ? 'Review Extracted Fill-Up' : 'Review Extracted Service Record'}
+            </h3>
             <button
               type="button"
               className="text-sm text-blue-600 hover:text-blue-800"
-              onClick={onReset}
-              disabled={disabled}
+              onClick={handleReset}
+              disabled={disabled || isSaving}
             >
               Upload Different Document
             </button>
           </div>
-          
-          <div className="bg-gray-50 p-4 rounded-md mb-4">
-            <div className="grid grid-cols-2 gap-4 mb-4">
-              <div>
-                <p className="text-sm font-medium text-gray-700">Service Date</p>
-                <p className="text-sm text-gray-900">{extractedRecord.service_date}</p>
-              </div>
-              <div>
-                <p className="text-sm font-medium text-gray-700">Service Provider</p>
-                <p className="text-sm text-gray-900">{extractedRecord.service_provider || 'Not specified'}</p>
-              </div>
-              <div>
-                <p className="text-sm font-medium text-gray-700">Mileage</p>
-                <p className="text-sm text-gray-900">{extractedRecord.mileage || 'Not specified'}</p>
-              </div>
+
+          {reviewCount > 0 && (
+            <div className="mb-4 p-2 bg-amber-50 border border-amber-200 rounded-md">
+              <p className="text-sm text-amber-800">
+                {reviewCount === 1 ? '1 field needs' : `${reviewCount} fields need`} your review before saving.
+              </p>
+            </div>
+          )}
+
+          {vehicleMatch && vehicleInfo && onAssignVehicle && onCreateVehicle && (
+            <VehicleMatchBanner
+              match={vehicleMatch}
+              vehicleInfo={vehicleInfo}
+              busy={isAssigningVehicle || isSaving}
+              onAssignVehicle={onAssignVehicle}
+              onCreateVehicle={onCreateVehicle}
+            />
+          )}
+
+          <div className={`grid gap-4 ${sourceFile ? 'md:grid-cols-2' : ''}`}>
+            {sourceFile && (
               <div>
-                <p className="text-sm font-medium text-gray-700">Total Cost</p>
-                <p className="text-sm text-gray-900">
-                  {extractedRecord.total_cost ? `$${extractedRecord.total_cost.toFixed(2)}` : 'Not specified'}
-                </p>
+                <DocumentPreview file={sourceFile} highlight={activeSource} />
+                <p className="mt-1 text-xs text-gray-500">Click a field to see where it was read.</p>
               </div>
-            </div>
-            
-            <div className="mb-4">
-              <p className="text-sm font-medium text-gray-700 mb-2">Service Items</p>
-              <div className="border rounded-md overflow-hidden">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
-                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
-                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {extractedItems.map((item, index) => (
-                      <tr key={index}>
-                        <td className="px-3 py-2 text-sm text-gray-900">{item.service_type}</td>
-                        <td className="px-3 py-2 text-sm text-gray-900">{item.description || 'No description'}</td>
-                        <td className="px-3 py-2 text-sm text-gray-900">
-                          {item.cost ? `$${item.cost.toFixed(2)}` : 'Not specified'}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+            )}
+
+            {extractedFuelEntry ? (
+              <div className="bg-gray-50 p-4 rounded-md">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Fill Date</label>
+                    <input
+                      type="date"
+                      value={extractedFuelEntry.fill_date || ''}
+                      onChange={(e) => onFuelEntryChange?.({ fill_date: e.target.value })}
+                      className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.fillDate)}`}
+                      {...focusProps(fuelReview.fillDate)}
+                    />
+                    <ReviewNote field={fuelReview.fillDate} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Station</label>
+                    <input
+                      type="text"
+                      value={extractedFuelEntry.station || ''}
+                      onChange={(e) => onFuelEntryChange?.({ station: e.target.value || null })}
+                      className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.station)}`}
+                      {...focusProps(fuelReview.station)}
+                    />
+                    <ReviewNote field={fuelReview.station} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        value={extractedFuelEntry.volume ?? ''}
+                        onChange={(e) => onFuelEntryChange?.({ volume: toNumberOrNull(e.target.value) })}
+                        className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.volume)}`}
+                        {...focusProps(fuelReview.volume)}
+                      />
+                      <select
+                        value={extractedFuelEntry.volume_unit || 'gal'}
+                        onChange={(e) => onFuelEntryChange?.({ volume_unit: e.target.value as VolumeUnit })}
+                        className={`p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.volumeUnit)}`}
+                        {...focusProps(fuelReview.volumeUnit)}
+                      >
+                        <option value="gal">gal</option>
+                        <option value="l">L</option>
+                      </select>
+                    </div>
+                    <ReviewNote field={fuelReview.volume} />
+                    <ReviewNote field={fuelReview.volumeUnit} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Price per Unit</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={extractedFuelEntry.price_per_unit ?? ''}
+                      onChange={(e) => onFuelEntryChange?.({ price_per_unit: toNumberOrNull(e.target.value) })}
+                      className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.pricePerUnit)}`}
+                      {...focusProps(fuelReview.pricePerUnit)}
+                    />
+                    <ReviewNote field={fuelReview.pricePerUnit} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Total Cost</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={extractedFuelEntry.total_cost ?? ''}
+                        onChange={(e) => onFuelEntryChange?.({ total_cost: toNumberOrNull(e.target.value) })}
+                        className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.totalCost)}`}
+                        {...focusProps(fuelReview.totalCost)}
+                      />
+                      <CurrencySelect
+                        value={extractedFuelEntry.currency || ''}
+                        onChange={currency => onFuelEntryChange?.({ currency })}
+                        className="p-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                    <ReviewNote field={fuelReview.totalCost} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Odometer</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={extractedFuelEntry.odometer ?? ''}
+                        onChange={(e) => onFuelEntryChange?.({ odometer: toNumberOrNull(e.target.value) })}
+                        className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(fuelReview.odometer)}`}
+                        {...focusProps(fuelReview.odometer)}
+                      />
+                      {mileageUnitSelect}
+                    </div>
+                    <ReviewNote field={fuelReview.odometer} />
+                  </div>
+                </div>
+                <label className="mt-3 flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={extractedFuelEntry.is_full_fill ?? true}
+                    onChange={(e) => onFuelEntryChange?.({ is_full_fill: e.target.checked })}
+                    className="mr-2 rounded border-gray-300"
+                  />
+                  Filled the tank
+                </label>
               </div>
-            </div>
-            
-            {extractedItems.some(item => item.parts_replaced && item.parts_replaced.length > 0) && (
-              <div className="mb-4">
-                <p className="text-sm font-medium text-gray-700 mb-2">Parts Replaced</p>
-                <ul className="list-disc pl-5 text-sm text-gray-900">
-                  {extractedItems
-                    .filter(item => item.parts_replaced && item.parts_replaced.length > 0)
-                    .flatMap(item => item.parts_replaced || [])
-                    .map((part, index) => (
-                      <li key={index}>{part}</li>
-                    ))}
-                </ul>
+            ) : extractedRecord && (
+              <div className="bg-gray-50 p-4 rounded-md">
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Service Date</label>
+                    <input
+                      type="date"
+                      value={extractedRecord.service_date || ''}
+                      onChange={(e) => onRecordChange({ service_date: e.target.value })}
+                      className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(recordReview.serviceDate)}`}
+                      {...focusProps(recordReview.serviceDate)}
+                    />
+                    <ReviewNote field={recordReview.serviceDate} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Service Provider</label>
+                    <input
+                      type="text"
+                      value={extractedRecord.service_provider || ''}
+                      onChange={(e) => onRecordChange({ service_provider: e.target.value })}
+                      className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(recordReview.serviceProvider)}`}
+                      {...focusProps(recordReview.serviceProvider)}
+                    />
+                    <ReviewNote field={recordReview.serviceProvider} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Mileage</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={extractedRecord.mileage ?? ''}
+                        onChange={(e) => onRecordChange({ mileage: toNumberOrNull(e.target.value) })}
+                        className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(recordReview.mileage)}`}
+                        {...focusProps(recordReview.mileage)}
+                      />
+                      {mileageUnitSelect}
+                    </div>
+                    <ReviewNote field={recordReview.mileage} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Total Cost</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={extractedRecord.total_cost ?? ''}
+                        onChange={(e) => onRecordChange({ total_cost: toNumberOrNull(e.target.value) })}
+                        className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(recordReview.totalCost)}`}
+                        {...focusProps(recordReview.totalCost)}
+                      />
+                      {/* Item costs are in the same currency */}
+                      <CurrencySelect
+                        value={extractedRecord.currency || ''}
+                        onChange={currency => onRecordChange({ currency })}
+                        className="p-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                    <ReviewNote field={recordReview.totalCost} />
+                  </div>
+                </div>
+
+                <div className="mb-4">
+                  <div className="flex justify-between items-center mb-2">
+                    <p className="text-sm font-medium text-gray-700">Service Items</p>
+                    <button
+                      type="button"
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      onClick={onAddItem}
+                    >
+                      <PlusIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+                      Add Item
+                    </button>
+                  </div>
+                  <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                    {extractedItems.map((item, index) => {
+                      const itemReview = review?.items[index] || {};
+                      return (
+                        <div key={index} className="p-3 border border-gray-200 bg-white shadow-sm rounded-md">
+                          <div className="flex items-start gap-2">
+                            <div className="flex-1">
+                              <select
+                                value={item.service_type}
+                                onChange={(e) => onItemChange(index, { service_type: e.target.value })}
+                                className={`w-full p-1.5 border rounded text-sm font-medium ${reviewHighlight(itemReview.serviceType)}`}
+                                {...focusProps(itemReview.serviceType)}
+                              >
+                                {STANDARD_SERVICE_TYPES.map(type => (
+                                  <option key={type} value={type}>{type}</option>
+                                ))}
+                              </select>
+                              <ReviewNote field={itemReview.serviceType} />
+                            </div>
+                            <div className="w-28">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                placeholder="Cost"
+                                value={item.cost ?? ''}
+                                onChange={(e) => onItemChange(index, { cost: toNumberOrNull(e.target.value) })}
+                                className={`w-full p-1.5 border rounded text-sm ${reviewHighlight(itemReview.cost)}`}
+                                {...focusProps(itemReview.cost)}
+                              />
+                              <ReviewNote field={itemReview.cost} />
+                            </div>
+                          </div>
+                          <input
+                            type="text"
+                            placeholder="Description"
+                            value={item.description || ''}
+                            onChange={(e) => onItemChange(index, { description: e.target.value })}
+                            className={`mt-2 w-full p-1.5 border rounded text-sm ${reviewHighlight(itemReview.description)}`}
+                            {...focusProps(itemReview.description)}
+                          />
+                          <ReviewNote field={itemReview.description} />
+                          {item.parts_replaced && item.parts_replaced.length > 0 && (
+                            <p className="mt-1 text-xs text-gray-500">Parts: {item.parts_replaced.join(', ')}</p>
+                          )}
+                          <div className="mt-2 flex justify-end space-x-3 text-xs">
+                            <button
+                              type="button"
+                              className="inline-flex items-center text-gray-500 hover:text-gray-800"
+                              onClick={() => onSplitItem(index)}
+                              title="Split into two items"
+                            >
+                              <ScissorsIcon className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                              Split
+                            </button>
+                            {index < extractedItems.length - 1 && (
+                              <button
+                                type="button"
+                                className="inline-flex items-center text-gray-500 hover:text-gray-800"
+                                onClick={() => onMergeItems(index)}
+                                title="Merge with the next item"
+                              >
+                                <ArrowsPointingInIcon className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                                Merge with next
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              className="inline-flex items-center text-gray-500 hover:text-red-600"
+                              onClick={() => onRemoveItem(index)}
+                              title="Remove item"
+                            >
+                              <TrashIcon className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {extractedItems.length === 0 && (
+                      <p className="text-sm text-gray-500">No service items were found. Add them above.</p>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    rows={2}
+                    value={extractedRecord.notes || ''}
+                    onChange={(e) => onRecordChange({ notes: e.target.value })}
+                    className={`w-full p-2 border rounded-md text-sm ${reviewHighlight(recordReview.notes)}`}
+                    {...focusProps(recordReview.notes)}
+                  />
+                </div>
               </div>
             )}
           </div>
-          
-          <div className="flex justify-end space-x-3">
+
+          <div className="flex justify-end space-x-3 mt-4">
             <button
               type="button"
               disabled={isSaving || disabled}
               className="py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
-              onClick={onSave}
+              onClick={handleReset}
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              disabled={isSaving || disabled || !canSave}
+              className="py-2 px-4 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={extractedFuelEntry ? onSaveFuelEntry : onSave}
             >
-              {isSaving ? 'Saving...' : 'Save and Link to Document'}
+              {isSaving ? 'Saving...' : extractedFuelEntry ? 'Save Fill-Up' : 'Accept and Save'}
             </button>
           </div>
         </div>
@@ -1,10 +1,11 @@
 import { useLocation, useNavigate } from 'react-router-dom';
-import { HomeIcon, WrenchScrewdriverIcon, ClipboardDocumentListIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { HomeIcon, WrenchScrewdriverIcon, ClipboardDocumentListIcon, ExclamationTriangleIcon, FireIcon } from '@heroicons/react/24/outline';
 import { useApp } from '../context/AppContext';
 
 const tabs = [
   { name: 'Vehicles', path: '/vehicles', icon: HomeIcon },
   { name: 'Service Records', path: '/service-records', icon: ClipboardDocumentListIcon },
+  { name: 'Fuel', path: '/fuel', icon: FireIcon },
   { name: 'Maintenance', path: '/maintenance', icon: WrenchScrewdriverIcon },
   { name: 'Recalls', path: '/recalls', icon: ExclamationTriangleIcon },
 ];
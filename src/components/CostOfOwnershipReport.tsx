@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { useApp } from '../context/AppContext';
+import useCurrency from '../hooks/useCurrency';
+import CurrencySelect from './CurrencySelect';
+import MissingRatesNotice from './MissingRatesNotice';
+import { getCostCollections } from '../services/costService';
+import { createVehicleExpense, deleteVehicleExpense } from '../services/expenseService';
+import { buildFleetCostComparison, COST_CATEGORIES } from '../utils/costOfOwnership';
+import type { CostCategory, CostCollections } from '../utils/costOfOwnership';
+import { KM_PER_MILE, toUnitSystem } from '../utils/fuelEconomy';
+import type { ExpenseCategory, Vehicle, VehicleExpense } from '../types';
+
+interface CostOfOwnershipReportProps {
+  vehicle: Vehicle;
+}
+
+const CATEGORY_LABELS: Record<CostCategory, string> = {
+  purchase: 'Purchase',
+  service: 'Service',
+  maintenance: 'Maintenance',
+  fuel: 'Fuel',
+  other: 'Other expenses',
+};
+
+const CATEGORY_COLORS: Record<CostCategory, string> = {
+  purchase: 'bg-gray-400',
+  service: 'bg-blue-600',
+  maintenance: 'bg-blue-300',
+  fuel: 'bg-amber-500',
+  other: 'bg-purple-500',
+};
+
+const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  insurance: 'Insurance',
+  registration: 'Registration',
+  parking_toll: 'Parking / Toll',
+  tax: 'Tax',
+  other: 'Other',
+};
+
+const formatChange = (change: number | null) =>
+  change === null ? '—' : `${change > 0 ? '+' : ''}${Math.round(change * 100)}%`;
+
+const vehicleName = (vehicle: Vehicle) => `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+
+/**
+ * What a vehicle has cost to own: purchase, service, maintenance, fuel and other
+ * expenses, per month and per distance, by service type and by year, next to the
+ * user's other vehicles
+ */
+export default function CostOfOwnershipReport({ vehicle }: CostOfOwnershipReportProps) {
+  const { vehicles, user } = useApp();
+  const units = toUnitSystem(user?.preferred_units);
+  const distanceUnit = units === 'metric' ? 'km' : 'mi';
+  // Totals are converted to the preferred currency; single expenses show in their own
+  const { currency, convert, missingRates, format: formatMoney } = useCurrency();
+  const formatTotal = (amount: number | null) => formatMoney(amount, currency, { cents: false });
+  const [collections, setCollections] = useState<CostCollections | null>(null);
+  const [expenseDate, setExpenseDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [expenseCategory, setExpenseCategory] = useState<ExpenseCategory>('insurance');
+  const [expenseAmount, setExpenseAmount] = useState('');
+  const [expenseCurrency, setExpenseCurrency] = useState(currency);
+  const [expenseDescription, setExpenseDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The fleet comparison needs every vehicle's records, so they are loaded together
+  const fleet = useMemo(
+    () => (vehicles.some(v => v.id === vehicle.id) ? vehicles.map(v => (v.id === vehicle.id ? vehicle : v)) : [vehicle, ...vehicles]),
+    [vehicles, vehicle]
+  );
+  const fleetIds = fleet.map(v => v.id).join(',');
+
+  const loadCollections = async () => {
+    setCollections(await getCostCollections(fleet.map(v => v.id)));
+  };
+
+  useEffect(() => {
+    setCollections(null);
+    loadCollections();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fleetIds]);
+
+  const comparison = useMemo(
+    () => (collections ? buildFleetCostComparison(fleet, collections, convert) : []),
+    [fleet, collections, convert]
+  );
+  const report = comparison.find(entry => entry.vehicle.id === vehicle.id)?.report;
+  const expenses = collections?.expenses.filter(expense => expense.vehicle_id === vehicle.id) || [];
+  const unconvertedCurrencies = collections
+    ? missingRates([
+        ...fleet.filter(v => v.purchase_price).map(v => v.purchase_price_currency),
+        ...collections.serviceRecords.map(record => record.currency),
+        ...collections.serviceItems.map(item => item.currency),
+        ...collections.maintenanceRecords.map(record => record.currency),
+        ...collections.fuelEntries.map(entry => entry.currency),
+        ...collections.expenses.map(expense => expense.currency),
+      ])
+    : [];
+
+  // Cost per mile in the user's distance unit
+  const perDistance = (costPerMile: number | null) =>
+    costPerMile === null ? null : units === 'metric' ? costPerMile / KM_PER_MILE : costPerMile;
+
+  const handleAddExpense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(expenseAmount);
+    if (expenseAmount.trim() === '' || !Number.isFinite(amount) || amount < 0) {
+      setError('Enter a valid amount');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await createVehicleExpense({
+        vehicle_id: vehicle.id,
+        expense_date: expenseDate,
+        category: expenseCategory,
+        amount: Math.round(amount * 100) / 100,
+        currency: expenseCurrency,
+        description: expenseDescription.trim() || null,
+      });
+      if (!saved) {
+        setError('Failed to save expense');
+        return;
+      }
+      setExpenseAmount('');
+      setExpenseDescription('');
+      await loadCollections();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteExpense = async (expense: VehicleExpense) => {
+    if (!window.confirm(`Delete the ${formatMoney(Number(expense.amount), expense.currency)} expense from ${expense.expense_date}?`)) return;
+    if (!(await deleteVehicleExpense(expense.id))) {
+      setError('Failed to delete expense');
+      return;
+    }
+    await loadCollections();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-card p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Cost of Ownership</h2>
+
+      {!report ? (
+        <p className="text-gray-500 text-center py-4">Loading...</p>
+      ) : (
+        <div className="space-y-6">
+          <MissingRatesNotice currencies={unconvertedCurrencies} className="" />
+          <dl className="grid grid-cols-3 gap-4">
+            <div>
+              <dt className="text-xs text-gray-500">Total</dt>
+              <dd className="text-lg font-semibold text-gray-900">{formatTotal(report.total)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Per month</dt>
+              <dd className="text-lg font-semibold text-gray-900">{formatTotal(report.costPerMonth)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Per {distanceUnit}</dt>
+              <dd className="text-lg font-semibold text-gray-900">{formatMoney(perDistance(report.costPerMile))}</dd>
+            </div>
+          </dl>
+          {(!vehicle.purchase_price || !vehicle.purchase_date) && (
+            <p className="text-xs text-gray-500">Add the purchase price and date to the vehicle to include what it cost to buy.</p>
+          )}
+
+          {report.total > 0 && (
+            <div>
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+                {COST_CATEGORIES.filter(category => report.byCategory[category] > 0).map(category => (
+                  <div
+                    key={category}
+                    className={CATEGORY_COLORS[category]}
+                    style={{ width: `${(report.byCategory[category] / report.total) * 100}%` }}
+                    title={CATEGORY_LABELS[category]}
+                  />
+                ))}
+              </div>
+              <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                {COST_CATEGORIES.map(category => (
+                  <li key={category} className="flex items-center">
+                    <span className={`w-2.5 h-2.5 rounded-full mr-2 ${CATEGORY_COLORS[category]}`} />
+                    <span className="text-gray-600">{CATEGORY_LABELS[category]}</span>
+                    <span className="ml-auto text-gray-900">{formatTotal(report.byCategory[category])}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.byServiceType.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Service and maintenance by type</h3>
+              <ul className="space-y-1">
+                {report.byServiceType.map(({ serviceType, amount }) => (
+                  <li key={serviceType} className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{serviceType}</span>
+                      <span className="text-gray-900">{formatTotal(amount)}</span>
+                    </div>
+                    <div className="mt-0.5 h-1.5 rounded-full bg-gray-100">
+                      <div
+                        className="h-1.5 rounded-full bg-blue-600"
+                        style={{ width: `${(amount / report.byServiceType[0].amount) * 100}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.years.length > 0 && (
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Year over year</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 pr-3 font-medium">Year</th>
+                    {COST_CATEGORIES.map(category => (
+                      <th key={category} className="py-1 px-3 font-medium text-right">{CATEGORY_LABELS[category]}</th>
+                    ))}
+                    <th className="py-1 pl-3 font-medium text-right" title="Change in running costs (everything but the purchase)">
+                      Change
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {[...report.years].reverse().map(year => (
+                    <tr key={year.year}>
+                      <td className="py-1 pr-3 text-gray-900">{year.year}</td>
+                      {COST_CATEGORIES.map(category => (
+                        <td key={category} className="py-1 px-3 text-right text-gray-600">
+                          {year.byCategory[category] > 0 ? formatTotal(year.byCategory[category]) : '—'}
+                        </td>
+                      ))}
+                      <td className={`py-1 pl-3 text-right ${year.change !== null && year.change > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {formatChange(year.change)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {comparison.length > 1 && (
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Compared with your other vehicles</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 pr-3 font-medium">Vehicle</th>
+                    <th className="py-1 px-3 font-medium text-right">Total</th>
+                    <th className="py-1 px-3 font-medium text-right">Per month</th>
+                    <th className="py-1 pl-3 font-medium text-right">Per {distanceUnit}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {comparison.map(entry => (
+                    <tr key={entry.vehicle.id} className={entry.vehicle.id === vehicle.id ? 'font-medium bg-blue-50' : ''}>
+                      <td className="py-1 pr-3 text-gray-900">{vehicleName(entry.vehicle)}</td>
+                      <td className="py-1 px-3 text-right">{formatTotal(entry.report.total)}</td>
+                      <td className="py-1 px-3 text-right">{formatTotal(entry.report.costPerMonth)}</td>
+                      <td className="py-1 pl-3 text-right">{formatMoney(perDistance(entry.report.costPerMile))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Other expenses</h3>
+            {expenses.length > 0 ? (
+              <ul className="divide-y divide-gray-100 mb-3">
+                {expenses.map(expense => (
+                  <li key={expense.id} className="flex items-center justify-between py-1.5 text-sm">
+                    <span className="text-gray-600">
+                      {expense.expense_date} · {EXPENSE_CATEGORY_LABELS[expense.category as ExpenseCategory] || expense.category}
+                      {expense.description ? ` · ${expense.description}` : ''}
+                    </span>
+                    <span className="flex items-center">
+                      <span className="text-gray-900">{formatMoney(Number(expense.amount), expense.currency)}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteExpense(expense)}
+                        className="ml-3 text-gray-400 hover:text-red-600"
+                        aria-label="Delete expense"
+                      >
+                        <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 mb-3">Insurance, registration, parking and tolls can be added here.</p>
+            )}
+
+            <form onSubmit={handleAddExpense} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+              <div>
+                <label htmlFor="expense_date" className="block text-xs font-medium text-gray-500">Date</label>
+                <input
+                  type="date"
+                  id="expense_date"
+                  value={expenseDate}
+                  onChange={(e) => setExpenseDate(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="expense_category" className="block text-xs font-medium text-gray-500">Category</label>
+                <select
+                  id="expense_category"
+                  value={expenseCategory}
+                  onChange={(e) => setExpenseCategory(e.target.value as ExpenseCategory)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map(category => (
+                    <option key={category} value={category}>{EXPENSE_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="expense_amount" className="block text-xs font-medium text-gray-500">Amount</label>
+                <div className="flex gap-1">
+                  <input
+                    type="number"
+                    id="expense_amount"
+                    min="0"
+                    step="0.01"
+                    value={expenseAmount}
+                    onChange={(e) => setExpenseAmount(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                  <CurrencySelect
+                    value={expenseCurrency}
+                    onChange={setExpenseCurrency}
+                    className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+              <div className="flex-1">
+                <label htmlFor="expense_description" className="block text-xs font-medium text-gray-500">Description</label>
+                <input
+                  type="text"
+                  id="expense_description"
+                  value={expenseDescription}
+                  onChange={(e) => setExpenseDescription(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <button type="submit" disabled={isSaving} className="btn-primary disabled:opacity-60">
+                {isSaving ? 'Saving...' : 'Add'}
+              </button>
+            </form>
+            {error && <p className="text-red-500 text-xs mt-2">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+
+interface CurrencySelectProps {
+  id?: string;
+  value: string;
+  onChange: (currency: string) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Picks the currency an amount was paid in. A stored code outside the supported
+ * list stays selectable so editing doesn't change it.
+ */
+export default function CurrencySelect({ id, value, onChange, className = '', disabled = false }: CurrencySelectProps) {
+  const codes = SUPPORTED_CURRENCIES.some(currency => currency.code === value)
+    ? SUPPORTED_CURRENCIES
+    : [...SUPPORTED_CURRENCIES, { code: value, symbol: '' }];
+
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+      disabled={disabled}
+      aria-label="Currency"
+    >
+      {codes.map(currency => (
+        <option key={currency.code} value={currency.code}>{currency.code}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { getPdfPageLines, loadPdfDocument } from '../services/documentAnalysisService';
+import type { PdfTextItem } from '../services/documentAnalysisService';
+import type { ExtractionSource } from '../types';
+
+// Box around highlighted text, as percentages of the page so it scales with the preview
+type HighlightBox = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+interface DocumentPreviewProps {
+  file: File;
+  highlight?: ExtractionSource | null;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds the text items a source snippet was read from. A line matches when it
+ * contains the snippet (or the snippet contains the whole line); within it only
+ * the items that are part of the snippet are highlighted.
+ */
+const findSourceItems = (lines: PdfTextItem[][], snippet: string): PdfTextItem[] => {
+  const target = normalize(snippet);
+  if (!target) return [];
+
+  for (const line of lines) {
+    const lineText = normalize(line.map(item => item.text).join(' '));
+    if (lineText.includes(target) || (lineText.length >= 3 && target.includes(lineText))) {
+      const parts = line.filter(item => target.includes(normalize(item.text)) || normalize(item.text).includes(target));
+      return parts.length > 0 ? parts : line;
+    }
+  }
+
+  // The snippet may cover several lines (e.g. an address block)
+  return lines.flat().filter(item => normalize(item.text).length >= 3 && target.includes(normalize(item.text)));
+};
+
+/**
+ * Shows an uploaded image or PDF next to the extracted data and highlights where
+ * a value was read. Highlights are drawn on PDF pages with a text layer; for
+ * photos and scanned pages the source text is shown under the preview instead.
+ */
+export default function DocumentPreview({ file, highlight = null }: DocumentPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNum, setPageNum] = useState(1);
+  const [lines, setLines] = useState<PdfTextItem[][]>([]);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPdf = file.type === 'application/pdf';
+  // Browsers can't display HEIC, which is converted only for analysis
+  const canPreviewImage = file.type.startsWith('image/') && file.type !== 'image/heic';
+
+  useEffect(() => {
+    if (!canPreviewImage) return;
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, canPreviewImage]);
+
+  useEffect(() => {
+    if (!isPdf) return;
+    let cancelled = false;
+    loadPdfDocument(file)
+      .then(document => {
+        if (!cancelled) setPdf(document);
+      })
+      .catch(err => {
+        console.error('Error loading PDF preview:', err);
+        if (!cancelled) setError('Could not display this PDF');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, isPdf]);
+
+  // Jump to the page the selected value was read from
+  useEffect(() => {
+    if (highlight && pdf && highlight.page <= pdf.numPages) {
+      setPageNum(highlight.page);
+    }
+  }, [highlight, pdf]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let cancelled = false;
+    const canvas = canvasRef.current;
+
+    const renderPage = async () => {
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1.5 });
+      const context = canvas.getContext('2d');
+      if (!context || cancelled) return;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const renderContext = { canvasContext: context, canvas, viewport };
+      await page.render(renderContext).promise;
+      const pageLines = await getPdfPageLines(pdf, pageNum);
+      if (cancelled) return;
+      const unscaled = page.getViewport({ scale: 1 });
+      setPageSize({ width: unscaled.width, height: unscaled.height });
+      setLines(pageLines);
+    };
+
+    renderPage().catch(err => {
+      console.error('Error rendering PDF page:', err);
+      if (!cancelled) setError('Could not display this page');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNum]);
+
+  const highlightOnPage = highlight && (!isPdf || highlight.page === pageNum) ? highlight : null;
+  const sourceItems = highlightOnPage && pageSize ? findSourceItems(lines, highlightOnPage.text) : [];
+  const boxes: HighlightBox[] = pageSize
+    ? sourceItems.map(item => ({
+      left: (item.x / pageSize.width) * 100,
+      // PDF coordinates start at the bottom; the box spans from the baseline up by the font height
+      top: ((pageSize.height - item.y - item.height) / pageSize.height) * 100,
+      width: (item.width / pageSize.width) * 100,
+      height: (Math.max(item.height, 1) / pageSize.height) * 100,
+    }))
+    : [];
+
+  return (
+    <div className="flex flex-col">
+      <div className="relative border rounded-md bg-gray-100 overflow-auto max-h-[70vh]">
+        {isPdf && (
+          <div className="relative">
+            <canvas ref={canvasRef} className="w-full h-auto block" />
+            {boxes.map((box, index) => (
+              <div
+                key={index}
+                className="absolute bg-yellow-300/40 ring-2 ring-yellow-400 rounded-sm pointer-events-none"
+                style={{ left: `${box.left}%`, top: `${box.top}%`, width: `${box.width}%`, height: `${box.height}%` }}
+              />
+            ))}
+          </div>
+        )}
+        {imageUrl && <img src={imageUrl} alt={file.name} className="w-full h-auto block" />}
+        {!isPdf && !canPreviewImage && (
+          <p className="p-4 text-sm text-gray-500">A preview is not available for this file type.</p>
+        )}
+      </div>
+
+      {isPdf && pdf && pdf.numPages > 1 && (
+        <div className="flex items-center justify-center mt-2 space-x-3 text-sm text-gray-600">
+          <button
+            type="button"
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            onClick={() => setPageNum(page => page - 1)}
+            disabled={pageNum <= 1}
+          >
+            <span className="sr-only">Previous page</span>
+            <ChevronLeftIcon className="h-4 w-4" aria-hidden="true" />
+          </button>
+          <span>Page {pageNum} of {pdf.numPages}</span>
+          <button
+            type="button"
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            onClick={() => setPageNum(page => page + 1)}
+            disabled={pageNum >= pdf.numPages}
+          >
+            <span className="sr-only">Next page</span>
+            <ChevronRightIcon className="h-4 w-4" aria-hidden="true" />
+          </button>
+        </div>
+      )}
+
+      {highlight && boxes.length === 0 && (
+        <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-gray-700">
+          <span className="font-medium">{isPdf ? `Read from page ${highlight.page}:` : 'Read from:'}</span> “{highlight.text}”
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { QueueEntryStatus } from '../services/analysisQueue';
+
+const STATUS_STYLES: Record<QueueEntryStatus, { label: string; className: string }> = {
+  uploading: { label: 'Uploading', className: 'bg-gray-100 text-gray-800' },
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-800' },
+  analyzing: { label: 'Analyzing', className: 'bg-blue-100 text-blue-800 animate-pulse' },
+  needs_review: { label: 'Needs review', className: 'bg-yellow-100 text-yellow-800' },
+  saved: { label: 'Saved', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+interface DocumentStatusBadgeProps {
+  status: QueueEntryStatus;
+  // Shown on hover, e.g. why analysis failed
+  error?: string | null;
+}
+
+export default function DocumentStatusBadge({ status, error = null }: DocumentStatusBadgeProps) {
+  const { label, className } = STATUS_STYLES[status] || STATUS_STYLES.queued;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}
+      title={error || undefined}
+    >
+      {label}
+    </span>
+  );
+}
@@ -1,25 +1,53 @@
 import { useState, useRef } from 'react';
 import type { ChangeEvent } from 'react';
 import { useDocumentAnalysis } from '../hooks/useDocumentAnalysis';
+import { useAnalysisQueue } from '../hooks/useAnalysisQueue';
+import { clearFinishedEntries, enqueueDocuments, retryUpload } from '../services/analysisQueue';
 import { useApp } from '../context/AppContext';
+import DocumentStatusBadge from './DocumentStatusBadge';
 import type { DocumentAnalysisResult } from '../types';
 
 type DocumentUploaderProps = {
-  onAnalysisComplete?: (result: DocumentAnalysisResult, documentId: string) => Promise<void>;
+  onAnalysisComplete?: (result: DocumentAnalysisResult, documentId: string, file: File) => Promise<void> | void;
   disabled?: boolean;
+  // Queue every dropped file for background analysis instead of analyzing one file here
+  batch?: boolean;
+  // The vehicle to file documents under; defaults to the selected vehicle
+  vehicleId?: string;
 };
 
-const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUploaderProps) => {
+const DocumentUploader = ({ onAnalysisComplete, disabled = false, batch = false, vehicleId }: DocumentUploaderProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState<boolean>(false);
-  const { analyzeDocument, isAnalyzing, progress, error } = useDocumentAnalysis();
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const { analyzeDocument, uploadState } = useDocumentAnalysis();
+  const { isUploading: isAnalyzing, progress, error: analysisError, currentPage, totalPages } = uploadState;
+  const queueEntries = useAnalysisQueue();
   const { selectedVehicle, refreshDocuments } = useApp();
+  const targetVehicleId = vehicleId || selectedVehicle?.id;
+  const error = analysisError || batchError;
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    if (!batch) {
+      setSelectedFile(files[0]);
+      return;
+    }
+
+    if (!targetVehicleId) {
+      setBatchError('Please select a vehicle before uploading documents');
+      return;
     }
+    setBatchError(null);
+    enqueueDocuments(Array.from(files), targetVehicleId);
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+    // Allow choosing the same files again
+    e.target.value = '';
   };
 
   const handleDrag = (e: React.DragEvent<HTMLDivElement>) => {
@@ -38,9 +66,7 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
     e.stopPropagation();
     setDragActive(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      setSelectedFile(e.dataTransfer.files[0]);
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   const handleUploadClick = () => {
@@ -48,15 +74,16 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
   };
 
   const handleAnalyze = async () => {
-    if (!selectedFile || !selectedVehicle) return;
+    if (!selectedFile || !targetVehicleId) return;
     
     try {
-      const { result, documentId } = await analyzeDocument(selectedFile, selectedVehicle.id);
+      const file = selectedFile;
+      const { result, documentId } = await analyzeDocument(file, targetVehicleId);
       setSelectedFile(null);
       await refreshDocuments();
       
       if (onAnalysisComplete && documentId) {
-        await onAnalysisComplete(result, documentId);
+        await onAnalysisComplete(result, documentId, file);
       }
     } catch (err) {
       console.error('Error analyzing document:', err);
@@ -85,6 +112,7 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
           ref={fileInputRef}
           onChange={handleFileChange}
           accept="image/*, application/pdf"
+          multiple={batch}
           className="hidden"
         />
         
@@ -105,7 +133,7 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
               />
             </svg>
             <p className="mt-2 text-sm text-gray-600">
-              Drag and drop a file here, or{' '}
+              {batch ? 'Drag and drop receipts here, or' : 'Drag and drop a file here, or'}{' '}
               <button
                 type="button"
                 className="text-primary-600 hover:text-primary-500 focus:outline-none"
@@ -118,6 +146,11 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
             <p className="mt-1 text-xs text-gray-500">
               Supported formats: PNG, JPG, PDF (max 10MB)
             </p>
+            {batch && (
+              <p className="mt-1 text-xs text-gray-500">
+                Files are analyzed in the background; review each one from the documents list
+              </p>
+            )}
           </div>
         ) : (
           <div>
@@ -138,7 +171,7 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
                 type="button"
                 className="btn-primary text-sm py-1 px-3"
                 onClick={handleAnalyze}
-                disabled={isAnalyzing || !selectedVehicle || disabled}
+                disabled={isAnalyzing || !targetVehicleId || disabled}
               >
                 {isAnalyzing ? 'Analyzing...' : 'Analyze Document'}
               </button>
@@ -151,16 +184,54 @@ const DocumentUploader = ({ onAnalysisComplete, disabled = false }: DocumentUplo
         <div className="mt-4">
           <div className="w-full bg-gray-200 rounded-full h-2.5">
             <div
-              className="bg-primary-600 h-2.5 rounded-full"
+              className="bg-primary-600 h-2.5 rounded-full transition-all duration-300"
               style={{ width: `${progress}%` }}
             ></div>
           </div>
           <p className="text-xs text-center mt-1 text-gray-500">
-            Analyzing document... {progress}%
+            {currentPage && totalPages
+              ? `Analyzing page ${currentPage} of ${totalPages}... ${progress}%`
+              : `Analyzing document... ${progress}%`}
           </p>
         </div>
       )}
 
+      {batch && queueEntries.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-900">
+              {queueEntries.length} {queueEntries.length === 1 ? 'file' : 'files'} queued
+            </p>
+            <button
+              type="button"
+              className="text-xs text-primary-600 hover:text-primary-500"
+              onClick={clearFinishedEntries}
+            >
+              Clear finished
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-200 border rounded-md">
+            {queueEntries.map(entry => (
+              <li key={entry.key} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="truncate mr-3 text-gray-700">{entry.fileName}</span>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {entry.status === 'failed' && !entry.documentId && (
+                    <button
+                      type="button"
+                      className="text-xs text-primary-600 hover:text-primary-500"
+                      onClick={() => retryUpload(entry.key)}
+                    >
+                      Retry
+                    </button>
+                  )}
+                  <DocumentStatusBadge status={entry.status} error={entry.error} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
           {error}
@@ -0,0 +1,131 @@
+import { Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { formatMoney } from '../utils/currency';
+import type { DuplicateAction, DuplicateMatch, ServiceRecord } from '../types';
+
+interface DuplicateRecordDialogProps {
+  open: boolean;
+  matches: DuplicateMatch[];
+  // Linking only applies when the record came from an uploaded document
+  canLink: boolean;
+  isSaving?: boolean;
+  onResolve: (action: DuplicateAction, match?: DuplicateMatch) => void;
+  onCancel: () => void;
+}
+
+const formatCost = (record: ServiceRecord) =>
+  record.total_cost != null ? formatMoney(record.total_cost, record.currency) : 'No total';
+
+/**
+ * Asks what to do with a service record that looks like one already saved:
+ * merge it into the existing record, link its document to it, or keep both
+ */
+export default function DuplicateRecordDialog({ open, matches, canLink, isSaving = false, onResolve, onCancel }: DuplicateRecordDialogProps) {
+  return (
+    <Transition.Root show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onCancel}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pt-5 pb-4 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="sm:flex sm:items-start">
+                  <div className="mx-auto flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-yellow-100 sm:mx-0 sm:h-10 sm:w-10">
+                    <DocumentDuplicateIcon className="h-6 w-6 text-yellow-600" aria-hidden="true" />
+                  </div>
+                  <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Possible Duplicate
+                    </Dialog.Title>
+                    <p className="mt-2 text-sm text-gray-500">
+                      {matches.some(match => match.sameFile)
+                        ? 'This document was already saved as a service record.'
+                        : 'A saved service record looks like the same visit.'}
+                    </p>
+
+                    <ul className="mt-4 space-y-3">
+                      {matches.map(match => (
+                        <li key={match.record.id} className="border rounded-md p-3">
+                          <div className="flex justify-between text-sm">
+                            <span className="font-medium text-gray-900">
+                              {match.record.service_provider || 'Unknown provider'}
+                            </span>
+                            <span className="text-gray-700">{formatCost(match.record)}</span>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {new Date(match.record.service_date).toLocaleDateString()} · {match.items.map(item => item.service_type).join(', ') || 'No items'}
+                          </p>
+                          <p className="mt-1 text-xs text-yellow-700">{match.reasons.join(' · ')}</p>
+                          <div className="mt-2 flex space-x-2">
+                            <button
+                              type="button"
+                              className="btn-secondary text-xs py-1 px-2"
+                              onClick={() => onResolve('merge', match)}
+                              disabled={isSaving}
+                              title="Add missing details and items to this record"
+                            >
+                              Merge
+                            </button>
+                            {canLink && (
+                              <button
+                                type="button"
+                                className="btn-secondary text-xs py-1 px-2"
+                                onClick={() => onResolve('link', match)}
+                                disabled={isSaving}
+                                title="Attach the document to this record without changing it"
+                              >
+                                Link
+                              </button>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+                <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+                  <button
+                    type="button"
+                    className="inline-flex w-full justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm"
+                    onClick={() => onResolve('keep_both')}
+                    disabled={isSaving}
+                  >
+                    {isSaving ? 'Saving...' : 'Keep Both'}
+                  </button>
+                  <button
+                    type="button"
+                    className="mt-3 inline-flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-base font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:mt-0 sm:w-auto sm:text-sm"
+                    onClick={onCancel}
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { deleteExchangeRate, saveExchangeRate } from '../services/exchangeRateService';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+
+/**
+ * Lets the user set the rates totals are converted with. Rates are units per US
+ * dollar; amounts in a currency the user hasn't set a rate for aren't converted.
+ */
+export default function ExchangeRatesEditor() {
+  const { user, exchangeRates, refreshExchangeRates } = useApp();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingCurrency, setSavingCurrency] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const savedRate = (currency: string) => exchangeRates.find(rate => rate.currency === currency);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(SUPPORTED_CURRENCIES.map(({ code }) => [
+      code,
+      savedRate(code) ? String(savedRate(code)?.units_per_usd) : '',
+    ])));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [exchangeRates]);
+
+  const handleSave = async (currency: string) => {
+    if (!user) return;
+    const unitsPerUsd = Number(drafts[currency]);
+    if (!Number.isFinite(unitsPerUsd) || unitsPerUsd <= 0) {
+      setError(`Enter a positive rate for ${currency}`);
+      return;
+    }
+    setError(null);
+    setSavingCurrency(currency);
+    const saved = await saveExchangeRate(user.id, currency, unitsPerUsd);
+    if (!saved) setError(`Couldn't save the ${currency} rate`);
+    await refreshExchangeRates();
+    setSavingCurrency(null);
+  };
+
+  const handleRemove = async (currency: string) => {
+    if (!user) return;
+    setError(null);
+    setSavingCurrency(currency);
+    if (!await deleteExchangeRate(user.id, currency)) setError(`Couldn't remove the ${currency} rate`);
+    await refreshExchangeRates();
+    setSavingCurrency(null);
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium leading-6 text-gray-900">Exchange Rates</h4>
+      <p className="text-sm text-gray-500">
+        Amounts in other currencies are converted with these rates when they're added up. Until a
+        currency has a rate, its amounts are added up unconverted.
+      </p>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <table className="mt-3 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="py-1 font-medium">Currency</th>
+            <th className="py-1 font-medium">Per 1 USD</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {SUPPORTED_CURRENCIES.filter(({ code }) => code !== 'USD').map(({ code, symbol }) => {
+            const saved = savedRate(code);
+            const unchanged = saved ? Number(drafts[code]) === Number(saved.units_per_usd) : !drafts[code];
+            return (
+              <tr key={code}>
+                <td className="py-2 text-gray-900">
+                  {code} ({symbol})
+                  {!saved && <span className="ml-2 text-xs text-amber-600">not set</span>}
+                </td>
+                <td className="py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={drafts[code] ?? ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [code]: e.target.value }))}
+                    className="form-input w-28"
+                    aria-label={`${code} per US dollar`}
+                  />
+                </td>
+                <td className="py-2 text-right space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => handleSave(code)}
+                    disabled={unchanged || savingCurrency === code}
+                    className="text-primary-600 hover:text-primary-800 disabled:text-gray-300"
+                  >
+                    Save
+                  </button>
+                  {saved && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(code)}
+                      disabled={savingCurrency === code}
+                      className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
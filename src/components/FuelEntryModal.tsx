@@ -0,0 +1,355 @@
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { XMarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { FuelEntry, FuelEntryInsert, UnitSystem } from '../types';
+import { createFuelEntry, updateFuelEntry, deleteFuelEntry } from '../services/fuelService';
+import { volumeUnitFor } from '../utils/fuelEconomy';
+import { toCurrencyCode } from '../utils/currency';
+import { DISTANCE_UNIT_LABELS, fromMiles, toMiles } from '../utils/units';
+import { useApp } from '../context/AppContext';
+import useCurrency from '../hooks/useCurrency';
+import useUnits from '../hooks/useUnits';
+import CurrencySelect from './CurrencySelect';
+
+interface FuelEntryModalProps {
+  open: boolean;
+  onClose: () => void;
+  vehicleId: string;
+  units: UnitSystem;
+  fuelEntry?: FuelEntry | null; // Optional - if provided, we're editing an existing entry
+  onSaved: () => Promise<void>;
+}
+
+interface FuelEntryFormState {
+  fill_date: string;
+  odometer: string;
+  volume: string;
+  price_per_unit: string;
+  total_cost: string;
+  // Both prices are in this currency
+  currency: string;
+  is_full_fill: boolean;
+  station: string;
+  notes: string;
+}
+
+const emptyForm = (currency: string): FuelEntryFormState => ({
+  fill_date: format(new Date(), 'yyyy-MM-dd'),
+  odometer: '',
+  volume: '',
+  price_per_unit: '',
+  total_cost: '',
+  currency,
+  is_full_fill: true,
+  station: '',
+  notes: '',
+});
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function FuelEntryModal({ open, onClose, vehicleId, units, fuelEntry, onSaved }: FuelEntryModalProps) {
+  const { currency: preferredCurrency } = useCurrency();
+  const { vehicles } = useApp();
+  // The odometer is entered in the unit it reads in and stored in miles
+  const { odometerUnit } = useUnits(vehicles.find(vehicle => vehicle.id === vehicleId));
+  const [form, setForm] = useState<FuelEntryFormState>(() => emptyForm(preferredCurrency));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Existing entries keep the unit they were entered in
+  const volumeUnit = fuelEntry ? fuelEntry.volume_unit : volumeUnitFor(units);
+  const volumeLabel = volumeUnit === 'l' ? 'litres' : 'gallons';
+  const priceLabel = volumeUnit === 'l' ? 'Price / L' : 'Price / gal';
+
+  // Initialize form with existing data when the modal opens
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    if (fuelEntry) {
+      setForm({
+        fill_date: fuelEntry.fill_date,
+        odometer: fromMiles(fuelEntry.odometer, odometerUnit).toString(),
+        volume: fuelEntry.volume.toString(),
+        price_per_unit: fuelEntry.price_per_unit?.toString() || '',
+        total_cost: fuelEntry.total_cost?.toString() || '',
+        currency: toCurrencyCode(fuelEntry.currency, preferredCurrency),
+        is_full_fill: fuelEntry.is_full_fill,
+        station: fuelEntry.station || '',
+        notes: fuelEntry.notes || '',
+      });
+    } else {
+      setForm(emptyForm(preferredCurrency));
+    }
+  }, [open, fuelEntry, preferredCurrency, odometerUnit]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setForm(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const odometer = Number(form.odometer);
+    const volume = Number(form.volume);
+    if (form.odometer.trim() === '' || !Number.isFinite(odometer) || odometer < 0) {
+      setError('Enter a valid odometer reading');
+      return;
+    }
+    if (form.volume.trim() === '' || !Number.isFinite(volume) || volume <= 0) {
+      setError(`Enter how many ${volumeLabel} were filled`);
+      return;
+    }
+
+    // Either price can be worked out from the other
+    let pricePerUnit = toNumberOrNull(form.price_per_unit);
+    let totalCost = toNumberOrNull(form.total_cost);
+    if (pricePerUnit !== null && totalCost === null) {
+      totalCost = Math.round(pricePerUnit * volume * 100) / 100;
+    } else if (totalCost !== null && pricePerUnit === null) {
+      pricePerUnit = Math.round((totalCost / volume) * 1000) / 1000;
+    }
+
+    const data: FuelEntryInsert = {
+      vehicle_id: vehicleId,
+      fill_date: form.fill_date,
+      odometer: toMiles(Math.round(odometer), odometerUnit),
+      volume,
+      volume_unit: volumeUnit,
+      price_per_unit: pricePerUnit,
+      total_cost: totalCost,
+      currency: form.currency,
+      is_full_fill: form.is_full_fill,
+      station: form.station.trim() || null,
+      notes: form.notes.trim() || null,
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = fuelEntry ? await updateFuelEntry(fuelEntry.id, data) : await createFuelEntry(data);
+      if (!saved) {
+        setError('Failed to save fill-up');
+        return;
+      }
+      await onSaved();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!fuelEntry) return;
+    if (!window.confirm(`Delete the fill-up from ${fuelEntry.fill_date}?`)) return;
+
+    setIsSaving(true);
+    try {
+      const success = await deleteFuelEntry(fuelEntry);
+      if (!success) {
+        setError('Failed to delete fill-up');
+        return;
+      }
+      await onSaved();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Transition.Root show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={() => {}}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-900 bg-opacity-40 transition-opacity" />
+        </Transition.Child>
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative bg-white rounded-lg px-4 pt-5 pb-4 text-left shadow-xl transform transition-all w-full max-w-md">
+                <div className="flex justify-between items-center mb-4">
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    {fuelEntry ? 'Edit Fill-Up' : 'Add Fill-Up'}
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                  </button>
+                </div>
+
+                {error && (
+                  <div className="mb-4 p-2 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="fill_date" className="block text-sm font-medium text-gray-700">Date</label>
+                      <input
+                        type="date"
+                        id="fill_date"
+                        name="fill_date"
+                        value={form.fill_date}
+                        max={format(new Date(), 'yyyy-MM-dd')}
+                        onChange={handleChange}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="odometer" className="block text-sm font-medium text-gray-700">Odometer ({DISTANCE_UNIT_LABELS[odometerUnit]})</label>
+                      <input
+                        type="number"
+                        min="0"
+                        id="odometer"
+                        name="odometer"
+                        value={form.odometer}
+                        onChange={handleChange}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label htmlFor="volume" className="block text-sm font-medium text-gray-700 capitalize">{volumeLabel}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        id="volume"
+                        name="volume"
+                        value={form.volume}
+                        onChange={handleChange}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="price_per_unit" className="block text-sm font-medium text-gray-700">{priceLabel}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        id="price_per_unit"
+                        name="price_per_unit"
+                        value={form.price_per_unit}
+                        onChange={handleChange}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="total_cost" className="block text-sm font-medium text-gray-700">Total</label>
+                      <div className="flex gap-1">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          id="total_cost"
+                          name="total_cost"
+                          value={form.total_cost}
+                          onChange={handleChange}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <CurrencySelect
+                          value={form.currency}
+                          onChange={currency => setForm(prev => ({ ...prev, currency }))}
+                          className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="relative flex items-start">
+                    <div className="flex h-6 items-center">
+                      <input
+                        id="is_full_fill"
+                        name="is_full_fill"
+                        type="checkbox"
+                        checked={form.is_full_fill}
+                        onChange={handleChange}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div className="ml-3 text-sm leading-6">
+                      <label htmlFor="is_full_fill" className="font-medium text-gray-900">Filled the tank</label>
+                      <p className="text-xs text-gray-500">Fuel economy is measured between full fills; leave unchecked for a top-up.</p>
+                    </div>
+                  </div>
+                  <div>
+                    <label htmlFor="station" className="block text-sm font-medium text-gray-700">Station</label>
+                    <input
+                      type="text"
+                      id="station"
+                      name="station"
+                      value={form.station}
+                      onChange={handleChange}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="notes" className="block text-sm font-medium text-gray-700">Notes</label>
+                    <textarea
+                      id="notes"
+                      name="notes"
+                      rows={2}
+                      value={form.notes}
+                      onChange={handleChange}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+
+                  <div className="flex justify-between items-center pt-4 border-t border-gray-200">
+                    {fuelEntry ? (
+                      <button
+                        type="button"
+                        onClick={handleDelete}
+                        disabled={isSaving}
+                        className="inline-flex items-center justify-center w-10 h-10 text-gray-400 hover:text-red-500 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Delete fill-up"
+                      >
+                        <TrashIcon className="h-5 w-5" aria-hidden="true" />
+                      </button>
+                    ) : (
+                      <div></div>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60"
+                    >
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -1,11 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useApp } from '../context/useApp';
-import { supabase } from '../services/supabase';
 import ProfileModal from './ProfileModal';
 
 const Header = () => {
-  const { user, setUser } = useApp();
+  const { user, setUser, signOut } = useApp();
   const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
@@ -27,7 +26,7 @@ const Header = () => {
 
   const handleSignOut = async () => {
     try {
-      await supabase.auth.signOut();
+      await signOut();
       setUser(null);
       navigate('/login');
     } catch (error) {
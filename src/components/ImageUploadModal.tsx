@@ -2,6 +2,7 @@ import { Fragment, useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { PhotoIcon, SparklesIcon } from '@heroicons/react/24/solid';
+import { authorizedFetch } from '../services/api';
 
 interface ImageUploadModalProps {
   isOpen: boolean;
@@ -96,11 +97,8 @@ export default function ImageUploadModal({ isOpen, onClose, onSave, vehicleDetai
         vehicleId?: string;
         error?: string;
       }
-      const response = await fetch('http://localhost:3005/api/generate-image', {
+      const response = await authorizedFetch('/api/generate-image', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         body: JSON.stringify({ 
           prompt,
           vehicleId: vehicleDetails.id
@@ -0,0 +1,68 @@
+import { useEffect, useMemo } from 'react';
+import { findMatchingTemplates, ENGINE_TYPE_LABELS } from '../utils/maintenanceTemplates';
+import type { TemplateSelection, TemplateVehicle } from '../utils/maintenanceTemplates';
+
+interface MaintenanceTemplateSelectProps {
+  vehicle: TemplateVehicle;
+  value: TemplateSelection | null;
+  onChange: (selection: TemplateSelection | null) => void;
+  // Offer a "no schedule" choice (used when adding a vehicle)
+  allowNone?: boolean;
+  id?: string;
+}
+
+const toKey = (selection: TemplateSelection) => `${selection.templateId}:${selection.engineType}`;
+
+export default function MaintenanceTemplateSelect({ vehicle, value, onChange, allowNone = false, id = 'maintenance-template' }: MaintenanceTemplateSelectProps) {
+  const { make, model, year, body_class } = vehicle;
+  const options = useMemo(
+    () => findMatchingTemplates({ make, model, year, body_class }),
+    [make, model, year, body_class]
+  );
+
+  // Default to the best match whenever the vehicle changes
+  useEffect(() => {
+    if (options.length > 0) {
+      onChange({ templateId: options[0].template.id, engineType: options[0].engineType });
+    } else {
+      onChange(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [options]);
+
+  const selectedOption = value
+    ? options.find(option => option.template.id === value.templateId && option.engineType === value.engineType)
+    : undefined;
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        Maintenance Schedule
+      </label>
+      <select
+        id={id}
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        value={value ? toKey(value) : ''}
+        onChange={(e) => {
+          const option = options.find(candidate => toKey({ templateId: candidate.template.id, engineType: candidate.engineType }) === e.target.value);
+          onChange(option ? { templateId: option.template.id, engineType: option.engineType } : null);
+        }}
+      >
+        {allowNone && <option value="">Don't set up a schedule</option>}
+        {options.map(option => {
+          const key = toKey({ templateId: option.template.id, engineType: option.engineType });
+          return (
+            <option key={key} value={key}>
+              {option.template.name} ({ENGINE_TYPE_LABELS[option.engineType]})
+            </option>
+          );
+        })}
+      </select>
+      {selectedOption && (
+        <p className="mt-1 text-xs text-gray-500">
+          Adds {selectedOption.items.length} maintenance items: {selectedOption.items.map(item => item.service_type).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 import { useState, useEffect } from 'react';
 import { TrashIcon } from '@heroicons/react/24/outline';
+import CurrencySelect from './CurrencySelect';
+import useCurrency from '../hooks/useCurrency';
+import useUnits from '../hooks/useUnits';
+import { useApp } from '../context/AppContext';
+import { DISTANCE_UNIT_LABELS, fromMiles, toMiles } from '../utils/units';
 import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, ServiceItem } from '../types';
 
 interface ManualServiceRecordFormProps {
@@ -29,6 +34,11 @@ export default function ManualServiceRecordForm({
   const [serviceDate, setServiceDate] = useState('');
   const [serviceProvider, setServiceProvider] = useState('');
   const [mileage, setMileage] = useState<number | string>('');
+  const { currency: preferredCurrency } = useCurrency();
+  const [currency, setCurrency] = useState(preferredCurrency);
+  const { vehicles } = useApp();
+  // Mileage is entered in the unit the vehicle's odometer reads in
+  const { odometerUnit } = useUnits(vehicles.find(vehicle => vehicle.id === vehicleId));
   const [serviceItems, setServiceItems] = useState<ServiceItemFormState[]>([
     { id: newServiceItemId(), service_type: '', description: '', cost: '', parts_replaced: '', quantity: '1' },
   ]);
@@ -38,7 +48,8 @@ export default function ManualServiceRecordForm({
     if (existingRecord) {
       setServiceDate(existingRecord.service_date || '');
       setServiceProvider(existingRecord.service_provider || '');
-      setMileage(existingRecord.mileage?.toString() || '');
+      setMileage(existingRecord.mileage ? fromMiles(existingRecord.mileage, odometerUnit).toString() : '');
+      if (existingRecord.currency) setCurrency(existingRecord.currency);
     }
     
     if (existingItems && existingItems.length > 0) {
@@ -53,7 +64,7 @@ export default function ManualServiceRecordForm({
       
       setServiceItems(formattedItems);
     }
-  }, [existingRecord, existingItems]);
+  }, [existingRecord, existingItems, odometerUnit]);
 
   // Track form changes and notify parent
   useEffect(() => {
@@ -71,8 +82,9 @@ export default function ManualServiceRecordForm({
         vehicle_id: vehicleId,
         service_date: serviceDate,
         service_provider: serviceProvider || null,
-        mileage: mileage ? Number(mileage) : null,
+        mileage: mileage ? toMiles(Number(mileage), odometerUnit) : null,
         total_cost: totalCost || null,
+        currency,
         notes: null,
         document_url: null,
         ...(existingRecord?.id ? { id: existingRecord.id } : {})
@@ -89,13 +101,14 @@ export default function ManualServiceRecordForm({
           cost: cost,
           parts_replaced: partsArray.length > 0 ? partsArray : null,
           quantity: quantity,
+          currency,
           ...(typeof item.id === 'string' && item.id.startsWith('item_') ? {} : { id: item.id })
         };
       });
 
       onFormDataChange(serviceRecord, serviceItemsData);
     }
-  }, [serviceDate, serviceProvider, mileage, serviceItems, vehicleId, existingRecord, onFormDataChange]);
+  }, [serviceDate, serviceProvider, mileage, odometerUnit, currency, serviceItems, vehicleId, existingRecord, onFormDataChange]);
 
   const handleItemChange = (index: number, field: keyof ServiceItemFormState, value: any) => {
     const newItems = [...serviceItems];
@@ -147,7 +160,7 @@ export default function ManualServiceRecordForm({
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Mileage
+              Mileage ({DISTANCE_UNIT_LABELS[odometerUnit]})
             </label>
             <input 
               type="number" 
@@ -163,7 +176,14 @@ export default function ManualServiceRecordForm({
       {/* Service Items */}
       <div>
         <div className="flex items-center justify-between mb-2">
-          <h4 className="text-sm font-medium text-gray-700">Service Items</h4>
+          <div className="flex items-center gap-2">
+            <h4 className="text-sm font-medium text-gray-700">Service Items</h4>
+            <CurrencySelect
+              value={currency}
+              onChange={setCurrency}
+              className="p-1 border border-gray-300 rounded text-xs"
+            />
+          </div>
           <button 
             onClick={addItem} 
             type="button"
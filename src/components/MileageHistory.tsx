@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { addOdometerReading, deleteOdometerReading, getOdometerReadings } from '../services/odometerService';
+import { findRollbackConflict, getLatestReading, sortReadings } from '../utils/odometer';
+import { DISTANCE_UNIT_LABELS, fromMiles } from '../utils/units';
+import { useApp } from '../context/AppContext';
+import useUnits from '../hooks/useUnits';
+import type { OdometerReading, OdometerSource } from '../types';
+
+interface MileageHistoryProps {
+  vehicleId: string;
+  // Called after readings change so the parent can show the new current mileage
+  onLatestReadingChange?: (reading: OdometerReading | null) => void;
+}
+
+const SOURCE_LABELS: Record<OdometerSource, string> = {
+  manual: 'Manual entry',
+  service_record: 'Service record',
+  document_extraction: 'From document',
+  fuel_entry: 'Fill-up',
+};
+
+interface ChartPoint {
+  time: number;
+  mileage: number;
+  reading: OdometerReading;
+}
+
+const RollbackAwareDot = (props: { cx?: number; cy?: number; payload?: ChartPoint }) => {
+  const { cx, cy, payload } = props;
+  if (cx === undefined || cy === undefined || !payload) return null;
+  const isRollback = payload.reading.is_rollback;
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={isRollback ? 5 : 3}
+      fill={isRollback ? '#ef4444' : '#2563eb'}
+      stroke="#fff"
+      strokeWidth={1}
+    />
+  );
+};
+
+export default function MileageHistory({ vehicleId, onLatestReadingChange }: MileageHistoryProps) {
+  const [readings, setReadings] = useState<OdometerReading[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [readingDate, setReadingDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [mileage, setMileage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { vehicles } = useApp();
+  // Readings are stored in miles and shown in the unit the odometer reads in
+  const { odometerUnit, formatOdometer, toMiles } = useUnits(vehicles.find(vehicle => vehicle.id === vehicleId));
+
+  const loadReadings = async () => {
+    const data = await getOdometerReadings(vehicleId);
+    setReadings(data);
+    setLoading(false);
+    return data;
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadReadings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vehicleId]);
+
+  const chartData = useMemo<ChartPoint[]>(
+    () => sortReadings(readings).map(reading => ({
+      time: parseISO(reading.reading_date).getTime(),
+      mileage: fromMiles(reading.mileage, odometerUnit),
+      reading,
+    })),
+    [readings, odometerUnit]
+  );
+
+  const rollbacks = readings.filter(reading => reading.is_rollback);
+
+  const handleReadingsChanged = async () => {
+    const data = await loadReadings();
+    onLatestReadingChange?.(getLatestReading(data));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(mileage);
+    if (mileage.trim() === '' || !Number.isFinite(value) || value < 0) {
+      setError('Enter a valid odometer reading');
+      return;
+    }
+
+    const newReading = {
+      vehicle_id: vehicleId,
+      reading_date: readingDate,
+      mileage: toMiles(Math.round(value)),
+      source: 'manual',
+    };
+    const conflict = findRollbackConflict(readings, newReading);
+    if (conflict) {
+      setError(
+        conflict.reading_date <= readingDate
+          ? `Reading is lower than ${formatOdometer(conflict.mileage)} recorded on ${conflict.reading_date}`
+          : `Reading is higher than ${formatOdometer(conflict.mileage)} recorded later on ${conflict.reading_date}`
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await addOdometerReading(newReading);
+      if (!saved) {
+        setError('Failed to save odometer reading');
+        return;
+      }
+      setMileage('');
+      await handleReadingsChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (reading: OdometerReading) => {
+    if (!window.confirm(`Delete the ${formatOdometer(reading.mileage)} reading from ${reading.reading_date}?`)) return;
+    const success = await deleteOdometerReading(reading);
+    if (!success) {
+      setError('Failed to delete odometer reading');
+      return;
+    }
+    await handleReadingsChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-card p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Mileage History</h2>
+
+      {loading ? (
+        <p className="text-gray-500 text-center py-4">Loading...</p>
+      ) : chartData.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No odometer readings yet</p>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => format(time, 'MMM yyyy')}
+                tick={{ fontSize: 12 }}
+              />
+              <YAxis
+                dataKey="mileage"
+                tickFormatter={(value: number) => value.toLocaleString()}
+                tick={{ fontSize: 12 }}
+                width={70}
+              />
+              <Tooltip
+                labelFormatter={(time: number) => format(time, 'MMM d, yyyy')}
+                formatter={(value: number, _name, item) => {
+                  const reading = (item.payload as ChartPoint).reading;
+                  const label = SOURCE_LABELS[reading.source as OdometerSource] || reading.source;
+                  return [`${value.toLocaleString()} ${DISTANCE_UNIT_LABELS[odometerUnit]}${reading.is_rollback ? ' (rollback)' : ''}`, label];
+                }}
+              />
+              <Line type="monotone" dataKey="mileage" stroke="#2563eb" strokeWidth={2} dot={<RollbackAwareDot />} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {rollbacks.length > 0 && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm font-medium text-red-700 mb-2">
+            {rollbacks.length === 1 ? '1 reading is' : `${rollbacks.length} readings are`} lower than an earlier reading
+          </p>
+          <ul className="space-y-1">
+            {rollbacks.map(reading => (
+              <li key={reading.id} className="flex justify-between items-center text-sm text-red-600">
+                <span>
+                  {formatOdometer(reading.mileage)} on {reading.reading_date} ({SOURCE_LABELS[reading.source as OdometerSource] || reading.source})
+                </span>
+                {reading.source === 'manual' && (
+                  <button type="button" onClick={() => handleDelete(reading)} className="text-xs text-red-700 hover:underline">
+                    Delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-4 flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div>
+          <label htmlFor="reading_date" className="block text-xs font-medium text-gray-500">Date</label>
+          <input
+            type="date"
+            id="reading_date"
+            value={readingDate}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setReadingDate(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            required
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="reading_mileage" className="block text-xs font-medium text-gray-500">Odometer</label>
+          <input
+            type="number"
+            min="0"
+            id="reading_mileage"
+            value={mileage}
+            onChange={(e) => setMileage(e.target.value)}
+            placeholder={odometerUnit === 'km' ? 'Kilometers' : 'Miles'}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+        <button type="submit" disabled={isSaving} className="btn-primary disabled:opacity-60">
+          {isSaving ? 'Saving...' : 'Add Reading'}
+        </button>
+      </form>
+      {error && <p className="text-red-500 text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Says which currencies totals add up unconverted because the user hasn't entered
+ * an exchange rate for them yet
+ * @param currencies Codes from useCurrency().missingRates; nothing shows when empty
+ * @param className Spacing around the notice
+ */
+export default function MissingRatesNotice({ currencies, className = 'mb-4' }: { currencies: string[]; className?: string }) {
+  if (currencies.length === 0) return null;
+
+  return (
+    <div className={`${className} p-2 bg-amber-50 border border-amber-200 rounded-md`}>
+      <p className="text-sm text-amber-800">
+        Amounts in {currencies.join(', ')} are added to totals unconverted until you enter an exchange rate
+        for {currencies.length === 1 ? 'it' : 'them'} under Exchange Rates in your profile.
+      </p>
+    </div>
+  );
+}
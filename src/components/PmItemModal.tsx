@@ -0,0 +1,305 @@
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment, useEffect, useState } from 'react';
+import { XMarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { PmItem, PmItemInsert } from '../types';
+import { createPmItem, updatePmItem, deletePmItem } from '../services/maintenanceScheduleService';
+import { STANDARD_SERVICE_TYPES } from '../data/serviceTypes';
+import { useApp } from '../context/AppContext';
+import useUnits from '../hooks/useUnits';
+import { DISTANCE_UNIT_LABELS, fromMiles, toStoredMileage } from '../utils/units';
+
+interface PmItemModalProps {
+  open: boolean;
+  onClose: () => void;
+  vehicleId: string;
+  pmItem?: PmItem | null; // Optional - if provided, we're editing an existing item
+  onSaved: () => Promise<void>;
+}
+
+interface PmItemFormState {
+  service_type: string;
+  description: string;
+  interval_miles: string;
+  interval_months: string;
+  last_service_date: string;
+  last_service_mileage: string;
+  notes: string;
+}
+
+const emptyForm: PmItemFormState = {
+  service_type: '',
+  description: '',
+  interval_miles: '',
+  interval_months: '',
+  last_service_date: '',
+  last_service_mileage: '',
+  notes: '',
+};
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function PmItemModal({ open, onClose, vehicleId, pmItem, onSaved }: PmItemModalProps) {
+  const [form, setForm] = useState<PmItemFormState>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { vehicles } = useApp();
+  // Intervals and mileages are entered in the vehicle's odometer unit and stored in miles
+  const { odometerUnit } = useUnits(vehicles.find(vehicle => vehicle.id === vehicleId));
+
+  // Initialize form with existing data when the modal opens
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    if (pmItem) {
+      setForm({
+        service_type: pmItem.service_type,
+        description: pmItem.description || '',
+        interval_miles: pmItem.interval_miles ? fromMiles(pmItem.interval_miles, odometerUnit).toString() : '',
+        interval_months: pmItem.interval_months?.toString() || '',
+        last_service_date: pmItem.last_service_date || '',
+        last_service_mileage: pmItem.last_service_mileage === null ? '' : fromMiles(pmItem.last_service_mileage, odometerUnit).toString(),
+        notes: pmItem.notes || '',
+      });
+    } else {
+      setForm(emptyForm);
+    }
+  }, [open, pmItem, odometerUnit]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.service_type.trim()) {
+      setError('Service type is required');
+      return;
+    }
+
+    const intervalMiles = toStoredMileage(toNumberOrNull(form.interval_miles), odometerUnit);
+    const intervalMonths = toNumberOrNull(form.interval_months);
+    if (!intervalMiles && !intervalMonths) {
+      setError('Enter a mileage interval, a time interval, or both');
+      return;
+    }
+
+    const data: PmItemInsert = {
+      vehicle_id: vehicleId,
+      service_type: form.service_type.trim(),
+      description: form.description.trim() || null,
+      interval_miles: intervalMiles,
+      interval_months: intervalMonths,
+      last_service_date: form.last_service_date || null,
+      last_service_mileage: toStoredMileage(toNumberOrNull(form.last_service_mileage), odometerUnit),
+      notes: form.notes.trim() || null,
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = pmItem ? await updatePmItem(pmItem.id, data) : await createPmItem(data);
+      if (!saved) {
+        setError('Failed to save maintenance item');
+        return;
+      }
+      await onSaved();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pmItem) return;
+    if (!window.confirm(`Delete the "${pmItem.service_type}" maintenance item?`)) return;
+
+    setIsSaving(true);
+    try {
+      const success = await deletePmItem(pmItem.id);
+      if (!success) {
+        setError('Failed to delete maintenance item');
+        return;
+      }
+      await onSaved();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Transition.Root show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={() => {}}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-900 bg-opacity-40 transition-opacity" />
+        </Transition.Child>
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative bg-white rounded-lg px-4 pt-5 pb-4 text-left shadow-xl transform transition-all w-full max-w-md">
+                <div className="flex justify-between items-center mb-4">
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    {pmItem ? 'Edit Maintenance Item' : 'Add Maintenance Item'}
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                  </button>
+                </div>
+
+                {error && (
+                  <div className="mb-4 p-2 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-600">{error}</p>
+                  </div>
+                )}
+
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                  <div>
+                    <label htmlFor="service_type" className="block text-sm font-medium text-gray-700">Service Type</label>
+                    <input
+                      type="text"
+                      id="service_type"
+                      name="service_type"
+                      value={form.service_type}
+                      onChange={handleChange}
+                      placeholder="Oil Change"
+                      list="standard-service-types"
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      required
+                    />
+                    <datalist id="standard-service-types">
+                      {STANDARD_SERVICE_TYPES.map(type => <option key={type} value={type} />)}
+                    </datalist>
+                  </div>
+                  <div>
+                    <label htmlFor="description" className="block text-sm font-medium text-gray-700">Description</label>
+                    <input
+                      type="text"
+                      id="description"
+                      name="description"
+                      value={form.description}
+                      onChange={handleChange}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="interval_miles" className="block text-sm font-medium text-gray-700">Every ({DISTANCE_UNIT_LABELS[odometerUnit]})</label>
+                      <input
+                        type="number"
+                        min="1"
+                        id="interval_miles"
+                        name="interval_miles"
+                        value={form.interval_miles}
+                        onChange={handleChange}
+                        placeholder={odometerUnit === 'km' ? '8000' : '5000'}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="interval_months" className="block text-sm font-medium text-gray-700">Every (months)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        id="interval_months"
+                        name="interval_months"
+                        value={form.interval_months}
+                        onChange={handleChange}
+                        placeholder="6"
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="last_service_date" className="block text-sm font-medium text-gray-700">Last Done</label>
+                      <input
+                        type="date"
+                        id="last_service_date"
+                        name="last_service_date"
+                        value={form.last_service_date}
+                        onChange={handleChange}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="last_service_mileage" className="block text-sm font-medium text-gray-700">At Mileage ({DISTANCE_UNIT_LABELS[odometerUnit]})</label>
+                      <input
+                        type="number"
+                        min="0"
+                        id="last_service_mileage"
+                        name="last_service_mileage"
+                        value={form.last_service_mileage}
+                        onChange={handleChange}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    "Last done" is only used when no matching service record exists yet.
+                  </p>
+                  <div>
+                    <label htmlFor="notes" className="block text-sm font-medium text-gray-700">Notes</label>
+                    <textarea
+                      id="notes"
+                      name="notes"
+                      rows={2}
+                      value={form.notes}
+                      onChange={handleChange}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+
+                  <div className="flex justify-between items-center pt-4 border-t border-gray-200">
+                    {pmItem ? (
+                      <button
+                        type="button"
+                        onClick={handleDelete}
+                        disabled={isSaving}
+                        className="inline-flex items-center justify-center w-10 h-10 text-gray-400 hover:text-red-500 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Delete maintenance item"
+                      >
+                        <TrashIcon className="h-5 w-5" aria-hidden="true" />
+                      </button>
+                    ) : (
+                      <div></div>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60"
+                    >
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -3,6 +3,9 @@ import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon, UserCircleIcon } from '@heroicons/react/24/outline';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
+import ExchangeRatesEditor from './ExchangeRatesEditor';
+import PushDeviceToggle from './PushDeviceToggle';
+import { setPushEnabled } from '../services/pushService';
 
 interface UserProfile {
   id: string;
@@ -19,6 +22,10 @@ interface UserProfile {
     maintenance_reminders: boolean;
     recall_alerts: boolean;
     document_expiration: boolean;
+    // Missing on profiles created before the digest existed
+    monthly_digest?: boolean;
+    // Text messages are off unless turned on
+    sms?: boolean;
   };
   created_at: string;
 }
@@ -29,9 +36,10 @@ interface ProfileModalProps {
 }
 
 export default function ProfileModal({ open, onClose }: ProfileModalProps) {
-  const { user } = useApp();
+  const { user, setUser } = useApp();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pushWorking, setPushWorking] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [avatarFile, setAvatarFile] = useState<File | null>(null);
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
@@ -165,8 +173,23 @@ export default function ProfileModal({ open, onClose }: ProfileModalProps) {
     setProfile((prev) => ({ ...prev, [name]: value }));
   };
 
-  const handleNotificationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleNotificationChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, checked } = e.target;
+    setNotificationPreference(name, checked);
+
+    // The push switch registers or removes this device's subscription right away
+    if (name === 'push') {
+      setPushWorking(true);
+      const pushError = await setPushEnabled(checked);
+      setPushWorking(false);
+      if (pushError) {
+        setNotificationPreference(name, !checked);
+        setError(pushError);
+      }
+    }
+  };
+
+  const setNotificationPreference = (name: string, checked: boolean) => {
     setProfile((prev) => ({
       ...prev,
       notification_preferences: {
@@ -247,6 +270,13 @@ export default function ProfileModal({ open, onClose }: ProfileModalProps) {
 
       if (updateError) throw updateError;
 
+      // Amounts across the app are shown in the preferred currency and units
+      setUser({
+        ...user,
+        preferred_units: profile.preferred_units,
+        preferred_currency: profile.preferred_currency,
+      });
+
       // Update original profile to reflect saved changes
       setOriginalProfile({
         ...profile,
@@ -570,6 +600,7 @@ export default function ProfileModal({ open, onClose }: ProfileModalProps) {
                                 type="checkbox"
                                 checked={profile.notification_preferences.push}
                                 onChange={handleNotificationChange}
+                                disabled={pushWorking}
                                 className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-600"
                               />
                             </div>
@@ -578,6 +609,25 @@ export default function ProfileModal({ open, onClose }: ProfileModalProps) {
                                 Push Notifications
                               </label>
                               <p className="text-gray-500">Receive push notifications on your devices</p>
+                              {profile.notification_preferences.push && !pushWorking && <PushDeviceToggle />}
+                            </div>
+                          </div>
+                          <div className="relative flex items-start">
+                            <div className="flex h-6 items-center">
+                              <input
+                                id="sms-notifications"
+                                name="sms"
+                                type="checkbox"
+                                checked={!!profile.notification_preferences.sms}
+                                onChange={handleNotificationChange}
+                                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-600"
+                              />
+                            </div>
+                            <div className="ml-3 text-sm leading-6">
+                              <label htmlFor="sms-notifications" className="font-medium text-gray-900">
+                                Text Messages
+                              </label>
+                              <p className="text-gray-500">Receive maintenance reminders by text at your phone number</p>
                             </div>
                           </div>
                           <div className="relative flex items-start">
@@ -634,9 +684,29 @@ export default function ProfileModal({ open, onClose }: ProfileModalProps) {
                               <p className="text-gray-500">Reminders for expiring insurance, registration, etc.</p>
                             </div>
                           </div>
+                          <div className="relative flex items-start">
+                            <div className="flex h-6 items-center">
+                              <input
+                                id="monthly-digest"
+                                name="monthly_digest"
+                                type="checkbox"
+                                checked={profile.notification_preferences.monthly_digest ?? false}
+                                onChange={handleNotificationChange}
+                                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-600"
+                              />
+                            </div>
+                            <div className="ml-3 text-sm leading-6">
+                              <label htmlFor="monthly-digest" className="font-medium text-gray-900">
+                                Monthly Digest
+                              </label>
+                              <p className="text-gray-500">A monthly email summary of your vehicles</p>
+                            </div>
+                          </div>
                         </div>
                       </div>
 
+                      <ExchangeRatesEditor />
+
                       {/* Footer */}
                       <div className="pt-6 border-t border-gray-200">
                         {/* Footer content removed - no buttons needed */}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { isSubscribedToPush, subscribeToPush, unsubscribeFromPush } from '../services/pushService';
+
+/**
+ * Turns push notifications on or off for this browser only. The account's push
+ * preference is saved with the profile; other devices keep their subscriptions.
+ */
+export default function PushDeviceToggle() {
+  const { user } = useApp();
+  const userId = user?.id;
+  const [isSubscribed, setIsSubscribed] = useState<boolean | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    isSubscribedToPush(userId).then(subscribed => {
+      if (!cancelled) setIsSubscribed(subscribed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleToggle = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (isSubscribed) {
+        if (await unsubscribeFromPush()) {
+          setIsSubscribed(false);
+        } else {
+          setError('Failed to turn off push notifications on this device');
+        }
+      } else {
+        const subscribeError = await subscribeToPush();
+        if (subscribeError) {
+          setError(subscribeError);
+        } else {
+          setIsSubscribed(true);
+        }
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isSubscribed === null) return null;
+
+  return (
+    <div className="mt-1">
+      <span className="text-gray-500">{isSubscribed ? 'On for this device.' : 'Off for this device.'}</span>{' '}
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isWorking}
+        className="font-medium text-primary-600 hover:text-primary-500 disabled:text-gray-300"
+      >
+        {isSubscribed ? 'Turn off here' : 'Turn on here'}
+      </button>
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+}
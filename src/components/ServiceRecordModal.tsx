@@ -4,9 +4,28 @@ import { XMarkIcon, TrashIcon, DocumentIcon } from '@heroicons/react/24/outline'
 import ManualServiceRecordForm from './ManualServiceRecordForm';
 import AIReceiptTab from './AIReceiptTab';
 import TabNavigation from './TabNavigation';
-import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, ServiceItem } from '../types';
+import DuplicateRecordDialog from './DuplicateRecordDialog';
+import type {
+  ServiceRecordInsert,
+  ServiceItemInsert,
+  ServiceRecord,
+  ServiceItem,
+  Document,
+  DocumentAnalysisResult,
+  CreateServiceRecordOptions,
+  DuplicateAction,
+  DuplicateMatch,
+  FuelEntry,
+} from '../types';
 import { getServiceRecordById, getServiceItemsByRecordId, deleteServiceRecord } from '../services/serviceRecordService';
 import useAIExtraction from '../hooks/useAIExtraction';
+import useCurrency from '../hooks/useCurrency';
+import useUnits from '../hooks/useUnits';
+import { getDocumentFile } from '../services/documentService';
+import { DuplicateServiceRecordError } from '../services/duplicateDetectionService';
+import { createVehicleFromExtraction } from '../services/vehicleService';
+import { matchExtractedVehicle } from '../utils/vehicleMatch';
+import { useApp } from '../context/AppContext';
 import { supabase } from '../services/supabase';
 
 type TabView = 'manual' | 'ai';
@@ -16,11 +35,18 @@ interface ServiceRecordModalProps {
   onClose: () => void;
   vehicleId: string;
   serviceRecordId?: string; // Optional - if provided, we're editing an existing record
-  onSaveManualRecords: (serviceRecord: ServiceRecordInsert, serviceItems: ServiceItemInsert[]) => Promise<ServiceRecord | null>;
+  // Throws DuplicateServiceRecordError (from createServiceRecord) until options.duplicateAction is set
+  onSaveManualRecords: (
+    serviceRecord: ServiceRecordInsert,
+    serviceItems: ServiceItemInsert[],
+    options?: CreateServiceRecordOptions
+  ) => Promise<ServiceRecord | null>;
   onDelete?: (serviceRecordId: string) => Promise<void>; // Optional - for deleting existing records
+  reviewDocument?: Document | null; // Optional - a document analyzed in the background, opened for review
+  onFuelEntrySaved?: (fuelEntry: FuelEntry) => void; // Optional - the uploaded document was a fuel receipt
 }
 
-export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRecordId, onSaveManualRecords, onDelete }: ServiceRecordModalProps) {
+export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRecordId, onSaveManualRecords, onDelete, reviewDocument = null, onFuelEntrySaved }: ServiceRecordModalProps) {
   const [noVehicleError, setNoVehicleError] = useState<boolean>(false);
   const [selectedTab, setSelectedTab] = useState<TabView>(serviceRecordId ? 'manual' : 'ai');
   const [isLoading, setIsLoading] = useState(false);
@@ -40,6 +66,13 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
     items: Omit<ServiceItemInsert, 'service_record_id'>[];
   } | null>(null);
   const [documentUrl, setDocumentUrl] = useState<string | null>(null);
+  // Set when a save matched an existing record; source is the tab that was saving
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{ matches: DuplicateMatch[]; source: 'ai' | 'manual' } | null>(null);
+  const [isResolvingDuplicate, setIsResolvingDuplicate] = useState(false);
+  const [isAssigningVehicle, setIsAssigningVehicle] = useState(false);
+  const { user, vehicles, refreshVehicles, refreshOdometerReadings } = useApp();
+  const { odometerUnit } = useUnits(vehicles.find(vehicle => vehicle.id === vehicleId));
+  const { currency } = useCurrency();
 
   // Use our custom hook for AI extraction functionality
   const {
@@ -48,11 +81,31 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
     error: aiError,
     extractedRecord: aiExtractedRecord,
     extractedItems: aiExtractedItems,
+    extractedFuelEntry: aiExtractedFuelEntry,
+    filedDocumentNotice: aiNotice,
+    extractionReview: aiExtractionReview,
+    mileageUnit: aiMileageUnit,
+    setMileageUnit: setAiMileageUnit,
+    sourceFile: aiSourceFile,
+    documentId: aiDocumentId,
+    extractedVehicleInfo: aiVehicleInfo,
+    targetVehicleId: aiTargetVehicleId,
     handleAnalysisComplete,
+    updateExtractedRecord,
+    updateExtractedItem,
+    updateExtractedFuelEntry,
+    splitExtractedItem,
+    mergeExtractedItems,
+    removeExtractedItem,
+    addExtractedItem,
+    assignToVehicle,
     saveExtractedRecord: handleSaveAiRecords,
+    saveExtractedFuelEntry,
     resetExtractedData
   } = useAIExtraction({
-    onSaveServiceRecord: onSaveManualRecords
+    onSaveServiceRecord: onSaveManualRecords,
+    defaultDistanceUnit: odometerUnit,
+    defaultCurrency: currency
   });
 
   // Fetch existing record data if serviceRecordId is provided
@@ -78,6 +131,33 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
     
     fetchExistingData();
   }, [serviceRecordId, open]);
+
+  // Load the stored analysis of a background-analyzed document into the review
+  useEffect(() => {
+    if (!open || !reviewDocument?.analysis_result) return;
+    let cancelled = false;
+
+    const loadReview = async () => {
+      try {
+        const file = await getDocumentFile(reviewDocument);
+        if (!cancelled) {
+          await handleAnalysisComplete(reviewDocument.analysis_result as unknown as DocumentAnalysisResult, reviewDocument.id, file);
+        }
+      } catch (error) {
+        console.error('Error loading document for review:', error);
+        // Review without the preview rather than not at all
+        if (!cancelled) {
+          await handleAnalysisComplete(reviewDocument.analysis_result as unknown as DocumentAnalysisResult, reviewDocument.id);
+        }
+      }
+    };
+
+    loadReview();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, reviewDocument]);
   
   // Reset state when modal opens/closes
   useEffect(() => {
@@ -269,7 +349,7 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
   };
 
   // Handle saving pending changes
-  const handleSavePendingChanges = async () => {
+  const handleSavePendingChanges = async (options?: CreateServiceRecordOptions) => {
     if (pendingFormData) {
       try {
         // Convert items back to ServiceItemInsert by adding empty service_record_id
@@ -277,12 +357,17 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
           ...item,
           service_record_id: '' // This will be set by the service when saving
         }));
-        await onSaveManualRecords(pendingFormData.record, itemsWithRecordId);
+        await onSaveManualRecords(pendingFormData.record, itemsWithRecordId, options);
         setHasUnsavedChanges(false);
         setPendingFormData(null);
         setShowUnsavedChangesDialog(false);
         onClose();
       } catch (error) {
+        if (error instanceof DuplicateServiceRecordError) {
+          setShowUnsavedChangesDialog(false);
+          setDuplicatePrompt({ matches: error.matches, source: 'manual' });
+          return;
+        }
         console.error('Error saving changes:', error);
         setSaveError('Failed to save changes');
         setShowUnsavedChangesDialog(false);
@@ -290,6 +375,76 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
     }
   };
 
+  // Which of the user's vehicles the analyzed document names
+  const vehicleMatch = aiVehicleInfo ? matchExtractedVehicle(aiVehicleInfo, vehicles, aiTargetVehicleId || vehicleId) : null;
+
+  const handleAssignVehicle = async (targetId: string) => {
+    setIsAssigningVehicle(true);
+    try {
+      await assignToVehicle(targetId);
+    } finally {
+      setIsAssigningVehicle(false);
+    }
+  };
+
+  // Add the vehicle the document is for, prefilled from the document and its VIN
+  const handleCreateVehicle = async () => {
+    if (!user || !aiVehicleInfo) return;
+    setIsAssigningVehicle(true);
+    try {
+      const vehicle = await createVehicleFromExtraction(user.id, aiVehicleInfo);
+      if (!vehicle) {
+        setSaveError('Could not add the vehicle from this document. Please add it from the Vehicles page.');
+        return;
+      }
+      await refreshVehicles();
+      await assignToVehicle(vehicle.id);
+    } finally {
+      setIsAssigningVehicle(false);
+    }
+  };
+
+  // Save the reviewed AI extraction; a likely duplicate opens the duplicate dialog
+  const handleSaveAi = async (options?: CreateServiceRecordOptions) => {
+    try {
+      return await handleSaveAiRecords(vehicleId, options);
+    } catch (error) {
+      if (error instanceof DuplicateServiceRecordError) {
+        setDuplicatePrompt({ matches: error.matches, source: 'ai' });
+      }
+      return null;
+    }
+  };
+
+  // Save a fuel receipt as a fill-up; its odometer reading can move the vehicle's mileage
+  const handleSaveAiFuelEntry = async () => {
+    const fuelEntry = await saveExtractedFuelEntry(vehicleId);
+    if (fuelEntry) {
+      await Promise.all([refreshOdometerReadings(), refreshVehicles()]);
+      onFuelEntrySaved?.(fuelEntry);
+      onClose();
+    }
+    return fuelEntry;
+  };
+
+  // Save again with the user's choice for the duplicate
+  const handleResolveDuplicate = async (action: DuplicateAction, match?: DuplicateMatch) => {
+    if (!duplicatePrompt) return;
+    const options: CreateServiceRecordOptions = { duplicateAction: action, duplicateOfId: match?.record.id };
+
+    setIsResolvingDuplicate(true);
+    try {
+      if (duplicatePrompt.source === 'ai') {
+        await handleSaveAi(options);
+      } else {
+        await handleSavePendingChanges(options);
+      }
+    } finally {
+      setIsResolvingDuplicate(false);
+      setDuplicatePrompt(null);
+    }
+  };
+
   // Handle discarding changes
   const handleDiscardChanges = () => {
     setHasUnsavedChanges(false);
@@ -375,7 +530,10 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
                 leaveFrom="opacity-100 translate-y-0 sm:scale-100"
                 leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
               >
-                <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pt-5 pb-4 text-left shadow-xl transition-all w-full max-w-3xl">
+                <Dialog.Panel className={`relative transform overflow-hidden rounded-lg bg-white px-4 pt-5 pb-4 text-left shadow-xl transition-all w-full ${
+                  // The review step shows the document next to the form
+                  selectedTab === 'ai' && aiExtractedRecord && aiSourceFile ? 'max-w-6xl' : 'max-w-3xl'
+                }`}>
                   <div className="flex justify-between items-center mb-4">
                     <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
                       {serviceRecordId ? 'Edit Service Record' : 'Add Service Record'}
@@ -437,8 +595,28 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
                         error={aiError || (noVehicleError ? 'Please select a vehicle first' : null)}
                         extractedRecord={aiExtractedRecord}
                         extractedItems={aiExtractedItems}
+                        extractedFuelEntry={aiExtractedFuelEntry}
+                        notice={aiNotice}
+                        review={aiExtractionReview}
+                        mileageUnit={aiMileageUnit}
+                        onMileageUnitChange={setAiMileageUnit}
+                        sourceFile={aiSourceFile}
+                        vehicleId={vehicleId}
+                        vehicleMatch={vehicleMatch}
+                        vehicleInfo={aiVehicleInfo}
+                        isAssigningVehicle={isAssigningVehicle}
+                        onAssignVehicle={handleAssignVehicle}
+                        onCreateVehicle={handleCreateVehicle}
                         onAnalysisComplete={handleAnalysisComplete}
-                        onSave={() => handleSaveAiRecords(vehicleId)}
+                        onRecordChange={updateExtractedRecord}
+                        onItemChange={updateExtractedItem}
+                        onSplitItem={splitExtractedItem}
+                        onMergeItems={mergeExtractedItems}
+                        onRemoveItem={removeExtractedItem}
+                        onAddItem={addExtractedItem}
+                        onFuelEntryChange={updateExtractedFuelEntry}
+                        onSave={() => handleSaveAi()}
+                        onSaveFuelEntry={handleSaveAiFuelEntry}
                         onReset={resetExtractedData}
                         disabled={noVehicleError}
                       />
@@ -607,7 +785,7 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
                     <button
                       type="button"
                       className="inline-flex w-full justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm"
-                      onClick={handleSavePendingChanges}
+                      onClick={() => handleSavePendingChanges()}
                     >
                       Save Changes
                     </button>
@@ -625,6 +803,16 @@ export default function ServiceRecordModal({ open, onClose, vehicleId, serviceRe
           </div>
         </Dialog>
       </Transition.Root>
+
+      {/* Duplicate Record Dialog */}
+      <DuplicateRecordDialog
+        open={!!duplicatePrompt}
+        matches={duplicatePrompt?.matches || []}
+        canLink={duplicatePrompt?.source === 'ai' && !!aiDocumentId}
+        isSaving={isResolvingDuplicate}
+        onResolve={handleResolveDuplicate}
+        onCancel={() => setDuplicatePrompt(null)}
+      />
     </>
   );
 }
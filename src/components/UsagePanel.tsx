@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { getUsageSummary } from '../services/usageService';
+import { formatMoney } from '../utils/currency';
+import type { UsageEvent, UsageSummary } from '../types';
+
+const FEATURE_LABELS: Record<UsageEvent['feature'], string> = {
+  document_analysis: 'Document analysis',
+  image_generation: 'Image generation',
+};
+
+// Most recent calls listed under the totals
+const RECENT_EVENTS = 10;
+
+// Model usage is billed in US dollars, whatever the user's preferred currency
+const formatCost = (cost: number) => formatMoney(cost, 'USD', { maximumFractionDigits: cost < 1 ? 4 : 2 });
+
+const formatPeriod = (period: string) =>
+  new Date(`${period}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const UsageBar = ({ label, used, limit, format }: { label: string; used: number; limit: number; format: (value: number) => string }) => {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-700">{label}</span>
+        <span className="text-gray-500">{format(used)} of {format(limit)}</span>
+      </div>
+      <div className="mt-1 h-2 rounded-full bg-gray-200">
+        <div
+          className={`h-2 rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-primary-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * This month's AI usage for the signed-in user: requests, tokens and estimated
+ * cost against their quota, with the most recent calls
+ */
+export default function UsagePanel() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getUsageSummary().then(summary => {
+      setUsage(summary);
+      setLoading(false);
+    });
+  }, []);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading usage...</p>;
+  }
+
+  if (!usage) {
+    return <p className="text-sm text-gray-500">Usage is not available right now.</p>;
+  }
+
+  const { quota } = usage;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{formatPeriod(usage.period)}</p>
+
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        <div>
+          <dt className="text-xs text-gray-500">Requests</dt>
+          <dd className="text-lg font-semibold text-gray-900">{usage.requests}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Tokens</dt>
+          <dd className="text-lg font-semibold text-gray-900">{(usage.promptTokens + usage.completionTokens).toLocaleString()}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Images</dt>
+          <dd className="text-lg font-semibold text-gray-900">{usage.imageCount}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Estimated cost</dt>
+          <dd className="text-lg font-semibold text-gray-900">{formatCost(usage.costUsd)}</dd>
+        </div>
+      </dl>
+
+      {quota.requestLimit !== null && (
+        <UsageBar label="Requests this month" used={usage.requests} limit={quota.requestLimit} format={value => String(value)} />
+      )}
+      {quota.costLimitUsd !== null && (
+        <UsageBar label="Spend this month" used={usage.costUsd} limit={quota.costLimitUsd} format={value => formatMoney(value, 'USD')} />
+      )}
+      {quota.requestLimit === null && quota.costLimitUsd === null && (
+        <p className="text-sm text-gray-500">Your account has no monthly limit.</p>
+      )}
+
+      {Object.keys(usage.byFeature).length > 0 && (
+        <ul className="text-sm text-gray-700">
+          {(Object.keys(usage.byFeature) as UsageEvent['feature'][]).map(feature => (
+            <li key={feature} className="flex justify-between">
+              <span>{FEATURE_LABELS[feature] || feature}</span>
+              <span className="text-gray-500">
+                {usage.byFeature[feature]?.requests} requests · {formatCost(usage.byFeature[feature]?.costUsd || 0)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {usage.events.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Feature</th>
+                <th className="py-2 pr-4 font-medium">Model</th>
+                <th className="py-2 pr-4 font-medium text-right">Tokens</th>
+                <th className="py-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {usage.events.slice(0, RECENT_EVENTS).map((event, index) => (
+                <tr key={`${event.created_at}-${index}`}>
+                  <td className="py-2 pr-4 text-gray-700">{new Date(event.created_at).toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-gray-700">{FEATURE_LABELS[event.feature] || event.feature}</td>
+                  <td className="py-2 pr-4 text-gray-500">{event.model}</td>
+                  <td className="py-2 pr-4 text-right text-gray-500">
+                    {event.feature === 'image_generation'
+                      ? `${event.image_count} image${event.image_count === 1 ? '' : 's'}`
+                      : (event.prompt_tokens + event.completion_tokens).toLocaleString()}
+                  </td>
+                  <td className="py-2 text-right text-gray-700">{formatCost(Number(event.cost_usd))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useLocation } from 'react-router-dom';
 import ImageUploadModal from './ImageUploadModal';
 import { useApp } from '../context/AppContext';
+import useUnits from '../hooks/useUnits';
 import { updateVehicleImage } from '../services/vehicleService';
 import type { Vehicle } from '../types';
 
@@ -114,6 +115,7 @@ function VehicleImage({ imageUrl, make, model, onImageClick }: {
 
 export default function VehicleCard({ vehicle, onDetails, onOpenServiceRecordModal }: VehicleCardProps) {
   const { setSelectedVehicle, refreshVehicles, selectedVehicle } = useApp();
+  const { formatOdometer } = useUnits(vehicle);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [updatedImageUrl, setUpdatedImageUrl] = useState<string | null>(null);
   const location = useLocation();
@@ -196,6 +198,9 @@ export default function VehicleCard({ vehicle, onDetails, onOpenServiceRecordMod
         {vehicle.vin && (
           <div className="text-xs text-gray-400 mb-2 break-all">VIN: {vehicle.vin}</div>
         )}
+        {vehicle.mileage !== null && (
+          <div className="text-xs text-gray-500 mb-2">{formatOdometer(vehicle.mileage)}</div>
+        )}
         <div className="flex gap-2">
           <button 
             onClick={() => { setSelectedVehicle(vehicle); onDetails(vehicle); }}
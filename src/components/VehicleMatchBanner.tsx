@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { ExclamationTriangleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { formatVehicleName } from '../utils/vehicleMatch';
+import type { ExtractedVehicleInfo, VehicleMatch } from '../utils/vehicleMatch';
+
+const MATCHED_ON_LABELS = {
+  vin: 'VIN',
+  license_plate: 'license plate',
+  details: 'year, make and model',
+};
+
+interface VehicleMatchBannerProps {
+  match: VehicleMatch;
+  vehicleInfo: ExtractedVehicleInfo;
+  busy?: boolean;
+  onAssignVehicle: (vehicleId: string) => void;
+  onCreateVehicle: () => void;
+}
+
+const describeExtracted = (vehicleInfo: ExtractedVehicleInfo) => {
+  const name = [vehicleInfo.year, vehicleInfo.make, vehicleInfo.model].filter(Boolean).join(' ');
+  const identifier = vehicleInfo.vin ? `VIN ${vehicleInfo.vin}` : vehicleInfo.licensePlate ? `plate ${vehicleInfo.licensePlate}` : '';
+  return [name, identifier].filter(Boolean).join(', ') || 'another vehicle';
+};
+
+/**
+ * Says which vehicle an analyzed document is for when it isn't the one it was
+ * uploaded under, and offers to file it there or to add the vehicle
+ */
+export default function VehicleMatchBanner({ match, vehicleInfo, busy = false, onAssignVehicle, onCreateVehicle }: VehicleMatchBannerProps) {
+  const [dismissed, setDismissed] = useState(false);
+
+  if (match.status === 'unknown' || dismissed) return null;
+
+  if (match.status === 'match') {
+    return (
+      <div className="mb-4 flex items-center text-sm text-green-700">
+        <CheckCircleIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+        Saving to your {match.vehicle ? formatVehicleName(match.vehicle) : 'vehicle'}, matched by {match.matchedOn ? MATCHED_ON_LABELS[match.matchedOn] : 'its details'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md">
+      <div className="flex">
+        <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 flex-shrink-0" aria-hidden="true" />
+        <div className="ml-2 text-sm text-amber-800">
+          {match.status === 'other_vehicle' && match.vehicle ? (
+            <p>
+              This receipt is for a different car: your {formatVehicleName(match.vehicle)}
+              {match.matchedOn ? ` (matched by ${MATCHED_ON_LABELS[match.matchedOn]})` : ''}.
+            </p>
+          ) : (
+            <p>This receipt is for a vehicle that isn't in your garage: {describeExtracted(vehicleInfo)}.</p>
+          )}
+          <div className="mt-2 flex flex-wrap gap-2">
+            {match.status === 'other_vehicle' && match.vehicle ? (
+              <button
+                type="button"
+                className="btn-primary text-xs py-1 px-2"
+                onClick={() => match.vehicle && onAssignVehicle(match.vehicle.id)}
+                disabled={busy}
+              >
+                Save to {formatVehicleName(match.vehicle)}
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="btn-primary text-xs py-1 px-2"
+                onClick={onCreateVehicle}
+                disabled={busy}
+              >
+                {busy ? 'Adding...' : 'Add This Vehicle'}
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn-secondary text-xs py-1 px-2"
+              onClick={() => setDismissed(true)}
+              disabled={busy}
+            >
+              Keep on This Vehicle
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
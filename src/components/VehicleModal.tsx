@@ -3,11 +3,13 @@ import { Fragment, useState } from 'react';
 import { decodeVin } from '../utils/vinDecode';
 import type { DecodedVin } from '../utils/vinDecode';
 import BarcodeScanner from 'react-qr-barcode-scanner';
+import MaintenanceTemplateSelect from './MaintenanceTemplateSelect';
+import type { TemplateSelection } from '../utils/maintenanceTemplates';
 
 interface VehicleModalProps {
   open: boolean;
   onClose: () => void;
-  onAddVehicle: (vehicle: DecodedVin & { vin: string }) => void;
+  onAddVehicle: (vehicle: DecodedVin & { vin: string }, schedule: TemplateSelection | null) => void;
 }
 
 export default function VehicleModal({ open, onClose, onAddVehicle }: VehicleModalProps) {
@@ -16,6 +18,7 @@ export default function VehicleModal({ open, onClose, onAddVehicle }: VehicleMod
   const [vinError, setVinError] = useState('');
   const [decoded, setDecoded] = useState<DecodedVin | null>(null);
   const [scanning, setScanning] = useState(false);
+  const [schedule, setSchedule] = useState<TemplateSelection | null>(null);
 
   const handleVinLookup = async (vinOverride?: string) => {
     const vinToLookup = vinOverride || vin;
@@ -56,7 +59,7 @@ export default function VehicleModal({ open, onClose, onAddVehicle }: VehicleMod
     if (decoded) {
       // Pass decoded vehicle with VIN to parent
       (typeof window !== 'undefined' && window as any).gtag?.('event', 'add_vehicle'); // Example analytics
-      onAddVehicle({ ...decoded, vin }); // body_class is now included if present in decoded
+      onAddVehicle({ ...decoded, vin }, schedule); // body_class is now included if present in decoded
     }
     onClose();
   };
@@ -128,6 +131,19 @@ export default function VehicleModal({ open, onClose, onAddVehicle }: VehicleMod
                           {decoded.body_class || ''}
                         </div>
                         <div className="text-xs text-gray-400 break-all">VIN: {vin}</div>
+                        <div className="mt-3">
+                          <MaintenanceTemplateSelect
+                            vehicle={{
+                              make: decoded.make,
+                              model: decoded.model,
+                              year: Number(decoded.year),
+                              body_class: decoded.body_class,
+                            }}
+                            value={schedule}
+                            onChange={setSchedule}
+                            allowNone
+                          />
+                        </div>
                         <button
                           className="w-full mt-3 py-2 rounded bg-blue-600 text-white font-bold"
                           onClick={handleSave}
@@ -1,8 +1,12 @@
 import { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
-import type { AppContextType, Vehicle, Profile, MaintenanceRecord, Document, RecallNotice, ServiceRecord, ServiceItem } from '../types';
+import type { AppContextType, Vehicle, Profile, MaintenanceRecord, Document, RecallNotice, ServiceRecord, ServiceItem, PmItem, OdometerReading, ExchangeRate } from '../types';
 import { supabase } from '../services/supabase';
 import { getServiceRecords, getServiceItems } from '../services/serviceRecordService';
+import { getPmItems } from '../services/maintenanceScheduleService';
+import { getOdometerReadings } from '../services/odometerService';
+import { getExchangeRates } from '../services/exchangeRateService';
+import { unsubscribeFromPush } from '../services/pushService';
 
 export const AppContext = createContext<AppContextType | undefined>(undefined);
 
@@ -17,8 +21,11 @@ export const AppProvider = ({ children }: AppProviderProps) => {
   const [maintenanceRecords, setMaintenanceRecords] = useState<MaintenanceRecord[]>([]);
   const [serviceRecords, setServiceRecords] = useState<ServiceRecord[]>([]);
   const [serviceItems, setServiceItems] = useState<ServiceItem[]>([]);
+  const [pmItems, setPmItems] = useState<PmItem[]>([]);
+  const [odometerReadings, setOdometerReadings] = useState<OdometerReading[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [recallNotices, setRecallNotices] = useState<RecallNotice[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
 
   useEffect(() => {
@@ -288,6 +295,9 @@ export const AppProvider = ({ children }: AppProviderProps) => {
       console.log(`Retrieved ${records.length} service records:`, records);
       setServiceRecords(records);
       
+      // Saving a service record also records its odometer reading
+      refreshOdometerReadings();
+      
       // Get all service items for these records
       if (records.length > 0) {
         let allItems: ServiceItem[] = [];
@@ -309,6 +319,20 @@ export const AppProvider = ({ children }: AppProviderProps) => {
     }
   };
 
+  const refreshPmItems = async () => {
+    if (!selectedVehicle) return;
+    
+    const items = await getPmItems(selectedVehicle.id);
+    setPmItems(items);
+  };
+
+  const refreshOdometerReadings = async () => {
+    if (!selectedVehicle) return;
+    
+    const readings = await getOdometerReadings(selectedVehicle.id);
+    setOdometerReadings(readings);
+  };
+
   const refreshDocuments = async () => {
     if (!selectedVehicle) return;
     
@@ -362,6 +386,22 @@ export const AppProvider = ({ children }: AppProviderProps) => {
     }
   };
 
+  const refreshExchangeRates = async () => {
+    if (!user) return;
+    
+    setExchangeRates(await getExchangeRates());
+  };
+
+  // The next account to use this browser must not get this user's pushes, so the
+  // subscription is removed while the session can still delete its row
+  const signOut = async () => {
+    if (user) {
+      await unsubscribeFromPush();
+    }
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
   const value: AppContextType = {
     user,
     setUser,
@@ -371,22 +411,40 @@ export const AppProvider = ({ children }: AppProviderProps) => {
     maintenanceRecords,
     serviceRecords,
     serviceItems,
+    pmItems,
+    odometerReadings,
     documents,
     recallNotices,
+    exchangeRates,
     refreshVehicles,
     refreshMaintenanceRecords,
     refreshServiceRecords,
+    refreshPmItems,
+    refreshOdometerReadings,
     refreshDocuments,
     refreshRecallNotices,
+    refreshExchangeRates,
+    signOut,
     isLoading,
   };
   
+  // Exchange rates belong to the user, not to a vehicle
+  useEffect(() => {
+    if (user) {
+      refreshExchangeRates();
+    } else {
+      setExchangeRates([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
   // Update data when selected vehicle changes
   useEffect(() => {
     if (selectedVehicle) {
       console.log(`Vehicle selected in context, ID: ${selectedVehicle.id}, refreshing data`);
       refreshMaintenanceRecords();
       refreshServiceRecords();
+      refreshPmItems();
       refreshDocuments();
       refreshRecallNotices();
     } else {
@@ -394,6 +452,8 @@ export const AppProvider = ({ children }: AppProviderProps) => {
       setMaintenanceRecords([]);
       setServiceRecords([]);
       setServiceItems([]);
+      setPmItems([]);
+      setOdometerReadings([]);
       setDocuments([]);
       setRecallNotices([]);
     }
@@ -0,0 +1,17 @@
+import type { DocumentType } from '../types';
+
+/**
+ * Labels for documents.document_type, as picked by the classifier step of document analysis.
+ * server/documentClassification.js has the list the server classifies into.
+ */
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  service_invoice: 'Service Invoice',
+  fuel: 'Fuel Receipt',
+  parking_toll: 'Parking / Toll',
+  insurance: 'Insurance',
+  registration: 'Registration',
+  other: 'Other',
+};
+
+// Types that have no extraction schema; analysis only files them with the vehicle
+export const FILED_ONLY_DOCUMENT_TYPES: DocumentType[] = ['parking_toll', 'insurance', 'registration'];
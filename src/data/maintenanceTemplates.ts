@@ -0,0 +1,278 @@
+import type { StandardServiceType } from './serviceTypes';
+
+/**
+ * Manufacturer-default maintenance schedule templates.
+ * Intervals follow the "normal" (not severe) schedule published in owner's manuals,
+ * rounded to the values owners actually see on the service reminder.
+ */
+
+export type EngineType = 'gasoline' | 'diesel' | 'hybrid' | 'electric';
+
+export interface MaintenanceTemplateItem {
+  service_type: StandardServiceType;
+  description: string;
+  interval_miles: number | null;
+  interval_months: number | null;
+}
+
+export interface MaintenanceTemplateMatch {
+  makes?: string[];
+  models?: string[];
+  yearFrom?: number;
+  yearTo?: number;
+  bodyClasses?: string[];
+}
+
+export interface MaintenanceTemplate {
+  id: string;
+  name: string;
+  // An empty match is a generic fallback that applies to any vehicle
+  match: MaintenanceTemplateMatch;
+  variants: Partial<Record<EngineType, MaintenanceTemplateItem[]>>;
+}
+
+const GENERIC_GASOLINE: MaintenanceTemplateItem[] = [
+  { service_type: 'Oil Change', description: 'Engine oil and oil filter', interval_miles: 5000, interval_months: 6 },
+  { service_type: 'Tire Service', description: 'Tire rotation and pressure check', interval_miles: 7500, interval_months: 6 },
+  { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Brake Service', description: 'Brake pad and rotor inspection', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Inspection', description: 'Multi-point inspection', interval_miles: null, interval_months: 12 },
+  { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 36 },
+  { service_type: 'Transmission Service', description: 'Transmission fluid replacement', interval_miles: 60000, interval_months: null },
+  { service_type: 'Cooling System', description: 'Engine coolant replacement', interval_miles: 100000, interval_months: 60 },
+  { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 100000, interval_months: null },
+  { service_type: 'Battery Service', description: '12V battery test', interval_miles: null, interval_months: 24 },
+];
+
+const GENERIC_DIESEL: MaintenanceTemplateItem[] = [
+  { service_type: 'Oil Change', description: 'Diesel engine oil and oil filter', interval_miles: 7500, interval_months: 6 },
+  { service_type: 'Fuel System', description: 'Fuel filter / water separator replacement', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Tire Service', description: 'Tire rotation and pressure check', interval_miles: 7500, interval_months: 6 },
+  { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 30000, interval_months: 24 },
+  { service_type: 'Emission Service', description: 'DEF system and DPF inspection', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Brake Service', description: 'Brake pad and rotor inspection', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Inspection', description: 'Multi-point inspection', interval_miles: null, interval_months: 12 },
+  { service_type: 'Transmission Service', description: 'Transmission fluid replacement', interval_miles: 60000, interval_months: null },
+  { service_type: 'Cooling System', description: 'Engine coolant replacement', interval_miles: 100000, interval_months: 60 },
+];
+
+const GENERIC_HYBRID: MaintenanceTemplateItem[] = [
+  { service_type: 'Oil Change', description: 'Synthetic engine oil and oil filter', interval_miles: 10000, interval_months: 12 },
+  { service_type: 'Tire Service', description: 'Tire rotation and pressure check', interval_miles: 5000, interval_months: 6 },
+  { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Brake Service', description: 'Brake inspection (regenerative braking reduces pad wear)', interval_miles: 15000, interval_months: 12 },
+  { service_type: 'Inspection', description: 'Hybrid system and multi-point inspection', interval_miles: null, interval_months: 12 },
+  { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 36 },
+  { service_type: 'Cooling System', description: 'Engine and inverter coolant replacement', interval_miles: 100000, interval_months: 120 },
+  { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 120000, interval_months: null },
+  { service_type: 'Battery Service', description: '12V auxiliary battery test', interval_miles: null, interval_months: 24 },
+];
+
+const GENERIC_ELECTRIC: MaintenanceTemplateItem[] = [
+  { service_type: 'Tire Service', description: 'Tire rotation and pressure check', interval_miles: 7500, interval_months: 12 },
+  { service_type: 'Filter Replacement', description: 'Cabin air filter', interval_miles: null, interval_months: 24 },
+  { service_type: 'Brake Service', description: 'Clean and lubricate brake calipers', interval_miles: 12500, interval_months: 12 },
+  { service_type: 'Fluid Service', description: 'Brake fluid test and replacement', interval_miles: null, interval_months: 48 },
+  { service_type: 'Air Conditioning', description: 'A/C desiccant bag replacement', interval_miles: null, interval_months: 72 },
+  { service_type: 'Inspection', description: 'High-voltage battery and multi-point inspection', interval_miles: null, interval_months: 12 },
+  { service_type: 'Battery Service', description: '12V low-voltage battery test', interval_miles: null, interval_months: 24 },
+];
+
+export const MAINTENANCE_TEMPLATES: MaintenanceTemplate[] = [
+  {
+    id: 'toyota',
+    name: 'Toyota Maintenance Schedule',
+    match: { makes: ['Toyota', 'Lexus'], yearFrom: 2011 },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: '0W-20 synthetic oil and oil filter', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 5000, interval_months: 6 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Inspection', description: 'Brakes, steering, suspension and driveshaft inspection', interval_miles: 15000, interval_months: 12 },
+        { service_type: 'Cooling System', description: 'Super Long Life coolant replacement', interval_miles: 100000, interval_months: 120 },
+        { service_type: 'Tune-Up', description: 'Iridium spark plug replacement', interval_miles: 120000, interval_months: null },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: 30000, interval_months: 36 },
+      ],
+      hybrid: [
+        { service_type: 'Oil Change', description: '0W-16 synthetic oil and oil filter', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 5000, interval_months: 6 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter, cabin air filter and hybrid battery intake filter', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Inspection', description: 'Hybrid system, brakes and suspension inspection', interval_miles: 15000, interval_months: 12 },
+        { service_type: 'Cooling System', description: 'Engine and inverter coolant replacement', interval_miles: 100000, interval_months: 120 },
+        { service_type: 'Tune-Up', description: 'Iridium spark plug replacement', interval_miles: 120000, interval_months: null },
+      ],
+    },
+  },
+  {
+    id: 'honda',
+    name: 'Honda Maintenance Minder',
+    match: { makes: ['Honda', 'Acura'], yearFrom: 2008 },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: 'Engine oil and filter (Maintenance Minder A/B)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation (Maintenance Minder 1)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and dust/pollen filter (Maintenance Minder 2)', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Transmission Service', description: 'Transmission / CVT fluid (Maintenance Minder 3)', interval_miles: 30000, interval_months: null },
+        { service_type: 'Tune-Up', description: 'Spark plugs and valve clearance (Maintenance Minder 4)', interval_miles: 105000, interval_months: null },
+        { service_type: 'Cooling System', description: 'Engine coolant replacement (Maintenance Minder 5)', interval_miles: 120000, interval_months: 120 },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 36 },
+      ],
+      hybrid: [
+        { service_type: 'Oil Change', description: 'Engine oil and filter (Maintenance Minder A/B)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation (Maintenance Minder 1)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and dust/pollen filter (Maintenance Minder 2)', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Cooling System', description: 'Engine and power-control-unit coolant replacement', interval_miles: 120000, interval_months: 120 },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 36 },
+      ],
+    },
+  },
+  {
+    id: 'ford-f-series',
+    name: 'Ford F-Series Truck Schedule',
+    match: { makes: ['Ford'], models: ['F-150', 'F-250', 'F-350', 'F-450', 'Super Duty'], yearFrom: 2015, bodyClasses: ['Pickup'] },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: 'Engine oil and filter (Intelligent Oil-Life Monitor)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 20000, interval_months: 24 },
+        { service_type: 'Inspection', description: 'Multi-point inspection', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Transmission Service', description: '10R80 automatic transmission fluid', interval_miles: 150000, interval_months: null },
+        { service_type: 'Cooling System', description: 'Motorcraft Orange coolant replacement', interval_miles: 100000, interval_months: 72 },
+        { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 100000, interval_months: null },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 36 },
+      ],
+      diesel: [
+        { service_type: 'Oil Change', description: 'Power Stroke diesel oil and filter', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Fuel System', description: 'Primary and secondary fuel filters', interval_miles: 15000, interval_months: 12 },
+        { service_type: 'Emission Service', description: 'DEF fluid top-off and DPF inspection', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Transmission Service', description: 'Automatic transmission fluid', interval_miles: 150000, interval_months: null },
+        { service_type: 'Cooling System', description: 'Engine coolant replacement', interval_miles: 100000, interval_months: 72 },
+      ],
+      hybrid: [
+        { service_type: 'Oil Change', description: 'Engine oil and filter (PowerBoost)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 20000, interval_months: 24 },
+        { service_type: 'Cooling System', description: 'Engine and hybrid system coolant replacement', interval_miles: 100000, interval_months: 72 },
+        { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 100000, interval_months: null },
+      ],
+    },
+  },
+  {
+    id: 'gm-full-size-truck',
+    name: 'Chevrolet / GMC Full-Size Truck Schedule',
+    match: { makes: ['Chevrolet', 'GMC'], models: ['Silverado', 'Sierra', 'Tahoe', 'Suburban', 'Yukon'], yearFrom: 2014 },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: 'dexos1 engine oil and filter (Oil Life Monitor)', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and passenger compartment air filter', interval_miles: 22500, interval_months: 24 },
+        { service_type: 'Transmission Service', description: 'Automatic transmission fluid', interval_miles: 97500, interval_months: null },
+        { service_type: 'Cooling System', description: 'DEX-COOL coolant replacement', interval_miles: 150000, interval_months: 60 },
+        { service_type: 'Tune-Up', description: 'Spark plugs and wires', interval_miles: 97500, interval_months: null },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 60 },
+      ],
+      diesel: [
+        { service_type: 'Oil Change', description: 'Duramax dexosD oil and filter', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Fuel System', description: 'Duramax fuel filter replacement', interval_miles: 22500, interval_months: 24 },
+        { service_type: 'Emission Service', description: 'Diesel Exhaust Fluid top-off and DPF inspection', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 7500, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and passenger compartment air filter', interval_miles: 45000, interval_months: 24 },
+        { service_type: 'Cooling System', description: 'DEX-COOL coolant replacement', interval_miles: 150000, interval_months: 60 },
+      ],
+    },
+  },
+  {
+    id: 'subaru',
+    name: 'Subaru Maintenance Schedule',
+    match: { makes: ['Subaru'], yearFrom: 2012 },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: '0W-20 synthetic oil and oil filter', interval_miles: 6000, interval_months: 6 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 6000, interval_months: 6 },
+        { service_type: 'Filter Replacement', description: 'Engine air filter and cabin air filter', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Transmission Service', description: 'CVT fluid inspection', interval_miles: 30000, interval_months: 36 },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: 30000, interval_months: 30 },
+        { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 60000, interval_months: 72 },
+        { service_type: 'Cooling System', description: 'Super Coolant replacement', interval_miles: 137500, interval_months: 132 },
+      ],
+    },
+  },
+  {
+    id: 'bmw',
+    name: 'BMW Condition Based Service',
+    match: { makes: ['BMW', 'MINI'], yearFrom: 2008 },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: 'BMW Longlife oil and filter', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 24 },
+        { service_type: 'Filter Replacement', description: 'Microfilter (cabin air filter) and engine air filter', interval_miles: 30000, interval_months: 24 },
+        { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 60000, interval_months: 72 },
+        { service_type: 'Inspection', description: 'Vehicle check', interval_miles: null, interval_months: 24 },
+        { service_type: 'Tire Service', description: 'Tire inspection (run-flat tires are not rotated)', interval_miles: 10000, interval_months: 12 },
+      ],
+      diesel: [
+        { service_type: 'Oil Change', description: 'BMW Longlife-04 oil and filter', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Fuel System', description: 'Fuel filter replacement', interval_miles: 60000, interval_months: 72 },
+        { service_type: 'Emission Service', description: 'BlueTEC / DEF system service', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 24 },
+        { service_type: 'Filter Replacement', description: 'Microfilter (cabin air filter) and engine air filter', interval_miles: 30000, interval_months: 24 },
+      ],
+      electric: [
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 24 },
+        { service_type: 'Filter Replacement', description: 'Microfilter (cabin air filter)', interval_miles: null, interval_months: 24 },
+        { service_type: 'Inspection', description: 'Vehicle check and high-voltage system inspection', interval_miles: null, interval_months: 24 },
+        { service_type: 'Tire Service', description: 'Tire inspection', interval_miles: 10000, interval_months: 12 },
+      ],
+    },
+  },
+  {
+    id: 'volkswagen',
+    name: 'Volkswagen Maintenance Schedule',
+    match: { makes: ['Volkswagen', 'Audi'], yearFrom: 2010 },
+    variants: {
+      gasoline: [
+        { service_type: 'Oil Change', description: 'VW 502 00 synthetic oil and filter', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Tire Service', description: 'Tire rotation', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Dust and pollen filter, engine air filter', interval_miles: 20000, interval_months: 24 },
+        { service_type: 'Transmission Service', description: 'DSG transmission fluid and filter', interval_miles: 40000, interval_months: null },
+        { service_type: 'Tune-Up', description: 'Spark plug replacement', interval_miles: 40000, interval_months: 48 },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 24 },
+      ],
+      diesel: [
+        { service_type: 'Oil Change', description: 'VW 507 00 oil and filter (TDI)', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Fuel System', description: 'TDI fuel filter replacement', interval_miles: 20000, interval_months: 24 },
+        { service_type: 'Emission Service', description: 'AdBlue (DEF) top-off', interval_miles: 10000, interval_months: 12 },
+        { service_type: 'Transmission Service', description: 'DSG transmission fluid and filter', interval_miles: 40000, interval_months: null },
+        { service_type: 'Fluid Service', description: 'Brake fluid replacement', interval_miles: null, interval_months: 24 },
+      ],
+      electric: GENERIC_ELECTRIC,
+    },
+  },
+  {
+    id: 'tesla',
+    name: 'Tesla Service Recommendations',
+    match: { makes: ['Tesla'] },
+    variants: {
+      electric: [
+        { service_type: 'Tire Service', description: 'Tire rotation, balance and wheel alignment check', interval_miles: 6250, interval_months: 12 },
+        { service_type: 'Filter Replacement', description: 'Cabin air filter (HEPA filter every 3 years)', interval_miles: null, interval_months: 24 },
+        { service_type: 'Brake Service', description: 'Clean and lubricate brake calipers (cold-weather regions)', interval_miles: 12500, interval_months: 12 },
+        { service_type: 'Fluid Service', description: 'Brake fluid test', interval_miles: null, interval_months: 48 },
+        { service_type: 'Air Conditioning', description: 'A/C desiccant bag replacement', interval_miles: null, interval_months: 72 },
+      ],
+    },
+  },
+  {
+    id: 'generic',
+    name: 'General Maintenance Schedule',
+    match: {},
+    variants: {
+      gasoline: GENERIC_GASOLINE,
+      diesel: GENERIC_DIESEL,
+      hybrid: GENERIC_HYBRID,
+      electric: GENERIC_ELECTRIC,
+    },
+  },
+];
@@ -0,0 +1,29 @@
+/**
+ * Standardized service types shared by AI extraction, manual entry and maintenance schedules.
+ * Keep this list in sync with what's stored in service_items.service_type.
+ * server/serviceTypes.js has a copy for the extraction prompt on the server.
+ */
+export const STANDARD_SERVICE_TYPES = [
+  'Oil Change',
+  'Filter Replacement',
+  'Brake Service',
+  'Tire Service',
+  'Engine Service',
+  'Transmission Service',
+  'Cooling System',
+  'Electrical System',
+  'Suspension',
+  'Exhaust System',
+  'Fuel System',
+  'Air Conditioning',
+  'Battery Service',
+  'Inspection',
+  'Diagnostic',
+  'Fluid Service',
+  'Belt/Hose Service',
+  'Tune-Up',
+  'Emission Service',
+  'Other Service',
+] as const;
+
+export type StandardServiceType = typeof STANDARD_SERVICE_TYPES[number];
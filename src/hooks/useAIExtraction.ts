@@ -1,76 +1,94 @@
 import { useState } from 'react';
-import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, DocumentAnalysisResult } from '../types';
+import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, DistanceUnit, DocumentAnalysisResult, DocumentType, ExtractionFieldReview, ExtractionReview, CreateServiceRecordOptions, FuelEntryDraft, FuelExtractionReview } from '../types';
 import supabase from '../services/supabase';
+import { createFuelEntry } from '../services/fuelService';
+import { DOCUMENT_TYPE_LABELS, FILED_ONLY_DOCUMENT_TYPES } from '../data/documentTypes';
+import { DuplicateServiceRecordError } from '../services/duplicateDetectionService';
+import { moveDocumentToVehicle } from '../services/documentService';
+import type { ExtractedVehicleInfo } from '../utils/vehicleMatch';
+import { toDistanceUnit, toMiles, toStoredMileage } from '../utils/units';
+import { toCurrencyCode } from '../utils/currency';
 
-// Define interfaces for the AI analysis result structure
-interface ServiceItem {
-  category?: string;
-  description?: string;
-  price?: number;
-  parts_replaced?: string[];
-  serviceType?: string;
-  cost?: number;
-  partsReplaced?: string[];
-}
+type ItemReview = ExtractionReview['items'][number];
 
-interface MaintenanceInfo {
-  serviceDate?: string;
-  serviceType?: string;
-  description?: string;
-  mileage?: number;
-  cost?: number;
-  serviceProvider?: string;
-  partsReplaced?: string[];
-  notes?: string;
-}
+// Review entries for each editable column, so an edit can mark its field as reviewed
+const RECORD_REVIEW_KEYS: Partial<Record<keyof ServiceRecordInsert, keyof ExtractionReview['serviceInfo']>> = {
+  service_date: 'serviceDate',
+  service_provider: 'serviceProvider',
+  mileage: 'mileage',
+  total_cost: 'totalCost',
+  notes: 'notes',
+};
 
-interface ServiceInfo {
-  serviceDate?: string;
-  serviceType?: string;
-  description?: string;
-  mileage?: number;
-  totalCost?: number;
-  serviceProvider?: string;
-  notes?: string;
-  items?: Array<{
-    serviceType?: string;
-    description?: string;
-    cost?: number;
-    partsReplaced?: string[];
-  }>;
-}
+const FUEL_REVIEW_KEYS: Partial<Record<keyof FuelEntryDraft, keyof FuelExtractionReview>> = {
+  fill_date: 'fillDate',
+  station: 'station',
+  volume: 'volume',
+  volume_unit: 'volumeUnit',
+  price_per_unit: 'pricePerUnit',
+  total_cost: 'totalCost',
+  odometer: 'odometer',
+};
 
-interface OtherInfo {
-  service_information?: {
-    service_date?: string;
-    service_provider?: string;
-  };
-  vehicle?: {
-    odometer?: number;
-  };
-  payment?: {
-    total?: number;
-  };
-  additional_information?: {
-    notes?: string;
-  };
-  services?: ServiceItem[];
-}
+const ITEM_REVIEW_KEYS: Partial<Record<keyof ServiceItemInsert, keyof ItemReview>> = {
+  service_type: 'serviceType',
+  description: 'description',
+  cost: 'cost',
+  next_service_date: 'nextServiceDate',
+  next_service_mileage: 'nextServiceMileage',
+};
+
+// A field the user has edited no longer needs review
+const markReviewed = (field?: ExtractionFieldReview) => field && { ...field, needsReview: false, reason: null };
+
+const markItemReviewed = (itemReview: ItemReview = {}): ItemReview =>
+  Object.fromEntries(Object.entries(itemReview).map(([key, field]) => [key, markReviewed(field)]));
+
+const emptyItem = (serviceType: string): ServiceItemInsert => ({
+  service_record_id: '',
+  service_type: serviceType,
+  description: '',
+  cost: null,
+  parts_replaced: null,
+  quantity: null,
+  next_service_date: null,
+  next_service_mileage: null,
+});
 
 interface UseAIExtractionProps {
-  onSaveServiceRecord: (serviceRecord: ServiceRecordInsert, serviceItems: ServiceItemInsert[]) => Promise<ServiceRecord | null>;
+  onSaveServiceRecord: (
+    serviceRecord: ServiceRecordInsert,
+    serviceItems: ServiceItemInsert[],
+    options?: CreateServiceRecordOptions
+  ) => Promise<ServiceRecord | null>;
+  // Unit of the vehicle's odometer, for documents that don't say which unit they use
+  defaultDistanceUnit?: DistanceUnit;
+  // The user's preferred currency, for documents that don't say which currency they use
+  defaultCurrency?: string;
 }
 
-export default function useAIExtraction({ onSaveServiceRecord }: UseAIExtractionProps) {
+export default function useAIExtraction({ onSaveServiceRecord, defaultDistanceUnit = 'mi', defaultCurrency = 'USD' }: UseAIExtractionProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [extractedRecord, setExtractedRecord] = useState<ServiceRecordInsert | null>(null);
   const [extractedItems, setExtractedItems] = useState<ServiceItemInsert[]>([]);
+  const [extractedFuelEntry, setExtractedFuelEntry] = useState<FuelEntryDraft | null>(null);
+  // Set when the document was classified as a type that is only filed, not extracted
+  const [filedDocumentType, setFiledDocumentType] = useState<DocumentType | null>(null);
   const [documentId, setDocumentId] = useState<string | null>(null);
+  const [extractionReview, setExtractionReview] = useState<ExtractionReview | null>(null);
+  // Extracted mileages stay in the unit printed on the document until they are saved
+  const [documentDistanceUnit, setDocumentDistanceUnit] = useState<DistanceUnit | null>(null);
+  const mileageUnit = documentDistanceUnit || defaultDistanceUnit;
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [extractedVehicleInfo, setExtractedVehicleInfo] = useState<ExtractedVehicleInfo | null>(null);
+  // Set when the document turned out to be for another vehicle than the one it was uploaded under
+  const [targetVehicleId, setTargetVehicleId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   
-  // Handle document analysis completion
-  const handleAnalysisComplete = async (analysisResult: DocumentAnalysisResult, documentId: string) => {
+  // Handle document analysis completion. The result is only shown for review;
+  // nothing is saved until saveExtractedRecord is called.
+  const handleAnalysisComplete = async (analysisResult: DocumentAnalysisResult, documentId: string, file?: File) => {
     setIsProcessing(false);
     
     if (!analysisResult) {
@@ -85,155 +103,72 @@ export default function useAIExtraction({ onSaveServiceRecord }: UseAIExtraction
       // Log the analysis result for debugging
       console.log('Processing AI analysis result:', analysisResult);
       
-      // Check if we have the new structured format with rawStructuredData
-      const rawData = (analysisResult as any).rawStructuredData;
+      setSourceFile(file || null);
+      setTargetVehicleId(null);
+      setError(null);
       
-      if (rawData && rawData.service_record && rawData.service_items) {
-        // Use the new structured format
-        console.log('Using new structured data format');
-        
-        const serviceRecord: ServiceRecordInsert = {
-          vehicle_id: '', // This will be set by the parent component when saving
-          service_date: rawData.service_record.service_date || new Date().toISOString().split('T')[0],
-          mileage: rawData.service_record.mileage || null,
-          service_provider: rawData.service_record.service_provider || '',
-          total_cost: rawData.service_record.total_cost || null,
-          notes: rawData.service_record.notes || '',
-          document_id: documentId, // Link to the uploaded document
-        };
-        
-        // Create service items from the structured data
-        const serviceItems: ServiceItemInsert[] = rawData.service_items.map((item: any) => ({
-          service_record_id: '', // Will be filled in after service record is created
-          service_type: item.service_type || 'Other Service',
-          description: item.description || '',
-          cost: item.cost || null,
-          parts_replaced: item.parts_replaced || null,
-          quantity: item.quantity || null,
-          next_service_date: item.next_service_date || null,
-          next_service_mileage: item.next_service_mileage || null,
-        }));
-        
-        console.log('Extracted service record:', serviceRecord);
-        console.log('Extracted service items:', serviceItems);
-        
-        setExtractedRecord(serviceRecord);
-        setExtractedItems(serviceItems);
-        setError(null);
+      const documentType = analysisResult.documentType;
+      if (documentType && FILED_ONLY_DOCUMENT_TYPES.includes(documentType)) {
+        setFiledDocumentType(documentType);
         return;
       }
       
-      // Fallback to legacy format processing
-      console.log('Using legacy data format');
-      
-      // Extract data from the appropriate structure
-      // The API might return data in different formats, so we need to handle both
-      const maintenanceInfo = (analysisResult.maintenanceInfo || {}) as MaintenanceInfo;
-      const serviceInfo = (analysisResult.serviceInfo || {}) as ServiceInfo;
-      const otherInfo = (analysisResult.otherInfo || {}) as OtherInfo;
-      
-      // Get service date
-      const serviceDate = 
-        maintenanceInfo.serviceDate || 
-        serviceInfo.serviceDate || 
-        (otherInfo.service_information?.service_date) || 
-        new Date().toISOString().split('T')[0];
-      
-      // Get mileage
-      const mileage = 
-        maintenanceInfo.mileage || 
-        serviceInfo.mileage || 
-        otherInfo.vehicle?.odometer || 
-        null;
-      
-      // Get service provider
-      const serviceProvider = 
-        maintenanceInfo.serviceProvider || 
-        serviceInfo.serviceProvider || 
-        otherInfo.service_information?.service_provider || 
-        '';
-      
-      // Get total cost
-      const totalCost = 
-        maintenanceInfo.cost || 
-        serviceInfo.totalCost || 
-        otherInfo.payment?.total || 
-        null;
+      if (documentType === 'fuel') {
+        const fuelInfo = analysisResult.fuelInfo || {};
+        setDocumentDistanceUnit(toDistanceUnit(fuelInfo.odometerUnit));
+        setExtractedFuelEntry({
+          vehicle_id: '', // Set when saving
+          fill_date: fuelInfo.fillDate || new Date().toISOString().split('T')[0],
+          odometer: fuelInfo.odometer ?? null,
+          volume: fuelInfo.volume ?? null,
+          volume_unit: fuelInfo.volumeUnit || 'gal',
+          price_per_unit: fuelInfo.pricePerUnit ?? null,
+          total_cost: fuelInfo.totalCost ?? null,
+          currency: toCurrencyCode(fuelInfo.currency, defaultCurrency),
+          is_full_fill: true,
+          station: fuelInfo.station || null,
+          document_id: documentId,
+        });
+        // A fuel review has no service fields or items of its own
+        setExtractionReview(analysisResult.review ? { ...analysisResult.review, serviceInfo: {}, items: [] } : null);
+        setExtractedVehicleInfo(analysisResult.vehicleInfo || null);
+        return;
+      }
       
-      // Get notes
-      const notes = 
-        maintenanceInfo.notes || 
-        serviceInfo.notes || 
-        otherInfo.additional_information?.notes || 
-        '';
+      // The server validates the extraction, so serviceInfo only holds values that passed
+      // the schema; anything it rejected is null and flagged in analysisResult.review
+      const serviceInfo = analysisResult.serviceInfo || {};
+      setDocumentDistanceUnit(toDistanceUnit(serviceInfo.mileageUnit));
       
-      // Create service record from AI data
       const serviceRecord: ServiceRecordInsert = {
         vehicle_id: '', // This will be set by the parent component when saving
-        service_date: serviceDate,
-        mileage: mileage,
-        service_provider: serviceProvider,
-        total_cost: totalCost,
-        notes: notes,
+        service_date: serviceInfo.serviceDate || new Date().toISOString().split('T')[0],
+        mileage: serviceInfo.mileage ?? null,
+        service_provider: serviceInfo.serviceProvider || '',
+        total_cost: serviceInfo.totalCost ?? null,
+        currency: toCurrencyCode(serviceInfo.currency, defaultCurrency),
+        notes: serviceInfo.notes || '',
         document_id: documentId, // Link to the uploaded document
       };
       
-      // Create service items from AI data
-      const serviceItems: ServiceItemInsert[] = [];
-      
-      // Try to extract service items from different possible structures
-      const services = otherInfo.services || [];
-      
-      if (services.length > 0) {
-        // If we have services in otherInfo, use those
-        services.forEach((service: ServiceItem) => {
-          serviceItems.push({
-            service_record_id: '', // Will be filled in after service record is created
-            service_type: service.category || 'Maintenance',
-            description: service.description || '',
-            cost: service.price || null,
-            parts_replaced: service.parts_replaced || [],
-          });
-        });
-      } else if (maintenanceInfo.partsReplaced && maintenanceInfo.partsReplaced.length > 0) {
-        // If we have parts replaced in maintenanceInfo, create a service item for each
-        serviceItems.push({
-          service_record_id: '',
-          service_type: maintenanceInfo.serviceType || 'Maintenance',
-          description: maintenanceInfo.description || '',
-          cost: maintenanceInfo.cost || null,
-          parts_replaced: maintenanceInfo.partsReplaced || [],
-        });
-      } else if (analysisResult.serviceInfo?.items && Array.isArray(analysisResult.serviceInfo.items)) {
-        // Fall back to the original structure if available
-        analysisResult.serviceInfo.items.forEach((service) => {
-          serviceItems.push({
-            service_record_id: '',
-            service_type: service.serviceType || 'Maintenance',
-            description: service.description || '',
-            cost: service.cost || null,
-            parts_replaced: service.partsReplaced || [],
-          });
-        });
-      }
-      
-      // If we still have no service items but have a description, create a generic one
-      if (serviceItems.length === 0 && (maintenanceInfo.description || serviceInfo.description)) {
-        serviceItems.push({
-          service_record_id: '',
-          service_type: maintenanceInfo.serviceType || serviceInfo.serviceType || 'Maintenance',
-          description: maintenanceInfo.description || serviceInfo.description || '',
-          cost: totalCost, // Use the total cost for the single item
-          parts_replaced: maintenanceInfo.partsReplaced || [],
-        });
-      }
+      const serviceItems: ServiceItemInsert[] = (serviceInfo.items || []).map(item => ({
+        service_record_id: '', // Will be filled in after service record is created
+        service_type: item.serviceType || 'Other Service',
+        description: item.description || '',
+        cost: item.cost ?? null,
+        parts_replaced: item.partsReplaced || null,
+        quantity: item.quantity ?? null,
+        next_service_date: item.nextServiceDate || null,
+        next_service_mileage: item.nextServiceMileage ?? null,
+      }));
       
       console.log('Extracted service record:', serviceRecord);
       console.log('Extracted service items:', serviceItems);
       
       setExtractedRecord(serviceRecord);
       setExtractedItems(serviceItems);
-      setError(null);
+      setExtractionReview(analysisResult.review || null);
+      setExtractedVehicleInfo(analysisResult.vehicleInfo || null);
     } catch (error) {
       console.error('Error processing AI analysis result:', error);
       setError('Failed to process the document. Please try again or enter details manually.');
@@ -242,29 +177,132 @@ export default function useAIExtraction({ onSaveServiceRecord }: UseAIExtraction
     }
   };
   
-  // Save the AI-extracted service record and link to document
-  const saveExtractedRecord = async (vehicleId: string) => {
+  // Edit the extracted record before it is saved
+  const updateExtractedRecord = (changes: Partial<ServiceRecordInsert>) => {
+    setExtractedRecord(record => record && { ...record, ...changes });
+    setExtractionReview(review => {
+      if (!review) return review;
+      const serviceInfo = { ...review.serviceInfo };
+      (Object.keys(changes) as (keyof ServiceRecordInsert)[]).forEach(key => {
+        const reviewKey = RECORD_REVIEW_KEYS[key];
+        if (reviewKey) serviceInfo[reviewKey] = markReviewed(serviceInfo[reviewKey]);
+      });
+      return { ...review, serviceInfo };
+    });
+  };
+  
+  // Edit the extracted fill-up before it is saved
+  const updateExtractedFuelEntry = (changes: Partial<FuelEntryDraft>) => {
+    setExtractedFuelEntry(entry => entry && { ...entry, ...changes });
+    setExtractionReview(review => {
+      if (!review?.fuelInfo) return review;
+      const fuelInfo = { ...review.fuelInfo };
+      (Object.keys(changes) as (keyof FuelEntryDraft)[]).forEach(key => {
+        const reviewKey = FUEL_REVIEW_KEYS[key];
+        if (reviewKey) fuelInfo[reviewKey] = markReviewed(fuelInfo[reviewKey]);
+      });
+      return { ...review, fuelInfo };
+    });
+  };
+  
+  // Keep the per-item review entries lined up with the items when rows are added or removed
+  const spliceItems = (index: number, deleteCount: number, items: ServiceItemInsert[], reviews: ItemReview[]) => {
+    setExtractedItems(current => [...current.slice(0, index), ...items, ...current.slice(index + deleteCount)]);
+    setExtractionReview(review => review && {
+      ...review,
+      items: [...review.items.slice(0, index), ...reviews, ...review.items.slice(index + deleteCount)],
+    });
+  };
+  
+  const updateExtractedItem = (index: number, changes: Partial<ServiceItemInsert>) => {
+    const item = extractedItems[index];
+    if (!item) return;
+    const itemReview = { ...(extractionReview?.items[index] || {}) };
+    (Object.keys(changes) as (keyof ServiceItemInsert)[]).forEach(key => {
+      const reviewKey = ITEM_REVIEW_KEYS[key];
+      if (reviewKey) itemReview[reviewKey] = markReviewed(itemReview[reviewKey]);
+    });
+    spliceItems(index, 1, [{ ...item, ...changes }], [itemReview]);
+  };
+  
+  // Split one extracted line into two; the new row starts empty apart from its type
+  const splitExtractedItem = (index: number) => {
+    const item = extractedItems[index];
+    if (!item) return;
+    const itemReview = extractionReview?.items[index];
+    spliceItems(index, 1, [item, emptyItem(item.service_type)], [itemReview || {}, markItemReviewed(itemReview)]);
+  };
+  
+  // Merge an item with the one below it: descriptions and parts are combined, costs added up
+  const mergeExtractedItems = (index: number) => {
+    const first = extractedItems[index];
+    const second = extractedItems[index + 1];
+    if (!first || !second) return;
+    const merged: ServiceItemInsert = {
+      ...first,
+      description: [first.description, second.description].filter(Boolean).join('; '),
+      cost: (first.cost ?? null) === null && (second.cost ?? null) === null ? null : Math.round(((first.cost || 0) + (second.cost || 0)) * 100) / 100,
+      parts_replaced: [...(first.parts_replaced || []), ...(second.parts_replaced || [])],
+      quantity: first.quantity ?? second.quantity,
+      next_service_date: first.next_service_date || second.next_service_date,
+      next_service_mileage: first.next_service_mileage ?? second.next_service_mileage,
+    };
+    if (merged.parts_replaced?.length === 0) merged.parts_replaced = null;
+    spliceItems(index, 2, [merged], [markItemReviewed(extractionReview?.items[index])]);
+  };
+  
+  const removeExtractedItem = (index: number) => {
+    spliceItems(index, 1, [], []);
+  };
+  
+  const addExtractedItem = () => {
+    spliceItems(extractedItems.length, 0, [emptyItem('Other Service')], [{}]);
+  };
+  
+  // Save the record (and file the document) under another vehicle
+  const assignToVehicle = async (vehicleId: string) => {
+    if (documentId && !(await moveDocumentToVehicle(documentId, vehicleId))) {
+      setError('Failed to move the document to the selected vehicle');
+      return false;
+    }
+    setTargetVehicleId(vehicleId);
+    return true;
+  };
+  
+  // Save the AI-extracted service record and link to document. A likely duplicate
+  // is rethrown for the caller to ask the user, who then saves again with duplicateAction.
+  const saveExtractedRecord = async (
+    vehicleId: string,
+    options: Omit<CreateServiceRecordOptions, 'documentId'> = {}
+  ) => {
     if (!extractedRecord) return null;
     
     try {
       setIsSaving(true);
       setError(null);
       
-      // Set the vehicle ID before saving
+      // Set the vehicle ID before saving, and store mileages in miles
       const recordToSave = {
         ...extractedRecord,
-        vehicle_id: vehicleId
+        mileage: toStoredMileage(extractedRecord.mileage, mileageUnit),
+        vehicle_id: targetVehicleId || vehicleId
       };
+      // Item costs are in the record's currency
+      const itemsToSave = extractedItems.map(item => ({
+        ...item,
+        currency: extractedRecord.currency,
+        next_service_mileage: toStoredMileage(item.next_service_mileage, mileageUnit),
+      }));
       
       // Save the service record first
-      const savedServiceRecord = await onSaveServiceRecord(recordToSave, extractedItems);
+      const savedServiceRecord = await onSaveServiceRecord(recordToSave, itemsToSave, { ...options, documentId });
       
       // If we have a document ID and the service record was saved successfully, update the document record
       if (documentId && savedServiceRecord) {
         try {
           const { error } = await supabase
             .from('documents')
-            .update({ service_record_id: savedServiceRecord.id })
+            .update({ service_record_id: savedServiceRecord.id, status: 'saved' })
             .eq('id', documentId);
             
           if (error) {
@@ -281,6 +319,7 @@ export default function useAIExtraction({ onSaveServiceRecord }: UseAIExtraction
       resetExtractedData();
       return savedServiceRecord;
     } catch (error) {
+      if (error instanceof DuplicateServiceRecordError) throw error;
       console.error('Error saving AI-extracted service record:', error);
       setError('Failed to save service record');
       return null;
@@ -289,11 +328,66 @@ export default function useAIExtraction({ onSaveServiceRecord }: UseAIExtraction
     }
   };
   
+  // Save the AI-extracted fill-up; the document is already linked through document_id
+  const saveExtractedFuelEntry = async (vehicleId: string) => {
+    if (!extractedFuelEntry) return null;
+    const { odometer, volume } = extractedFuelEntry;
+    if (odometer === null || volume === null) {
+      setError('Enter the odometer reading and the amount of fuel before saving');
+      return null;
+    }
+    
+    try {
+      setIsSaving(true);
+      setError(null);
+      
+      const savedFuelEntry = await createFuelEntry({
+        ...extractedFuelEntry,
+        odometer: toMiles(odometer, mileageUnit),
+        volume,
+        vehicle_id: targetVehicleId || vehicleId,
+      });
+      if (!savedFuelEntry) {
+        setError('Failed to save fill-up');
+        return null;
+      }
+      
+      if (documentId) {
+        const { error } = await supabase
+          .from('documents')
+          .update({ status: 'saved' })
+          .eq('id', documentId);
+        if (error) console.error('Error marking fuel receipt as saved:', error);
+      }
+      
+      resetExtractedData();
+      return savedFuelEntry;
+    } catch (error) {
+      console.error('Error saving AI-extracted fill-up:', error);
+      setError('Failed to save fill-up');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  // What to tell the user about a document that was filed rather than extracted
+  const filedDocumentNotice = filedDocumentType
+    ? `Read as: ${DOCUMENT_TYPE_LABELS[filedDocumentType]}. The document was filed with the vehicle's documents; there is nothing to extract from it.`
+    : null;
+  
   // Reset all extracted data
   const resetExtractedData = () => {
     setExtractedRecord(null);
     setExtractedItems([]);
+    setExtractedFuelEntry(null);
+    setFiledDocumentType(null);
     setDocumentId(null);
+    setExtractionReview(null);
+    setDocumentDistanceUnit(null);
+    setSourceFile(null);
+    setExtractedVehicleInfo(null);
+    setTargetVehicleId(null);
     setError(null);
   };
   
@@ -305,9 +399,26 @@ export default function useAIExtraction({ onSaveServiceRecord }: UseAIExtraction
     setError,
     extractedRecord,
     extractedItems,
+    extractedFuelEntry,
+    filedDocumentNotice,
+    extractionReview,
+    mileageUnit,
+    setMileageUnit: setDocumentDistanceUnit,
+    sourceFile,
+    extractedVehicleInfo,
+    targetVehicleId,
     documentId,
     handleAnalysisComplete,
+    updateExtractedRecord,
+    updateExtractedItem,
+    updateExtractedFuelEntry,
+    splitExtractedItem,
+    mergeExtractedItems,
+    removeExtractedItem,
+    addExtractedItem,
+    assignToVehicle,
     saveExtractedRecord,
+    saveExtractedFuelEntry,
     resetExtractedData
   };
 }
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getQueueEntries, subscribeToQueue } from '../services/analysisQueue';
+import type { QueueEntry } from '../services/analysisQueue';
+
+/**
+ * Custom hook for following the background upload and analysis queue
+ * @returns The queue entries, in the order the files were added
+ */
+export const useAnalysisQueue = (): QueueEntry[] => useSyncExternalStore(subscribeToQueue, getQueueEntries);
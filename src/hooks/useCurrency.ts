@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { buildExchangeRateTable, createConverter, findMissingRates, formatMoney, toCurrencyCode } from '../utils/currency';
+
+/**
+ * Custom hook for showing money in the user's preferred currency
+ * @returns The preferred currency, a converter into it using the user's exchange
+ * rates, the currencies of some amounts that still need a rate, and a formatter that
+ * defaults to it
+ */
+export default function useCurrency() {
+  const { user, exchangeRates } = useApp();
+  const currency = toCurrencyCode(user?.preferred_currency);
+  const rates = useMemo(() => buildExchangeRateTable(exchangeRates), [exchangeRates]);
+  const convert = useMemo(() => createConverter(currency, rates), [currency, rates]);
+
+  const missingRates = (currencies: (string | null | undefined)[]) => findMissingRates(currencies, currency, rates);
+
+  const format = (amount: number | null | undefined, amountCurrency?: string | null, options?: { cents?: boolean }) =>
+    formatMoney(amount, amountCurrency || currency, options);
+
+  return { currency, rates, convert, missingRates, format };
+}
@@ -0,0 +1,24 @@
+import { useApp } from '../context/AppContext';
+import { toUnitSystem } from '../utils/fuelEconomy';
+import { formatDistance, fromMiles, getOdometerUnit, toMiles } from '../utils/units';
+import type { DistanceUnit, Vehicle } from '../types';
+
+/**
+ * Custom hook for showing and entering odometer values in the unit they read in
+ * @param vehicle The vehicle whose odometer the values belong to; without one, the
+ * user's preferred unit is used
+ * @returns The unit system, the odometer unit, and converters between it and stored miles
+ */
+export default function useUnits(vehicle?: Partial<Pick<Vehicle, 'odometer_unit'>> | null) {
+  const { user } = useApp();
+  const units = toUnitSystem(user?.preferred_units);
+  const odometerUnit: DistanceUnit = getOdometerUnit(vehicle, user?.preferred_units);
+
+  return {
+    units,
+    odometerUnit,
+    formatOdometer: (miles: number) => formatDistance(miles, odometerUnit),
+    fromMiles: (miles: number) => fromMiles(miles, odometerUnit),
+    toMiles: (distance: number) => toMiles(distance, odometerUnit),
+  };
+}
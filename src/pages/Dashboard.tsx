@@ -1,45 +1,95 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
 import { useApp } from '../context/AppContext';
+import MissingRatesNotice from '../components/MissingRatesNotice';
+import useCurrency from '../hooks/useCurrency';
+import useUnits from '../hooks/useUnits';
+import { getFleetCollections } from '../services/dashboardService';
+import { buildFleetSummary, buildVehicleOverview } from '../utils/dashboard';
+import type { DashboardCollections } from '../utils/dashboard';
+import type { MileageProjection } from '../utils/mileageProjection';
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+const formatProjection = (projection: MileageProjection) => {
+  if (projection.earliestDate === projection.latestDate) {
+    return `est. ${formatDate(projection.expectedDate)}`;
+  }
+  return `est. ${formatDate(projection.earliestDate)} – ${formatDate(projection.latestDate)}`;
+};
 
 const Dashboard = () => {
-  const { user, vehicles, selectedVehicle, setSelectedVehicle, isLoading } = useApp();
-  const [upcomingMaintenance, setUpcomingMaintenance] = useState<any[]>([]);
-  const [recentDocuments, setRecentDocuments] = useState<any[]>([]);
+  const {
+    user,
+    vehicles,
+    selectedVehicle,
+    setSelectedVehicle,
+    serviceRecords,
+    serviceItems,
+    documents,
+    recallNotices,
+    odometerReadings,
+    isLoading,
+  } = useApp();
+  // Spend totals add up amounts in different currencies, so they are converted to the preferred one
+  const { convert, missingRates, format: formatMoney } = useCurrency();
+  const { formatOdometer } = useUnits(selectedVehicle);
+  const [fleetCollections, setFleetCollections] = useState<DashboardCollections | null>(null);
 
+  // The fleet summary needs records for every vehicle, which the context doesn't hold
   useEffect(() => {
-    // This would fetch upcoming maintenance and recent documents
-    // For now, we'll use placeholder data
-    if (selectedVehicle) {
-      setUpcomingMaintenance([
-        {
-          id: '1',
-          service_type: 'Oil Change',
-          next_service_date: '2025-07-15',
-          next_service_mileage: 75000,
-        },
-        {
-          id: '2',
-          service_type: 'Tire Rotation',
-          next_service_date: '2025-08-10',
-          next_service_mileage: 76000,
-        },
-      ]);
+    if (selectedVehicle || vehicles.length === 0) return;
 
-      setRecentDocuments([
-        {
-          id: '1',
-          file_name: 'oil_change_receipt.pdf',
-          created_at: '2025-05-15T10:30:00Z',
-        },
-        {
-          id: '2',
-          file_name: 'inspection_report.jpg',
-          created_at: '2025-04-20T14:45:00Z',
-        },
-      ]);
-    }
-  }, [selectedVehicle]);
+    let cancelled = false;
+    getFleetCollections(vehicles.map(vehicle => vehicle.id)).then(collections => {
+      if (!cancelled) setFleetCollections(collections);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedVehicle, vehicles]);
+
+  // Mileage-based thresholds are projected to dates from the odometer history
+  const overview = useMemo(
+    () => (selectedVehicle
+      ? buildVehicleOverview({ serviceRecords, serviceItems, documents, recallNotices, odometerReadings }, convert)
+      : null),
+    [selectedVehicle, serviceRecords, serviceItems, documents, recallNotices, odometerReadings, convert]
+  );
+
+  const fleetSummary = useMemo(
+    () => (!selectedVehicle && fleetCollections ? buildFleetSummary(vehicles, fleetCollections, convert) : null),
+    [selectedVehicle, vehicles, fleetCollections, convert]
+  );
+
+  const stats = overview
+    ? [
+        { label: 'Open Recalls', value: overview.openRecalls.length.toString(), alert: overview.openRecalls.length > 0 },
+        { label: 'Overdue', value: overview.overdueServices.length.toString(), alert: overview.overdueServices.length > 0 },
+        { label: 'Upcoming', value: overview.upcomingServices.length.toString(), alert: false },
+        { label: `Spent in ${new Date().getFullYear()}`, value: formatMoney(overview.yearToDateSpend), alert: false },
+      ]
+    : fleetSummary
+      ? [
+          { label: 'Open Recalls', value: fleetSummary.openRecallCount.toString(), alert: fleetSummary.openRecallCount > 0 },
+          { label: 'Overdue', value: fleetSummary.overdueCount.toString(), alert: fleetSummary.overdueCount > 0 },
+          { label: 'Upcoming', value: fleetSummary.upcomingCount.toString(), alert: false },
+          { label: `Fleet Spend ${new Date().getFullYear()}`, value: formatMoney(fleetSummary.yearToDateSpend), alert: false },
+        ]
+      : [];
+
+  // Currencies the spend totals can't convert yet
+  const spendCollections = overview ? { serviceRecords, serviceItems } : fleetSummary ? fleetCollections : null;
+  const unconvertedCurrencies = spendCollections
+    ? missingRates([
+        ...spendCollections.serviceRecords.map(record => record.currency),
+        ...spendCollections.serviceItems.map(item => item.currency),
+      ])
+    : [];
+
+  const recentDocuments = overview?.recentDocuments || fleetSummary?.recentDocuments || [];
+  const dueServices = overview ? [...overview.overdueServices, ...overview.upcomingServices] : [];
 
   // Add debug logging
   useEffect(() => {
@@ -102,42 +152,82 @@ const Dashboard = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Summary */}
+          {stats.length > 0 && <MissingRatesNotice currencies={unconvertedCurrencies} className="md:col-span-2" />}
+          {stats.length > 0 && (
+            <div className="md:col-span-2 grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {stats.map((stat) => (
+                <div key={stat.label} className="bg-white rounded-lg shadow-card p-4">
+                  <p className="text-sm text-gray-500">{stat.label}</p>
+                  <p className={`mt-1 text-2xl font-semibold ${stat.alert ? 'text-red-600' : 'text-gray-900'}`}>
+                    {stat.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Vehicle Selector */}
           <div className="bg-white rounded-lg shadow-card p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
               Your Vehicles
             </h2>
             <div className="space-y-4">
-              {vehicles.map((vehicle) => (
+              {vehicles.length > 1 && (
                 <div
-                  key={vehicle.id}
                   className={`p-4 rounded-md cursor-pointer transition-colors ${
-                    selectedVehicle?.id === vehicle.id
+                    !selectedVehicle
                       ? 'bg-primary-50 border border-primary-200'
                       : 'bg-gray-50 hover:bg-gray-100 border border-gray-200'
                   }`}
-                  onClick={() => setSelectedVehicle(vehicle)}
+                  onClick={() => setSelectedVehicle(null)}
                 >
-                  <div className="flex items-center">
-                    <div className="flex-1">
-                      <h3 className="font-medium text-gray-900">
-                        {vehicle.year} {vehicle.make} {vehicle.model}
-                      </h3>
-                      {vehicle.license_plate && (
-                        <p className="text-sm text-gray-500">
-                          {vehicle.license_plate}
-                        </p>
-                      )}
+                  <h3 className="font-medium text-gray-900">All Vehicles</h3>
+                  <p className="text-sm text-gray-500">Fleet summary</p>
+                </div>
+              )}
+              {vehicles.map((vehicle) => {
+                const vehicleOverview = fleetSummary?.vehicles.find(entry => entry.vehicle.id === vehicle.id)?.overview;
+                return (
+                  <div
+                    key={vehicle.id}
+                    className={`p-4 rounded-md cursor-pointer transition-colors ${
+                      selectedVehicle?.id === vehicle.id
+                        ? 'bg-primary-50 border border-primary-200'
+                        : 'bg-gray-50 hover:bg-gray-100 border border-gray-200'
+                    }`}
+                    onClick={() => setSelectedVehicle(vehicle)}
+                  >
+                    <div className="flex items-center">
+                      <div className="flex-1">
+                        <h3 className="font-medium text-gray-900">
+                          {vehicle.year} {vehicle.make} {vehicle.model}
+                        </h3>
+                        {vehicle.license_plate && (
+                          <p className="text-sm text-gray-500">
+                            {vehicle.license_plate}
+                          </p>
+                        )}
+                        {vehicleOverview && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {[
+                              vehicleOverview.openRecalls.length > 0 && `${vehicleOverview.openRecalls.length} open recall${vehicleOverview.openRecalls.length === 1 ? '' : 's'}`,
+                              vehicleOverview.overdueServices.length > 0 && `${vehicleOverview.overdueServices.length} overdue`,
+                              `${formatMoney(vehicleOverview.yearToDateSpend)} this year`,
+                            ].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                      <Link
+                        to={`/vehicles/${vehicle.id}`}
+                        className="text-primary-600 hover:text-primary-700 text-sm"
+                      >
+                        Details
+                      </Link>
                     </div>
-                    <Link
-                      to={`/vehicles/${vehicle.id}`}
-                      className="text-primary-600 hover:text-primary-700 text-sm"
-                    >
-                      Details
-                    </Link>
                   </div>
-                </div>
-              ))}
+                );
+              })}
               <Link
                 to="/vehicles/add"
                 className="block text-center py-2 px-4 border border-dashed border-gray-300 rounded-md text-gray-500 hover:text-gray-700 hover:border-gray-400"
@@ -160,24 +250,46 @@ const Dashboard = () => {
                 View All
               </Link>
             </div>
-            {upcomingMaintenance.length > 0 ? (
+            {!selectedVehicle ? (
+              <p className="text-gray-500 text-center py-4">
+                Select a vehicle to see its upcoming maintenance
+              </p>
+            ) : dueServices.length > 0 ? (
               <div className="space-y-4">
-                {upcomingMaintenance.map((item) => (
+                {dueServices.map((item) => (
                   <div
                     key={item.id}
-                    className="p-4 bg-gray-50 rounded-md border border-gray-200"
+                    className={`p-4 rounded-md border ${
+                      item.isOverdue ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+                    }`}
                   >
-                    <h3 className="font-medium text-gray-900">
-                      {item.service_type}
-                    </h3>
+                    <div className="flex justify-between items-center">
+                      <h3 className="font-medium text-gray-900">
+                        {item.serviceType}
+                      </h3>
+                      {item.isOverdue && (
+                        <span className="text-xs font-semibold text-red-700">Overdue</span>
+                      )}
+                    </div>
                     <div className="mt-2 flex justify-between text-sm">
                       <span className="text-gray-500">
-                        Due: {new Date(item.next_service_date).toLocaleDateString()}
-                      </span>
-                      <span className="text-gray-500">
-                        or at {item.next_service_mileage.toLocaleString()} miles
+                        {item.nextServiceDate ? `Due: ${formatDate(item.nextServiceDate)}` : ''}
                       </span>
+                      {item.nextServiceMileage && (
+                        <span className="text-gray-500">
+                          {item.nextServiceDate ? 'or' : 'Due'} at {formatOdometer(item.nextServiceMileage)}
+                        </span>
+                      )}
                     </div>
+                    {item.projection && !item.isOverdue && (
+                      <p
+                        className="mt-1 text-xs text-gray-400"
+                        title={item.projection.isLowConfidence ? 'Based on only a few odometer readings' : undefined}
+                      >
+                        Mileage reached {formatProjection(item.projection)}
+                        {item.projection.isLowConfidence && ' (rough estimate)'}
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -196,6 +308,41 @@ const Dashboard = () => {
             </div>
           </div>
 
+          {/* Open Recalls */}
+          {overview && overview.openRecalls.length > 0 && (
+            <div className="bg-white rounded-lg shadow-card p-6 md:col-span-2">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Open Recalls
+                </h2>
+                <Link
+                  to="/recalls"
+                  className="text-sm text-primary-600 hover:text-primary-700"
+                >
+                  View All
+                </Link>
+              </div>
+              <div className="space-y-3">
+                {overview.openRecalls.map((recall) => (
+                  <div
+                    key={recall.id}
+                    className="p-4 bg-red-50 rounded-md border border-red-200"
+                  >
+                    <div className="flex justify-between items-center">
+                      <h3 className="font-medium text-gray-900">
+                        {recall.recall_number}
+                      </h3>
+                      <span className="text-xs text-gray-500">
+                        {formatDate(recall.recall_date)}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600 line-clamp-2">{recall.description}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Recent Documents */}
           <div className="bg-white rounded-lg shadow-card p-6 md:col-span-2">
             <div className="flex justify-between items-center mb-4">
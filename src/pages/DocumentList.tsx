@@ -2,29 +2,34 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
-import type { Document } from '../types/index';
+import DocumentUploader from '../components/DocumentUploader';
+import DocumentStatusBadge from '../components/DocumentStatusBadge';
+import ServiceRecordModal from '../components/ServiceRecordModal';
+import { useAnalysisQueue } from '../hooks/useAnalysisQueue';
+import { retryDocument } from '../services/analysisQueue';
+import { createServiceRecord } from '../services/serviceRecordService';
+import type { QueueEntryStatus } from '../services/analysisQueue';
+import { DOCUMENT_TYPE_LABELS } from '../data/documentTypes';
+import type { CreateServiceRecordOptions, Document, DocumentType, ServiceItemInsert, ServiceRecordInsert } from '../types/index';
 
 const DocumentList = () => {
   const navigate = useNavigate();
-  const { user, vehicles, selectedVehicle, setSelectedVehicle } = useApp();
+  const { user, vehicles, selectedVehicle, setSelectedVehicle, refreshServiceRecords } = useApp();
   const [documents, setDocuments] = useState<Document[]>([]);
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [documentTypeFilter, setDocumentTypeFilter] = useState<string>('all');
+  const [reviewingDocument, setReviewingDocument] = useState<Document | null>(null);
+  const queueEntries = useAnalysisQueue();
 
-  // Document types for filtering
-  const documentTypes = [
-    'Insurance',
-    'Registration',
-    'Maintenance Record',
-    'Warranty',
-    'Purchase Agreement',
-    'Recall Notice',
-    'Inspection Report',
-    'Other'
-  ];
+  // Rows are created as uploads finish and get their analysis when it is done
+  const uploadedCount = queueEntries.filter(entry => entry.documentId).length;
+  const reviewableCount = queueEntries.filter(entry => entry.status === 'needs_review').length;
+
+  // Document types for filtering, as set by the classifier step of analysis
+  const documentTypes = Object.entries(DOCUMENT_TYPE_LABELS) as [DocumentType, string][];
 
   useEffect(() => {
     if (user) {
@@ -34,15 +39,22 @@ const DocumentList = () => {
     }
   }, [user, selectedVehicle]);
 
+  useEffect(() => {
+    if (user && (uploadedCount > 0 || reviewableCount > 0)) {
+      fetchDocuments(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [uploadedCount, reviewableCount]);
+
   useEffect(() => {
     if (documents.length > 0) {
       applyFilters();
     }
   }, [documents, searchQuery, documentTypeFilter, selectedVehicle]);
 
-  const fetchDocuments = async () => {
+  const fetchDocuments = async (showLoading = true) => {
     try {
-      setLoading(true);
+      setLoading(showLoading);
       setError(null);
 
       // First, get all documents for the user's vehicles
@@ -128,6 +140,45 @@ const DocumentList = () => {
     setSearchQuery(e.target.value);
   };
 
+  // The queue knows about status changes before the list is fetched again
+  const getStatus = (document: Document): { status: QueueEntryStatus; error: string | null } => {
+    const entry = queueEntries.find(queued => queued.documentId === document.id);
+    return entry && document.status !== 'saved'
+      ? { status: entry.status, error: entry.error }
+      : { status: document.status as QueueEntryStatus, error: document.analysis_error };
+  };
+
+  const handleRetry = async (document: Document) => {
+    const retryError = await retryDocument(document);
+    setError(retryError);
+  };
+
+  const handleSaveReviewedRecord = async (
+    serviceRecord: ServiceRecordInsert,
+    serviceItems: ServiceItemInsert[],
+    options?: CreateServiceRecordOptions
+  ) => {
+    // createServiceRecord sets service_record_id on each item
+    const result = await createServiceRecord(serviceRecord, serviceItems, options);
+    if (!result) return null;
+
+    // The modal links the document to the record once this returns
+    const reviewedId = reviewingDocument?.id;
+    setDocuments(current => current.map(doc =>
+      doc.id === reviewedId ? { ...doc, status: 'saved', service_record_id: result.record.id } : doc
+    ));
+    await refreshServiceRecords();
+    setReviewingDocument(null);
+    return result.record;
+  };
+
+  // The review turned out to be a fuel receipt and was saved as a fill-up
+  const handleFuelEntrySaved = () => {
+    const reviewedId = reviewingDocument?.id;
+    setDocuments(current => current.map(doc => (doc.id === reviewedId ? { ...doc, status: 'saved' } : doc)));
+    setReviewingDocument(null);
+  };
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleDateString();
@@ -214,6 +265,13 @@ const DocumentList = () => {
         </p>
       </div>
 
+      {selectedVehicle && (
+        <div className="bg-white rounded-lg shadow-card p-6 mb-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Upload Receipts</h2>
+          <DocumentUploader batch />
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow-card p-6 mb-6">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -228,9 +286,9 @@ const DocumentList = () => {
                 onChange={handleDocumentTypeChange}
               >
                 <option value="all">All Document Types</option>
-                {documentTypes.map((type) => (
+                {documentTypes.map(([type, label]) => (
                   <option key={type} value={type}>
-                    {type}
+                    {label}
                   </option>
                 ))}
               </select>
@@ -340,13 +398,18 @@ const DocumentList = () => {
                   <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
                     Date Added
                   </th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                    Status
+                  </th>
                   <th className="relative py-3.5 pl-3 pr-4">
                     <span className="sr-only">Actions</span>
                   </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {filteredDocuments.map((doc) => (
+                {filteredDocuments.map((doc) => {
+                  const { status, error: analysisError } = getStatus(doc);
+                  return (
                   <tr key={doc.id} className="hover:bg-gray-50">
                     <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
                       <div className="flex items-center">
@@ -359,14 +422,37 @@ const DocumentList = () => {
                         </div>
                       </div>
                     </td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{doc.file_type || 'Unknown'}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {doc.document_type ? DOCUMENT_TYPE_LABELS[doc.document_type as DocumentType] ?? doc.document_type : doc.file_type || 'Unknown'}
+                    </td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                       {getVehicleInfo(doc)}
                     </td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                       {formatDate(doc.created_at)}
                     </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      <DocumentStatusBadge status={status} error={analysisError} />
+                    </td>
                     <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium">
+                      {status === 'needs_review' && doc.analysis_result && (
+                        <button
+                          type="button"
+                          onClick={() => setReviewingDocument(doc)}
+                          className="text-primary-600 hover:text-primary-900 mr-4"
+                        >
+                          Review
+                        </button>
+                      )}
+                      {status === 'failed' && (
+                        <button
+                          type="button"
+                          onClick={() => handleRetry(doc)}
+                          className="text-primary-600 hover:text-primary-900 mr-4"
+                        >
+                          Retry
+                        </button>
+                      )}
                       <a
                         href={doc.file_url || '#'}
                         target="_blank"
@@ -383,12 +469,24 @@ const DocumentList = () => {
                       </Link>
                     </td>
                   </tr>
-                ))}
+                  );
+                })}
               </tbody>
             </table>
           </div>
         )}
       </div>
+
+      {reviewingDocument && (
+        <ServiceRecordModal
+          open={!!reviewingDocument}
+          onClose={() => setReviewingDocument(null)}
+          vehicleId={reviewingDocument.vehicle_id}
+          reviewDocument={reviewingDocument}
+          onSaveManualRecords={handleSaveReviewedRecord}
+          onFuelEntrySaved={handleFuelEntrySaved}
+        />
+      )}
     </div>
   );
 };
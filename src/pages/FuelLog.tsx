@@ -0,0 +1,192 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useApp } from '../context/AppContext';
+import FuelEntryModal from '../components/FuelEntryModal';
+import MissingRatesNotice from '../components/MissingRatesNotice';
+import useCurrency from '../hooks/useCurrency';
+import useUnits from '../hooks/useUnits';
+import VehicleSelectorDropdown from '../components/VehicleSelectorDropdown';
+import { getFuelEntries } from '../services/fuelService';
+import { averageMpg, calculateFuelEconomy, formatFuelEconomy, formatVolume, toUnitSystem } from '../utils/fuelEconomy';
+import type { FuelEntry } from '../types';
+
+export default function FuelLog() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
+  const [selectedEntry, setSelectedEntry] = useState<FuelEntry | null>(null);
+  const [fuelEntries, setFuelEntries] = useState<FuelEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { vehicles, refreshVehicles, refreshOdometerReadings, user, setSelectedVehicle } = useApp();
+  const units = toUnitSystem(user?.preferred_units);
+  const { convert, missingRates, format: formatMoney } = useCurrency();
+  const { formatOdometer } = useUnits(vehicles.find(vehicle => vehicle.id === selectedVehicleId));
+
+  useEffect(() => {
+    if (user && vehicles.length === 0) {
+      refreshVehicles();
+    }
+  }, [user, vehicles.length, refreshVehicles]);
+
+  // Initialize from URL params on first load
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const vehicleId = params.get('vehicleId');
+
+    if (vehicleId) {
+      setSelectedVehicleId(vehicleId);
+
+      // Also update the global context
+      const vehicle = vehicles.find(v => v.id === vehicleId);
+      if (vehicle) {
+        setSelectedVehicle(vehicle);
+      }
+    }
+  }, [location.search, vehicles, setSelectedVehicle]);
+
+  // Update URL when vehicle is selected
+  useEffect(() => {
+    if (selectedVehicleId) {
+      navigate(`/fuel?vehicleId=${selectedVehicleId}`, { replace: true });
+    } else {
+      navigate('/fuel', { replace: true });
+    }
+  }, [selectedVehicleId, navigate]);
+
+  const loadEntries = async (vehicleId: string) => {
+    setLoading(true);
+    setFuelEntries(await getFuelEntries(vehicleId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (selectedVehicleId) {
+      loadEntries(selectedVehicleId);
+    } else {
+      setFuelEntries([]);
+    }
+  }, [selectedVehicleId]);
+
+  const segments = useMemo(() => calculateFuelEconomy(fuelEntries), [fuelEntries]);
+  const economyByEntry = useMemo(
+    () => new Map(segments.map(segment => [segment.entryId, segment.mpg])),
+    [segments]
+  );
+  const totalSpent = fuelEntries.reduce((sum, entry) => sum + convert(Number(entry.total_cost) || 0, entry.currency), 0);
+
+  const handleSaved = async () => {
+    if (!selectedVehicleId) return;
+    await loadEntries(selectedVehicleId);
+    // Each fill-up records an odometer reading, which can move the vehicle's mileage
+    await Promise.all([refreshOdometerReadings(), refreshVehicles()]);
+  };
+
+  return (
+    <div className="p-4 pb-20">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <h1 className="text-xl font-bold">Fuel Log</h1>
+          <button
+            className={`w-8 h-8 flex items-center justify-center rounded-lg shadow-sm border ${selectedVehicleId ? 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50' : 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'}`}
+            onClick={() => {
+              if (selectedVehicleId) {
+                setSelectedEntry(null);
+                setModalOpen(true);
+              }
+            }}
+            disabled={!selectedVehicleId}
+            aria-label="Add Fill-Up"
+            title={selectedVehicleId ? 'Add Fill-Up' : 'Select a vehicle first'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        </div>
+        <VehicleSelectorDropdown
+          onVehicleSelect={(vehicleId) => setSelectedVehicleId(vehicleId)}
+          selectedVehicleId={selectedVehicleId}
+        />
+      </div>
+
+      {!selectedVehicleId ? (
+        <div className="text-gray-400 text-center mt-20">Please select a vehicle to view its fuel log.</div>
+      ) : loading ? (
+        <div className="text-gray-400 text-center mt-20">Loading...</div>
+      ) : fuelEntries.length === 0 ? (
+        <div className="text-gray-400 text-center mt-20">No fill-ups yet for this vehicle.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="rounded-lg bg-white shadow-card p-4">
+              <p className="text-xs text-gray-500">Average</p>
+              <p className="text-lg font-bold text-neutral-800">{formatFuelEconomy(averageMpg(segments), units)}</p>
+            </div>
+            <div className="rounded-lg bg-white shadow-card p-4">
+              <p className="text-xs text-gray-500">Fill-ups</p>
+              <p className="text-lg font-bold text-neutral-800">{fuelEntries.length}</p>
+            </div>
+            <div className="rounded-lg bg-white shadow-card p-4">
+              <p className="text-xs text-gray-500">Spent</p>
+              <p className="text-lg font-bold text-neutral-800">{formatMoney(totalSpent)}</p>
+            </div>
+          </div>
+          <MissingRatesNotice currencies={missingRates(fuelEntries.map(entry => entry.currency))} />
+          {segments.length === 0 && (
+            <p className="text-xs text-gray-500 mb-4">Fuel economy shows once there are two full fills.</p>
+          )}
+
+          <div className="rounded-lg bg-white shadow-card divide-y divide-gray-100">
+            {fuelEntries.map(entry => (
+              <button
+                key={entry.id}
+                type="button"
+                onClick={() => {
+                  setSelectedEntry(entry);
+                  setModalOpen(true);
+                }}
+                className="w-full text-left p-4 hover:bg-gray-50 flex justify-between items-center"
+              >
+                <div>
+                  <p className="text-sm font-medium text-neutral-800">
+                    {new Date(`${entry.fill_date}T00:00:00`).toLocaleDateString()}
+                    {!entry.is_full_fill && (
+                      <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-500 text-xs rounded-full">Partial</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatOdometer(entry.odometer)} · {formatVolume(entry.volume, entry.volume_unit, units)}
+                    {entry.station ? ` · ${entry.station}` : ''}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium">
+                    {formatMoney(entry.total_cost, entry.currency)}
+                  </p>
+                  <p className="text-xs text-blue-600">
+                    {economyByEntry.has(entry.id) ? formatFuelEconomy(economyByEntry.get(entry.id) ?? null, units) : ''}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {selectedVehicleId && (
+        <FuelEntryModal
+          open={modalOpen}
+          onClose={() => {
+            setModalOpen(false);
+            setSelectedEntry(null);
+          }}
+          vehicleId={selectedVehicleId}
+          units={units}
+          fuelEntry={selectedEntry}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+}
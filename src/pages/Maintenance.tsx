@@ -1,16 +1,159 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
 import VehicleSelectorDropdown from '../components/VehicleSelectorDropdown';
+import PmItemModal from '../components/PmItemModal';
+import MaintenanceTemplateSelect from '../components/MaintenanceTemplateSelect';
 import { useApp } from '../context/AppContext';
+import useUnits from '../hooks/useUnits';
 import { useLocation, useNavigate } from 'react-router-dom';
+import { addOdometerReading } from '../services/odometerService';
+import { applyMaintenanceTemplate } from '../services/maintenanceScheduleService';
+import { evaluatePmItems } from '../utils/maintenanceSchedule';
+import { findRollbackConflict } from '../utils/odometer';
+import { estimateDailyMileage, projectMileageDate } from '../utils/mileageProjection';
+import { DISTANCE_UNIT_LABELS, fromMiles, toMiles } from '../utils/units';
+import type { PmItemEvaluation, PmStatus } from '../utils/maintenanceSchedule';
+import type { TemplateSelection } from '../utils/maintenanceTemplates';
+import type { PmItem } from '../types';
+
+const STATUS_STYLES: Record<PmStatus, { label: string; className: string }> = {
+  overdue: { label: 'Overdue', className: 'bg-red-50 text-red-700' },
+  due_soon: { label: 'Due Soon', className: 'bg-yellow-50 text-yellow-700' },
+  ok: { label: 'OK', className: 'bg-green-50 text-green-700' },
+  unknown: { label: 'No History', className: 'bg-gray-50 text-gray-500' },
+};
+
+// Mileages are formatted in the vehicle's odometer unit
+type FormatOdometer = (miles: number) => string;
+
+const formatInterval = (item: PmItem, formatOdometer: FormatOdometer) => {
+  const parts = [];
+  if (item.interval_miles) parts.push(formatOdometer(item.interval_miles));
+  if (item.interval_months) parts.push(`${item.interval_months} ${item.interval_months === 1 ? 'month' : 'months'}`);
+  return `Every ${parts.join(' or ')}`;
+};
+
+const formatRemaining = (evaluation: PmItemEvaluation, formatOdometer: FormatOdometer) => {
+  const parts = [];
+  if (evaluation.milesRemaining !== null) {
+    parts.push(evaluation.milesRemaining >= 0
+      ? `${formatOdometer(evaluation.milesRemaining)} left`
+      : `${formatOdometer(Math.abs(evaluation.milesRemaining))} over`);
+  }
+  if (evaluation.daysRemaining !== null) {
+    parts.push(evaluation.daysRemaining >= 0
+      ? `${evaluation.daysRemaining} days left`
+      : `${Math.abs(evaluation.daysRemaining)} days over`);
+  }
+  return parts.join(' · ');
+};
 
 export default function Maintenance() {
   const location = useLocation();
   const navigate = useNavigate();
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
-  
-  // TODO: Fetch PM items from API
-  const pmItems = [];
-  const { vehicles, refreshVehicles, user, setSelectedVehicle } = useApp();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<PmItem | null>(null);
+  const [odometer, setOdometer] = useState('');
+  const [odometerError, setOdometerError] = useState<string | null>(null);
+  const [isSavingOdometer, setIsSavingOdometer] = useState(false);
+  const [schedule, setSchedule] = useState<TemplateSelection | null>(null);
+  const [isApplyingTemplate, setIsApplyingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const {
+    vehicles,
+    refreshVehicles,
+    user,
+    setSelectedVehicle,
+    pmItems,
+    refreshPmItems,
+    serviceRecords,
+    serviceItems,
+    maintenanceRecords,
+    odometerReadings,
+    refreshOdometerReadings,
+  } = useApp();
+
+  const vehicle = vehicles.find(v => v.id === selectedVehicleId) || null;
+  const currentMileage = vehicle?.mileage ?? null;
+  const { odometerUnit, formatOdometer } = useUnits(vehicle);
+  // The reading as shown in the odometer field
+  const currentOdometer = currentMileage !== null ? fromMiles(currentMileage, odometerUnit).toString() : '';
+
+  // Re-evaluated whenever the odometer or service history changes
+  const evaluations = useMemo(
+    () => evaluatePmItems(
+      pmItems.filter(item => item.vehicle_id === selectedVehicleId),
+      currentMileage,
+      { serviceRecords, serviceItems, maintenanceRecords }
+    ),
+    [pmItems, selectedVehicleId, currentMileage, serviceRecords, serviceItems, maintenanceRecords]
+  );
+
+  const vehicleReadings = useMemo(
+    () => odometerReadings.filter(reading => reading.vehicle_id === selectedVehicleId),
+    [odometerReadings, selectedVehicleId]
+  );
+  const mileageEstimate = useMemo(() => estimateDailyMileage(vehicleReadings), [vehicleReadings]);
+
+  useEffect(() => {
+    setOdometer(currentOdometer);
+    setOdometerError(null);
+  }, [currentOdometer, selectedVehicleId]);
+
+  const handleOdometerSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedVehicleId || odometer.trim() === '') return;
+
+    const reading = Number(odometer);
+    if (!Number.isFinite(reading) || reading < 0) {
+      setOdometerError('Enter a valid odometer reading');
+      return;
+    }
+
+    setIsSavingOdometer(true);
+    setOdometerError(null);
+    try {
+      const newReading = {
+        vehicle_id: selectedVehicleId,
+        reading_date: format(new Date(), 'yyyy-MM-dd'),
+        mileage: toMiles(Math.round(reading), odometerUnit),
+        source: 'manual',
+      };
+      const conflict = findRollbackConflict(vehicleReadings, newReading);
+      if (conflict) {
+        setOdometerError(`Reading is lower than ${formatOdometer(conflict.mileage)} recorded on ${conflict.reading_date}`);
+        return;
+      }
+
+      const saved = await addOdometerReading(newReading);
+      if (!saved) {
+        setOdometerError('Failed to update odometer');
+        return;
+      }
+      await refreshVehicles();
+      await refreshOdometerReadings();
+    } finally {
+      setIsSavingOdometer(false);
+    }
+  };
+
+  const handleApplyTemplate = async () => {
+    if (!selectedVehicleId || !schedule) return;
+
+    setIsApplyingTemplate(true);
+    setTemplateError(null);
+    try {
+      const created = await applyMaintenanceTemplate(selectedVehicleId, schedule);
+      if (!created) {
+        setTemplateError('Failed to apply maintenance schedule');
+        return;
+      }
+      await refreshPmItems();
+    } finally {
+      setIsApplyingTemplate(false);
+    }
+  };
 
   useEffect(() => {
     if (user && vehicles.length === 0) {
@@ -53,9 +196,10 @@ export default function Maintenance() {
           <button
             className={`w-8 h-8 flex items-center justify-center rounded-lg shadow-sm border ${selectedVehicleId ? 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50' : 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'}`}
             onClick={() => {
-              // TODO: Open maintenance item modal
+              // Only open modal if a vehicle is selected
               if (selectedVehicleId) {
-                console.log('Add maintenance item for vehicle:', selectedVehicleId);
+                setEditingItem(null);
+                setModalOpen(true);
               }
             }}
             disabled={!selectedVehicleId}
@@ -71,8 +215,131 @@ export default function Maintenance() {
           onVehicleSelect={(vehicleId) => setSelectedVehicleId(vehicleId)}
         />
       </div>
-      {/* TODO: Odometer input and PM list */}
-      {pmItems.length === 0 && <div className="text-gray-400 text-center mt-20">No maintenance items yet.</div>}
+      {!selectedVehicleId ? (
+        <div className="text-gray-400 text-center mt-20">Please select a vehicle to view maintenance items.</div>
+      ) : (
+        <>
+          {/* Odometer */}
+          <form onSubmit={handleOdometerSubmit} className="mb-4 rounded-lg bg-white p-4 shadow-sm border border-gray-100">
+            <label htmlFor="odometer" className="block text-sm font-medium text-gray-700 mb-1">
+              Current Odometer ({DISTANCE_UNIT_LABELS[odometerUnit]})
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                id="odometer"
+                value={odometer}
+                onChange={(e) => setOdometer(e.target.value)}
+                placeholder={odometerUnit === 'km' ? 'Kilometers' : 'Miles'}
+                className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <button
+                type="submit"
+                disabled={isSavingOdometer || odometer === currentOdometer}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+              >
+                {isSavingOdometer ? 'Saving...' : 'Update'}
+              </button>
+            </div>
+            {odometerError && <div className="text-red-500 text-xs mt-1">{odometerError}</div>}
+          </form>
+
+          {/* PM list */}
+          {evaluations.length === 0 ? (
+            <>
+              <div className="text-gray-400 text-center mt-12 mb-6">No maintenance items yet.</div>
+              {vehicle && (
+                <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100 max-w-md mx-auto">
+                  <MaintenanceTemplateSelect
+                    vehicle={vehicle}
+                    value={schedule}
+                    onChange={setSchedule}
+                  />
+                  {templateError && <div className="text-red-500 text-xs mt-1">{templateError}</div>}
+                  <button
+                    type="button"
+                    onClick={handleApplyTemplate}
+                    disabled={!schedule || isApplyingTemplate}
+                    className="mt-3 w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+                  >
+                    {isApplyingTemplate ? 'Applying...' : 'Use This Schedule'}
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {evaluations.map(evaluation => {
+                const { item, status } = evaluation;
+                const remaining = formatRemaining(evaluation, formatOdometer);
+                const projection = mileageEstimate && evaluation.dueMileage !== null && (evaluation.milesRemaining ?? 0) > 0
+                  ? projectMileageDate(mileageEstimate, evaluation.dueMileage)
+                  : null;
+                return (
+                  <div key={item.id} className="block rounded-lg bg-white shadow-[0_2px_15px_-3px_rgba(0,0,0,0.07),0_10px_20px_-2px_rgba(0,0,0,0.04)] w-full min-w-[250px]">
+                    <div className="p-4">
+                      <div className="flex justify-between items-start mb-1">
+                        <h5 className="text-lg font-bold leading-tight text-neutral-800">{item.service_type}</h5>
+                        <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[status].className}`}>
+                          {STATUS_STYLES[status].label}
+                        </span>
+                      </div>
+                      {item.description && <div className="mb-1 text-sm text-neutral-600">{item.description}</div>}
+                      <div className="text-xs text-gray-400 mb-2">{formatInterval(item, formatOdometer)}</div>
+                      <div className="border-t border-gray-100 pt-3 text-sm text-gray-700 space-y-1">
+                        <div>
+                          Last done: {evaluation.lastServiceDate
+                            ? new Date(evaluation.lastServiceDate).toLocaleDateString()
+                            : 'Unknown'}
+                          {evaluation.lastServiceMileage !== null && ` at ${formatOdometer(evaluation.lastServiceMileage)}`}
+                        </div>
+                        {(evaluation.dueDate || evaluation.dueMileage !== null) && (
+                          <div>
+                            Due: {[
+                              evaluation.dueDate && new Date(evaluation.dueDate).toLocaleDateString(),
+                              evaluation.dueMileage !== null && formatOdometer(evaluation.dueMileage),
+                            ].filter(Boolean).join(' or ')}
+                          </div>
+                        )}
+                        {remaining && <div className="text-xs text-gray-500">{remaining}</div>}
+                        {projection && (
+                          <div className="text-xs text-gray-400">
+                            {evaluation.dueMileage !== null && formatOdometer(evaluation.dueMileage)} expected {projection.earliestDate === projection.latestDate
+                              ? new Date(projection.expectedDate).toLocaleDateString()
+                              : `${new Date(projection.earliestDate).toLocaleDateString()} – ${new Date(projection.latestDate).toLocaleDateString()}`}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => {
+                          setEditingItem(item);
+                          setModalOpen(true);
+                        }}
+                        className="mt-3 w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      >
+                        Details
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+      {selectedVehicleId && (
+        <PmItemModal
+          open={modalOpen}
+          onClose={() => {
+            setModalOpen(false);
+            setEditingItem(null);
+          }}
+          vehicleId={selectedVehicleId}
+          pmItem={editingItem}
+          onSaved={refreshPmItems}
+        />
+      )}
     </div>
   );
 }
@@ -2,21 +2,32 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
+import CurrencySelect from '../components/CurrencySelect';
+import useCurrency from '../hooks/useCurrency';
+import { DISTANCE_UNIT_LABELS, fromMiles, getOdometerUnit, toStoredMileage } from '../utils/units';
 import type { MaintenanceRecord } from '../types';
 
 const MaintenanceForm = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user, vehicles, selectedVehicle, setSelectedVehicle, refreshMaintenanceRecords } = useApp();
+  const { currency: preferredCurrency } = useCurrency();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState(false);
 
+  // Mileages are edited in the unit the vehicle's odometer reads in and saved in miles
+  const odometerUnitOf = (vehicleId: string | null | undefined) =>
+    getOdometerUnit(vehicles.find(v => v.id === vehicleId), user?.preferred_units);
+  const preferredUnits = user?.preferred_units;
+  const odometerMileage = (vehicle: typeof selectedVehicle) =>
+    vehicle?.mileage ? fromMiles(vehicle.mileage, getOdometerUnit(vehicle, preferredUnits)) : 0;
+
   const [formData, setFormData] = useState<Partial<MaintenanceRecord>>({
     service_type: '',
     service_date: new Date().toISOString().split('T')[0],
     description: '',
-    mileage: selectedVehicle?.mileage || 0,
+    mileage: odometerMileage(selectedVehicle),
     service_provider: '',
     cost: 0,
     parts_replaced: [],
@@ -36,10 +47,10 @@ const MaintenanceForm = () => {
       setFormData(prev => ({
         ...prev,
         vehicle_id: selectedVehicle.id,
-        mileage: selectedVehicle.mileage || 0,
+        mileage: selectedVehicle.mileage ? fromMiles(selectedVehicle.mileage, getOdometerUnit(selectedVehicle, preferredUnits)) : 0,
       }));
     }
-  }, [isEditMode, id, selectedVehicle]);
+  }, [isEditMode, id, selectedVehicle, preferredUnits]);
 
   const fetchMaintenanceRecord = async (recordId: string) => {
     try {
@@ -52,9 +63,12 @@ const MaintenanceForm = () => {
 
       if (error) throw error;
       if (data) {
-        // Format dates for form inputs
+        // Format dates and mileages for form inputs
+        const unit = odometerUnitOf(data.vehicle_id);
         const formattedData = {
           ...data,
+          mileage: data.mileage === null ? null : fromMiles(data.mileage, unit),
+          next_service_mileage: data.next_service_mileage === null ? null : fromMiles(data.next_service_mileage, unit),
           service_date: data.service_date ? new Date(data.service_date).toISOString().split('T')[0] : '',
           next_service_date: data.next_service_date ? new Date(data.next_service_date).toISOString().split('T')[0] : '',
         };
@@ -101,7 +115,7 @@ const MaintenanceForm = () => {
       setSelectedVehicle(vehicle);
       // Update mileage if it hasn't been changed yet or is 0
       if (!formData.mileage || formData.mileage === 0) {
-        setFormData(prev => ({ ...prev, mileage: vehicle.mileage || 0 }));
+        setFormData(prev => ({ ...prev, mileage: odometerMileage(vehicle) }));
       }
     }
   };
@@ -123,8 +137,13 @@ const MaintenanceForm = () => {
       setLoading(true);
       setError(null);
       
+      const unit = odometerUnitOf(formData.vehicle_id);
+      const mileage = toStoredMileage(formData.mileage, unit);
       const maintenanceData = {
         ...formData,
+        mileage,
+        next_service_mileage: toStoredMileage(formData.next_service_mileage, unit),
+        currency: formData.currency || preferredCurrency,
         user_id: user.id,
       };
       
@@ -146,11 +165,11 @@ const MaintenanceForm = () => {
       }
       
       // Update vehicle mileage if the maintenance mileage is higher
-      if (formData.vehicle_id && formData.mileage && selectedVehicle) {
-        if (!selectedVehicle.mileage || formData.mileage > selectedVehicle.mileage) {
+      if (formData.vehicle_id && mileage && selectedVehicle) {
+        if (!selectedVehicle.mileage || mileage > selectedVehicle.mileage) {
           const { error } = await supabase
             .from('vehicles')
-            .update({ mileage: formData.mileage })
+            .update({ mileage })
             .eq('id', formData.vehicle_id);
             
           if (error) throw error;
@@ -320,7 +339,7 @@ const MaintenanceForm = () => {
                 htmlFor="mileage"
                 className="block text-sm font-medium leading-6 text-gray-900"
               >
-                Mileage at Service
+                Mileage at Service ({DISTANCE_UNIT_LABELS[odometerUnitOf(formData.vehicle_id)]})
               </label>
               <div className="mt-2">
                 <input
@@ -360,9 +379,9 @@ const MaintenanceForm = () => {
                 htmlFor="cost"
                 className="block text-sm font-medium leading-6 text-gray-900"
               >
-                Cost ($)
+                Cost
               </label>
-              <div className="mt-2">
+              <div className="mt-2 flex gap-2">
                 <input
                   type="number"
                   id="cost"
@@ -373,6 +392,11 @@ const MaintenanceForm = () => {
                   onChange={handleInputChange}
                   className="form-input"
                 />
+                <CurrencySelect
+                  value={formData.currency || preferredCurrency}
+                  onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                  className="form-input w-24"
+                />
               </div>
             </div>
 
@@ -439,7 +463,7 @@ const MaintenanceForm = () => {
                 htmlFor="next_service_mileage"
                 className="block text-sm font-medium leading-6 text-gray-900"
               >
-                Next Service Mileage
+                Next Service Mileage ({DISTANCE_UNIT_LABELS[odometerUnitOf(formData.vehicle_id)]})
               </label>
               <div className="mt-2">
                 <input
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
+import { formatMoney } from '../utils/currency';
+import { formatDistance, getOdometerUnit } from '../utils/units';
 
 const MaintenanceList = () => {
   const { user, vehicles, selectedVehicle, setSelectedVehicle, maintenanceRecords, refreshMaintenanceRecords } = useApp();
@@ -291,13 +293,15 @@ const MaintenanceList = () => {
                       {record.service_type}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {record.mileage ? record.mileage.toLocaleString() : '-'}
+                      {record.mileage
+                        ? formatDistance(record.mileage, getOdometerUnit(vehicles.find(v => v.id === record.vehicle_id), user?.preferred_units))
+                        : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {record.service_provider || '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {record.cost ? `$${record.cost.toFixed(2)}` : '-'}
+                      {record.cost ? formatMoney(record.cost, record.currency) : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <Link
@@ -2,6 +2,9 @@ import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
+import PushDeviceToggle from '../components/PushDeviceToggle';
+import { setPushEnabled } from '../services/pushService';
+import UsagePanel from '../components/UsagePanel';
 
 interface UserProfile {
   id: string;
@@ -17,6 +20,10 @@ interface UserProfile {
     maintenance_reminders: boolean;
     recall_alerts: boolean;
     document_expiration: boolean;
+    // Missing on profiles created before the digest existed
+    monthly_digest?: boolean;
+    // Text messages are off unless turned on
+    sms?: boolean;
   };
   created_at: string;
 }
@@ -41,10 +48,11 @@ const validateName = (name: string) => {
 
 const Profile = () => {
   const navigate = useNavigate();
-  const { user } = useApp();
+  const { user, signOut } = useApp();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pushWorking, setPushWorking] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [avatarFile, setAvatarFile] = useState<File | null>(null);
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
@@ -153,6 +161,9 @@ const Profile = () => {
     if (profile.phone_number && !validatePhoneNumber(profile.phone_number)) {
       errors.phone_number = 'Please enter a valid phone number.';
     }
+    if (profile.notification_preferences.sms && !profile.phone_number) {
+      errors.phone_number = 'Enter a phone number to receive text messages.';
+    }
     if (!profile.email || !validateEmail(profile.email)) {
       errors.email = 'Email is required and must be valid.';
     }
@@ -186,6 +197,21 @@ const Profile = () => {
       if (!isSupported) return;
     }
     
+    setNotificationPreference(name, checked);
+
+    // The push switch registers or removes this device's subscription right away
+    if (name === 'push') {
+      setPushWorking(true);
+      const pushError = await setPushEnabled(checked);
+      setPushWorking(false);
+      if (pushError) {
+        setNotificationPreference(name, !checked);
+        setError(pushError);
+      }
+    }
+  };
+
+  const setNotificationPreference = (name: string, checked: boolean) => {
     setProfile((prev) => ({
       ...prev,
       notification_preferences: {
@@ -340,9 +366,8 @@ const Profile = () => {
   const handleSignOut = async () => {
     try {
       setLoading(true);
-      const { error } = await supabase.auth.signOut();
-      if (error) throw error;
-      
+      await signOut();
+
       // Navigate to login page after sign out
       navigate('/login');
     } catch (error) {
@@ -615,6 +640,7 @@ const Profile = () => {
                       type="checkbox"
                       checked={profile.notification_preferences.push}
                       onChange={handleNotificationChange}
+                      disabled={pushWorking}
                       className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-600"
                     />
                   </div>
@@ -623,6 +649,26 @@ const Profile = () => {
                       Push Notifications
                     </label>
                     <p className="text-gray-500">Receive push notifications on your devices</p>
+                    {profile.notification_preferences.push && !pushWorking && <PushDeviceToggle />}
+                  </div>
+                </div>
+
+                <div className="relative flex items-start">
+                  <div className="flex h-6 items-center">
+                    <input
+                      id="sms-notifications"
+                      name="sms"
+                      type="checkbox"
+                      checked={!!profile.notification_preferences.sms}
+                      onChange={handleNotificationChange}
+                      className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-600"
+                    />
+                  </div>
+                  <div className="ml-3 text-sm leading-6">
+                    <label htmlFor="sms-notifications" className="font-medium text-gray-900">
+                      Text Messages
+                    </label>
+                    <p className="text-gray-500">Receive maintenance reminders by text at your phone number</p>
                   </div>
                 </div>
 
@@ -682,6 +728,24 @@ const Profile = () => {
                     <p className="text-gray-500">Get notified before documents expire</p>
                   </div>
                 </div>
+                <div className="relative flex items-start">
+                  <div className="flex h-6 items-center">
+                    <input
+                      id="monthly-digest"
+                      name="monthly_digest"
+                      type="checkbox"
+                      checked={profile.notification_preferences.monthly_digest ?? false}
+                      onChange={handleNotificationChange}
+                      className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-600"
+                    />
+                  </div>
+                  <div className="ml-3 text-sm leading-6">
+                    <label htmlFor="monthly-digest" className="font-medium text-gray-900">
+                      Monthly Digest
+                    </label>
+                    <p className="text-gray-500">A monthly email summary of services, total spending and upcoming maintenance</p>
+                  </div>
+                </div>
               </div>
             </fieldset>
             <div className="border-t border-gray-200 pt-6 flex justify-between">
@@ -705,6 +769,10 @@ const Profile = () => {
           </div>
         </form>
       </div>
+      <div className="bg-white rounded-lg shadow-card p-6 mb-6">
+        <h2 className="text-base font-semibold leading-7 text-gray-900 mb-4">AI Usage</h2>
+        <UsagePanel />
+      </div>
     </div>
   );
 };
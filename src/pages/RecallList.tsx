@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
+import { syncAllVehicleRecalls } from '../services/recallSyncService';
 import type { RecallNotice } from '../types/index';
 
 const RecallList = () => {
@@ -12,6 +13,7 @@ const RecallList = () => {
   const [loading, setLoading] = useState(false); // Start with loading false
   const [error, setError] = useState<string | null>(null);
   const [recallStatusFilter, setRecallStatusFilter] = useState<string>('all');
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
 
   // Fetch recalls when component mounts or when user/vehicle changes
   useEffect(() => {
@@ -183,18 +185,37 @@ const RecallList = () => {
     }
   };
 
-  const handleCheckForRecalls = () => {
+  const handleCheckForRecalls = async () => {
+    const vehiclesToCheck = selectedVehicle ? [selectedVehicle] : vehicles;
+    if (vehiclesToCheck.length === 0) return;
+
     setLoading(true);
     setError(null);
+    setSyncMessage(null);
     
-    // Use a timer that we can clean up if needed
-    const timer = setTimeout(() => {
+    try {
+      const summaries = await syncAllVehicleRecalls(vehiclesToCheck);
+      const newCount = summaries.reduce((sum, summary) => sum + summary.newRecalls.length, 0);
+      const existingCount = summaries.reduce((sum, summary) => sum + summary.existingRecalls.length, 0);
+      const closedCount = summaries.reduce((sum, summary) => sum + summary.closedRecalls.length, 0);
+      const errors = summaries.map(summary => summary.error).filter(Boolean);
+
+      if (errors.length > 0) {
+        setError(errors.join('. '));
+      }
+
+      if (newCount + existingCount + closedCount === 0) {
+        setSyncMessage(errors.length < summaries.length ? 'No recalls found for your vehicles.' : null);
+      } else {
+        setSyncMessage(
+          `${newCount} new recall${newCount === 1 ? '' : 's'} found, ${existingCount} already open, ${closedCount} closed.`
+        );
+      }
+      
+      await refreshRecallNotices();
+    } finally {
       setLoading(false);
-      alert('No new recalls found for your vehicles.');
-    }, 1500);
-    
-    // Return cleanup function in case component unmounts during the timeout
-    return () => clearTimeout(timer);
+    }
   };
 
   const handleAddManualRecall = () => {
@@ -297,7 +318,7 @@ const RecallList = () => {
         <div className="flex flex-col sm:flex-row justify-end gap-4 mb-6">
           <button
             onClick={handleCheckForRecalls}
-            disabled={loading || !selectedVehicle}
+            disabled={loading || vehicles.length === 0}
             className="btn-secondary"
           >
             {loading ? 'Checking...' : 'Check for New Recalls'}
@@ -310,6 +331,12 @@ const RecallList = () => {
           </button>
         </div>
 
+        {syncMessage && (
+          <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-4">
+            <p className="text-sm text-blue-700">{syncMessage}</p>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4">
             <div className="flex">
@@ -7,10 +7,11 @@ export default function Recalls() {
   const location = useLocation();
   const navigate = useNavigate();
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
+  // Recall to highlight, e.g. when opened from a push notification
+  const [focusedRecallId, setFocusedRecallId] = useState<string | null>(null);
   
-  // TODO: Fetch recall info from API
-  const recalls = [];
-  const { vehicles, refreshVehicles, user, setSelectedVehicle } = useApp();
+  const { vehicles, refreshVehicles, user, setSelectedVehicle, recallNotices } = useApp();
+  const recalls = recallNotices.filter(recall => recall.vehicle_id === selectedVehicleId);
 
   useEffect(() => {
     if (user && vehicles.length === 0) {
@@ -22,6 +23,11 @@ export default function Recalls() {
   useEffect(() => {
     const params = new URLSearchParams(location.search);
     const vehicleId = params.get('vehicleId');
+    const recallId = params.get('recallId');
+    
+    if (recallId) {
+      setFocusedRecallId(recallId);
+    }
     
     if (vehicleId) {
       console.log(`Found vehicle ID in URL: ${vehicleId}`);
@@ -39,11 +45,18 @@ export default function Recalls() {
   useEffect(() => {
     if (selectedVehicleId) {
       console.log(`Updating URL with vehicle ID: ${selectedVehicleId}`);
-      navigate(`/recalls?vehicleId=${selectedVehicleId}`, { replace: true });
+      const recallParam = focusedRecallId ? `&recallId=${focusedRecallId}` : '';
+      navigate(`/recalls?vehicleId=${selectedVehicleId}${recallParam}`, { replace: true });
     } else {
       navigate('/recalls', { replace: true });
     }
-  }, [selectedVehicleId, navigate]);
+  }, [selectedVehicleId, focusedRecallId, navigate]);
+
+  // Bring the focused recall into view once it has loaded
+  useEffect(() => {
+    if (!focusedRecallId) return;
+    document.getElementById(`recall-${focusedRecallId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedRecallId, recalls.length]);
 
   return (
     <div className="p-4 pb-20">
@@ -71,8 +84,42 @@ export default function Recalls() {
           onVehicleSelect={(vehicleId) => setSelectedVehicleId(vehicleId)}
         />
       </div>
-      {/* TODO: Recall list */}
-      {recalls.length === 0 && <div className="text-gray-400 text-center mt-20">No recalls found.</div>}
+      {recalls.length === 0 ? (
+        <div className="text-gray-400 text-center mt-20">No recalls found.</div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {recalls.map(recall => (
+            <div
+              key={recall.id}
+              id={`recall-${recall.id}`}
+              className={`block rounded-lg bg-white shadow-[0_2px_15px_-3px_rgba(0,0,0,0.07),0_10px_20px_-2px_rgba(0,0,0,0.04)] w-full min-w-[250px] ${
+                recall.id === focusedRecallId ? 'ring-2 ring-blue-500' : ''
+              }`}
+            >
+              <div className="p-4">
+                <div className="flex justify-between items-start mb-1">
+                  <h5 className="text-lg font-bold leading-tight text-neutral-800">{recall.recall_number}</h5>
+                  <span className={`px-2 py-1 text-xs rounded-full ${
+                    recall.status === 'completed' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                  }`}>
+                    {recall.status === 'completed' ? 'Completed' : recall.status === 'scheduled' ? 'Scheduled' : 'Open'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 mb-2">
+                  {new Date(recall.recall_date).toLocaleDateString()} · {recall.manufacturer} · {recall.severity} severity
+                </div>
+                <div className="text-sm text-neutral-600 whitespace-pre-line">{recall.description}</div>
+                {recall.affected_components.length > 0 && (
+                  <div className="mt-2 text-xs text-gray-500">Components: {recall.affected_components.join(', ')}</div>
+                )}
+                {recall.remedy && (
+                  <div className="mt-3 border-t border-gray-100 pt-3 text-sm text-gray-700">Remedy: {recall.remedy}</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
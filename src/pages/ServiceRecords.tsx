@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useApp } from '../context/AppContext';
+import { formatMoney } from '../utils/currency';
+import useUnits from '../hooks/useUnits';
 import ServiceRecordModal from '../components/ServiceRecordModal';
 import VehicleSelectorDropdown from '../components/VehicleSelectorDropdown';
 import { useLocation, useNavigate } from 'react-router-dom';
@@ -51,6 +53,7 @@ export default function ServiceRecords() {
   const filteredRecords = selectedVehicleId 
     ? serviceRecords.filter(record => record.vehicle_id === selectedVehicleId)
     : serviceRecords;
+  const { formatOdometer } = useUnits(vehicles.find(vehicle => vehicle.id === selectedVehicleId));
     
   // Debug log the filtered records once when they change
   useEffect(() => {
@@ -110,11 +113,11 @@ export default function ServiceRecords() {
                   </div>
                   <div className="flex justify-between items-center mb-2">
                     <div className="text-xs text-gray-400 break-all">
-                      {record.mileage ? `${record.mileage} miles` : 'Mileage not recorded'}
+                      {record.mileage ? formatOdometer(record.mileage) : 'Mileage not recorded'}
                     </div>
                     <div className="text-sm font-medium">
                       {record.total_cost 
-                        ? `$${record.total_cost.toFixed(2)}` 
+                        ? formatMoney(record.total_cost, record.currency)
                         : 'Cost not specified'}
                     </div>
                   </div>
@@ -166,7 +169,7 @@ export default function ServiceRecords() {
           }} 
           vehicleId={selectedVehicleId}
           serviceRecordId={selectedServiceRecordId || undefined}
-          onSaveManualRecords={async (serviceRecord, serviceItems) => {
+          onSaveManualRecords={async (serviceRecord, serviceItems, options) => {
             try {
               let result;
               
@@ -177,7 +180,7 @@ export default function ServiceRecords() {
               } else {
                 // Create new record
                 const { createServiceRecord } = await import('../services/serviceRecordService');
-                result = await createServiceRecord(serviceRecord, serviceItems);
+                result = await createServiceRecord(serviceRecord, serviceItems, options);
               }
               
               if (result) {
@@ -2,18 +2,22 @@ import { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
+import MileageHistory from '../components/MileageHistory';
+import CostOfOwnershipReport from '../components/CostOfOwnershipReport';
+import useUnits from '../hooks/useUnits';
 import type { Vehicle, MaintenanceRecord, Document } from '../types';
 
 const VehicleDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { refreshVehicles, refreshMaintenanceRecords, refreshDocuments, setSelectedVehicle } = useApp();
+  const { refreshVehicles, refreshMaintenanceRecords, refreshDocuments, refreshOdometerReadings, setSelectedVehicle } = useApp();
   const [vehicle, setVehicle] = useState<Vehicle | null>(null);
   const [maintenanceRecords, setMaintenanceRecords] = useState<MaintenanceRecord[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState(false);
+  const { formatOdometer } = useUnits(vehicle);
 
   useEffect(() => {
     if (id) {
@@ -283,7 +287,7 @@ const VehicleDetail = () => {
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Current Mileage</h3>
                   <p className="mt-1 text-sm text-gray-900">
-                    {vehicle.mileage ? `${vehicle.mileage.toLocaleString()} miles` : 'Not specified'}
+                    {vehicle.mileage ? formatOdometer(vehicle.mileage) : 'Not specified'}
                   </p>
                 </div>
                 <div>
@@ -311,6 +315,21 @@ const VehicleDetail = () => {
               )}
             </div>
           </div>
+
+          {/* Mileage History */}
+          <MileageHistory
+            vehicleId={vehicle.id}
+            onLatestReadingChange={(reading) => {
+              if (reading) {
+                setVehicle(prev => (prev ? { ...prev, mileage: reading.mileage } : prev));
+              }
+              refreshVehicles();
+              refreshOdometerReadings();
+            }}
+          />
+
+          {/* Cost of Ownership */}
+          <CostOfOwnershipReport vehicle={vehicle} />
         </div>
 
         {/* Maintenance Summary */}
@@ -342,7 +361,7 @@ const VehicleDetail = () => {
                         {new Date(record.service_date).toLocaleDateString()}
                       </span>
                       <span className="text-gray-500">
-                        {record.mileage ? `${record.mileage.toLocaleString()} miles` : ''}
+                        {record.mileage ? formatOdometer(record.mileage) : ''}
                       </span>
                     </div>
                   </div>
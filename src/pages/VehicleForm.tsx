@@ -2,16 +2,25 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
 import { supabase } from '../services/supabase';
+import { applyMaintenanceTemplate } from '../services/maintenanceScheduleService';
+import MaintenanceTemplateSelect from '../components/MaintenanceTemplateSelect';
+import CurrencySelect from '../components/CurrencySelect';
+import useCurrency from '../hooks/useCurrency';
+import { DISTANCE_UNIT_LABELS, distanceUnitFor, fromMiles, getOdometerUnit, toMiles } from '../utils/units';
+import { toUnitSystem } from '../utils/fuelEconomy';
 import type { Vehicle } from '../types/index';
+import type { TemplateSelection } from '../utils/maintenanceTemplates';
 
 const VehicleForm = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user, refreshVehicles } = useApp();
+  const { currency: preferredCurrency } = useCurrency();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<TemplateSelection | null>(null);
 
   const [formData, setFormData] = useState<Partial<Vehicle>>({
     make: '',
@@ -26,14 +35,16 @@ const VehicleForm = () => {
   });
 
   const isEditMode = Boolean(id);
+  const defaultOdometerUnit = distanceUnitFor(toUnitSystem(user?.preferred_units));
+  const odometerUnit = getOdometerUnit(formData, user?.preferred_units);
 
   useEffect(() => {
     if (isEditMode && id) {
-      fetchVehicle(id);
+      fetchVehicle(id, user?.preferred_units);
     }
-  }, [isEditMode, id]);
+  }, [isEditMode, id, user?.preferred_units]);
 
-  const fetchVehicle = async (vehicleId: string) => {
+  const fetchVehicle = async (vehicleId: string, preferredUnits: string | null | undefined) => {
     try {
       setLoading(true);
       setError(null);
@@ -51,7 +62,11 @@ const VehicleForm = () => {
       
       if (data) {
         console.log('Vehicle data fetched:', data);
-        setFormData(data);
+        // Mileage is edited in the unit the odometer reads in
+        setFormData({
+          ...data,
+          mileage: data.mileage === null ? null : fromMiles(data.mileage, getOdometerUnit(data, preferredUnits)),
+        });
         if (data.image_url) {
           setImagePreview(data.image_url);
         }
@@ -165,9 +180,11 @@ const VehicleForm = () => {
         color: formData.color || null,
         license_plate: formData.license_plate || null,
         vin: formData.vin || null,
-        mileage: formData.mileage || null,
+        mileage: formData.mileage ? toMiles(formData.mileage, odometerUnit) : null,
+        odometer_unit: formData.odometer_unit || null,
         purchase_date: formData.purchase_date || null,
         purchase_price: formData.purchase_price || null,
+        purchase_price_currency: formData.purchase_price_currency || preferredCurrency,
         // Removed insurance_provider, insurance_policy, and notes as they don't exist in the schema
         user_id: user.id,
       };
@@ -208,6 +225,14 @@ const VehicleForm = () => {
         
         vehicleId = data.id;
         console.log('New vehicle created with ID:', vehicleId);
+        
+        // Seed the maintenance plan from the chosen manufacturer template
+        if (schedule) {
+          const pmItems = await applyMaintenanceTemplate(data.id, schedule);
+          if (!pmItems) {
+            console.error('Vehicle created, but the maintenance schedule could not be applied');
+          }
+        }
       }
       
       // Upload image if provided
@@ -493,7 +518,7 @@ const VehicleForm = () => {
                 htmlFor="mileage"
                 className="block text-sm font-medium leading-6 text-gray-900"
               >
-                Current Mileage
+                Current Mileage ({DISTANCE_UNIT_LABELS[odometerUnit]})
               </label>
               <div className="mt-2">
                 <input
@@ -508,6 +533,28 @@ const VehicleForm = () => {
               </div>
             </div>
 
+            <div>
+              <label
+                htmlFor="odometer_unit"
+                className="block text-sm font-medium leading-6 text-gray-900"
+              >
+                Odometer Reads In
+              </label>
+              <div className="mt-2">
+                <select
+                  id="odometer_unit"
+                  name="odometer_unit"
+                  value={formData.odometer_unit || ''}
+                  onChange={handleInputChange}
+                  className="form-input"
+                >
+                  <option value="">Account default ({DISTANCE_UNIT_LABELS[defaultOdometerUnit]})</option>
+                  <option value="mi">Miles</option>
+                  <option value="km">Kilometers</option>
+                </select>
+              </div>
+            </div>
+
             <div>
               <label
                 htmlFor="purchase_date"
@@ -534,7 +581,7 @@ const VehicleForm = () => {
               >
                 Purchase Price
               </label>
-              <div className="mt-2">
+              <div className="mt-2 flex gap-2">
                 <input
                   type="number"
                   id="purchase_price"
@@ -543,10 +590,24 @@ const VehicleForm = () => {
                   onChange={handleInputChange}
                   className="form-input"
                 />
+                <CurrencySelect
+                  value={formData.purchase_price_currency || preferredCurrency}
+                  onChange={currency => setFormData(prev => ({ ...prev, purchase_price_currency: currency }))}
+                  className="form-input w-24"
+                />
               </div>
             </div>
           </div>
 
+          {!isEditMode && formData.make && formData.model && formData.year && (
+            <MaintenanceTemplateSelect
+              vehicle={{ make: formData.make, model: formData.model, year: formData.year }}
+              value={schedule}
+              onChange={setSchedule}
+              allowNone
+            />
+          )}
+
           <div className="flex justify-end space-x-4 pt-4">
             <button
               type="button"
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
+import { formatDistance, getOdometerUnit } from '../utils/units';
 
 const VehicleList = () => {
   const { user, vehicles, refreshVehicles, isLoading } = useApp();
@@ -166,7 +167,7 @@ const VehicleList = () => {
                   {vehicle.mileage && (
                     <p className="text-sm text-gray-600">
                       <span className="font-medium">Mileage:</span>{' '}
-                      {vehicle.mileage.toLocaleString()} miles
+                      {formatDistance(vehicle.mileage, getOdometerUnit(vehicle, user?.preferred_units))}
                     </p>
                   )}
                 </div>
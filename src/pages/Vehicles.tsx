@@ -6,7 +6,10 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../services/supabase';
 import { useApp } from '../context/AppContext';
 import { createServiceRecord } from '../services/serviceRecordService';
-import type { Vehicle, ServiceRecordInsert, ServiceItemInsert, ServiceRecord } from '../types';
+import { DuplicateServiceRecordError } from '../services/duplicateDetectionService';
+import { applyMaintenanceTemplate } from '../services/maintenanceScheduleService';
+import type { Vehicle, ServiceRecordInsert, ServiceItemInsert, ServiceRecord, CreateServiceRecordOptions } from '../types';
+import type { TemplateSelection } from '../utils/maintenanceTemplates';
 
 
 export default function Vehicles() {
@@ -69,7 +72,7 @@ export default function Vehicles() {
   };
 
   // Add vehicle from VehicleModal
-  const handleAddVehicle = async (vehicle: any) => {
+  const handleAddVehicle = async (vehicle: any, schedule: TemplateSelection | null) => {
     if (!user) return;
     setLoading(true);
     setError(null);
@@ -78,9 +81,14 @@ export default function Vehicles() {
         ...vehicle,
         user_id: user.id,
       };
-      const { error } = await supabase.from('vehicles').insert(insertData);
+      const { data, error } = await supabase.from('vehicles').insert(insertData).select('id').single();
       if (error) throw error;
+      // Seed the maintenance plan from the chosen manufacturer template
+      const pmItems = schedule && data ? await applyMaintenanceTemplate(data.id, schedule) : [];
       await fetchVehicles();
+      if (!pmItems) {
+        setError('Vehicle added, but the maintenance schedule could not be created');
+      }
     } catch (err: any) {
       setError(err.message || 'Error adding vehicle');
     } finally {
@@ -128,7 +136,8 @@ export default function Vehicles() {
   // Save manually entered service records using the new schema
   const handleSaveManualServiceRecords = async (
     serviceRecord: ServiceRecordInsert,
-    serviceItems: ServiceItemInsert[]
+    serviceItems: ServiceItemInsert[],
+    options?: CreateServiceRecordOptions
   ): Promise<ServiceRecord | null> => {
     if (!user || !currentVehicleIdForService) {
       setError('User or Vehicle ID is missing. Cannot save service records.');
@@ -151,10 +160,11 @@ export default function Vehicles() {
     setError(null);
 
     try {
-      // Make sure the vehicle_id is set correctly
+      // Make sure the vehicle_id is set correctly; a receipt for another
+      // vehicle arrives with that vehicle's ID already set
       const recordToInsert: ServiceRecordInsert = {
         ...serviceRecord,
-        vehicle_id: currentVehicleIdForService
+        vehicle_id: serviceRecord.vehicle_id || currentVehicleIdForService
       };
 
       // Remove service_record_id from items as it will be assigned by the service
@@ -165,7 +175,7 @@ export default function Vehicles() {
       });
 
       // Use the service function to create the record and items
-      const result = await createServiceRecord(recordToInsert, itemsToInsert);
+      const result = await createServiceRecord(recordToInsert, itemsToInsert, options);
       
       if (!result) {
         throw new Error('Failed to create service record');
@@ -184,6 +194,8 @@ export default function Vehicles() {
       // Return the created record
       return result.record;
     } catch (err: any) {
+      // The modal asks the user what to do with a duplicate
+      if (err instanceof DuplicateServiceRecordError) throw err;
       setError(err.message || 'Error saving service record');
       console.error('Error saving service record:', err);
       return null;
@@ -0,0 +1,224 @@
+import type { Document, DocumentStatus } from '../types';
+import { analyzeFile, UsageLimitError } from './documentAnalysisService';
+import { getDocumentFile, updateDocumentStatus, uploadDocument } from './documentService';
+import { FILED_ONLY_DOCUMENT_TYPES } from '../data/documentTypes';
+
+// PDFs are read and rasterized in the browser, so analyses are kept to a few at a time
+const ANALYSIS_CONCURRENCY = 2;
+const UPLOAD_CONCURRENCY = 3;
+const MAX_ATTEMPTS = 3;
+// Doubled after each failed attempt
+const RETRY_DELAY_MS = 5000;
+
+export type QueueEntryStatus = 'uploading' | DocumentStatus;
+
+export type QueueEntry = {
+  key: string;
+  fileName: string;
+  vehicleId: string;
+  // Set once the upload has created the documents row
+  documentId: string | null;
+  status: QueueEntryStatus;
+  attempts: number;
+  error: string | null;
+};
+
+type QueueItem = QueueEntry & {
+  file: File;
+  // Analysis is not retried before this time
+  retryAt: number;
+};
+
+let items: QueueItem[] = [];
+// Snapshot handed to subscribers; replaced on every change so React sees a new value
+let entries: QueueEntry[] = [];
+const listeners = new Set<() => void>();
+const running = new Set<string>();
+
+const toEntry = (item: QueueItem): QueueEntry => ({
+  key: item.key,
+  fileName: item.fileName,
+  vehicleId: item.vehicleId,
+  documentId: item.documentId,
+  status: item.status,
+  attempts: item.attempts,
+  error: item.error,
+});
+
+const emit = () => {
+  entries = items.map(toEntry);
+  listeners.forEach(listener => listener());
+};
+
+const update = (key: string, changes: Partial<QueueItem>) => {
+  items = items.map(item => (item.key === key ? { ...item, ...changes } : item));
+  emit();
+};
+
+const isActive = (status: QueueEntryStatus) => status === 'uploading' || status === 'queued' || status === 'analyzing';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error occurred');
+
+const upload = async (item: QueueItem) => {
+  running.add(item.key);
+  try {
+    const documentId = await uploadDocument(item.file, item.vehicleId);
+    update(item.key, { documentId, status: 'queued', error: null });
+  } catch (error) {
+    // Upload errors (unsupported type, missing bucket) won't go away on their own
+    console.error(`Error uploading ${item.fileName}:`, error);
+    update(item.key, { status: 'failed', error: errorMessage(error) });
+  } finally {
+    running.delete(item.key);
+    processQueue();
+  }
+};
+
+const analyze = async (item: QueueItem & { documentId: string }) => {
+  const attempts = item.attempts + 1;
+  running.add(item.key);
+  update(item.key, { status: 'analyzing', attempts, error: null });
+
+  try {
+    // The server marks the document as needs_review after the last page, or as
+    // saved when its type is only filed (insurance cards, toll receipts)
+    const result = await analyzeFile(item.documentId, item.file);
+    const filedOnly = result.documentType && FILED_ONLY_DOCUMENT_TYPES.includes(result.documentType);
+    update(item.key, { status: filedOnly ? 'saved' : 'needs_review' });
+  } catch (error) {
+    const message = errorMessage(error);
+    console.error(`Error analyzing ${item.fileName} (attempt ${attempts}):`, error);
+
+    // Over-quota requests would only be refused again, so they fail at once
+    if (attempts < MAX_ATTEMPTS && !(error instanceof UsageLimitError)) {
+      const delay = RETRY_DELAY_MS * 2 ** (attempts - 1);
+      update(item.key, { status: 'queued', error: message, retryAt: Date.now() + delay });
+      await updateDocumentStatus(item.documentId, 'queued', message);
+      setTimeout(processQueue, delay);
+    } else {
+      update(item.key, { status: 'failed', error: message });
+      await updateDocumentStatus(item.documentId, 'failed', message);
+    }
+  } finally {
+    running.delete(item.key);
+    processQueue();
+  }
+};
+
+/**
+ * Start queued work up to the concurrency limits. Uploads go first so every
+ * file gets its documents row (and a status in the list) as soon as possible.
+ */
+function processQueue() {
+  const waiting = items.filter(item => !running.has(item.key));
+  const inFlight = items.filter(item => running.has(item.key));
+  let uploads = inFlight.filter(item => item.status === 'uploading').length;
+  let analyses = inFlight.filter(item => item.status === 'analyzing').length;
+
+  for (const item of waiting) {
+    if (item.status === 'uploading' && uploads < UPLOAD_CONCURRENCY) {
+      uploads++;
+      upload(item);
+    } else if (
+      item.status === 'queued' &&
+      item.documentId &&
+      item.retryAt <= Date.now() &&
+      analyses < ANALYSIS_CONCURRENCY
+    ) {
+      analyses++;
+      analyze({ ...item, documentId: item.documentId });
+    }
+  }
+}
+
+/**
+ * Upload files and analyze them in the background. Each file gets its documents
+ * row right away; the analysis result is stored on it for review later.
+ * @param files The images or PDFs to upload
+ * @param vehicleId ID of the vehicle the documents belong to
+ */
+export const enqueueDocuments = (files: File[], vehicleId: string) => {
+  const added = files.map(file => ({
+    key: crypto.randomUUID(),
+    fileName: file.name,
+    vehicleId,
+    documentId: null,
+    status: 'uploading' as const,
+    attempts: 0,
+    error: null,
+    file,
+    retryAt: 0,
+  }));
+  items = [...items, ...added];
+  emit();
+  processQueue();
+};
+
+/**
+ * Analyze a document again, e.g. after it failed. Documents from an earlier
+ * session are downloaded from storage first.
+ * @param document The documents row
+ * @returns An error message, or null once the document is queued
+ */
+export const retryDocument = async (document: Document): Promise<string | null> => {
+  const existing = items.find(item => item.documentId === document.id);
+  if (existing && isActive(existing.status)) return null;
+
+  try {
+    const file = existing?.file || (await getDocumentFile(document));
+    const retried: QueueItem = {
+      key: existing?.key || crypto.randomUUID(),
+      fileName: document.file_name,
+      vehicleId: document.vehicle_id,
+      documentId: document.id,
+      status: 'queued',
+      attempts: 0,
+      error: null,
+      file,
+      retryAt: 0,
+    };
+    items = existing ? items.map(item => (item.key === retried.key ? retried : item)) : [...items, retried];
+    emit();
+    await updateDocumentStatus(document.id, 'queued');
+    processQueue();
+    return null;
+  } catch (error) {
+    console.error('Error retrying document analysis:', error);
+    return errorMessage(error);
+  }
+};
+
+/**
+ * Try the upload of a file again after it failed
+ * @param key Key of the queue entry
+ */
+export const retryUpload = (key: string) => {
+  update(key, { status: 'uploading', error: null });
+  processQueue();
+};
+
+/**
+ * Remove entries that no longer need attention from the queue
+ */
+export const clearFinishedEntries = () => {
+  items = items.filter(item => isActive(item.status) || (item.status === 'failed' && !item.documentId));
+  emit();
+};
+
+export const subscribeToQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getQueueEntries = () => entries;
+
+// Files only live in this tab until they are uploaded and analyzed
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeunload', event => {
+    if (items.some(item => isActive(item.status))) {
+      event.preventDefault();
+    }
+  });
+}
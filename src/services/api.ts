@@ -0,0 +1,26 @@
+import { supabase } from './supabase';
+
+// Base URL of the Express API in server.js
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3005';
+
+/**
+ * Call an authenticated API route, passing the Supabase session token
+ * so the server can verify who is calling
+ * @param path Route path, e.g. /api/push/subscribe
+ * @param init Standard fetch options
+ * @returns The fetch response
+ */
+export const authorizedFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You must be signed in');
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${session.access_token}`);
+  if (init.body && !(init.body instanceof FormData) && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  return fetch(`${API_URL}${path}`, { ...init, headers });
+};
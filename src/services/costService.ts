@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+import type { CostCollections } from '../utils/costOfOwnership';
+
+const emptyCollections = (): CostCollections => ({
+  serviceRecords: [],
+  serviceItems: [],
+  maintenanceRecords: [],
+  fuelEntries: [],
+  expenses: [],
+  odometerReadings: [],
+});
+
+/**
+ * Get everything spent on several vehicles at once, for the cost of ownership report
+ * and its fleet comparison
+ * @param vehicleIds The IDs of the user's vehicles
+ * @returns The records for all of the vehicles (empty collections on error)
+ */
+export const getCostCollections = async (vehicleIds: string[]): Promise<CostCollections> => {
+  if (vehicleIds.length === 0) {
+    return emptyCollections();
+  }
+
+  try {
+    const [recordsResult, maintenanceResult, fuelResult, expensesResult, readingsResult] = await Promise.all([
+      supabase.from('service_records').select().in('vehicle_id', vehicleIds),
+      supabase.from('maintenance_records').select().in('vehicle_id', vehicleIds),
+      supabase.from('fuel_entries').select().in('vehicle_id', vehicleIds),
+      supabase.from('vehicle_expenses').select().in('vehicle_id', vehicleIds).order('expense_date', { ascending: false }),
+      supabase.from('odometer_readings').select().in('vehicle_id', vehicleIds),
+    ]);
+
+    const error = recordsResult.error || maintenanceResult.error || fuelResult.error || expensesResult.error || readingsResult.error;
+    if (error) {
+      console.error('Error fetching cost records:', error);
+      return emptyCollections();
+    }
+
+    const serviceRecords = recordsResult.data || [];
+    let serviceItems: CostCollections['serviceItems'] = [];
+    if (serviceRecords.length > 0) {
+      const { data: items, error: itemsError } = await supabase
+        .from('service_items')
+        .select()
+        .in('service_record_id', serviceRecords.map(record => record.id));
+
+      if (itemsError) {
+        console.error('Error fetching service items for costs:', itemsError);
+      } else {
+        serviceItems = items || [];
+      }
+    }
+
+    return {
+      serviceRecords,
+      serviceItems,
+      maintenanceRecords: maintenanceResult.data || [],
+      fuelEntries: fuelResult.data || [],
+      expenses: expensesResult.data || [],
+      odometerReadings: readingsResult.data || [],
+    };
+  } catch (error) {
+    console.error('Exception fetching cost records:', error);
+    return emptyCollections();
+  }
+};
@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+import type { DashboardCollections } from '../utils/dashboard';
+
+const emptyCollections = (): DashboardCollections => ({
+  serviceRecords: [],
+  serviceItems: [],
+  documents: [],
+  recallNotices: [],
+  odometerReadings: [],
+});
+
+/**
+ * Get the records for several vehicles at once, for the fleet-wide Dashboard summary
+ * @param vehicleIds The IDs of the user's vehicles
+ * @returns The records for all of the vehicles (empty collections on error)
+ */
+export const getFleetCollections = async (vehicleIds: string[]): Promise<DashboardCollections> => {
+  if (vehicleIds.length === 0) {
+    return emptyCollections();
+  }
+
+  try {
+    const [recordsResult, documentsResult, recallsResult, readingsResult] = await Promise.all([
+      supabase.from('service_records').select().in('vehicle_id', vehicleIds),
+      supabase.from('documents').select().in('vehicle_id', vehicleIds).order('created_at', { ascending: false }),
+      supabase.from('recall_notices').select().in('vehicle_id', vehicleIds),
+      supabase.from('odometer_readings').select().in('vehicle_id', vehicleIds).order('reading_date', { ascending: true }),
+    ]);
+
+    const error = recordsResult.error || documentsResult.error || recallsResult.error || readingsResult.error;
+    if (error) {
+      console.error('Error fetching fleet records:', error);
+      return emptyCollections();
+    }
+
+    const serviceRecords = recordsResult.data || [];
+    let serviceItems: DashboardCollections['serviceItems'] = [];
+    if (serviceRecords.length > 0) {
+      const { data: items, error: itemsError } = await supabase
+        .from('service_items')
+        .select()
+        .in('service_record_id', serviceRecords.map(record => record.id));
+
+      if (itemsError) {
+        console.error('Error fetching fleet service items:', itemsError);
+      } else {
+        serviceItems = items || [];
+      }
+    }
+
+    return {
+      serviceRecords,
+      serviceItems,
+      documents: documentsResult.data || [],
+      recallNotices: recallsResult.data || [],
+      odometerReadings: readingsResult.data || [],
+    };
+  } catch (error) {
+    console.error('Exception fetching fleet records:', error);
+    return emptyCollections();
+  }
+};
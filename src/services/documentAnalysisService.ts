@@ -0,0 +1,332 @@
+import { format } from 'date-fns';
+import { authorizedFetch } from './api';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { DocumentAnalysisResult } from '../types';
+// @ts-ignore
+import heic2any from 'heic2any';
+
+// PDF pages read and sent to the server per request; the server merges the batches
+const PDF_PAGE_BATCH_SIZE = 4;
+
+// Pages whose text layer has fewer characters than this are treated as scanned
+// and rendered to an image instead
+const MIN_TEXT_LAYER_CHARS = 40;
+
+// Text items closer than this vertically (in PDF units) belong to the same line
+const LINE_TOLERANCE = 2;
+
+// A horizontal gap wider than this separates two table columns
+const COLUMN_GAP = 10;
+
+/**
+ * A page as sent to the server: an image for photos and scanned pages,
+ * the text layer for digital PDF pages
+ */
+type AnalysisPage = { image: string } | { text: string };
+
+/**
+ * Thrown when the server refuses an analysis because the user has used up
+ * this month's quota; retrying won't help until the next month
+ */
+export class UsageLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
+
+/**
+ * Progress of a PDF analysis. Reading a page and analyzing it each count as
+ * half of that page, so fraction moves with every page rather than every batch.
+ */
+export type PdfAnalysisProgress = {
+  currentPage: number;
+  totalPages: number;
+  fraction: number;
+};
+
+/**
+ * Sends the pages of an uploaded document to the server for extraction.
+ * The OpenAI key and prompt live on the server; the route checks that the
+ * signed-in user owns the document's vehicle.
+ * @param documentId ID of the documents row the pages belong to
+ * @param pages One image or text per page
+ * @param pageCount Total number of pages in the document
+ * @param firstPage Page number of the first page, for documents sent in batches
+ * @returns Structured analysis of the vehicle document
+ */
+const requestAnalysis = async (
+  documentId: string,
+  pages: AnalysisPage[],
+  pageCount: number,
+  firstPage = 1
+): Promise<DocumentAnalysisResult> => {
+  const response = await authorizedFetch(`/api/documents/${documentId}/analyze`, {
+    method: 'POST',
+    // The server checks extracted dates against the user's local date, not its own
+    body: JSON.stringify({ pages, pageCount, firstPage, today: format(new Date(), 'yyyy-MM-dd') }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    if (response.status === 429) {
+      throw new UsageLimitError(body?.error || 'Monthly usage limit reached');
+    }
+    throw new Error(body?.error || `Document analysis failed (${response.status})`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Analyzes an image document
+ * @param documentId ID of the uploaded document
+ * @param imageBase64 Base64 encoded image data
+ * @returns Structured analysis of the vehicle document
+ */
+export const analyzeImage = async (documentId: string, imageBase64: string): Promise<DocumentAnalysisResult> => {
+  try {
+    return await requestAnalysis(documentId, [{ image: `data:image/jpeg;base64,${imageBase64}` }], 1);
+  } catch (error) {
+    console.error('Error analyzing image:', error);
+    throw error;
+  }
+};
+
+/**
+ * Loads a PDF file with PDF.js (imported on first use)
+ * @param file The PDF file
+ * @returns The loaded document
+ */
+export const loadPdfDocument = async (file: File): Promise<PDFDocumentProxy> => {
+  // Import PDF.js dynamically
+  const pdfjsLib = await import('pdfjs-dist');
+  
+  // Set up the worker - use a more reliable approach
+  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = '/js/pdf.worker.min.js';
+  }
+  
+  // Convert file to array buffer
+  const arrayBuffer = await file.arrayBuffer();
+  
+  // Load the PDF with better error handling
+  try {
+    return await pdfjsLib.getDocument({ 
+      data: arrayBuffer,
+      cMapUrl: 'https://unpkg.com/pdfjs-dist@3.11.174/cmaps/',
+      cMapPacked: true,
+    }).promise;
+  } catch (pdfError) {
+    console.error('PDF loading error:', pdfError);
+    throw new Error(`Failed to load PDF: ${pdfError instanceof Error ? pdfError.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * Analyzes a PDF document. Pages with a text layer are sent as text, which is
+ * cheaper and reads line-item tables more accurately; only scanned pages are
+ * rendered to images. Pages are sent in batches of PDF_PAGE_BATCH_SIZE; the
+ * result of the last batch covers the whole document.
+ * @param documentId ID of the uploaded document
+ * @param file The PDF file
+ * @param onProgress Called after every page read and every analyzed batch
+ * @returns Structured analysis of the vehicle document
+ */
+export const analyzePdf = async (
+  documentId: string,
+  file: File,
+  onProgress?: (progress: PdfAnalysisProgress) => void
+): Promise<DocumentAnalysisResult> => {
+  try {
+    const pdf = await loadPdfDocument(file);
+    
+    const numPages = pdf.numPages;
+    console.log(`PDF has ${numPages} pages`);
+    
+    let completedSteps = 0;
+    const reportProgress = (currentPage: number, steps: number) => {
+      completedSteps += steps;
+      onProgress?.({ currentPage, totalPages: numPages, fraction: completedSteps / (numPages * 2) });
+    };
+    
+    let result: DocumentAnalysisResult | null = null;
+    for (let firstPage = 1; firstPage <= numPages; firstPage += PDF_PAGE_BATCH_SIZE) {
+      const lastPage = Math.min(firstPage + PDF_PAGE_BATCH_SIZE - 1, numPages);
+      
+      // Read one page at a time to keep memory down on long documents
+      const pages: AnalysisPage[] = [];
+      for (let pageNum = firstPage; pageNum <= lastPage; pageNum++) {
+        const text = await extractPageText(pdf, pageNum);
+        pages.push(text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS
+          ? { text }
+          : { image: await convertPdfPageToImage(pdf, pageNum) });
+        reportProgress(pageNum, 1);
+      }
+      
+      result = await requestAnalysis(documentId, pages, numPages, firstPage);
+      reportProgress(lastPage, pages.length);
+    }
+    
+    if (!result) {
+      throw new Error('The PDF has no pages');
+    }
+    return result;
+  } catch (error) {
+    console.error('Error analyzing PDF:', error);
+    throw new Error(`PDF analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * A run of text on a PDF page, in PDF units (origin at the bottom left)
+ */
+export type PdfTextItem = {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Reads the text layer of a PDF page grouped into lines. Items are grouped by
+ * their baseline; lines run top to bottom and their items left to right.
+ * @returns The lines of the page, empty for scanned pages
+ */
+export const getPdfPageLines = async (pdf: PDFDocumentProxy, pageNum: number): Promise<PdfTextItem[][]> => {
+  const page = await pdf.getPage(pageNum);
+  const content = await page.getTextContent();
+  const items = content.items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4] as number,
+      y: item.transform[5] as number,
+      width: item.width,
+      height: item.height,
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+  
+  const lines: PdfTextItem[][] = [];
+  items.forEach(item => {
+    const line = lines.find(candidate => Math.abs(candidate[0].y - item.y) <= LINE_TOLERANCE);
+    if (line) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+  
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+};
+
+/**
+ * Reads the text layer of a PDF page, one line per row of the page.
+ * Wide gaps become several spaces so table columns stay apart.
+ * @returns The page text, empty for scanned pages
+ */
+const extractPageText = async (pdf: PDFDocumentProxy, pageNum: number): Promise<string> => {
+  const lines = await getPdfPageLines(pdf, pageNum);
+  return lines
+    .map(line => line.reduce((text, item, index) => {
+      if (index === 0) return item.text;
+      const previous = line[index - 1];
+      const gap = item.x - (previous.x + previous.width);
+      return text + (gap > COLUMN_GAP ? '    ' : gap > 1 ? ' ' : '') + item.text;
+    }, ''))
+    .join('\n');
+};
+
+/**
+ * Converts a single PDF page to a base64 image data URL
+ */
+const convertPdfPageToImage = async (pdf: PDFDocumentProxy, pageNum: number): Promise<string> => {
+  const page = await pdf.getPage(pageNum);
+  const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better quality
+  
+  // Create canvas
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser');
+  }
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+  
+  // Render page to canvas
+  const renderContext = {
+    canvasContext: context,
+    canvas,
+    viewport: viewport
+  };
+  
+  await page.render(renderContext).promise;
+  
+  // Convert canvas to base64 data URL
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Converts a file to base64 encoding; HEIC photos are converted to JPEG first
+ * @param file - The file to convert
+ * @returns Promise resolving to base64 string
+ */
+const fileToBase64 = async (file: File): Promise<string> => {
+  let targetFile = file;
+  // Convert HEIC to JPEG if needed
+  if (file.type === 'image/heic' || file.name.toLowerCase().endsWith('.heic')) {
+    try {
+      const jpegBlob = await heic2any({
+        blob: file,
+        toType: 'image/jpeg',
+        quality: 0.95,
+      });
+      // heic2any returns a Blob or an array of Blobs
+      const blob = Array.isArray(jpegBlob) ? jpegBlob[0] : jpegBlob;
+      // Convert Blob to File to maintain compatibility
+      targetFile = new File([blob], file.name.replace(/\.heic$/i, '.jpg'), { type: 'image/jpeg', lastModified: Date.now() });
+    } catch (err) {
+      throw new Error('Failed to convert HEIC to JPEG: ' + (err instanceof Error ? err.message : String(err)));
+    }
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(targetFile);
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
+        const base64 = reader.result.split(',')[1];
+        resolve(base64);
+      } else {
+        reject(new Error('Failed to convert file to base64'));
+      }
+    };
+    reader.onerror = error => reject(error);
+  });
+};
+
+/**
+ * Analyzes an uploaded image or PDF
+ * @param documentId ID of the uploaded document
+ * @param file The file that was uploaded
+ * @param onProgress Page progress, for PDFs
+ * @returns Structured analysis of the vehicle document
+ */
+export const analyzeFile = async (
+  documentId: string,
+  file: File,
+  onProgress?: (progress: PdfAnalysisProgress) => void
+): Promise<DocumentAnalysisResult> => {
+  if (file.type.startsWith('image/')) {
+    return analyzeImage(documentId, await fileToBase64(file));
+  }
+  return analyzePdf(documentId, file, onProgress);
+};
+
+export default {
+  analyzeImage,
+  analyzePdf,
+  analyzeFile,
+};
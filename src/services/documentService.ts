@@ -0,0 +1,145 @@
+import supabase, { supabaseServiceRole } from './supabase';
+import type { Document, DocumentStatus } from '../types';
+
+/**
+ * SHA-256 of a file's content, hex encoded. The same receipt uploaded twice has the same hash.
+ */
+export const getFileHash = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Uploads a file to the documents bucket and creates its documents row.
+ * The row is created before analysis; the server checks ownership through it
+ * and stores the analysis result on it.
+ * @param file The image or PDF to upload
+ * @param vehicleId ID of the vehicle the document belongs to
+ * @returns The ID of the new documents row
+ */
+export const uploadDocument = async (file: File, vehicleId: string): Promise<string> => {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new Error('Unsupported file type. Please upload an image or PDF.');
+  }
+  
+  const fileExt = file.name.split('.').pop();
+  // Batch uploads start many files in the same millisecond
+  const fileName = `${vehicleId}/${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${fileExt}`;
+  
+  console.log(`Attempting to upload file: ${fileName} to documents bucket`);
+  
+  // Use service role client for storage upload to bypass RLS
+  const storageClient = supabaseServiceRole || supabase;
+  
+  const { error: uploadError } = await storageClient.storage
+    .from('documents')
+    .upload(fileName, file);
+  
+  if (uploadError) {
+    console.error('Upload error details:', uploadError);
+    
+    if (uploadError.message.includes('Bucket not found')) {
+      throw new Error('Storage bucket "documents" not found. Please create this bucket in your Supabase project dashboard.');
+    } else if (uploadError.message.includes('row-level security policy')) {
+      throw new Error('Permission denied: Please ensure the documents storage bucket has the correct RLS policies configured.');
+    } else {
+      throw new Error(`Error uploading file: ${uploadError.message}`);
+    }
+  }
+  
+  // Get public URL for the uploaded file (can use regular client for this)
+  const { data: { publicUrl } } = supabase.storage
+    .from('documents')
+    .getPublicUrl(fileName);
+  
+  // Note: service_record_id will be updated later when the service record is saved
+  const { data: documentData, error: dbError } = await supabase
+    .from('documents')
+    .insert({
+      vehicle_id: vehicleId,
+      file_name: file.name,
+      file_type: file.type,
+      file_url: publicUrl,
+      file_size: file.size,
+      content_hash: await getFileHash(file),
+      analyzed: false,
+      status: 'queued',
+      service_record_id: null
+    })
+    .select('id')
+    .single();
+  
+  if (dbError) throw new Error(`Error saving document: ${dbError.message}`);
+  if (!documentData) throw new Error('Failed to retrieve document ID after insert');
+  
+  return documentData.id;
+};
+
+/**
+ * Downloads a stored document again, e.g. to retry its analysis after a reload
+ * @param document The documents row
+ * @returns The file, with its original name and type
+ */
+export const getDocumentFile = async (document: Pick<Document, 'file_url' | 'file_name' | 'file_type'>): Promise<File> => {
+  const response = await fetch(document.file_url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${document.file_name} (${response.status})`);
+  }
+  const blob = await response.blob();
+  return new File([blob], document.file_name, { type: document.file_type });
+};
+
+/**
+ * Set where a document is in background analysis
+ * @param documentId The ID of the document
+ * @param status The new status
+ * @param analysisError Why analysis failed, for the failed status
+ * @returns true if successful, false otherwise
+ */
+export const updateDocumentStatus = async (
+  documentId: string,
+  status: DocumentStatus,
+  analysisError: string | null = null
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('documents')
+      .update({ status, analysis_error: analysisError })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('Error updating document status:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Exception updating document status:', error);
+    return false;
+  }
+};
+
+/**
+ * File a document under another vehicle, e.g. when it turns out to be for a different car
+ * @param documentId The ID of the document
+ * @param vehicleId The vehicle it belongs to
+ * @returns true if successful, false otherwise
+ */
+export const moveDocumentToVehicle = async (documentId: string, vehicleId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('documents')
+      .update({ vehicle_id: vehicleId })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('Error moving document to vehicle:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Exception moving document to vehicle:', error);
+    return false;
+  }
+};
@@ -0,0 +1,186 @@
+import { supabase } from './supabase';
+import type { DuplicateMatch, ServiceItem, ServiceItemInsert, ServiceRecord, ServiceRecordInsert } from '../types';
+
+// Records further apart than this are never considered the same visit
+const DATE_WINDOW_DAYS = 7;
+// Minimum score for a record to be offered as a duplicate
+const DUPLICATE_THRESHOLD = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown by createServiceRecord when the record looks like one that is already
+ * saved; the caller asks the user whether to merge, link or keep both
+ */
+export class DuplicateServiceRecordError extends Error {
+  matches: DuplicateMatch[];
+
+  constructor(matches: DuplicateMatch[]) {
+    super('This service record looks like one that is already saved');
+    this.name = 'DuplicateServiceRecordError';
+    this.matches = matches;
+  }
+}
+
+const shiftDate = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+const daysBetween = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS;
+
+const words = (text: string | null | undefined) =>
+  new Set((text || '').toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').split(' ').filter(word => word.length > 1));
+
+// Share of the elements the two sets have in common
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter(value => b.has(value)).length;
+  return shared / new Set([...a, ...b]).size;
+};
+
+const sameAmount = (a: number | null | undefined, b: number | null | undefined) =>
+  a != null && b != null && Math.abs(a - b) <= Math.max(1, Math.max(a, b) * 0.01);
+
+/**
+ * Score how likely two service records describe the same visit, from the
+ * service date, total, provider name and the types of work done
+ */
+const scoreMatch = (
+  record: ServiceRecordInsert,
+  items: Pick<ServiceItemInsert, 'service_type'>[],
+  existing: ServiceRecord,
+  existingItems: ServiceItem[]
+) => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const days = daysBetween(record.service_date, existing.service_date);
+  if (days < 1) {
+    score += 0.35;
+    reasons.push('Same service date');
+  } else if (days <= 3) {
+    score += 0.2;
+    reasons.push(`Service dates ${Math.round(days)} days apart`);
+  } else {
+    score += 0.1;
+  }
+
+  if (sameAmount(record.total_cost, existing.total_cost)) {
+    score += 0.3;
+    reasons.push('Same total');
+  }
+
+  if (overlap(words(record.service_provider), words(existing.service_provider)) >= 0.5) {
+    score += 0.15;
+    reasons.push('Same provider');
+  }
+
+  const typeOverlap = overlap(
+    new Set(items.map(item => item.service_type)),
+    new Set(existingItems.map(item => item.service_type))
+  );
+  if (typeOverlap > 0) {
+    score += 0.2 * typeOverlap;
+    reasons.push(typeOverlap === 1 ? 'Same services' : 'Some of the same services');
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+};
+
+/**
+ * Records already saved from a file with the same content as this document
+ */
+const findSameFileRecordIds = async (documentId: string, vehicleId: string): Promise<string[]> => {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('content_hash')
+    .eq('id', documentId)
+    .single();
+
+  if (error || !document?.content_hash) {
+    if (error) console.error('Error fetching document hash:', error);
+    return [];
+  }
+
+  const { data: copies, error: copiesError } = await supabase
+    .from('documents')
+    .select('service_record_id')
+    .eq('vehicle_id', vehicleId)
+    .eq('content_hash', document.content_hash)
+    .neq('id', documentId)
+    .not('service_record_id', 'is', null);
+
+  if (copiesError) {
+    console.error('Error fetching documents with the same content:', copiesError);
+    return [];
+  }
+
+  return (copies || []).map(copy => copy.service_record_id).filter((id): id is string => !!id);
+};
+
+/**
+ * Find saved service records of the same vehicle that look like the one being saved
+ * @param serviceRecord The service record about to be created
+ * @param serviceItems Its service items
+ * @param documentId The uploaded document it was extracted from, to compare file contents
+ * @returns Likely duplicates, best match first; empty if none or on error
+ */
+export const findDuplicateServiceRecords = async (
+  serviceRecord: ServiceRecordInsert,
+  serviceItems: Pick<ServiceItemInsert, 'service_type'>[],
+  documentId?: string | null
+): Promise<DuplicateMatch[]> => {
+  try {
+    if (!serviceRecord.vehicle_id || !serviceRecord.service_date) return [];
+
+    const sameFileIds = documentId ? await findSameFileRecordIds(documentId, serviceRecord.vehicle_id) : [];
+
+    const { data: nearby, error } = await supabase
+      .from('service_records')
+      .select()
+      .eq('vehicle_id', serviceRecord.vehicle_id)
+      .gte('service_date', shiftDate(serviceRecord.service_date, -DATE_WINDOW_DAYS))
+      .lte('service_date', shiftDate(serviceRecord.service_date, DATE_WINDOW_DAYS));
+
+    if (error) {
+      console.error('Error fetching service records for duplicate check:', error);
+      return [];
+    }
+
+    // Same-file records can have any date if the earlier extraction got it wrong
+    const missingIds = sameFileIds.filter(id => !(nearby || []).some(record => record.id === id));
+    let records = nearby || [];
+    if (missingIds.length > 0) {
+      const { data: sameFile } = await supabase.from('service_records').select().in('id', missingIds);
+      records = [...records, ...(sameFile || [])];
+    }
+    if (records.length === 0) return [];
+
+    const { data: allItems, error: itemsError } = await supabase
+      .from('service_items')
+      .select()
+      .in('service_record_id', records.map(record => record.id));
+
+    if (itemsError) {
+      console.error('Error fetching service items for duplicate check:', itemsError);
+    }
+
+    return records
+      .map(record => {
+        const items = (allItems || []).filter(item => item.service_record_id === record.id);
+        const sameFile = sameFileIds.includes(record.id);
+        const { score, reasons } = scoreMatch(serviceRecord, serviceItems, record, items);
+        return {
+          record,
+          items,
+          sameFile,
+          score: sameFile ? 1 : score,
+          reasons: sameFile ? ['Same file', ...reasons] : reasons,
+        };
+      })
+      .filter(match => match.score >= DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+  } catch (error) {
+    console.error('Exception checking for duplicate service records:', error);
+    return [];
+  }
+};
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import type { ExchangeRate } from '../types';
+
+/**
+ * Get the exchange rates the user has entered
+ * @returns The user's rates; currencies without one use the defaults in utils/currency
+ */
+export const getExchangeRates = async (): Promise<ExchangeRate[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select()
+      .order('currency');
+
+    if (error) {
+      console.error('Error fetching exchange rates:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Exception fetching exchange rates:', error);
+    return [];
+  }
+};
+
+/**
+ * Set how many units of a currency one US dollar buys
+ * @param userId The ID of the user
+ * @param currency ISO 4217 code
+ * @param unitsPerUsd The rate
+ * @returns The saved rate, or null if there was an error
+ */
+export const saveExchangeRate = async (userId: string, currency: string, unitsPerUsd: number): Promise<ExchangeRate | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        { user_id: userId, currency, units_per_usd: unitsPerUsd, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,currency' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving exchange rate:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Exception saving exchange rate:', error);
+    return null;
+  }
+};
+
+/**
+ * Remove the user's rate for a currency so the default applies again
+ * @returns true if successful, false otherwise
+ */
+export const deleteExchangeRate = async (userId: string, currency: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('user_id', userId)
+      .eq('currency', currency);
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Exception deleting exchange rate:', error);
+    return false;
+  }
+};
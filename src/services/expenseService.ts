@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import type { VehicleExpense, VehicleExpenseInsert } from '../types';
+
+/**
+ * Add an expense that is neither service nor fuel, such as an insurance premium
+ * @param expense The expense to add
+ * @returns The created expense, or null if there was an error
+ */
+export const createVehicleExpense = async (expense: VehicleExpenseInsert): Promise<VehicleExpense | null> => {
+  try {
+    if (!expense.vehicle_id) {
+      console.error('Vehicle ID is required');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('vehicle_expenses')
+      .insert(expense)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vehicle expense:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Exception creating vehicle expense:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete an expense
+ * @param id The ID of the expense
+ * @returns true if successful, false otherwise
+ */
+export const deleteVehicleExpense = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('vehicle_expenses')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting vehicle expense:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Exception deleting vehicle expense:', error);
+    return false;
+  }
+};
@@ -0,0 +1,113 @@
+import { supabase } from './supabase';
+import { syncFuelEntryOdometerReading, syncVehicleMileage } from './odometerService';
+import type { FuelEntry, FuelEntryInsert } from '../types';
+
+/**
+ * Get the fill-ups for a vehicle, newest first
+ * @param vehicleId The ID of the vehicle
+ * @returns An array of fuel entries
+ */
+export const getFuelEntries = async (vehicleId: string): Promise<FuelEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('fuel_entries')
+      .select()
+      .eq('vehicle_id', vehicleId)
+      .order('fill_date', { ascending: false })
+      .order('odometer', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching fuel entries:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Exception fetching fuel entries:', error);
+    return [];
+  }
+};
+
+/**
+ * Add a fill-up and record its odometer reading
+ * @param entry The fill-up to add
+ * @returns The created entry, or null if there was an error
+ */
+export const createFuelEntry = async (entry: FuelEntryInsert): Promise<FuelEntry | null> => {
+  try {
+    if (!entry.vehicle_id) {
+      console.error('Vehicle ID is required');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('fuel_entries')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating fuel entry:', error);
+      return null;
+    }
+
+    await syncFuelEntryOdometerReading(data);
+    return data;
+  } catch (error) {
+    console.error('Exception creating fuel entry:', error);
+    return null;
+  }
+};
+
+/**
+ * Update a fill-up and its odometer reading
+ * @param id The ID of the fuel entry
+ * @param entry The fields to change
+ * @returns The updated entry, or null if there was an error
+ */
+export const updateFuelEntry = async (id: string, entry: Partial<FuelEntryInsert>): Promise<FuelEntry | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('fuel_entries')
+      .update(entry)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating fuel entry:', error);
+      return null;
+    }
+
+    await syncFuelEntryOdometerReading(data);
+    return data;
+  } catch (error) {
+    console.error('Exception updating fuel entry:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete a fill-up; its odometer reading is removed with it
+ * @param entry The fuel entry to delete
+ * @returns true if successful, false otherwise
+ */
+export const deleteFuelEntry = async (entry: FuelEntry): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('fuel_entries')
+      .delete()
+      .eq('id', entry.id);
+
+    if (error) {
+      console.error('Error deleting fuel entry:', error);
+      return false;
+    }
+
+    await syncVehicleMileage(entry.vehicle_id);
+    return true;
+  } catch (error) {
+    console.error('Exception deleting fuel entry:', error);
+    return false;
+  }
+};
@@ -0,0 +1,169 @@
+import { supabase } from './supabase';
+import type { PmItem, PmItemInsert } from '../types';
+import { buildPmItemsFromTemplate, getTemplateItems } from '../utils/maintenanceTemplates';
+import type { TemplateSelection } from '../utils/maintenanceTemplates';
+
+/**
+ * Get all preventive-maintenance items for a vehicle
+ * @param vehicleId The ID of the vehicle
+ * @returns An array of PM items
+ */
+export const getPmItems = async (vehicleId: string): Promise<PmItem[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('pm_items')
+      .select()
+      .eq('vehicle_id', vehicleId)
+      .order('service_type', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching PM items:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Exception fetching PM items:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a new preventive-maintenance item
+ * @param pmItem The PM item to create
+ * @returns The created PM item, or null if there was an error
+ */
+export const createPmItem = async (pmItem: PmItemInsert): Promise<PmItem | null> => {
+  try {
+    if (!pmItem.vehicle_id) {
+      console.error('Vehicle ID is required');
+      return null;
+    }
+
+    if (!pmItem.interval_miles && !pmItem.interval_months) {
+      console.error('A mileage or time interval is required');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('pm_items')
+      .insert(pmItem)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating PM item:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Exception creating PM item:', error);
+    return null;
+  }
+};
+
+/**
+ * Update an existing preventive-maintenance item
+ * @param pmItemId The ID of the PM item to update
+ * @param pmItem The updated PM item data
+ * @returns The updated PM item, or null if there was an error
+ */
+export const updatePmItem = async (
+  pmItemId: string,
+  pmItem: Omit<PmItemInsert, 'id'>
+): Promise<PmItem | null> => {
+  try {
+    if (!pmItem.interval_miles && !pmItem.interval_months) {
+      console.error('A mileage or time interval is required');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('pm_items')
+      .update(pmItem)
+      .eq('id', pmItemId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating PM item:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Exception updating PM item:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete a preventive-maintenance item
+ * @param pmItemId The ID of the PM item to delete
+ * @returns true if successful, false otherwise
+ */
+export const deletePmItem = async (pmItemId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('pm_items')
+      .delete()
+      .eq('id', pmItemId);
+
+    if (error) {
+      console.error('Error deleting PM item:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Exception deleting PM item:', error);
+    return false;
+  }
+};
+
+/**
+ * Seed a vehicle's maintenance plan from a bundled schedule template.
+ * Service types the vehicle already has a PM item for are left untouched.
+ * @param vehicleId The ID of the vehicle
+ * @param selection The template and engine-type variant to apply
+ * @returns The created PM items, or null if there was an error
+ */
+export const applyMaintenanceTemplate = async (
+  vehicleId: string,
+  selection: TemplateSelection
+): Promise<PmItem[] | null> => {
+  try {
+    const templateItems = getTemplateItems(selection);
+    if (templateItems.length === 0) {
+      console.error(`Unknown maintenance template: ${selection.templateId} (${selection.engineType})`);
+      return null;
+    }
+
+    const existingItems = await getPmItems(vehicleId);
+    const itemsToInsert = buildPmItemsFromTemplate(
+      vehicleId,
+      templateItems,
+      existingItems.map(item => item.service_type)
+    );
+
+    if (itemsToInsert.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('pm_items')
+      .insert(itemsToInsert)
+      .select();
+
+    if (error) {
+      console.error('Error applying maintenance template:', error);
+      return null;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Exception applying maintenance template:', error);
+    return null;
+  }
+};
@@ -0,0 +1,205 @@
+import { supabase } from './supabase';
+import { updateVehicleMileage } from './vehicleService';
+import { findRollbackConflict, getLatestReading } from '../utils/odometer';
+import type { FuelEntry, OdometerReading, OdometerReadingInsert, OdometerSource, ServiceRecord } from '../types';
+
+/**
+ * Get the odometer history for a vehicle, oldest first
+ * @param vehicleId The ID of the vehicle
+ * @returns An array of odometer readings
+ */
+export const getOdometerReadings = async (vehicleId: string): Promise<OdometerReading[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('odometer_readings')
+      .select()
+      .eq('vehicle_id', vehicleId)
+      .order('reading_date', { ascending: true })
+      .order('mileage', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching odometer readings:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Exception fetching odometer readings:', error);
+    return [];
+  }
+};
+
+/**
+ * Keep vehicles.mileage in step with the newest valid reading
+ */
+export const syncVehicleMileage = async (vehicleId: string): Promise<void> => {
+  const latest = getLatestReading(await getOdometerReadings(vehicleId));
+  if (latest) {
+    await updateVehicleMileage(vehicleId, latest.mileage);
+  }
+};
+
+/**
+ * Add an odometer reading. Manual readings lower than an earlier reading are
+ * rejected; readings taken from service records or documents are stored but
+ * flagged as rollbacks so the record itself can still be saved.
+ * @param reading The reading to add
+ * @returns The created reading, or null if it was rejected or there was an error
+ */
+export const addOdometerReading = async (reading: OdometerReadingInsert): Promise<OdometerReading | null> => {
+  try {
+    if (!reading.vehicle_id) {
+      console.error('Vehicle ID is required');
+      return null;
+    }
+
+    if (!Number.isFinite(reading.mileage) || reading.mileage < 0) {
+      console.error('A valid mileage is required');
+      return null;
+    }
+
+    const existing = await getOdometerReadings(reading.vehicle_id);
+    const conflict = findRollbackConflict(existing, reading);
+    const source = (reading.source || 'manual') as OdometerSource;
+
+    if (conflict && source === 'manual') {
+      console.error(`Odometer reading ${reading.mileage} conflicts with ${conflict.mileage} on ${conflict.reading_date}`);
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('odometer_readings')
+      .insert({ ...reading, source, is_rollback: conflict !== null })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating odometer reading:', error);
+      return null;
+    }
+
+    await syncVehicleMileage(reading.vehicle_id);
+    return data;
+  } catch (error) {
+    console.error('Exception creating odometer reading:', error);
+    return null;
+  }
+};
+
+/**
+ * Create, update or remove the odometer reading that belongs to a service record
+ * @param record The saved service record
+ * @returns The reading for the record, or null if it has no mileage or there was an error
+ */
+export const syncServiceRecordOdometerReading = async (record: ServiceRecord): Promise<OdometerReading | null> => {
+  try {
+    if (record.mileage === null || record.mileage === undefined) {
+      const { error } = await supabase
+        .from('odometer_readings')
+        .delete()
+        .eq('service_record_id', record.id);
+
+      if (error) {
+        console.error('Error removing service record odometer reading:', error);
+      }
+      return null;
+    }
+
+    const existing = await getOdometerReadings(record.vehicle_id);
+    const reading: OdometerReadingInsert = {
+      vehicle_id: record.vehicle_id,
+      reading_date: record.service_date,
+      mileage: record.mileage,
+      source: record.document_id ? 'document_extraction' : 'service_record',
+      service_record_id: record.id,
+      document_id: record.document_id,
+    };
+    const conflict = findRollbackConflict(existing, reading);
+    if (conflict) {
+      console.warn(`Service record ${record.id} mileage ${record.mileage} is lower than an earlier reading of ${conflict.mileage}`);
+    }
+
+    const { data, error } = await supabase
+      .from('odometer_readings')
+      .upsert({ ...reading, is_rollback: conflict !== null }, { onConflict: 'service_record_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving service record odometer reading:', error);
+      return null;
+    }
+
+    await syncVehicleMileage(record.vehicle_id);
+    return data;
+  } catch (error) {
+    console.error('Exception saving service record odometer reading:', error);
+    return null;
+  }
+};
+
+/**
+ * Create or update the odometer reading that belongs to a fill-up. Like service
+ * record readings, a value lower than an earlier reading is kept but flagged.
+ * @param entry The saved fuel entry
+ * @returns The reading for the fill-up, or null if there was an error
+ */
+export const syncFuelEntryOdometerReading = async (entry: FuelEntry): Promise<OdometerReading | null> => {
+  try {
+    const existing = (await getOdometerReadings(entry.vehicle_id)).filter(reading => reading.fuel_entry_id !== entry.id);
+    const reading: OdometerReadingInsert = {
+      vehicle_id: entry.vehicle_id,
+      reading_date: entry.fill_date,
+      mileage: entry.odometer,
+      source: 'fuel_entry',
+      fuel_entry_id: entry.id,
+      document_id: entry.document_id,
+    };
+    const conflict = findRollbackConflict(existing, reading);
+    if (conflict) {
+      console.warn(`Fuel entry ${entry.id} odometer ${entry.odometer} is lower than an earlier reading of ${conflict.mileage}`);
+    }
+
+    const { data, error } = await supabase
+      .from('odometer_readings')
+      .upsert({ ...reading, is_rollback: conflict !== null }, { onConflict: 'fuel_entry_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving fuel entry odometer reading:', error);
+      return null;
+    }
+
+    await syncVehicleMileage(entry.vehicle_id);
+    return data;
+  } catch (error) {
+    console.error('Exception saving fuel entry odometer reading:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete an odometer reading
+ * @param reading The reading to delete
+ * @returns true if successful, false otherwise
+ */
+export const deleteOdometerReading = async (reading: OdometerReading): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('odometer_readings')
+      .delete()
+      .eq('id', reading.id);
+
+    if (error) {
+      console.error('Error deleting odometer reading:', error);
+      return false;
+    }
+
+    await syncVehicleMileage(reading.vehicle_id);
+    return true;
+  } catch (error) {
+    console.error('Exception deleting odometer reading:', error);
+    return false;
+  }
+};
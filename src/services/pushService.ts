@@ -0,0 +1,151 @@
+import { API_URL, authorizedFetch } from './api';
+import { supabase } from './supabase';
+
+const DEVICE_ID_KEY = 'eamc-device-id';
+
+/**
+ * Stable identifier for this browser, so each device keeps its own subscription
+ */
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+// VAPID keys are URL-safe base64; PushManager expects raw bytes
+const urlBase64ToUint8Array = (base64String: string) => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const getServiceWorkerRegistration = async () => {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+    return null;
+  }
+  return (await navigator.serviceWorker.getRegistration()) || null;
+};
+
+/**
+ * Whether this device currently receives push notifications for the given user.
+ * The server keeps one row per endpoint for whichever account subscribed from this
+ * browser last, so a browser subscription alone doesn't mean it is this user's.
+ */
+export const isSubscribedToPush = async (userId: string): Promise<boolean> => {
+  try {
+    const registration = await getServiceWorkerRegistration();
+    const subscription = registration ? await registration.pushManager.getSubscription() : null;
+    if (!subscription) return false;
+
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('endpoint', subscription.endpoint)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking push subscription:', error);
+      return false;
+    }
+
+    return !!data;
+  } catch (error) {
+    console.error('Exception checking push subscription:', error);
+    return false;
+  }
+};
+
+/**
+ * Ask for permission, subscribe this device with the push service and store
+ * the subscription on the server
+ * @returns An error message, or null on success
+ */
+export const subscribeToPush = async (): Promise<string | null> => {
+  try {
+    const registration = await getServiceWorkerRegistration();
+    if (!registration) {
+      return 'Push notifications are not available until the app is installed or reloaded';
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      return 'Push notifications are blocked. Please enable them in your browser settings.';
+    }
+
+    const keyResponse = await fetch(`${API_URL}/api/push/public-key`);
+    if (!keyResponse.ok) {
+      return 'Push notifications are not configured on the server';
+    }
+    const { publicKey } = await keyResponse.json();
+
+    const subscription = (await registration.pushManager.getSubscription()) ||
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      }));
+
+    const response = await authorizedFetch('/api/push/subscribe', {
+      method: 'POST',
+      body: JSON.stringify({
+        deviceId: getDeviceId(),
+        subscription: subscription.toJSON(),
+        userAgent: navigator.userAgent,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Error saving push subscription:', await response.text());
+      return 'Failed to save push subscription';
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Exception subscribing to push:', error);
+    return 'Failed to enable push notifications';
+  }
+};
+
+/**
+ * Remove this device's subscription from the push service and the server
+ * @returns true if successful, false otherwise
+ */
+export const unsubscribeFromPush = async (): Promise<boolean> => {
+  try {
+    const registration = await getServiceWorkerRegistration();
+    const subscription = registration ? await registration.pushManager.getSubscription() : null;
+    if (subscription) {
+      await subscription.unsubscribe();
+    }
+
+    const response = await authorizedFetch('/api/push/subscribe', {
+      method: 'DELETE',
+      body: JSON.stringify({ deviceId: getDeviceId() }),
+    });
+
+    if (!response.ok) {
+      console.error('Error removing push subscription:', await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Exception unsubscribing from push:', error);
+    return false;
+  }
+};
+
+/**
+ * Subscribe or unsubscribe this device when the push preference is switched
+ * @returns An error message, or null on success
+ */
+export const setPushEnabled = async (enabled: boolean): Promise<string | null> => {
+  if (enabled) {
+    return subscribeToPush();
+  }
+  return (await unsubscribeFromPush()) ? null : 'Failed to turn off push notifications on this device';
+};
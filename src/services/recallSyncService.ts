@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+import { fetchNhtsaRecalls } from '../utils/recallLookup';
+import type { RecallLookup } from '../utils/recallLookup';
+import { syncRecallNotices } from '../../shared/nhtsaRecalls.js';
+import type { RecallSyncSummary as SharedRecallSyncSummary } from '../../shared/nhtsaRecalls.js';
+import type { RecallNotice, Vehicle } from '../types';
+
+export type RecallSyncSummary = SharedRecallSyncSummary<RecallNotice>;
+
+/**
+ * Check NHTSA for recalls affecting a vehicle and upsert them into recall_notices
+ * @param vehicle The vehicle to check
+ * @param lookup Where to fetch campaigns from; defaults to the NHTSA API
+ * @returns A summary of new, existing and closed recalls for the vehicle
+ */
+export const syncVehicleRecalls = (
+  vehicle: Pick<Vehicle, 'id' | 'make' | 'model' | 'year' | 'vin'>,
+  lookup: RecallLookup = fetchNhtsaRecalls
+): Promise<RecallSyncSummary> => syncRecallNotices<RecallNotice>(supabase, vehicle, lookup);
+
+/**
+ * Check every vehicle for recalls, one vehicle at a time
+ * @param vehicles The vehicles to check
+ * @param lookup Where to fetch campaigns from; defaults to the NHTSA API
+ * @returns One summary per vehicle
+ */
+export const syncAllVehicleRecalls = async (
+  vehicles: Pick<Vehicle, 'id' | 'make' | 'model' | 'year' | 'vin'>[],
+  lookup: RecallLookup = fetchNhtsaRecalls
+): Promise<RecallSyncSummary[]> => {
+  const summaries: RecallSyncSummary[] = [];
+  for (const vehicle of vehicles) {
+    summaries.push(await syncVehicleRecalls(vehicle, lookup));
+  }
+  return summaries;
+};
@@ -1,16 +1,78 @@
 import { supabase } from './supabase';
-import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, ServiceItem } from '../types';
+import { syncServiceRecordOdometerReading, syncVehicleMileage } from './odometerService';
+import { DuplicateServiceRecordError, findDuplicateServiceRecords } from './duplicateDetectionService';
+import type { ServiceRecordInsert, ServiceItemInsert, ServiceRecord, ServiceItem, CreateServiceRecordOptions } from '../types';
+
+const itemKey = (item: Pick<ServiceItemInsert, 'service_type' | 'description'>) =>
+  `${item.service_type}|${(item.description || '').trim().toLowerCase()}`;
+
+/**
+ * Fill in what an existing service record is missing from a duplicate of it,
+ * and add the duplicate's items that the record doesn't have yet
+ * @returns The updated service record and items, or null if there was an error
+ */
+const mergeIntoServiceRecord = async (
+  serviceRecordId: string,
+  serviceRecord: ServiceRecordInsert,
+  serviceItems: Omit<ServiceItemInsert, 'service_record_id'>[]
+): Promise<{ record: ServiceRecord; items: ServiceItem[] } | null> => {
+  const existing = await getServiceRecordById(serviceRecordId);
+  if (!existing) return null;
+  const existingItems = await getServiceItems(serviceRecordId);
+
+  const notes = [existing.notes, serviceRecord.notes]
+    .filter((note, index, all): note is string => !!note && all.indexOf(note) === index);
+
+  const merged = {
+    vehicle_id: existing.vehicle_id,
+    service_date: existing.service_date,
+    service_provider: existing.service_provider || serviceRecord.service_provider || null,
+    mileage: existing.mileage ?? serviceRecord.mileage ?? null,
+    total_cost: existing.total_cost ?? serviceRecord.total_cost ?? null,
+    notes: notes.length > 0 ? notes.join('\n') : null,
+    document_url: existing.document_url || serviceRecord.document_url || null,
+  };
+
+  const knownItems = new Set(existingItems.map(itemKey));
+  const newItems = serviceItems.filter(item => !knownItems.has(itemKey(item)));
+
+  return updateServiceRecord(serviceRecordId, merged, [...existingItems, ...newItems]);
+};
 
 /**
- * Create a new service record and its associated service items
+ * Create a new service record and its associated service items.
+ * Records that look like one already saved (same file, or the same visit by date,
+ * total, provider and services) are not created until the caller picks a duplicateAction.
  * @param serviceRecord The service record to create
  * @param serviceItems The service items associated with the service record
- * @returns The created service record and service items, or null if there was an error
+ * @param options The source document and, once the user has chosen, what to do with a duplicate
+ * @returns The created service record and service items (for merge and link, the existing record), or null if there was an error
+ * @throws DuplicateServiceRecordError when the record looks like a duplicate and no duplicateAction was given
  */
 export const createServiceRecord = async (
   serviceRecord: ServiceRecordInsert,
-  serviceItems: Omit<ServiceItemInsert, 'service_record_id'>[]
+  serviceItems: Omit<ServiceItemInsert, 'service_record_id'>[],
+  options: CreateServiceRecordOptions = {}
 ): Promise<{ record: ServiceRecord; items: ServiceItem[] } | null> => {
+  const { documentId = null, duplicateAction, duplicateOfId } = options;
+
+  if (!duplicateAction) {
+    const matches = await findDuplicateServiceRecords(serviceRecord, serviceItems, documentId);
+    if (matches.length > 0) {
+      throw new DuplicateServiceRecordError(matches);
+    }
+  }
+
+  if (duplicateOfId && duplicateAction === 'merge') {
+    return mergeIntoServiceRecord(duplicateOfId, serviceRecord, serviceItems);
+  }
+
+  if (duplicateOfId && duplicateAction === 'link') {
+    // Nothing new is saved; the caller links the document to the existing record
+    const record = await getServiceRecordById(duplicateOfId);
+    return record ? { record, items: await getServiceItems(duplicateOfId) } : null;
+  }
+
   try {
     // Validate inputs
     if (!serviceRecord.vehicle_id) {
@@ -66,6 +128,9 @@ export const createServiceRecord = async (
       return null;
     }
 
+    // Record the odometer value in the vehicle's mileage history
+    await syncServiceRecordOdometerReading(record);
+
     return { record, items };
   } catch (error) {
     console.error('Exception creating service record:', error);
@@ -196,17 +261,23 @@ export const deleteServiceRecord = async (serviceRecordId: string): Promise<bool
       }
     }
 
-    // Now delete the service record (service items will be deleted automatically due to CASCADE)
-    const { error } = await supabase
+    // Now delete the service record (service items and its odometer reading will be deleted automatically due to CASCADE)
+    const { data: deleted, error } = await supabase
       .from('service_records')
       .delete()
-      .eq('id', serviceRecordId);
+      .eq('id', serviceRecordId)
+      .select('vehicle_id');
 
     if (error) {
       console.error('Error deleting service record:', error);
       return false;
     }
 
+    // The vehicle may have taken its mileage from this record's reading
+    for (const vehicleId of new Set((deleted || []).map(record => record.vehicle_id))) {
+      await syncVehicleMileage(vehicleId);
+    }
+
     console.log(`Successfully deleted service record ${serviceRecordId} and ${documents?.length || 0} associated documents`);
     return true;
   } catch (error) {
@@ -324,6 +395,9 @@ export const updateServiceRecord = async (
       return null;
     }
 
+    // Record the odometer value in the vehicle's mileage history
+    await syncServiceRecordOdometerReading(record);
+
     return { record, items };
   } catch (error) {
     console.error('Exception updating service record:', error);
@@ -0,0 +1,22 @@
+import { authorizedFetch } from './api';
+import type { UsageSummary } from '../types';
+
+/**
+ * Get the signed-in user's document analysis and image generation usage for this month
+ * @returns The usage with the user's quota, or null if there was an error
+ */
+export const getUsageSummary = async (): Promise<UsageSummary | null> => {
+  try {
+    const response = await authorizedFetch('/api/usage');
+
+    if (!response.ok) {
+      console.error('Error fetching usage:', response.status);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Exception fetching usage:', error);
+    return null;
+  }
+};
@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { decodeVin } from '../utils/vinDecode';
+import type { ExtractedVehicleInfo } from '../utils/vehicleMatch';
 import type { Vehicle } from '../types';
 
 /**
@@ -27,3 +29,79 @@ export const updateVehicleImage = async (vehicleId: string, imageUrl: string): P
     return null;
   }
 };
+
+/**
+ * Update a vehicle's current odometer reading
+ * @param vehicleId The ID of the vehicle to update
+ * @param mileage The new odometer reading
+ * @returns The updated vehicle or null if there was an error
+ */
+export const updateVehicleMileage = async (vehicleId: string, mileage: number): Promise<Vehicle | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .update({ mileage })
+      .eq('id', vehicleId)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating vehicle mileage:', error);
+      return null;
+    }
+    
+    return data;
+  } catch (error) {
+    console.error('Exception updating vehicle mileage:', error);
+    return null;
+  }
+};
+
+/**
+ * Add a vehicle from the details read off a document. The VIN is decoded for
+ * anything the document didn't say (and wins over misread make and model).
+ * @param userId The owner of the new vehicle
+ * @param vehicleInfo The vehicle details extracted from the document
+ * @returns The new vehicle or null if it could not be identified or saved
+ */
+export const createVehicleFromExtraction = async (
+  userId: string,
+  vehicleInfo: ExtractedVehicleInfo
+): Promise<Vehicle | null> => {
+  try {
+    const decoded = vehicleInfo.vin ? await decodeVin(vehicleInfo.vin) : null;
+    const make = decoded?.make || vehicleInfo.make;
+    const model = decoded?.model || vehicleInfo.model;
+    const year = Number(decoded?.year) || vehicleInfo.year;
+
+    if (!make || !model || !year) {
+      console.error('Not enough vehicle details to add a vehicle:', vehicleInfo);
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('vehicles')
+      .insert({
+        user_id: userId,
+        make,
+        model,
+        year,
+        vin: vehicleInfo.vin || null,
+        license_plate: vehicleInfo.licensePlate || null,
+        color: vehicleInfo.color || null,
+        body_class: decoded?.body_class || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vehicle from extraction:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Exception creating vehicle from extraction:', error);
+    return null;
+  }
+};
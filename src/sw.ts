@@ -54,6 +54,7 @@ self.addEventListener('push', (event) => {
     body: data.body || 'You have a new notification',
     icon: '/pwa-192x192.png',
     badge: '/pwa-192x192.png',
+    tag: data.tag,
     data,
   };
 
@@ -67,18 +68,19 @@ self.addEventListener('notificationclick', (event) => {
   if (event.action) {
     // Handle custom actions
   } else {
-    // Default action is to open the app
+    // Default action is to open the page the notification points at (e.g. a recall)
+    const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
     event.waitUntil(
       self.clients.matchAll({ type: 'window' }).then((clientList) => {
-        // If a window client is already open, focus it
+        // If a window client is already open, focus it and navigate to the target
         for (const client of clientList) {
           if (client.url.includes(self.location.origin) && 'focus' in client) {
-            return client.focus();
+            return client.focus().then((focused) => focused.navigate(targetUrl));
           }
         }
         // Otherwise open a new window
         if (self.clients.openWindow) {
-          return self.clients.openWindow('/');
+          return self.clients.openWindow(targetUrl);
         }
       })
     );
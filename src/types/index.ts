@@ -4,13 +4,17 @@ export type Vehicle = Database['public']['Tables']['vehicles']['Row'];
 export type MaintenanceRecord = Database['public']['Tables']['maintenance_records']['Row'];
 export type ServiceRecord = Database['public']['Tables']['service_records']['Row'];
 export type ServiceItem = Database['public']['Tables']['service_items']['Row'];
+export type PmItem = Database['public']['Tables']['pm_items']['Row'];
+export type OdometerReading = Database['public']['Tables']['odometer_readings']['Row'];
+export type FuelEntry = Database['public']['Tables']['fuel_entries']['Row'];
+export type VehicleExpense = Database['public']['Tables']['vehicle_expenses']['Row'];
+export type ExchangeRate = Database['public']['Tables']['exchange_rates']['Row'];
 
 // Base Document type from Supabase schema
 type BaseDocument = Database['public']['Tables']['documents']['Row'];
 
 // Extended Document type with additional properties used in the application
 export interface Document extends BaseDocument {
-  document_type?: string;
   title?: string;
   description?: string;
   vehicles?: Vehicle | null;
@@ -23,9 +27,89 @@ export type VehicleInsert = Database['public']['Tables']['vehicles']['Insert'];
 export type MaintenanceRecordInsert = Database['public']['Tables']['maintenance_records']['Insert'];
 export type ServiceRecordInsert = Database['public']['Tables']['service_records']['Insert'];
 export type ServiceItemInsert = Database['public']['Tables']['service_items']['Insert'];
+export type PmItemInsert = Database['public']['Tables']['pm_items']['Insert'];
+export type OdometerReadingInsert = Database['public']['Tables']['odometer_readings']['Insert'];
+export type FuelEntryInsert = Database['public']['Tables']['fuel_entries']['Insert'];
+export type VehicleExpenseInsert = Database['public']['Tables']['vehicle_expenses']['Insert'];
+
+// A fill-up read from a receipt, before the user has filled in what the receipt didn't show
+export type FuelEntryDraft = Omit<FuelEntryInsert, 'odometer' | 'volume'> & {
+  odometer: number | null;
+  volume: number | null;
+};
+
+// Where an odometer reading came from
+export type OdometerSource = 'manual' | 'service_record' | 'document_extraction' | 'fuel_entry';
+
+// What a vehicle_expenses row was for
+export type ExpenseCategory = 'insurance' | 'registration' | 'parking_toll' | 'tax' | 'other';
+
+// Unit fuel_entries.volume was entered in
+export type VolumeUnit = 'gal' | 'l';
+
+// profiles.preferred_units
+export type UnitSystem = 'imperial' | 'metric';
+
+// Unit an odometer reads in (vehicles.odometer_unit); stored mileages are always miles
+export type DistanceUnit = 'mi' | 'km';
 export type DocumentInsert = Database['public']['Tables']['documents']['Insert'];
+
+// What kind of document an upload is (documents.document_type)
+export type DocumentType = 'service_invoice' | 'fuel' | 'parking_toll' | 'insurance' | 'registration' | 'other';
+
+// Where a document is in background analysis (documents.status)
+export type DocumentStatus = 'queued' | 'analyzing' | 'needs_review' | 'saved' | 'failed';
 export type RecallNoticeInsert = Database['public']['Tables']['recall_notices']['Insert'];
 
+// A saved service record that looks like the one being saved, and why
+export type DuplicateMatch = {
+  record: ServiceRecord;
+  items: ServiceItem[];
+  // 0-1; 1 when the same file was already saved
+  score: number;
+  sameFile: boolean;
+  reasons: string[];
+};
+
+// What to do when a service record being saved matches an existing one:
+// merge its details into the existing record, only link its document to it, or save it anyway
+export type DuplicateAction = 'merge' | 'link' | 'keep_both';
+
+export type CreateServiceRecordOptions = {
+  // The uploaded document the record was extracted from
+  documentId?: string | null;
+  duplicateAction?: DuplicateAction;
+  // The existing record to merge into or link to
+  duplicateOfId?: string;
+};
+
+// How sure the extraction is about one field; needsReview fields are highlighted in the review UI
+// Where on the document a value was read: page number and the text as printed
+export type ExtractionSource = {
+  page: number;
+  text: string;
+};
+
+export type ExtractionFieldReview = {
+  confidence: number;
+  needsReview: boolean;
+  reason: string | null;
+  source?: ExtractionSource;
+};
+
+export type FuelExtractionReview = Partial<Record<
+  'fillDate' | 'station' | 'volume' | 'volumeUnit' | 'pricePerUnit' | 'totalCost' | 'odometer',
+  ExtractionFieldReview
+>>;
+
+// Fuel results have fuelInfo in place of serviceInfo and items
+export type ExtractionReview = {
+  serviceInfo: Partial<Record<'serviceDate' | 'serviceProvider' | 'mileage' | 'totalCost' | 'notes', ExtractionFieldReview>>;
+  items: Partial<Record<'serviceType' | 'description' | 'cost' | 'nextServiceDate' | 'nextServiceMileage', ExtractionFieldReview>>[];
+  fuelInfo?: FuelExtractionReview;
+  vehicleInfo: Partial<Record<'make' | 'model' | 'year' | 'vin' | 'licensePlate', ExtractionFieldReview>>;
+};
+
 export type DocumentAnalysisResult = {
   vehicleInfo?: {
     make?: string;
@@ -38,8 +122,12 @@ export type DocumentAnalysisResult = {
   serviceInfo?: {
     serviceDate?: string;
     mileage?: number;
+    // Unit the document printed mileages in, if it said; mileage and nextServiceMileage are in it
+    mileageUnit?: DistanceUnit | null;
     serviceProvider?: string;
     totalCost?: number;
+    // ISO 4217 code the document printed amounts in, if it said; totalCost and item costs are in it
+    currency?: string | null;
     notes?: string;
     items?: {
       serviceType?: string;
@@ -76,12 +164,62 @@ export type DocumentAnalysisResult = {
     notes?: string;
   };
   otherInfo?: Record<string, any>;
+  // Set by the classifier step; fuel results have fuelInfo instead of serviceInfo,
+  // and types that are only filed have neither
+  documentType?: DocumentType;
+  fuelInfo?: {
+    fillDate?: string;
+    station?: string;
+    volume?: number;
+    volumeUnit?: VolumeUnit;
+    pricePerUnit?: number;
+    totalCost?: number;
+    // Currency the receipt printed amounts in, if it said
+    currency?: string | null;
+    odometer?: number;
+    // Unit the odometer was printed in, if the receipt said
+    odometerUnit?: DistanceUnit | null;
+  };
+  // Per-field validation results from the server
+  review?: ExtractionReview;
+  // Last page covered by this result; lower than the page count while a PDF is still being analyzed
+  pagesAnalyzed?: number;
 };
 
 export type FileUploadState = {
   isUploading: boolean;
   progress: number;
   error: string | null;
+  // Set while the pages of a PDF are being analyzed
+  currentPage?: number;
+  totalPages?: number;
+};
+
+// A paid model call in the usage ledger (usage_events, written by the server)
+export type UsageEvent = {
+  created_at: string;
+  feature: 'document_analysis' | 'image_generation';
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  image_count: number;
+  cost_usd: number;
+  document_id: string | null;
+};
+
+// The signed-in user's usage for the current month, from GET /api/usage
+export type UsageSummary = {
+  period: string; // yyyy-MM
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  imageCount: number;
+  costUsd: number;
+  byFeature: Partial<Record<UsageEvent['feature'], { requests: number; costUsd: number }>>;
+  events: UsageEvent[];
+  // null means no limit
+  quota: { costLimitUsd: number | null; requestLimit: number | null };
 };
 
 export type NotificationPreferences = {
@@ -103,12 +241,19 @@ export type AppContextType = {
   maintenanceRecords: MaintenanceRecord[];
   serviceRecords: ServiceRecord[];
   serviceItems: ServiceItem[];
+  pmItems: PmItem[];
+  odometerReadings: OdometerReading[];
   documents: Document[];
   recallNotices: RecallNotice[];
+  exchangeRates: ExchangeRate[];
   refreshVehicles: () => Promise<void>;
   refreshMaintenanceRecords: () => Promise<void>;
   refreshServiceRecords: () => Promise<void>;
+  refreshPmItems: () => Promise<void>;
+  refreshOdometerReadings: () => Promise<void>;
   refreshDocuments: () => Promise<void>;
   refreshRecallNotices: () => Promise<void>;
+  refreshExchangeRates: () => Promise<void>;
+  signOut: () => Promise<void>;
   isLoading: boolean;
 };
@@ -11,41 +11,56 @@ export type Database = {
     Tables: {
       documents: {
         Row: {
+          analysis_attempts: number
+          analysis_error: string | null
           analysis_result: Json | null
           analyzed: boolean
+          content_hash: string | null
           created_at: string
+          document_type: string | null
           file_name: string
           file_size: number
           file_type: string
           file_url: string
           id: string
           service_record_id: string | null
+          status: string
           updated_at: string
           vehicle_id: string
         }
         Insert: {
+          analysis_attempts?: number
+          analysis_error?: string | null
           analysis_result?: Json | null
           analyzed?: boolean
+          content_hash?: string | null
           created_at?: string
+          document_type?: string | null
           file_name: string
           file_size: number
           file_type: string
           file_url: string
           id?: string
           service_record_id?: string | null
+          status?: string
           updated_at?: string
           vehicle_id: string
         }
         Update: {
+          analysis_attempts?: number
+          analysis_error?: string | null
           analysis_result?: Json | null
           analyzed?: boolean
+          content_hash?: string | null
           created_at?: string
+          document_type?: string | null
           file_name?: string
           file_size?: number
           file_type?: string
           file_url?: string
           id?: string
           service_record_id?: string | null
+          status?: string
           updated_at?: string
           vehicle_id?: string
         }
@@ -70,6 +85,7 @@ export type Database = {
         Row: {
           id: string
           created_at: string
+          currency: string | null
           updated_at: string
           vehicle_id: string
           service_date: string
@@ -83,6 +99,7 @@ export type Database = {
         Insert: {
           id?: string
           created_at?: string
+          currency?: string | null
           updated_at?: string
           vehicle_id: string
           service_date: string
@@ -96,6 +113,7 @@ export type Database = {
         Update: {
           id?: string
           created_at?: string
+          currency?: string | null
           updated_at?: string
           vehicle_id?: string
           service_date?: string
@@ -120,6 +138,7 @@ export type Database = {
         Row: {
           id: string
           created_at: string
+          currency: string | null
           updated_at: string
           service_record_id: string
           service_type: string
@@ -133,6 +152,7 @@ export type Database = {
         Insert: {
           id?: string
           created_at?: string
+          currency?: string | null
           updated_at?: string
           service_record_id: string
           service_type: string
@@ -146,6 +166,7 @@ export type Database = {
         Update: {
           id?: string
           created_at?: string
+          currency?: string | null
           updated_at?: string
           service_record_id?: string
           service_type?: string
@@ -170,6 +191,7 @@ export type Database = {
         Row: {
           cost: number | null
           created_at: string
+          currency: string | null
           description: string
           document_url: string | null
           id: string
@@ -188,6 +210,7 @@ export type Database = {
         Insert: {
           cost?: number | null
           created_at?: string
+          currency?: string | null
           description: string
           document_url?: string | null
           id?: string
@@ -206,6 +229,7 @@ export type Database = {
         Update: {
           cost?: number | null
           created_at?: string
+          currency?: string | null
           description?: string
           document_url?: string | null
           id?: string
@@ -231,6 +255,220 @@ export type Database = {
           },
         ]
       }
+      exchange_rates: {
+        Row: {
+          currency: string
+          units_per_usd: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          currency: string
+          units_per_usd: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          currency?: string
+          units_per_usd?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      fuel_entries: {
+        Row: {
+          created_at: string
+          currency: string | null
+          document_id: string | null
+          fill_date: string
+          id: string
+          is_full_fill: boolean
+          notes: string | null
+          odometer: number
+          price_per_unit: number | null
+          station: string | null
+          total_cost: number | null
+          updated_at: string
+          vehicle_id: string
+          volume: number
+          volume_unit: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: string | null
+          document_id?: string | null
+          fill_date: string
+          id?: string
+          is_full_fill?: boolean
+          notes?: string | null
+          odometer: number
+          price_per_unit?: number | null
+          station?: string | null
+          total_cost?: number | null
+          updated_at?: string
+          vehicle_id: string
+          volume: number
+          volume_unit?: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string | null
+          document_id?: string | null
+          fill_date?: string
+          id?: string
+          is_full_fill?: boolean
+          notes?: string | null
+          odometer?: number
+          price_per_unit?: number | null
+          station?: string | null
+          total_cost?: number | null
+          updated_at?: string
+          vehicle_id?: string
+          volume?: number
+          volume_unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fuel_entries_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fuel_entries_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      odometer_readings: {
+        Row: {
+          created_at: string
+          document_id: string | null
+          fuel_entry_id: string | null
+          id: string
+          is_rollback: boolean
+          mileage: number
+          notes: string | null
+          reading_date: string
+          service_record_id: string | null
+          source: string
+          updated_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id?: string | null
+          fuel_entry_id?: string | null
+          id?: string
+          is_rollback?: boolean
+          mileage: number
+          notes?: string | null
+          reading_date: string
+          service_record_id?: string | null
+          source?: string
+          updated_at?: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string | null
+          fuel_entry_id?: string | null
+          id?: string
+          is_rollback?: boolean
+          mileage?: number
+          notes?: string | null
+          reading_date?: string
+          service_record_id?: string | null
+          source?: string
+          updated_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "odometer_readings_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_fuel_entry_id_fkey"
+            columns: ["fuel_entry_id"]
+            isOneToOne: true
+            referencedRelation: "fuel_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_service_record_id_fkey"
+            columns: ["service_record_id"]
+            isOneToOne: true
+            referencedRelation: "service_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_items: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          interval_miles: number | null
+          interval_months: number | null
+          last_service_date: string | null
+          last_service_mileage: number | null
+          notes: string | null
+          service_type: string
+          updated_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          interval_miles?: number | null
+          interval_months?: number | null
+          last_service_date?: string | null
+          last_service_mileage?: number | null
+          notes?: string | null
+          service_type: string
+          updated_at?: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          interval_miles?: number | null
+          interval_months?: number | null
+          last_service_date?: string | null
+          last_service_mileage?: number | null
+          notes?: string | null
+          service_type?: string
+          updated_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_items_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -255,6 +493,7 @@ export type Database = {
           notification_preferences?: Json
           phone_number?: string | null
           preferred_units?: string | null
+          preferred_currency?: string | null
           updated_at?: string
         }
         Update: {
@@ -267,10 +506,50 @@ export type Database = {
           notification_preferences?: Json
           phone_number?: string | null
           preferred_units?: string | null
+          preferred_currency?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          device_id: string
+          endpoint: string
+          id: string
+          last_success_at: string | null
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          device_id: string
+          endpoint: string
+          id?: string
+          last_success_at?: string | null
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          device_id?: string
+          endpoint?: string
+          id?: string
+          last_success_at?: string | null
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       recall_notices: {
         Row: {
           affected_components: string[]
@@ -327,6 +606,60 @@ export type Database = {
           },
         ]
       }
+      vehicle_expenses: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          currency: string | null
+          description: string | null
+          document_id: string | null
+          expense_date: string
+          id: string
+          updated_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          document_id?: string | null
+          expense_date: string
+          id?: string
+          updated_at?: string
+          vehicle_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          document_id?: string | null
+          expense_date?: string
+          id?: string
+          updated_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_expenses_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_expenses_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vehicles: {
         Row: {
           body_class: string | null
@@ -338,8 +671,11 @@ export type Database = {
           make: string
           mileage: number | null
           model: string
+          odometer_unit: string | null
           purchase_date: string | null
           purchase_price: number | null
+          purchase_price_currency: string | null
+          recalls_checked_at: string | null
           updated_at: string
           user_id: string
           vin: string | null
@@ -355,8 +691,11 @@ export type Database = {
           make: string
           mileage?: number | null
           model: string
+          odometer_unit?: string | null
           purchase_date?: string | null
           purchase_price?: number | null
+          purchase_price_currency?: string | null
+          recalls_checked_at?: string | null
           updated_at?: string
           user_id: string
           vin?: string | null
@@ -372,8 +711,11 @@ export type Database = {
           make?: string
           mileage?: number | null
           model?: string
+          odometer_unit?: string | null
           purchase_date?: string | null
           purchase_price?: number | null
+          purchase_price_currency?: string | null
+          recalls_checked_at?: string | null
           updated_at?: string
           user_id?: string
           vin?: string | null
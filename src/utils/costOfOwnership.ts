@@ -0,0 +1,268 @@
+// Adds up what a vehicle has cost to own, for the cost of ownership report on VehicleDetail.
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { STANDARD_SERVICE_TYPES } from '../data/serviceTypes';
+import type { CurrencyConverter } from './currency';
+import type {
+  FuelEntry,
+  MaintenanceRecord,
+  OdometerReading,
+  ServiceItem,
+  ServiceRecord,
+  Vehicle,
+  VehicleExpense,
+} from '../types';
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export type CostCategory = 'purchase' | 'service' | 'maintenance' | 'fuel' | 'other';
+
+export const COST_CATEGORIES: CostCategory[] = ['purchase', 'service', 'maintenance', 'fuel', 'other'];
+
+export interface CostCollections {
+  serviceRecords: ServiceRecord[];
+  serviceItems: ServiceItem[];
+  maintenanceRecords: MaintenanceRecord[];
+  fuelEntries: FuelEntry[];
+  expenses: VehicleExpense[];
+  odometerReadings: OdometerReading[];
+}
+
+// One amount spent on the vehicle, in the preferred currency
+export interface CostEntry {
+  date: string;
+  category: CostCategory;
+  // Service and maintenance costs only; one of STANDARD_SERVICE_TYPES
+  serviceType: string | null;
+  amount: number;
+}
+
+export interface YearCosts {
+  year: number;
+  byCategory: Record<CostCategory, number>;
+  total: number;
+  // Everything but the purchase, which would swamp the year the vehicle was bought
+  runningTotal: number;
+  // Change in runningTotal from the year before, as a fraction; null without a year before to compare to
+  change: number | null;
+}
+
+export interface CostOfOwnership {
+  total: number;
+  byCategory: Record<CostCategory, number>;
+  // Service and maintenance costs by service type, largest first
+  byServiceType: { serviceType: string; amount: number }[];
+  monthsOwned: number | null;
+  costPerMonth: number | null;
+  // Distance covered by the odometer readings
+  distanceMiles: number | null;
+  costPerMile: number | null;
+  years: YearCosts[];
+}
+
+const emptyByCategory = (): Record<CostCategory, number> => ({
+  purchase: 0,
+  service: 0,
+  maintenance: 0,
+  fuel: 0,
+  other: 0,
+});
+
+const sameCurrency: CurrencyConverter = amount => amount;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A stored service type as one of the standard types; anything else counts as Other Service
+ */
+const toServiceType = (serviceType: string | null | undefined) =>
+  (STANDARD_SERVICE_TYPES as readonly string[]).includes(serviceType || '') ? serviceType as string : 'Other Service';
+
+/**
+ * Splits a service record's cost over its items' service types. Whatever the items
+ * don't account for (shop fees, tax) counts as Other Service.
+ */
+const getServiceRecordEntries = (record: ServiceRecord, items: ServiceItem[], convert: CurrencyConverter): CostEntry[] => {
+  const entries: CostEntry[] = items
+    .filter(item => item.cost)
+    .map(item => ({
+      date: record.service_date,
+      category: 'service',
+      serviceType: toServiceType(item.service_type),
+      amount: convert(Number(item.cost), item.currency),
+    }));
+  const itemTotal = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const remainder = record.total_cost !== null && record.total_cost !== undefined
+    ? roundCents(convert(Number(record.total_cost), record.currency) - itemTotal)
+    : 0;
+  if (remainder > 0) {
+    entries.push({ date: record.service_date, category: 'service', serviceType: 'Other Service', amount: remainder });
+  }
+  return entries;
+};
+
+/**
+ * Lists everything spent on a vehicle, purchase included
+ * @param vehicle The vehicle, for its purchase price and date
+ * @param collections The vehicle's records
+ * @param convert Converts each amount to the preferred currency
+ */
+export const getCostEntries = (
+  vehicle: Vehicle,
+  collections: CostCollections,
+  convert: CurrencyConverter = sameCurrency
+): CostEntry[] => {
+  const entries: CostEntry[] = [];
+
+  if (vehicle.purchase_price && vehicle.purchase_date) {
+    entries.push({
+      date: vehicle.purchase_date,
+      category: 'purchase',
+      serviceType: null,
+      amount: convert(Number(vehicle.purchase_price), vehicle.purchase_price_currency),
+    });
+  }
+
+  collections.serviceRecords.forEach(record => {
+    const items = collections.serviceItems.filter(item => item.service_record_id === record.id);
+    entries.push(...getServiceRecordEntries(record, items, convert));
+  });
+
+  collections.maintenanceRecords
+    .filter(record => record.cost)
+    .forEach(record => entries.push({
+      date: record.service_date,
+      category: 'maintenance',
+      serviceType: toServiceType(record.service_type),
+      amount: convert(Number(record.cost), record.currency),
+    }));
+
+  collections.fuelEntries
+    .filter(entry => entry.total_cost)
+    .forEach(entry => entries.push({
+      date: entry.fill_date,
+      category: 'fuel',
+      serviceType: null,
+      amount: convert(Number(entry.total_cost), entry.currency),
+    }));
+
+  collections.expenses.forEach(expense => entries.push({
+    date: expense.expense_date,
+    category: 'other',
+    serviceType: null,
+    amount: convert(Number(expense.amount), expense.currency),
+  }));
+
+  return entries;
+};
+
+/**
+ * Distance between the lowest and highest odometer values known for the vehicle
+ */
+const getDistanceMiles = (vehicle: Vehicle, readings: OdometerReading[]) => {
+  const mileages = readings.map(reading => reading.mileage);
+  if (vehicle.mileage) mileages.push(vehicle.mileage);
+  if (mileages.length < 2) return null;
+  const distance = Math.max(...mileages) - Math.min(...mileages);
+  return distance > 0 ? distance : null;
+};
+
+const buildYears = (entries: CostEntry[], today: Date): YearCosts[] => {
+  if (entries.length === 0) return [];
+
+  const firstYear = Math.min(...entries.map(entry => parseISO(entry.date).getFullYear()));
+  const years: YearCosts[] = [];
+  for (let year = firstYear; year <= today.getFullYear(); year++) {
+    const byCategory = emptyByCategory();
+    entries
+      .filter(entry => parseISO(entry.date).getFullYear() === year)
+      .forEach(entry => { byCategory[entry.category] += entry.amount; });
+
+    const total = COST_CATEGORIES.reduce((sum, category) => sum + byCategory[category], 0);
+    const runningTotal = total - byCategory.purchase;
+    const previous = years[years.length - 1];
+    years.push({
+      year,
+      byCategory,
+      total,
+      runningTotal,
+      change: previous && previous.runningTotal > 0 ? (runningTotal - previous.runningTotal) / previous.runningTotal : null,
+    });
+  }
+  return years;
+};
+
+/**
+ * Builds the cost of ownership report for a vehicle
+ * @param vehicle The vehicle
+ * @param collections The vehicle's records
+ * @param convert Converts amounts to the currency the report is in
+ * @param today Reference date, defaults to now
+ */
+export const buildCostOfOwnership = (
+  vehicle: Vehicle,
+  collections: CostCollections,
+  convert: CurrencyConverter = sameCurrency,
+  today: Date = new Date()
+): CostOfOwnership => {
+  const entries = getCostEntries(vehicle, collections, convert);
+
+  const byCategory = emptyByCategory();
+  const byServiceType = new Map<string, number>();
+  entries.forEach(entry => {
+    byCategory[entry.category] += entry.amount;
+    if (entry.serviceType) {
+      byServiceType.set(entry.serviceType, (byServiceType.get(entry.serviceType) || 0) + entry.amount);
+    }
+  });
+  const total = COST_CATEGORIES.reduce((sum, category) => sum + byCategory[category], 0);
+
+  // Owned since the purchase, or since the first thing spent on it when the purchase date isn't known
+  const dates = entries.map(entry => entry.date).sort();
+  const ownedSince = vehicle.purchase_date || dates[0];
+  const monthsOwned = ownedSince
+    ? Math.max(1, differenceInCalendarDays(today, parseISO(ownedSince)) / DAYS_PER_MONTH)
+    : null;
+  const distanceMiles = getDistanceMiles(vehicle, collections.odometerReadings);
+
+  return {
+    total,
+    byCategory,
+    byServiceType: [...byServiceType.entries()]
+      .map(([serviceType, amount]) => ({ serviceType, amount }))
+      .sort((a, b) => b.amount - a.amount),
+    monthsOwned,
+    costPerMonth: monthsOwned && total > 0 ? total / monthsOwned : null,
+    distanceMiles,
+    costPerMile: distanceMiles && total > 0 ? total / distanceMiles : null,
+    years: buildYears(entries, today),
+  };
+};
+
+/**
+ * Builds the cost of ownership report for each of the user's vehicles, to compare them
+ * @param vehicles The user's vehicles
+ * @param collections Records for all of those vehicles
+ * @param convert Converts amounts to the currency the report is in
+ * @param today Reference date, defaults to now
+ */
+export const buildFleetCostComparison = (
+  vehicles: Vehicle[],
+  collections: CostCollections,
+  convert: CurrencyConverter = sameCurrency,
+  today: Date = new Date()
+): { vehicle: Vehicle; report: CostOfOwnership }[] => {
+  const recordVehicleIds = new Map(collections.serviceRecords.map(record => [record.id, record.vehicle_id]));
+
+  return vehicles.map(vehicle => ({
+    vehicle,
+    report: buildCostOfOwnership(vehicle, {
+      serviceRecords: collections.serviceRecords.filter(record => record.vehicle_id === vehicle.id),
+      serviceItems: collections.serviceItems.filter(item => recordVehicleIds.get(item.service_record_id) === vehicle.id),
+      maintenanceRecords: collections.maintenanceRecords.filter(record => record.vehicle_id === vehicle.id),
+      fuelEntries: collections.fuelEntries.filter(entry => entry.vehicle_id === vehicle.id),
+      expenses: collections.expenses.filter(expense => expense.vehicle_id === vehicle.id),
+      odometerReadings: collections.odometerReadings.filter(reading => reading.vehicle_id === vehicle.id),
+    }, convert, today),
+  }));
+};
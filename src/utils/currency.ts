@@ -0,0 +1,49 @@
+// Formatting and converting money amounts. Every amount is stored with its own
+// currency code; totals across amounts are converted to the user's preferred
+// currency with the exchange rates they entered. The codes and the conversion live
+// in shared/currency.js, which the server's digest uses too.
+
+import { convertAmount, toCurrencyCode } from '../../shared/currency.js';
+import type { ExchangeRateTable } from '../../shared/currency.js';
+
+export {
+  SUPPORTED_CURRENCIES,
+  buildExchangeRateTable,
+  canConvert,
+  convertAmount,
+  findMissingRates,
+  toCurrencyCode,
+} from '../../shared/currency.js';
+export type { ExchangeRateTable };
+
+// Converts an amount from its currency to the preferred one
+export type CurrencyConverter = (amount: number, currency: string | null | undefined) => number;
+
+/**
+ * A converter into the preferred currency; amounts without a currency are taken to be in it already.
+ * Amounts in a currency without a rate are added in unconverted; see findMissingRates.
+ */
+export const createConverter = (preferredCurrency: string, table: ExchangeRateTable): CurrencyConverter =>
+  (amount, currency) => convertAmount(amount, toCurrencyCode(currency, preferredCurrency), preferredCurrency, table);
+
+/**
+ * Formats an amount in its currency, e.g. $1,234.50, €12.00 or ¥1,500
+ * @param amount The amount; null or undefined shows as a dash
+ * @param currency ISO 4217 code
+ * @param options.cents false to round to whole units
+ */
+export const formatMoney = (
+  amount: number | null | undefined,
+  currency: string | null | undefined,
+  options: { cents?: boolean; maximumFractionDigits?: number } = {}
+) => {
+  if (amount === null || amount === undefined || !Number.isFinite(Number(amount))) return '—';
+  const code = toCurrencyCode(currency);
+  const { cents = true } = options;
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: code,
+    ...(cents ? {} : { minimumFractionDigits: 0, maximumFractionDigits: 0 }),
+    ...(options.maximumFractionDigits !== undefined ? { maximumFractionDigits: options.maximumFractionDigits } : {}),
+  }).format(Number(amount));
+};
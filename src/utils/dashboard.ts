@@ -0,0 +1,123 @@
+// Aggregates the per-vehicle collections into the numbers shown on the Dashboard.
+
+import { startOfYear, format } from 'date-fns';
+import { getUpcomingServices } from './mileageProjection';
+import type { CurrencyConverter } from './currency';
+import type { UpcomingService } from './mileageProjection';
+import type { Document, OdometerReading, RecallNotice, ServiceItem, ServiceRecord, Vehicle } from '../types';
+
+export const RECENT_DOCUMENT_COUNT = 4;
+
+export interface DashboardCollections {
+  serviceRecords: ServiceRecord[];
+  serviceItems: ServiceItem[];
+  documents: Document[];
+  recallNotices: RecallNotice[];
+  odometerReadings: OdometerReading[];
+}
+
+export interface VehicleOverview {
+  openRecalls: RecallNotice[];
+  overdueServices: UpcomingService[];
+  upcomingServices: UpcomingService[];
+  recentDocuments: Document[];
+  yearToDateSpend: number;
+  yearToDateServiceCount: number;
+}
+
+export interface FleetSummary {
+  vehicleCount: number;
+  openRecallCount: number;
+  overdueCount: number;
+  upcomingCount: number;
+  yearToDateSpend: number;
+  recentDocuments: Document[];
+  vehicles: { vehicle: Vehicle; overview: VehicleOverview }[];
+}
+
+/**
+ * A recall still needs attention until it is marked completed
+ */
+export const isOpenRecall = (recall: RecallNotice) => recall.status?.toLowerCase() !== 'completed';
+
+const sameCurrency: CurrencyConverter = amount => amount;
+
+/**
+ * Cost of a service record in the preferred currency, falling back to the sum of
+ * its items when no total was recorded
+ */
+const getRecordCost = (record: ServiceRecord, serviceItems: ServiceItem[], convert: CurrencyConverter) => {
+  if (record.total_cost !== null && record.total_cost !== undefined) return convert(record.total_cost, record.currency);
+  return serviceItems
+    .filter(item => item.service_record_id === record.id)
+    .reduce((sum, item) => sum + convert(item.cost || 0, item.currency), 0);
+};
+
+const byNewestUpload = (a: Document, b: Document) => b.created_at.localeCompare(a.created_at);
+
+/**
+ * Builds the Dashboard overview for a single vehicle
+ * @param collections The vehicle's records
+ * @param convert Converts amounts to the preferred currency for the spend totals
+ * @param today Reference date, defaults to now
+ */
+export const buildVehicleOverview = (
+  collections: DashboardCollections,
+  convert: CurrencyConverter = sameCurrency,
+  today: Date = new Date()
+): VehicleOverview => {
+  const { serviceRecords, serviceItems, documents, recallNotices, odometerReadings } = collections;
+  const yearStart = format(startOfYear(today), 'yyyy-MM-dd');
+  const todayString = format(today, 'yyyy-MM-dd');
+
+  const recordsThisYear = serviceRecords.filter(
+    record => record.service_date >= yearStart && record.service_date <= todayString
+  );
+  const services = getUpcomingServices(serviceItems, serviceRecords, odometerReadings, today);
+
+  return {
+    openRecalls: recallNotices.filter(isOpenRecall),
+    overdueServices: services.filter(service => service.isOverdue),
+    upcomingServices: services.filter(service => !service.isOverdue),
+    recentDocuments: [...documents].sort(byNewestUpload).slice(0, RECENT_DOCUMENT_COUNT),
+    yearToDateSpend: recordsThisYear.reduce((sum, record) => sum + getRecordCost(record, serviceItems, convert), 0),
+    yearToDateServiceCount: recordsThisYear.length,
+  };
+};
+
+/**
+ * Builds the fleet-wide summary shown when no vehicle is selected
+ * @param vehicles The user's vehicles
+ * @param collections Records for all of those vehicles
+ * @param convert Converts amounts to the preferred currency for the spend totals
+ * @param today Reference date, defaults to now
+ */
+export const buildFleetSummary = (
+  vehicles: Vehicle[],
+  collections: DashboardCollections,
+  convert: CurrencyConverter = sameCurrency,
+  today: Date = new Date()
+): FleetSummary => {
+  const recordVehicleIds = new Map(collections.serviceRecords.map(record => [record.id, record.vehicle_id]));
+
+  const perVehicle = vehicles.map(vehicle => ({
+    vehicle,
+    overview: buildVehicleOverview({
+      serviceRecords: collections.serviceRecords.filter(record => record.vehicle_id === vehicle.id),
+      serviceItems: collections.serviceItems.filter(item => recordVehicleIds.get(item.service_record_id) === vehicle.id),
+      documents: collections.documents.filter(doc => doc.vehicle_id === vehicle.id),
+      recallNotices: collections.recallNotices.filter(recall => recall.vehicle_id === vehicle.id),
+      odometerReadings: collections.odometerReadings.filter(reading => reading.vehicle_id === vehicle.id),
+    }, convert, today),
+  }));
+
+  return {
+    vehicleCount: vehicles.length,
+    openRecallCount: perVehicle.reduce((sum, { overview }) => sum + overview.openRecalls.length, 0),
+    overdueCount: perVehicle.reduce((sum, { overview }) => sum + overview.overdueServices.length, 0),
+    upcomingCount: perVehicle.reduce((sum, { overview }) => sum + overview.upcomingServices.length, 0),
+    yearToDateSpend: perVehicle.reduce((sum, { overview }) => sum + overview.yearToDateSpend, 0),
+    recentDocuments: [...collections.documents].sort(byNewestUpload).slice(0, RECENT_DOCUMENT_COUNT),
+    vehicles: perVehicle,
+  };
+};
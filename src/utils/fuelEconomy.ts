@@ -0,0 +1,102 @@
+// Helpers for working out fuel economy from a vehicle's fill-ups.
+
+import type { FuelEntry, UnitSystem, VolumeUnit } from '../types';
+
+export const LITRES_PER_GALLON = 3.785411784;
+export const KM_PER_MILE = 1.609344;
+
+export type FuelEntryLike = Pick<FuelEntry, 'id' | 'fill_date' | 'odometer' | 'volume' | 'volume_unit' | 'is_full_fill'>;
+
+// Fuel economy of the distance driven up to a full fill
+export type FuelEconomySegment = {
+  // The full fill that closes the segment
+  entryId: string;
+  distanceMiles: number;
+  gallons: number;
+  mpg: number;
+};
+
+/**
+ * profiles.preferred_units as a unit system; imperial unless set to metric
+ */
+export const toUnitSystem = (value: string | null | undefined): UnitSystem =>
+  value === 'metric' ? 'metric' : 'imperial';
+
+export const toGallons = (volume: number, unit: VolumeUnit | string) =>
+  unit === 'l' ? volume / LITRES_PER_GALLON : volume;
+
+export const toLitres = (volume: number, unit: VolumeUnit | string) =>
+  unit === 'l' ? volume : volume * LITRES_PER_GALLON;
+
+/**
+ * The volume unit fill-ups are entered and shown in for a unit system
+ */
+export const volumeUnitFor = (units: UnitSystem): VolumeUnit => (units === 'metric' ? 'l' : 'gal');
+
+/**
+ * Sorts fill-ups oldest first (by odometer, then date)
+ */
+export const sortFuelEntries = <T extends FuelEntryLike>(entries: T[]): T[] =>
+  [...entries].sort((a, b) => a.odometer - b.odometer || a.fill_date.localeCompare(b.fill_date));
+
+/**
+ * Works out fuel economy full tank to full tank: the distance since the previous
+ * full fill over the fuel bought since then, including any partial fills in between.
+ * Fill-ups before the first full fill have nothing to measure from and are skipped.
+ * @param entries The vehicle's fill-ups, in any order
+ * @returns One segment per full fill that follows an earlier full fill
+ */
+export const calculateFuelEconomy = (entries: FuelEntryLike[]): FuelEconomySegment[] => {
+  const segments: FuelEconomySegment[] = [];
+  let lastFull: FuelEntryLike | null = null;
+  let gallons = 0;
+
+  for (const entry of sortFuelEntries(entries)) {
+    if (!lastFull) {
+      if (entry.is_full_fill) lastFull = entry;
+      continue;
+    }
+
+    gallons += toGallons(Number(entry.volume), entry.volume_unit);
+    if (!entry.is_full_fill) continue;
+
+    const distanceMiles = entry.odometer - lastFull.odometer;
+    if (distanceMiles > 0 && gallons > 0) {
+      segments.push({ entryId: entry.id, distanceMiles, gallons, mpg: distanceMiles / gallons });
+    }
+    lastFull = entry;
+    gallons = 0;
+  }
+
+  return segments;
+};
+
+/**
+ * Overall fuel economy across all measured segments, in miles per gallon
+ * @returns null if no segment could be measured yet
+ */
+export const averageMpg = (segments: FuelEconomySegment[]): number | null => {
+  const distance = segments.reduce((sum, segment) => sum + segment.distanceMiles, 0);
+  const gallons = segments.reduce((sum, segment) => sum + segment.gallons, 0);
+  return gallons > 0 ? distance / gallons : null;
+};
+
+/**
+ * Formats miles per gallon as MPG, or as L/100km for metric
+ */
+export const formatFuelEconomy = (mpg: number | null, units: UnitSystem) => {
+  if (mpg === null || !Number.isFinite(mpg) || mpg <= 0) return '—';
+  if (units === 'metric') {
+    const litresPer100Km = (100 * LITRES_PER_GALLON) / (mpg * KM_PER_MILE);
+    return `${litresPer100Km.toFixed(1)} L/100km`;
+  }
+  return `${mpg.toFixed(1)} MPG`;
+};
+
+/**
+ * Formats a fill-up volume in the unit system's volume unit
+ */
+export const formatVolume = (volume: number, unit: VolumeUnit | string, units: UnitSystem) =>
+  units === 'metric'
+    ? `${toLitres(Number(volume), unit).toFixed(2)} L`
+    : `${toGallons(Number(volume), unit).toFixed(3)} gal`;
@@ -0,0 +1,186 @@
+// Preventive-maintenance due/overdue evaluation.
+// Works purely on data already loaded in AppContext so it can be re-run on every odometer change.
+
+import { addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { PmItem, ServiceRecord, ServiceItem, MaintenanceRecord } from '../types';
+
+export type PmStatus = 'overdue' | 'due_soon' | 'ok' | 'unknown';
+
+// An item is "due soon" when it is within either of these thresholds
+export const DUE_SOON_MILES = 500;
+export const DUE_SOON_DAYS = 30;
+
+export interface PmServiceHistory {
+  serviceRecords: ServiceRecord[];
+  serviceItems: ServiceItem[];
+  maintenanceRecords: MaintenanceRecord[];
+}
+
+export interface PmItemEvaluation {
+  item: PmItem;
+  status: PmStatus;
+  lastServiceDate: string | null;
+  lastServiceMileage: number | null;
+  dueDate: string | null;
+  dueMileage: number | null;
+  daysRemaining: number | null;
+  milesRemaining: number | null;
+  // Smallest fraction of an interval left before the item is due; negative when overdue
+  urgency: number;
+}
+
+interface ServiceEvent {
+  date: string;
+  mileage: number | null;
+}
+
+const normalizeServiceType = (serviceType: string) => serviceType.trim().toLowerCase();
+
+const STATUS_ORDER: Record<PmStatus, number> = {
+  overdue: 0,
+  due_soon: 1,
+  ok: 2,
+  unknown: 3,
+};
+
+/**
+ * Collects every past service event whose type matches the PM item,
+ * from service items (dated by their service record) and maintenance records.
+ */
+const findMatchingServiceEvents = (item: PmItem, history: PmServiceHistory): ServiceEvent[] => {
+  const serviceType = normalizeServiceType(item.service_type);
+  const recordsById = new Map(history.serviceRecords.map(record => [record.id, record]));
+  const events: ServiceEvent[] = [];
+
+  history.serviceItems
+    .filter(serviceItem => normalizeServiceType(serviceItem.service_type) === serviceType)
+    .forEach(serviceItem => {
+      const record = recordsById.get(serviceItem.service_record_id);
+      if (record) {
+        events.push({ date: record.service_date, mileage: record.mileage });
+      }
+    });
+
+  history.maintenanceRecords
+    .filter(record => record.vehicle_id === item.vehicle_id && normalizeServiceType(record.service_type) === serviceType)
+    .forEach(record => events.push({ date: record.service_date, mileage: record.mileage }));
+
+  if (item.last_service_date || item.last_service_mileage !== null) {
+    events.push({ date: item.last_service_date || '', mileage: item.last_service_mileage });
+  }
+
+  return events;
+};
+
+// Latest date first; the same service twice on one day is ordered by mileage,
+// highest first, with events missing a mileage last
+const byLatestEvent = (a: ServiceEvent, b: ServiceEvent) =>
+  b.date.localeCompare(a.date) || (b.mileage ?? -1) - (a.mileage ?? -1);
+
+/**
+ * Finds the most recent matching service. Date wins, then mileage; mileage falls back
+ * to the highest recorded mileage when the latest event didn't capture it.
+ */
+export const findLastService = (
+  item: PmItem,
+  history: PmServiceHistory
+): { date: string | null; mileage: number | null } => {
+  const events = findMatchingServiceEvents(item, history);
+  if (events.length === 0) {
+    return { date: null, mileage: null };
+  }
+
+  const dated = events.filter(event => event.date).sort(byLatestEvent);
+  const mileages = events.map(event => event.mileage).filter((mileage): mileage is number => mileage !== null);
+
+  const latest = dated[0];
+  return {
+    date: latest?.date || null,
+    mileage: latest?.mileage ?? (mileages.length > 0 ? Math.max(...mileages) : null),
+  };
+};
+
+/**
+ * Evaluates a single PM item against the vehicle's current mileage and service history
+ * @param item The PM item to evaluate
+ * @param currentMileage The vehicle's current odometer reading, if known
+ * @param history Service records, service items and maintenance records for the vehicle
+ * @param today Reference date, defaults to now
+ */
+export const evaluatePmItem = (
+  item: PmItem,
+  currentMileage: number | null,
+  history: PmServiceHistory,
+  today: Date = new Date()
+): PmItemEvaluation => {
+  const last = findLastService(item, history);
+
+  let dueMileage: number | null = null;
+  let milesRemaining: number | null = null;
+  let mileageFraction: number | null = null;
+  if (item.interval_miles && last.mileage !== null) {
+    dueMileage = last.mileage + item.interval_miles;
+    if (currentMileage !== null) {
+      milesRemaining = dueMileage - currentMileage;
+      mileageFraction = milesRemaining / item.interval_miles;
+    }
+  }
+
+  let dueDate: string | null = null;
+  let daysRemaining: number | null = null;
+  let dateFraction: number | null = null;
+  if (item.interval_months && last.date) {
+    const lastDate = parseISO(last.date);
+    const due = addMonths(lastDate, item.interval_months);
+    dueDate = format(due, 'yyyy-MM-dd');
+    daysRemaining = differenceInCalendarDays(due, today);
+    const intervalDays = Math.max(differenceInCalendarDays(due, lastDate), 1);
+    dateFraction = daysRemaining / intervalDays;
+  }
+
+  let status: PmStatus = 'unknown';
+  if (milesRemaining !== null || daysRemaining !== null) {
+    if ((milesRemaining !== null && milesRemaining <= 0) || (daysRemaining !== null && daysRemaining <= 0)) {
+      status = 'overdue';
+    } else if (
+      (milesRemaining !== null && milesRemaining <= DUE_SOON_MILES) ||
+      (daysRemaining !== null && daysRemaining <= DUE_SOON_DAYS)
+    ) {
+      status = 'due_soon';
+    } else {
+      status = 'ok';
+    }
+  }
+
+  const fractions = [mileageFraction, dateFraction].filter((fraction): fraction is number => fraction !== null);
+
+  return {
+    item,
+    status,
+    lastServiceDate: last.date,
+    lastServiceMileage: last.mileage,
+    dueDate,
+    dueMileage,
+    daysRemaining,
+    milesRemaining,
+    urgency: fractions.length > 0 ? Math.min(...fractions) : Number.POSITIVE_INFINITY,
+  };
+};
+
+/**
+ * Evaluates all PM items and sorts them by urgency (overdue first, unknown last)
+ */
+export const evaluatePmItems = (
+  items: PmItem[],
+  currentMileage: number | null,
+  history: PmServiceHistory,
+  today: Date = new Date()
+): PmItemEvaluation[] => {
+  return items
+    .map(item => evaluatePmItem(item, currentMileage, history, today))
+    .sort((a, b) => {
+      if (a.status !== b.status) return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+      if (a.urgency === b.urgency) return a.item.service_type.localeCompare(b.item.service_type);
+      return a.urgency < b.urgency ? -1 : 1;
+    });
+};
@@ -0,0 +1,132 @@
+// Matches the bundled maintenance schedule templates against a vehicle's make/model/year/body class.
+
+import { MAINTENANCE_TEMPLATES } from '../data/maintenanceTemplates';
+import type { EngineType, MaintenanceTemplate, MaintenanceTemplateItem } from '../data/maintenanceTemplates';
+import type { PmItemInsert, Vehicle } from '../types';
+
+export type TemplateVehicle = Pick<Vehicle, 'make' | 'model' | 'year'> & { body_class?: string | null };
+
+export interface TemplateOption {
+  template: MaintenanceTemplate;
+  engineType: EngineType;
+  items: MaintenanceTemplateItem[];
+  score: number;
+}
+
+// Identifies a template variant, e.g. { templateId: 'toyota', engineType: 'hybrid' }
+export interface TemplateSelection {
+  templateId: string;
+  engineType: EngineType;
+}
+
+export const ENGINE_TYPE_LABELS: Record<EngineType, string> = {
+  gasoline: 'Gasoline',
+  diesel: 'Diesel',
+  hybrid: 'Hybrid',
+  electric: 'Electric',
+};
+
+const ENGINE_TYPE_HINTS: { engineType: EngineType; pattern: RegExp }[] = [
+  { engineType: 'electric', pattern: /\b(ev|electric|e-tron|leaf|bolt|ioniq 5|ioniq 6|mach-e|lightning|id\.4|taycan|i3|i4|ix)\b/i },
+  { engineType: 'hybrid', pattern: /\b(hybrid|prius|plug-in|phev|powerboost|e:hev)\b/i },
+  { engineType: 'diesel', pattern: /\b(diesel|tdi|duramax|power ?stroke|cummins|ecodiesel|bluetec|\d{3}d)\b/i },
+];
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase();
+
+/**
+ * Best guess at the vehicle's powertrain from its make and model name.
+ * The user can always pick a different variant.
+ */
+export const guessEngineType = (vehicle: TemplateVehicle): EngineType => {
+  if (normalize(vehicle.make) === 'tesla') return 'electric';
+  const haystack = `${vehicle.model} ${vehicle.body_class || ''}`;
+  return ENGINE_TYPE_HINTS.find(hint => hint.pattern.test(haystack))?.engineType || 'gasoline';
+};
+
+/**
+ * Scores a template against a vehicle. Returns null when a hard criterion
+ * (make, model or year range) excludes it; body class only adds to the score.
+ */
+const scoreTemplate = (template: MaintenanceTemplate, vehicle: TemplateVehicle): number | null => {
+  const { match } = template;
+  let score = 0;
+
+  if (match.makes) {
+    if (!match.makes.some(make => normalize(make) === normalize(vehicle.make))) return null;
+    score += 4;
+  }
+
+  if (match.models) {
+    const model = normalize(vehicle.model);
+    if (!match.models.some(candidate => model.includes(normalize(candidate)))) return null;
+    score += 4;
+  }
+
+  if (match.yearFrom !== undefined || match.yearTo !== undefined) {
+    if (match.yearFrom !== undefined && vehicle.year < match.yearFrom) return null;
+    if (match.yearTo !== undefined && vehicle.year > match.yearTo) return null;
+    score += 2;
+  }
+
+  if (match.bodyClasses && vehicle.body_class) {
+    const bodyClass = normalize(vehicle.body_class);
+    if (match.bodyClasses.some(candidate => bodyClass.includes(normalize(candidate)))) {
+      score += 1;
+    }
+  }
+
+  return score;
+};
+
+/**
+ * Lists every template variant that applies to the vehicle, best match first.
+ * Variants for the guessed engine type rank ahead of other variants of the same template.
+ */
+export const findMatchingTemplates = (vehicle: TemplateVehicle): TemplateOption[] => {
+  const guessedEngine = guessEngineType(vehicle);
+  const options: TemplateOption[] = [];
+
+  MAINTENANCE_TEMPLATES.forEach(template => {
+    const score = scoreTemplate(template, vehicle);
+    if (score === null) return;
+
+    (Object.keys(template.variants) as EngineType[]).forEach(engineType => {
+      const items = template.variants[engineType];
+      if (items && items.length > 0) {
+        options.push({ template, engineType, items, score: score + (engineType === guessedEngine ? 0.5 : 0) });
+      }
+    });
+  });
+
+  return options.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Looks up the items for a selected template variant
+ */
+export const getTemplateItems = (selection: TemplateSelection): MaintenanceTemplateItem[] => {
+  const template = MAINTENANCE_TEMPLATES.find(candidate => candidate.id === selection.templateId);
+  return template?.variants[selection.engineType] || [];
+};
+
+/**
+ * Converts template items into PM item rows for a vehicle, skipping service
+ * types the vehicle already has a PM item for.
+ */
+export const buildPmItemsFromTemplate = (
+  vehicleId: string,
+  items: MaintenanceTemplateItem[],
+  existingServiceTypes: string[] = []
+): PmItemInsert[] => {
+  const existing = new Set(existingServiceTypes.map(normalize));
+  return items
+    .filter(item => !existing.has(normalize(item.service_type)))
+    .map(item => ({
+      vehicle_id: vehicleId,
+      service_type: item.service_type,
+      description: item.description,
+      interval_miles: item.interval_miles,
+      interval_months: item.interval_months,
+    }));
+};
@@ -0,0 +1,207 @@
+// Estimates how far a vehicle is driven per day from its odometer history and
+// turns mileage-based service thresholds into projected due dates.
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { sortReadings } from './odometer';
+import type { OdometerReading, ServiceItem, ServiceRecord } from '../types';
+
+// Roughly 13,500 miles a year; only used when a vehicle has a single reading
+export const DEFAULT_MILES_PER_DAY = 37;
+
+// With this many readings or more the estimate is considered reliable
+export const CONFIDENT_READING_COUNT = 5;
+
+// Relative width of the projection range by number of readings
+const FEW_READINGS_MARGIN: Record<number, number> = { 1: 0.5, 2: 0.4, 3: 0.3, 4: 0.2 };
+const MIN_MARGIN = 0.1;
+
+// Only list services due within this many days
+export const UPCOMING_WINDOW_DAYS = 180;
+
+export interface DailyMileageEstimate {
+  milesPerDay: number;
+  lowMilesPerDay: number;
+  highMilesPerDay: number;
+  readingCount: number;
+  isLowConfidence: boolean;
+  // The reading projections are measured from
+  baseDate: string;
+  baseMileage: number;
+}
+
+export interface MileageProjection {
+  expectedDate: string;
+  // Range of likely dates; equal to expectedDate when the threshold has already passed
+  earliestDate: string;
+  latestDate: string;
+  isLowConfidence: boolean;
+}
+
+export interface UpcomingService {
+  id: string;
+  serviceType: string;
+  nextServiceDate: string | null;
+  nextServiceMileage: number | null;
+  projection: MileageProjection | null;
+  // Whichever comes first: the stated date or the projected mileage date
+  dueDate: string | null;
+  isOverdue: boolean;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Estimates average miles per day from the odometer history.
+ * The range is widened when there are only a few readings or when the
+ * driving rate varies a lot between readings.
+ * @param readings The vehicle's odometer readings
+ * @returns The estimate, or null if there are no usable readings
+ */
+export const estimateDailyMileage = (readings: OdometerReading[]): DailyMileageEstimate | null => {
+  const valid = sortReadings(readings.filter(reading => !reading.is_rollback));
+  if (valid.length === 0) return null;
+
+  const first = valid[0];
+  const last = valid[valid.length - 1];
+  const spanDays = differenceInCalendarDays(parseISO(last.reading_date), parseISO(first.reading_date));
+
+  if (valid.length === 1 || spanDays <= 0) {
+    const margin = FEW_READINGS_MARGIN[1];
+    return {
+      milesPerDay: DEFAULT_MILES_PER_DAY,
+      lowMilesPerDay: DEFAULT_MILES_PER_DAY * (1 - margin),
+      highMilesPerDay: DEFAULT_MILES_PER_DAY * (1 + margin),
+      readingCount: valid.length,
+      isLowConfidence: true,
+      baseDate: last.reading_date,
+      baseMileage: last.mileage,
+    };
+  }
+
+  const milesPerDay = (last.mileage - first.mileage) / spanDays;
+
+  // Spread of the per-interval rates, weighted by interval length
+  let weightedVariance = 0;
+  for (let i = 1; i < valid.length; i++) {
+    const days = differenceInCalendarDays(parseISO(valid[i].reading_date), parseISO(valid[i - 1].reading_date));
+    if (days <= 0) continue;
+    const rate = (valid[i].mileage - valid[i - 1].mileage) / days;
+    weightedVariance += ((rate - milesPerDay) ** 2) * days;
+  }
+  const relativeSpread = milesPerDay > 0 ? Math.sqrt(weightedVariance / spanDays) / milesPerDay : 0;
+
+  const margin = Math.min(
+    0.9,
+    Math.max(FEW_READINGS_MARGIN[valid.length] ?? MIN_MARGIN, relativeSpread, MIN_MARGIN)
+  );
+
+  return {
+    milesPerDay,
+    lowMilesPerDay: milesPerDay * (1 - margin),
+    highMilesPerDay: milesPerDay * (1 + margin),
+    readingCount: valid.length,
+    isLowConfidence: valid.length < CONFIDENT_READING_COUNT,
+    baseDate: last.reading_date,
+    baseMileage: last.mileage,
+  };
+};
+
+/**
+ * Projects the date a vehicle will reach a given odometer value
+ * @param estimate The vehicle's daily mileage estimate
+ * @param targetMileage The mileage threshold
+ * @param today Reference date, defaults to now
+ * @returns The projected dates, or null if the vehicle isn't being driven
+ */
+export const projectMileageDate = (
+  estimate: DailyMileageEstimate,
+  targetMileage: number,
+  today: Date = new Date()
+): MileageProjection | null => {
+  const base = parseISO(estimate.baseDate);
+  const remaining = targetMileage - estimate.baseMileage;
+
+  if (remaining <= 0) {
+    const date = estimate.baseDate;
+    return { expectedDate: date, earliestDate: date, latestDate: date, isLowConfidence: false };
+  }
+
+  if (estimate.milesPerDay <= 0) return null;
+
+  const projectFrom = (milesPerDay: number) => {
+    const projected = addDays(base, Math.ceil(remaining / milesPerDay));
+    // A projection that already lies in the past means the threshold was most likely passed
+    return toDateString(projected < today ? today : projected);
+  };
+
+  return {
+    expectedDate: projectFrom(estimate.milesPerDay),
+    earliestDate: projectFrom(estimate.highMilesPerDay),
+    latestDate: projectFrom(estimate.lowMilesPerDay),
+    isLowConfidence: estimate.isLowConfidence,
+  };
+};
+
+/**
+ * Lists the next due date/mileage recorded on service items, using only the most
+ * recent item of each service type, with mileage thresholds projected to dates.
+ * @param serviceItems Service items for the vehicle
+ * @param serviceRecords Service records the items belong to
+ * @param readings The vehicle's odometer readings
+ * @param today Reference date, defaults to now
+ * @returns Services due within UPCOMING_WINDOW_DAYS (or overdue), soonest first
+ */
+export const getUpcomingServices = (
+  serviceItems: ServiceItem[],
+  serviceRecords: ServiceRecord[],
+  readings: OdometerReading[],
+  today: Date = new Date()
+): UpcomingService[] => {
+  const recordDates = new Map(serviceRecords.map(record => [record.id, record.service_date]));
+  const estimate = estimateDailyMileage(readings);
+  const todayString = toDateString(today);
+  const windowEnd = toDateString(addDays(today, UPCOMING_WINDOW_DAYS));
+
+  // Keep only the latest item per service type
+  const latestByType = new Map<string, ServiceItem>();
+  serviceItems.forEach(item => {
+    const key = item.service_type.trim().toLowerCase();
+    const current = latestByType.get(key);
+    const itemDate = recordDates.get(item.service_record_id) || '';
+    const currentDate = current ? recordDates.get(current.service_record_id) || '' : '';
+    if (!current || itemDate > currentDate) {
+      latestByType.set(key, item);
+    }
+  });
+
+  const upcoming: UpcomingService[] = [];
+  latestByType.forEach(item => {
+    if (!item.next_service_date && !item.next_service_mileage) return;
+
+    const projection = item.next_service_mileage && estimate
+      ? projectMileageDate(estimate, item.next_service_mileage, today)
+      : null;
+
+    const candidates = [item.next_service_date, projection?.expectedDate].filter((date): date is string => !!date);
+    const dueDate = candidates.length > 0 ? candidates.sort()[0] : null;
+    const mileagePassed = !!item.next_service_mileage && !!estimate && estimate.baseMileage >= item.next_service_mileage;
+    const isOverdue = mileagePassed || (!!item.next_service_date && item.next_service_date < todayString);
+
+    if (!isOverdue && dueDate && dueDate > windowEnd) return;
+
+    upcoming.push({
+      id: item.id,
+      serviceType: item.service_type,
+      nextServiceDate: item.next_service_date,
+      nextServiceMileage: item.next_service_mileage,
+      projection,
+      dueDate,
+      isOverdue,
+    });
+  });
+
+  return upcoming.sort((a, b) => {
+    if (a.isOverdue !== b.isOverdue) return a.isOverdue ? -1 : 1;
+    return (a.dueDate || '9999-12-31').localeCompare(b.dueDate || '9999-12-31');
+  });
+};
@@ -0,0 +1,52 @@
+// Helpers for working with a vehicle's odometer history.
+
+import type { OdometerReading } from '../types';
+
+export type OdometerReadingLike = Pick<OdometerReading, 'reading_date' | 'mileage'> & {
+  id?: string;
+  service_record_id?: string | null;
+  is_rollback?: boolean;
+};
+
+/**
+ * Sorts readings oldest first (by date, then mileage)
+ */
+export const sortReadings = <T extends OdometerReadingLike>(readings: T[]): T[] =>
+  [...readings].sort((a, b) => a.reading_date.localeCompare(b.reading_date) || a.mileage - b.mileage);
+
+/**
+ * Finds an existing reading that the new value contradicts: an earlier (or same-day)
+ * reading with a higher mileage, or a later reading with a lower mileage.
+ * Readings already flagged as rollbacks are ignored.
+ * @param readings The vehicle's existing readings
+ * @param reading The reading being added or updated
+ * @returns The conflicting reading, or null if the value is consistent with the history
+ */
+export const findRollbackConflict = <T extends OdometerReadingLike>(
+  readings: T[],
+  reading: OdometerReadingLike
+): T | null => {
+  const others = readings.filter(existing =>
+    !existing.is_rollback &&
+    (!reading.id || existing.id !== reading.id) &&
+    (!reading.service_record_id || existing.service_record_id !== reading.service_record_id)
+  );
+
+  const earlierHigher = others
+    .filter(existing => existing.reading_date <= reading.reading_date && existing.mileage > reading.mileage)
+    .sort((a, b) => b.mileage - a.mileage)[0];
+  if (earlierHigher) return earlierHigher;
+
+  const laterLower = others
+    .filter(existing => existing.reading_date > reading.reading_date && existing.mileage < reading.mileage)
+    .sort((a, b) => a.mileage - b.mileage)[0];
+  return laterLower || null;
+};
+
+/**
+ * The most recent valid reading, or null if there are none
+ */
+export const getLatestReading = <T extends OdometerReadingLike>(readings: T[]): T | null => {
+  const valid = sortReadings(readings.filter(reading => !reading.is_rollback));
+  return valid.length > 0 ? valid[valid.length - 1] : null;
+};
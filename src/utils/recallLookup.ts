@@ -0,0 +1,5 @@
+// Utility to look up safety recalls using the NHTSA Recalls API
+// https://www.nhtsa.gov/nhtsa-datasets-and-apis#recalls
+
+export { fetchNhtsaRecalls, lookupVehicleRecalls } from '../../shared/nhtsaRecalls.js';
+export type { NhtsaRecall, RecallLookup, RecallLookupVehicle } from '../../shared/nhtsaRecalls.js';
@@ -0,0 +1,58 @@
+// Converting odometer values for display and input. Every stored mileage (vehicles,
+// odometer readings, service and maintenance records, fill-ups) is in miles. A vehicle's
+// odometer reads in its odometer_unit, or in the unit of the user's preferred_units
+// when it has none; values are converted to that unit when shown and back when entered.
+
+import { KM_PER_MILE, toUnitSystem } from './fuelEconomy';
+import type { DistanceUnit, UnitSystem, Vehicle } from '../types';
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  mi: 'miles',
+  km: 'km',
+};
+
+/**
+ * A stored or extracted unit as a distance unit, or null if it isn't one
+ */
+export const toDistanceUnit = (value: string | null | undefined): DistanceUnit | null =>
+  value === 'mi' || value === 'km' ? value : null;
+
+/**
+ * The distance unit of a unit system
+ */
+export const distanceUnitFor = (units: UnitSystem): DistanceUnit => (units === 'metric' ? 'km' : 'mi');
+
+/**
+ * The unit a vehicle's odometer is shown and entered in
+ * @param vehicle The vehicle; its odometer_unit wins when set
+ * @param preferredUnits profiles.preferred_units
+ */
+export const getOdometerUnit = (
+  vehicle: Partial<Pick<Vehicle, 'odometer_unit'>> | null | undefined,
+  preferredUnits: string | null | undefined
+): DistanceUnit => toDistanceUnit(vehicle?.odometer_unit) || distanceUnitFor(toUnitSystem(preferredUnits));
+
+/**
+ * A stored mileage in the given unit, to the nearest whole unit for display and form fields
+ */
+export const fromMiles = (miles: number, unit: DistanceUnit) =>
+  Math.round(unit === 'km' ? miles * KM_PER_MILE : miles);
+
+/**
+ * A distance entered in the given unit as the miles it is stored as. Not rounded, so
+ * a value shown with fromMiles and saved again comes back unchanged.
+ */
+export const toMiles = (distance: number, unit: DistanceUnit) =>
+  unit === 'km' ? distance / KM_PER_MILE : distance;
+
+/**
+ * Nullable toMiles for optional form fields and extracted values
+ */
+export const toStoredMileage = (distance: number | null | undefined, unit: DistanceUnit) =>
+  distance === null || distance === undefined ? null : toMiles(distance, unit);
+
+/**
+ * Formats a stored mileage in the given unit, e.g. "42,150 miles" or "67,834 km"
+ */
+export const formatDistance = (miles: number, unit: DistanceUnit) =>
+  `${fromMiles(miles, unit).toLocaleString()} ${DISTANCE_UNIT_LABELS[unit]}`;
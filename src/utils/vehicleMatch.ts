@@ -0,0 +1,88 @@
+// Helpers for matching the vehicle printed on a document to the user's vehicles.
+
+import type { DocumentAnalysisResult, Vehicle } from '../types';
+
+export type ExtractedVehicleInfo = NonNullable<DocumentAnalysisResult['vehicleInfo']>;
+
+// match: the document is for the vehicle it is being filed under
+// other_vehicle: it is for another of the user's vehicles
+// new_vehicle: it names a VIN or plate that none of the user's vehicles have
+// unknown: the document doesn't say which vehicle it is for
+export type VehicleMatchStatus = 'match' | 'other_vehicle' | 'new_vehicle' | 'unknown';
+
+export type VehicleMatch = {
+  status: VehicleMatchStatus;
+  // The matching vehicle for match and other_vehicle
+  vehicle: Vehicle | null;
+  matchedOn: 'vin' | 'license_plate' | 'details' | null;
+};
+
+/**
+ * VINs and plates are compared without case, spaces or dashes
+ */
+export const normalizeIdentifier = (value: string | null | undefined) =>
+  (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const formatVehicleName = (vehicle: Pick<Vehicle, 'year' | 'make' | 'model'>) =>
+  `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+
+const sameText = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Finds which of the user's vehicles a document is for. The VIN is trusted first,
+ * then the license plate; year, make and model only decide when neither was read.
+ * @param vehicleInfo The vehicle details extracted from the document
+ * @param vehicles The user's vehicles
+ * @param currentVehicleId The vehicle the document is being filed under
+ */
+export const matchExtractedVehicle = (
+  vehicleInfo: ExtractedVehicleInfo | null | undefined,
+  vehicles: Vehicle[],
+  currentVehicleId: string
+): VehicleMatch => {
+  const unknown: VehicleMatch = { status: 'unknown', vehicle: null, matchedOn: null };
+  if (!vehicleInfo) return unknown;
+
+  const toMatch = (vehicle: Vehicle, matchedOn: VehicleMatch['matchedOn']): VehicleMatch => ({
+    status: vehicle.id === currentVehicleId ? 'match' : 'other_vehicle',
+    vehicle,
+    matchedOn,
+  });
+
+  const identifiers: ['vin' | 'license_plate', string][] = [
+    ['vin', normalizeIdentifier(vehicleInfo.vin)],
+    ['license_plate', normalizeIdentifier(vehicleInfo.licensePlate)],
+  ];
+
+  for (const [field, value] of identifiers) {
+    if (!value) continue;
+    const vehicle = vehicles.find(candidate => normalizeIdentifier(candidate[field]) === value);
+    if (vehicle) return toMatch(vehicle, field);
+  }
+
+  // A VIN or plate that none of the vehicles have means a car that isn't in the
+  // garage yet, unless the vehicles simply don't have theirs recorded
+  const unmatched = identifiers.some(([field, value]) =>
+    value && vehicles.some(vehicle => normalizeIdentifier(vehicle[field]))
+  );
+  if (unmatched || (normalizeIdentifier(vehicleInfo.vin) && vehicles.length === 0)) {
+    return { status: 'new_vehicle', vehicle: null, matchedOn: null };
+  }
+
+  if (!vehicleInfo.make) return unknown;
+  const sameDetails = vehicles.filter(vehicle =>
+    sameText(vehicle.make, vehicleInfo.make) &&
+    (!vehicleInfo.model || sameText(vehicle.model, vehicleInfo.model)) &&
+    (!vehicleInfo.year || vehicle.year === vehicleInfo.year)
+  );
+  const current = sameDetails.find(vehicle => vehicle.id === currentVehicleId);
+  if (current) return toMatch(current, 'details');
+  // Details alone are only trusted when they point at a single vehicle
+  if (sameDetails.length === 1) return toMatch(sameDetails[0], 'details');
+  if (vehicleInfo.model && !vehicles.some(vehicle => sameText(vehicle.make, vehicleInfo.make))) {
+    return { status: 'new_vehicle', vehicle: null, matchedOn: null };
+  }
+
+  return unknown;
+};
@@ -0,0 +1,77 @@
+-- Create pm_items table
+-- Preventive-maintenance items: a recurring service with a mileage and/or time interval
+CREATE TABLE IF NOT EXISTS public.pm_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  service_type TEXT NOT NULL,
+  description TEXT,
+  interval_miles INTEGER CHECK (interval_miles IS NULL OR interval_miles > 0),
+  interval_months INTEGER CHECK (interval_months IS NULL OR interval_months > 0),
+  last_service_date DATE,
+  last_service_mileage INTEGER,
+  notes TEXT,
+  CONSTRAINT pm_items_interval_required CHECK (interval_miles IS NOT NULL OR interval_months IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS pm_items_vehicle_id_idx ON public.pm_items(vehicle_id);
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.pm_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Allow users to view PM items for their own vehicles
+CREATE POLICY "Users can view own pm items" ON public.pm_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = pm_items.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to insert PM items for their own vehicles
+CREATE POLICY "Users can insert pm items for own vehicles" ON public.pm_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = pm_items.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to update PM items for their own vehicles
+CREATE POLICY "Users can update pm items for own vehicles" ON public.pm_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = pm_items.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to delete PM items for their own vehicles
+CREATE POLICY "Users can delete pm items for own vehicles" ON public.pm_items
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = pm_items.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Create function to update updated_at when a PM item is updated
+CREATE OR REPLACE FUNCTION public.handle_pm_item_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for PM item updates
+DROP TRIGGER IF EXISTS on_pm_item_updated ON public.pm_items;
+CREATE TRIGGER on_pm_item_updated
+  BEFORE UPDATE ON public.pm_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_pm_item_updated_at();
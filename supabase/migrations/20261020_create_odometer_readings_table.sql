@@ -0,0 +1,99 @@
+-- Create odometer_readings table
+-- Dated odometer history per vehicle; vehicles.mileage keeps only the latest value
+CREATE TABLE IF NOT EXISTS public.odometer_readings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  reading_date DATE NOT NULL,
+  mileage INTEGER NOT NULL CHECK (mileage >= 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'service_record', 'document_extraction')),
+  service_record_id UUID REFERENCES public.service_records(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  -- Set when the value is lower than an earlier reading (or higher than a later one)
+  is_rollback BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS odometer_readings_vehicle_id_idx ON public.odometer_readings(vehicle_id, reading_date);
+
+-- At most one reading per service record, so saving a record again updates its reading
+CREATE UNIQUE INDEX IF NOT EXISTS odometer_readings_service_record_id_key ON public.odometer_readings(service_record_id);
+
+-- Backfill from existing service records
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, mileage, source, service_record_id, document_id)
+SELECT
+  service_records.vehicle_id,
+  service_records.service_date,
+  service_records.mileage,
+  CASE WHEN service_records.document_id IS NULL THEN 'service_record' ELSE 'document_extraction' END,
+  service_records.id,
+  service_records.document_id
+FROM public.service_records
+WHERE service_records.mileage IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- ...and from the current mileage stored on each vehicle
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, mileage, source)
+SELECT vehicles.id, vehicles.updated_at::DATE, vehicles.mileage, 'manual'
+FROM public.vehicles
+WHERE vehicles.mileage IS NOT NULL;
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.odometer_readings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Allow users to view odometer readings for their own vehicles
+CREATE POLICY "Users can view own odometer readings" ON public.odometer_readings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = odometer_readings.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to insert odometer readings for their own vehicles
+CREATE POLICY "Users can insert odometer readings for own vehicles" ON public.odometer_readings
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = odometer_readings.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to update odometer readings for their own vehicles
+CREATE POLICY "Users can update odometer readings for own vehicles" ON public.odometer_readings
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = odometer_readings.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to delete odometer readings for their own vehicles
+CREATE POLICY "Users can delete odometer readings for own vehicles" ON public.odometer_readings
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = odometer_readings.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Create function to update updated_at when an odometer reading is updated
+CREATE OR REPLACE FUNCTION public.handle_odometer_reading_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for odometer reading updates
+DROP TRIGGER IF EXISTS on_odometer_reading_updated ON public.odometer_readings;
+CREATE TRIGGER on_odometer_reading_updated
+  BEFORE UPDATE ON public.odometer_readings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_odometer_reading_updated_at();
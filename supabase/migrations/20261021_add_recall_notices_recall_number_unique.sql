@@ -0,0 +1,38 @@
+-- Recalls are synced from NHTSA by campaign number, so each vehicle can hold a campaign only once
+
+-- Merge duplicates left by manual entry into the oldest notice: it takes the furthest
+-- status reached (completed, then scheduled, then open) and the notes of every copy
+WITH copies AS (
+  SELECT
+    id,
+    status,
+    notes,
+    created_at,
+    first_value(id) OVER (PARTITION BY vehicle_id, recall_number ORDER BY created_at, id) AS keep_id,
+    row_number() OVER (PARTITION BY vehicle_id, recall_number, notes ORDER BY created_at, id) AS note_copy
+  FROM public.recall_notices
+),
+merged AS (
+  SELECT
+    keep_id,
+    (array_agg(status ORDER BY CASE lower(status) WHEN 'completed' THEN 0 WHEN 'scheduled' THEN 1 ELSE 2 END, created_at, id))[1] AS status,
+    string_agg(notes, E'\n\n' ORDER BY created_at, id) FILTER (WHERE note_copy = 1 AND btrim(notes) <> '') AS notes
+  FROM copies
+  GROUP BY keep_id
+  HAVING count(*) > 1
+)
+UPDATE public.recall_notices notice
+SET status = merged.status,
+    notes = merged.notes,
+    updated_at = NOW()
+FROM merged
+WHERE notice.id = merged.keep_id;
+
+DELETE FROM public.recall_notices newer
+USING public.recall_notices older
+WHERE newer.vehicle_id = older.vehicle_id
+  AND newer.recall_number = older.recall_number
+  AND (newer.created_at, newer.id) > (older.created_at, older.id);
+
+ALTER TABLE public.recall_notices
+  ADD CONSTRAINT recall_notices_vehicle_recall_number_key UNIQUE (vehicle_id, recall_number);
@@ -0,0 +1,52 @@
+-- Create push_subscriptions table
+-- One Web Push subscription per user and device (browser profile)
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT push_subscriptions_user_device_key UNIQUE (user_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx ON public.push_subscriptions(user_id);
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Allow users to view their own push subscriptions
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Allow users to insert their own push subscriptions
+CREATE POLICY "Users can insert own push subscriptions" ON public.push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Allow users to update their own push subscriptions
+CREATE POLICY "Users can update own push subscriptions" ON public.push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Allow users to delete their own push subscriptions
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create function to update updated_at when a push subscription is updated
+CREATE OR REPLACE FUNCTION public.handle_push_subscription_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for push subscription updates
+DROP TRIGGER IF EXISTS on_push_subscription_updated ON public.push_subscriptions;
+CREATE TRIGGER on_push_subscription_updated
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_push_subscription_updated_at();
@@ -0,0 +1,48 @@
+-- Create sent_reminders table
+-- Log of maintenance reminders already delivered, so the reminder scheduler
+-- notifies each due item once per channel. due_key holds the due date/mileage
+-- the reminder was sent for; when an item is rescheduled it gets a new key.
+CREATE TABLE IF NOT EXISTS public.sent_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  source_table TEXT NOT NULL CHECK (source_table IN ('service_items', 'maintenance_records')),
+  source_id UUID NOT NULL,
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('due', 'overdue')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'push', 'sms')),
+  due_key TEXT NOT NULL,
+  CONSTRAINT sent_reminders_unique_key UNIQUE (source_table, source_id, reminder_type, channel, due_key)
+);
+
+CREATE INDEX IF NOT EXISTS sent_reminders_user_id_idx ON public.sent_reminders(user_id);
+CREATE INDEX IF NOT EXISTS sent_reminders_vehicle_id_idx ON public.sent_reminders(vehicle_id);
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.sent_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Rows are written by the server with the service role; users can only see and clear their own
+-- Allow users to view their own sent reminders
+CREATE POLICY "Users can view own sent reminders" ON public.sent_reminders
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Allow users to delete their own sent reminders
+CREATE POLICY "Users can delete own sent reminders" ON public.sent_reminders
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create function to update updated_at when a sent reminder is updated
+CREATE OR REPLACE FUNCTION public.handle_sent_reminder_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for sent reminder updates
+DROP TRIGGER IF EXISTS on_sent_reminder_updated ON public.sent_reminders;
+CREATE TRIGGER on_sent_reminder_updated
+  BEFORE UPDATE ON public.sent_reminders
+  FOR EACH ROW EXECUTE FUNCTION public.handle_sent_reminder_updated_at();
@@ -0,0 +1,19 @@
+-- Create email_digests table
+-- One row per user and month once the monthly digest email has been sent,
+-- so a server restart on the digest day doesn't send it twice
+CREATE TABLE IF NOT EXISTS public.email_digests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period TEXT NOT NULL, -- yyyy-MM of the month the digest covers
+  CONSTRAINT email_digests_user_period_key UNIQUE (user_id, period)
+);
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.email_digests ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Rows are written by the server with the service role
+-- Allow users to view their own digests
+CREATE POLICY "Users can view own email digests" ON public.email_digests
+  FOR SELECT USING (auth.uid() = user_id);
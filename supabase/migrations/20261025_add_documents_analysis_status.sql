@@ -0,0 +1,22 @@
+-- Track each uploaded document through background analysis.
+-- Batch uploads create the documents rows right away and analyze them from a queue:
+--   queued -> analyzing -> needs_review -> saved
+-- or failed, with analysis_error saying why, after the last attempt.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'analyzing', 'needs_review', 'saved', 'failed')),
+  ADD COLUMN IF NOT EXISTS analysis_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS analysis_error TEXT;
+
+-- Existing documents: linked ones are done, analyzed ones wait for review,
+-- and anything else can be retried from the document list
+UPDATE public.documents SET status = CASE
+  WHEN service_record_id IS NOT NULL THEN 'saved'
+  WHEN analyzed THEN 'needs_review'
+  ELSE 'failed'
+END;
+
+UPDATE public.documents SET analysis_error = 'Not analyzed'
+WHERE status = 'failed' AND analysis_error IS NULL;
+
+CREATE INDEX IF NOT EXISTS documents_vehicle_status_idx ON public.documents(vehicle_id, status);
@@ -0,0 +1,10 @@
+-- SHA-256 of the uploaded file, so the same receipt uploaded twice can be
+-- recognised before a second service record is created for it.
+-- Documents uploaded before this migration have no hash and are only matched
+-- on their service record's details.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS documents_vehicle_content_hash_idx
+  ON public.documents(vehicle_id, content_hash)
+  WHERE content_hash IS NOT NULL;
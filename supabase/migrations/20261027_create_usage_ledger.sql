@@ -0,0 +1,60 @@
+-- Create usage_events table
+-- One row per request that calls a paid model (document analysis, image generation),
+-- with the model, tokens, images and the estimated cost at the time of the request
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature TEXT NOT NULL CHECK (feature IN ('document_analysis', 'image_generation')),
+  provider TEXT NOT NULL, -- openai, tesseract or fixture
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  image_count INTEGER NOT NULL DEFAULT 0, -- images sent to (or generated by) the model
+  cost_usd NUMERIC(10, 6) NOT NULL DEFAULT 0,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS usage_events_user_created_at_idx ON public.usage_events(user_id, created_at);
+
+-- Create usage_quotas table
+-- Per-user overrides of the monthly limits in USAGE_MONTHLY_COST_LIMIT_USD and
+-- USAGE_MONTHLY_REQUEST_LIMIT; a NULL column falls back to the server default
+CREATE TABLE IF NOT EXISTS public.usage_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  monthly_cost_limit_usd NUMERIC(10, 2),
+  monthly_request_limit INTEGER
+);
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- The server records usage with the caller's session; rows can't be changed or deleted
+CREATE POLICY "Users can view own usage" ON public.usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own usage" ON public.usage_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Quotas are set by an administrator with the service role
+CREATE POLICY "Users can view own usage quota" ON public.usage_quotas
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create function to update updated_at when a usage quota is updated
+CREATE OR REPLACE FUNCTION public.handle_usage_quota_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for usage quota updates
+DROP TRIGGER IF EXISTS on_usage_quota_updated ON public.usage_quotas;
+CREATE TRIGGER on_usage_quota_updated
+  BEFORE UPDATE ON public.usage_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.handle_usage_quota_updated_at();
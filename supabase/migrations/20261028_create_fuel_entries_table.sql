@@ -0,0 +1,91 @@
+-- Create fuel_entries table
+-- One row per fill-up; fuel economy is worked out between full fills, so partial
+-- fills only add their volume to the next full one
+CREATE TABLE IF NOT EXISTS public.fuel_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  fill_date DATE NOT NULL,
+  odometer INTEGER NOT NULL CHECK (odometer >= 0),
+  volume NUMERIC(8,3) NOT NULL CHECK (volume > 0),
+  -- The unit the volume was entered in
+  volume_unit TEXT NOT NULL DEFAULT 'gal' CHECK (volume_unit IN ('gal', 'l')),
+  price_per_unit NUMERIC(8,3),
+  total_cost NUMERIC(10,2),
+  is_full_fill BOOLEAN NOT NULL DEFAULT TRUE,
+  station TEXT,
+  notes TEXT,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS fuel_entries_vehicle_id_idx ON public.fuel_entries(vehicle_id, fill_date);
+
+-- Each fill-up also records an odometer reading
+ALTER TABLE public.odometer_readings
+  ADD COLUMN IF NOT EXISTS fuel_entry_id UUID REFERENCES public.fuel_entries(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS odometer_readings_fuel_entry_id_key ON public.odometer_readings(fuel_entry_id);
+
+ALTER TABLE public.odometer_readings DROP CONSTRAINT IF EXISTS odometer_readings_source_check;
+ALTER TABLE public.odometer_readings ADD CONSTRAINT odometer_readings_source_check
+  CHECK (source IN ('manual', 'service_record', 'document_extraction', 'fuel_entry'));
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.fuel_entries ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Allow users to view fuel entries for their own vehicles
+CREATE POLICY "Users can view own fuel entries" ON public.fuel_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = fuel_entries.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to insert fuel entries for their own vehicles
+CREATE POLICY "Users can insert fuel entries for own vehicles" ON public.fuel_entries
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = fuel_entries.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to update fuel entries for their own vehicles
+CREATE POLICY "Users can update fuel entries for own vehicles" ON public.fuel_entries
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = fuel_entries.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to delete fuel entries for their own vehicles
+CREATE POLICY "Users can delete fuel entries for own vehicles" ON public.fuel_entries
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = fuel_entries.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Create function to update updated_at when a fuel entry is updated
+CREATE OR REPLACE FUNCTION public.handle_fuel_entry_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for fuel entry updates
+DROP TRIGGER IF EXISTS on_fuel_entry_updated ON public.fuel_entries;
+CREATE TRIGGER on_fuel_entry_updated
+  BEFORE UPDATE ON public.fuel_entries
+  FOR EACH ROW EXECUTE FUNCTION public.handle_fuel_entry_updated_at();
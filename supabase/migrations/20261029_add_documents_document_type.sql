@@ -0,0 +1,10 @@
+-- What kind of document an upload is, set by the classifier step of document analysis.
+-- Service invoices become service records and fuel receipts fuel entries; the other
+-- types are only filed with the vehicle.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS document_type TEXT
+    CHECK (document_type IN ('service_invoice', 'fuel', 'parking_toll', 'insurance', 'registration', 'other'));
+
+-- Documents analyzed before classification were all read as service invoices
+UPDATE public.documents SET document_type = 'service_invoice'
+WHERE analyzed AND document_type IS NULL;
@@ -0,0 +1,76 @@
+-- Create vehicle_expenses table
+-- Costs of owning a vehicle that are neither service nor fuel (insurance premiums,
+-- registration fees, parking and tolls), for the total cost of ownership report
+CREATE TABLE IF NOT EXISTS public.vehicle_expenses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  expense_date DATE NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('insurance', 'registration', 'parking_toll', 'tax', 'other')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  description TEXT,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS vehicle_expenses_vehicle_id_idx ON public.vehicle_expenses(vehicle_id, expense_date);
+
+-- Set up Row Level Security (RLS)
+ALTER TABLE public.vehicle_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+-- Allow users to view expenses for their own vehicles
+CREATE POLICY "Users can view own vehicle expenses" ON public.vehicle_expenses
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = vehicle_expenses.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to insert expenses for their own vehicles
+CREATE POLICY "Users can insert expenses for own vehicles" ON public.vehicle_expenses
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = vehicle_expenses.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to update expenses for their own vehicles
+CREATE POLICY "Users can update expenses for own vehicles" ON public.vehicle_expenses
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = vehicle_expenses.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Allow users to delete expenses for their own vehicles
+CREATE POLICY "Users can delete expenses for own vehicles" ON public.vehicle_expenses
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE vehicles.id = vehicle_expenses.vehicle_id
+      AND vehicles.user_id = auth.uid()
+    )
+  );
+
+-- Create function to update updated_at when an expense is updated
+CREATE OR REPLACE FUNCTION public.handle_vehicle_expense_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for expense updates
+DROP TRIGGER IF EXISTS on_vehicle_expense_updated ON public.vehicle_expenses;
+CREATE TRIGGER on_vehicle_expense_updated
+  BEFORE UPDATE ON public.vehicle_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.handle_vehicle_expense_updated_at();
@@ -0,0 +1,113 @@
+-- Store the currency of every money field, and a per-user exchange rate table
+-- that reports use to add up amounts in different currencies.
+-- Amounts saved without a currency get the owner's preferred currency.
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS preferred_currency TEXT DEFAULT 'USD';
+
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS purchase_price_currency TEXT
+  CHECK (purchase_price_currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.service_records ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.service_items ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.maintenance_records ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.fuel_entries ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.vehicle_expenses ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+
+-- The preferred currency of whoever owns a vehicle
+CREATE OR REPLACE FUNCTION public.vehicle_owner_currency(p_vehicle_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(profiles.preferred_currency, 'USD')
+  FROM public.vehicles
+  LEFT JOIN public.profiles ON profiles.id = vehicles.user_id
+  WHERE vehicles.id = p_vehicle_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Backfill existing amounts with the owner's preferred currency
+UPDATE public.vehicles
+SET purchase_price_currency = COALESCE(
+  (SELECT preferred_currency FROM public.profiles WHERE profiles.id = vehicles.user_id), 'USD')
+WHERE purchase_price_currency IS NULL;
+UPDATE public.service_records SET currency = public.vehicle_owner_currency(vehicle_id) WHERE currency IS NULL;
+UPDATE public.service_items
+SET currency = service_records.currency
+FROM public.service_records
+WHERE service_records.id = service_items.service_record_id AND service_items.currency IS NULL;
+UPDATE public.maintenance_records SET currency = public.vehicle_owner_currency(vehicle_id) WHERE currency IS NULL;
+UPDATE public.fuel_entries SET currency = public.vehicle_owner_currency(vehicle_id) WHERE currency IS NULL;
+UPDATE public.vehicle_expenses SET currency = public.vehicle_owner_currency(vehicle_id) WHERE currency IS NULL;
+
+-- Fill in the currency of new amounts; service items take their record's currency
+CREATE OR REPLACE FUNCTION public.set_default_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    IF TG_TABLE_NAME = 'service_items' THEN
+      SELECT currency INTO NEW.currency FROM public.service_records WHERE id = NEW.service_record_id;
+    ELSE
+      NEW.currency := public.vehicle_owner_currency(NEW.vehicle_id);
+    END IF;
+  END IF;
+  NEW.currency := COALESCE(NEW.currency, 'USD');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.set_default_purchase_price_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.purchase_price_currency IS NULL THEN
+    SELECT COALESCE(preferred_currency, 'USD') INTO NEW.purchase_price_currency
+    FROM public.profiles WHERE id = NEW.user_id;
+    NEW.purchase_price_currency := COALESCE(NEW.purchase_price_currency, 'USD');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_purchase_price_currency ON public.vehicles;
+CREATE TRIGGER set_purchase_price_currency
+  BEFORE INSERT OR UPDATE ON public.vehicles
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_purchase_price_currency();
+
+DROP TRIGGER IF EXISTS set_currency ON public.service_records;
+CREATE TRIGGER set_currency BEFORE INSERT OR UPDATE ON public.service_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_currency();
+
+DROP TRIGGER IF EXISTS set_currency ON public.service_items;
+CREATE TRIGGER set_currency BEFORE INSERT OR UPDATE ON public.service_items
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_currency();
+
+DROP TRIGGER IF EXISTS set_currency ON public.maintenance_records;
+CREATE TRIGGER set_currency BEFORE INSERT OR UPDATE ON public.maintenance_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_currency();
+
+DROP TRIGGER IF EXISTS set_currency ON public.fuel_entries;
+CREATE TRIGGER set_currency BEFORE INSERT OR UPDATE ON public.fuel_entries
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_currency();
+
+DROP TRIGGER IF EXISTS set_currency ON public.vehicle_expenses;
+CREATE TRIGGER set_currency BEFORE INSERT OR UPDATE ON public.vehicle_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_currency();
+
+-- Exchange rates, entered by the user rather than fetched: how many units of a
+-- currency one US dollar buys. Currencies without a row use the app's defaults.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  units_per_usd NUMERIC(14,6) NOT NULL CHECK (units_per_usd > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, currency)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exchange rates" ON public.exchange_rates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own exchange rates" ON public.exchange_rates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own exchange rates" ON public.exchange_rates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own exchange rates" ON public.exchange_rates
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,10 @@
+-- Odometer values (vehicles.mileage, odometer_readings.mileage, service and maintenance
+-- mileages, fuel_entries.odometer) are stored in miles. The app shows and takes them in
+-- the unit of the user's preferred_units, unless the vehicle's odometer reads in another
+-- unit, e.g. an imported car whose odometer reads km.
+
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS odometer_unit TEXT
+  CHECK (odometer_unit IN ('mi', 'km'));
+
+COMMENT ON COLUMN public.vehicles.mileage IS 'Miles, whatever unit the odometer reads in';
+COMMENT ON COLUMN public.vehicles.odometer_unit IS 'mi or km; NULL follows the owner''s preferred_units';
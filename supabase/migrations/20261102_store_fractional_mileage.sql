@@ -0,0 +1,13 @@
+-- Mileages are stored in miles but entered in the vehicle's odometer unit. Whole miles
+-- can't hold every kilometre reading, so a km value rounded to miles and back came out
+-- one off on every edit. Keep the converted value unrounded; the app rounds for display.
+
+ALTER TABLE public.vehicles ALTER COLUMN mileage TYPE NUMERIC;
+ALTER TABLE public.odometer_readings ALTER COLUMN mileage TYPE NUMERIC;
+ALTER TABLE public.service_records ALTER COLUMN mileage TYPE NUMERIC;
+ALTER TABLE public.service_items ALTER COLUMN next_service_mileage TYPE NUMERIC;
+ALTER TABLE public.maintenance_records ALTER COLUMN mileage TYPE NUMERIC;
+ALTER TABLE public.maintenance_records ALTER COLUMN next_service_mileage TYPE NUMERIC;
+ALTER TABLE public.pm_items ALTER COLUMN interval_miles TYPE NUMERIC;
+ALTER TABLE public.pm_items ALTER COLUMN last_service_mileage TYPE NUMERIC;
+ALTER TABLE public.fuel_entries ALTER COLUMN odometer TYPE NUMERIC;
@@ -0,0 +1,13 @@
+-- Only the server writes the usage ledger, with the service role. Users could insert
+-- rows into their own ledger, and a negative cost_usd reset their monthly quota.
+DROP POLICY IF EXISTS "Users can insert own usage" ON public.usage_events;
+
+-- Rows that could only have been written by hand don't count as usage
+DELETE FROM public.usage_events
+WHERE cost_usd < 0 OR prompt_tokens < 0 OR completion_tokens < 0 OR image_count < 0;
+
+ALTER TABLE public.usage_events
+  ADD CONSTRAINT usage_events_cost_usd_check CHECK (cost_usd >= 0),
+  ADD CONSTRAINT usage_events_prompt_tokens_check CHECK (prompt_tokens >= 0),
+  ADD CONSTRAINT usage_events_completion_tokens_check CHECK (completion_tokens >= 0),
+  ADD CONSTRAINT usage_events_image_count_check CHECK (image_count >= 0);
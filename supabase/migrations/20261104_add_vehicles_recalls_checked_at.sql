@@ -0,0 +1,4 @@
+-- When the recall monitor last checked a vehicle against NHTSA. A vehicle it has
+-- never checked has its existing campaigns recorded without notifying the owner.
+ALTER TABLE public.vehicles
+  ADD COLUMN IF NOT EXISTS recalls_checked_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildExchangeRateTable, canConvert, convertAmount, findMissingRates } from '../shared/currency.js';
+
+describe('buildExchangeRateTable', () => {
+  it('only holds the dollar and the rates the user entered', () => {
+    assert.deepEqual(buildExchangeRateTable([{ currency: 'EUR', units_per_usd: '0.9' }]), { EUR: 0.9, USD: 1 });
+    assert.deepEqual(buildExchangeRateTable(), { USD: 1 });
+  });
+
+  it('drops rates that are not positive numbers', () => {
+    assert.deepEqual(buildExchangeRateTable([
+      { currency: 'EUR', units_per_usd: 0 },
+      { currency: 'GBP', units_per_usd: 'n/a' },
+    ]), { USD: 1 });
+  });
+});
+
+describe('convertAmount', () => {
+  const table = buildExchangeRateTable([
+    { currency: 'EUR', units_per_usd: 0.8 },
+    { currency: 'GBP', units_per_usd: 0.5 },
+  ]);
+
+  it('converts through the dollar', () => {
+    assert.equal(convertAmount(10, 'USD', 'EUR', table), 8);
+    assert.equal(convertAmount(8, 'EUR', 'GBP', table), 5);
+  });
+
+  it('leaves amounts it has no rate for unchanged', () => {
+    assert.equal(canConvert('JPY', 'USD', table), false);
+    assert.equal(convertAmount(1500, 'JPY', 'USD', table), 1500);
+  });
+});
+
+describe('findMissingRates', () => {
+  const table = buildExchangeRateTable([{ currency: 'EUR', units_per_usd: 0.8 }]);
+
+  it('lists the currencies without a rate', () => {
+    assert.deepEqual(findMissingRates(['USD', 'EUR', 'JPY', 'GBP', 'JPY'], 'USD', table), ['GBP', 'JPY']);
+  });
+
+  it('takes amounts without a currency to be in the target one', () => {
+    assert.deepEqual(findMissingRates([null, undefined], 'GBP', table), []);
+  });
+
+  it('lists the target currency when it has no rate itself', () => {
+    assert.deepEqual(findMissingRates(['USD', 'EUR'], 'INR', table), ['INR']);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { coerceNumber, validateExtraction, validateFuelExtraction } from '../server/extractionSchema.js';
+
+describe('coerceNumber', () => {
+  it('reads a comma as the decimal separator', () => {
+    assert.deepEqual(coerceNumber('12,50 €'), { value: 12.5, coerced: true });
+    assert.deepEqual(coerceNumber('1.234,50'), { value: 1234.5, coerced: true });
+    assert.deepEqual(coerceNumber('€ 1 234,5'), { value: 1234.5, coerced: true });
+  });
+
+  it('reads a point as the decimal separator', () => {
+    assert.deepEqual(coerceNumber('$1,234.50'), { value: 1234.5, coerced: true });
+    assert.deepEqual(coerceNumber('3.459/gal'), { value: 3.459, coerced: true });
+  });
+
+  it('reads separators before three digits as thousands', () => {
+    assert.deepEqual(coerceNumber('45,123 mi'), { value: 45123, coerced: true });
+    assert.deepEqual(coerceNumber('1.234.567'), { value: 1234567, coerced: true });
+  });
+
+  it('reads accounting negatives', () => {
+    assert.deepEqual(coerceNumber('(12.50)'), { value: -12.5, coerced: true });
+  });
+
+  it('returns null without a number', () => {
+    assert.equal(coerceNumber('n/a'), null);
+    assert.equal(coerceNumber('.'), null);
+  });
+});
+
+describe('future dates', () => {
+  const serviceOn = serviceDate => ({ service_record: { service_date: serviceDate }, service_items: [] });
+
+  it("accepts a document dated on the user's today", () => {
+    const { data } = validateExtraction(serviceOn('2026-10-20'), { today: '2026-10-20' });
+    assert.equal(data.service_record.service_date, '2026-10-20');
+  });
+
+  it("rejects a document dated after the user's today", () => {
+    const { data, review } = validateExtraction(serviceOn('2026-10-21'), { today: '2026-10-20' });
+    assert.equal(data.service_record.service_date, null);
+    assert.equal(review.serviceInfo.serviceDate.reason, 'Service date 2026-10-21 is in the future');
+  });
+
+  it("accepts today in New Zealand when the user's date isn't known", () => {
+    const nzToday = new Date(Date.now() + 13 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const { data } = validateFuelExtraction({ fuel_entry: { fill_date: nzToday } });
+    assert.equal(data.fuel_entry.fill_date, nzToday);
+  });
+});
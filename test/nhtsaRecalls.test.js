@@ -0,0 +1,227 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  NHTSA_RECALLS_URL,
+  fetchNhtsaRecalls,
+  lookupVehicleRecalls,
+  mapNhtsaRecallToNotice,
+  syncRecallNotices,
+  uniqueNhtsaCampaigns,
+} from '../shared/nhtsaRecalls.js';
+
+// Recorded recallsByVehicle responses, answered in place of the live API
+const recordings = JSON.parse(readFileSync(new URL('./fixtures/nhtsaRecallsByVehicle.json', import.meta.url), 'utf8'));
+
+// What vPIC decodes the VIN of a 2018 Camry to
+const CAMRY_VIN = '4T1B11HK5JU000000';
+const camryVinDecode = {
+  Results: [
+    { Variable: 'Make', Value: 'TOYOTA' },
+    { Variable: 'Model', Value: 'Camry' },
+    { Variable: 'Model Year', Value: '2018' },
+    { Variable: 'Body Class', Value: 'Sedan/Saloon' },
+  ],
+};
+
+const sameText = (a, b) => a.trim().toUpperCase() === b.trim().toUpperCase();
+
+const replayNhtsa = async url => {
+  const { origin, pathname, searchParams } = new URL(url);
+  if (origin === 'https://vpic.nhtsa.dot.gov') {
+    return Response.json(pathname.includes(CAMRY_VIN) ? camryVinDecode : { Results: [] });
+  }
+  assert.equal(`${origin}${pathname}`, NHTSA_RECALLS_URL);
+  const recording = recordings.find(({ request }) =>
+    ['make', 'model', 'modelYear'].every(param => sameText(request[param], searchParams.get(param) || ''))
+  );
+  // Like the live API, vehicles it doesn't know get a 400
+  return recording
+    ? Response.json(recording.response)
+    : Response.json({ Count: 0, Message: 'Invalid vehicle', results: [] }, { status: 400 });
+};
+
+const campaignsFor = (make, model, modelYear) =>
+  recordings.find(({ request }) => sameText(request.make, make) && sameText(request.model, model) && request.modelYear === modelYear)
+    .response.results;
+
+describe('fetchNhtsaRecalls', () => {
+  const realFetch = globalThis.fetch;
+  before(() => {
+    globalThis.fetch = replayNhtsa;
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('returns the campaigns listed for a vehicle', async () => {
+    const campaigns = await fetchNhtsaRecalls('toyota', 'camry', '2018');
+    assert.deepEqual(campaigns.map(campaign => campaign.NHTSACampaignNumber), ['19V182000', '20V012000']);
+  });
+
+  it('returns no campaigns for a vehicle NHTSA does not know', async () => {
+    assert.deepEqual(await fetchNhtsaRecalls('Toyota', 'Camry', '1901'), []);
+  });
+
+  it('returns null when the API fails', async () => {
+    globalThis.fetch = async () => new Response('Service Unavailable', { status: 503 });
+    try {
+      assert.equal(await fetchNhtsaRecalls('Toyota', 'Camry', '2018'), null);
+    } finally {
+      globalThis.fetch = replayNhtsa;
+    }
+  });
+});
+
+describe('lookupVehicleRecalls', () => {
+  const realFetch = globalThis.fetch;
+  before(() => {
+    globalThis.fetch = replayNhtsa;
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('looks a vehicle up by its make, model and year', async () => {
+    const campaigns = await lookupVehicleRecalls({ make: 'Ford', model: 'F-150', year: 2021 });
+    assert.deepEqual(campaigns.map(campaign => campaign.NHTSACampaignNumber), ['21V433000', '21V560000']);
+  });
+
+  it('decodes the VIN of a vehicle known only by it', async () => {
+    const campaigns = await lookupVehicleRecalls({ make: '', model: '', year: '', vin: CAMRY_VIN });
+    assert.deepEqual(campaigns.map(campaign => campaign.NHTSACampaignNumber), ['19V182000', '20V012000']);
+  });
+
+  it('gives up on a vehicle with neither', async () => {
+    assert.equal(await lookupVehicleRecalls({ make: 'Ford', model: '', year: 2021 }), null);
+  });
+});
+
+describe('mapNhtsaRecallToNotice', () => {
+  const [brakeLamp] = campaignsFor('Toyota', 'Camry', '2018');
+  const [batteryBox, camera] = campaignsFor('Ford', 'F-150', '2021');
+
+  it('maps a campaign onto a new open notice', () => {
+    assert.deepEqual(mapNhtsaRecallToNotice(brakeLamp, 'vehicle-1'), {
+      vehicle_id: 'vehicle-1',
+      recall_number: '19V182000',
+      recall_date: '2019-03-07',
+      description: `${brakeLamp.Summary}\n\n${brakeLamp.Consequence}`,
+      severity: 'high',
+      status: 'open',
+      manufacturer: 'Toyota Motor Engineering & Manufacturing',
+      affected_components: ['ELECTRICAL SYSTEM'],
+      remedy: brakeLamp.Remedy,
+      notes: brakeLamp.Notes,
+    });
+  });
+
+  it('rates park-outside campaigns critical and over-the-air fixes low', () => {
+    assert.equal(mapNhtsaRecallToNotice(batteryBox, 'vehicle-2').severity, 'critical');
+    assert.equal(mapNhtsaRecallToNotice(camera, 'vehicle-2').severity, 'low');
+  });
+
+  it('splits the listed components', () => {
+    assert.deepEqual(mapNhtsaRecallToNotice(batteryBox, 'vehicle-2').affected_components, [
+      'ELECTRICAL SYSTEM:BATTERY:CABLES',
+      'ENGINE',
+    ]);
+  });
+
+  it('keeps the status and notes of a stored notice', () => {
+    const notice = mapNhtsaRecallToNotice(brakeLamp, 'vehicle-1', {
+      recall_date: '2019-03-07',
+      status: 'completed',
+      notes: null,
+    });
+    assert.equal(notice.status, 'completed');
+    assert.equal(notice.notes, null);
+  });
+});
+
+describe('uniqueNhtsaCampaigns', () => {
+  it('keeps the first listing of each campaign', () => {
+    const campaigns = campaignsFor('Ford', 'F-150', '2021');
+    const unique = uniqueNhtsaCampaigns([...campaigns, { ...campaigns[0], Component: 'ENGINE' }]);
+    assert.deepEqual(unique, campaigns);
+  });
+});
+
+// Stands in for the Supabase client with an in-memory recall_notices table
+const createRecallStore = (notices = []) => {
+  const table = notices.map((notice, index) => ({ id: `notice-${index + 1}`, ...notice }));
+  return {
+    table,
+    from: name => {
+      assert.equal(name, 'recall_notices');
+      return {
+        select: () => ({
+          eq: async (column, value) => ({ data: table.filter(notice => notice[column] === value), error: null }),
+        }),
+        upsert: (rows, { onConflict }) => {
+          assert.equal(onConflict, 'vehicle_id,recall_number');
+          const saved = rows.map(row => {
+            const stored = table.find(notice =>
+              notice.vehicle_id === row.vehicle_id && notice.recall_number === row.recall_number
+            );
+            if (stored) return Object.assign(stored, row);
+            const notice = { id: `notice-${table.length + 1}`, ...row };
+            table.push(notice);
+            return notice;
+          });
+          return { select: async () => ({ data: saved, error: null }) };
+        },
+      };
+    },
+  };
+};
+
+describe('syncRecallNotices', () => {
+  const realFetch = globalThis.fetch;
+  before(() => {
+    globalThis.fetch = replayNhtsa;
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const f150 = { id: 'vehicle-2', make: 'Ford', model: 'F-150', year: 2021 };
+  const numbers = notices => notices.map(notice => notice.recall_number);
+
+  it('stores every campaign as new on the first sync', async () => {
+    const store = createRecallStore();
+    const summary = await syncRecallNotices(store, f150);
+    assert.equal(summary.error, null);
+    assert.deepEqual(numbers(summary.newRecalls), ['21V433000', '21V560000']);
+    assert.deepEqual(summary.existingRecalls, []);
+    assert.deepEqual(summary.closedRecalls, []);
+    assert.deepEqual(numbers(store.table), ['21V433000', '21V560000']);
+  });
+
+  it('reports stored campaigns as existing on a re-sync without duplicating them', async () => {
+    const store = createRecallStore();
+    await syncRecallNotices(store, f150);
+    const summary = await syncRecallNotices(store, f150);
+    assert.deepEqual(summary.newRecalls, []);
+    assert.deepEqual(numbers(summary.existingRecalls), ['21V433000', '21V560000']);
+    assert.equal(store.table.length, 2);
+  });
+
+  it('reports a stored campaign marked completed as closed and keeps it completed', async () => {
+    const store = createRecallStore([
+      { vehicle_id: 'vehicle-2', recall_number: '21V433000', recall_date: '2021-06-14', status: 'completed', notes: 'Fixed at the dealer' },
+    ]);
+    const summary = await syncRecallNotices(store, f150);
+    assert.deepEqual(numbers(summary.newRecalls), ['21V560000']);
+    assert.deepEqual(numbers(summary.closedRecalls), ['21V433000']);
+    assert.equal(summary.closedRecalls[0].id, 'notice-1');
+    assert.equal(summary.closedRecalls[0].notes, 'Fixed at the dealer');
+  });
+
+  it('reports the lookup failing without touching stored notices', async () => {
+    const store = createRecallStore();
+    const summary = await syncRecallNotices(store, f150, async () => null);
+    assert.match(summary.error, /Could not reach the NHTSA recall service/);
+    assert.deepEqual(store.table, []);
+  });
+});
@@ -11,8 +11,7 @@ export default defineConfig(({ mode }) => {
   // Validate required environment variables
   const requiredEnvVars = [
     'VITE_SUPABASE_URL',
-    'VITE_SUPABASE_ANON_KEY',
-    'VITE_OPENAI_API_KEY'
+    'VITE_SUPABASE_ANON_KEY'
   ];
   
   const missingEnvVars = requiredEnvVars.filter(key => !env[key]);
@@ -27,7 +26,6 @@ export default defineConfig(({ mode }) => {
   define: {
     'import.meta.env.VITE_SUPABASE_URL': JSON.stringify(env.VITE_SUPABASE_URL),
     'import.meta.env.VITE_SUPABASE_ANON_KEY': JSON.stringify(env.VITE_SUPABASE_ANON_KEY),
-    'import.meta.env.VITE_OPENAI_API_KEY': JSON.stringify(env.VITE_OPENAI_API_KEY),
     'import.meta.env.VITE_APP_URL': JSON.stringify(env.VITE_APP_URL || 'http://localhost:5173')
   },
   plugins: [